@@ -7,7 +7,7 @@ import baseConfig from '../eslint.config.mjs'
 export default tseslint.config(
     baseConfig,
     {
-        ignores: ["src/Messages/signalling_messages.ts"],
+        ignores: ["src/Messages/signalling_messages.ts", "src/__test__/**/*.ts", "**/*.test.ts"],
     },
     {
         languageOptions: {
@@ -1,5 +1,5 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
-import { IMessageType } from '@protobuf-ts/runtime';
+import { IMessageType, JsonValue } from '@protobuf-ts/runtime';
 import { BaseMessage } from './base_message';
 import { Logger } from '../Logger/Logger';
 import { MessageRegistry } from './message_registry';
@@ -64,3 +64,32 @@ export function validateMessage(msg: BaseMessage): IMessageType<BaseMessage> | n
 
     return valid ? messageType : null;
 }
+
+/**
+ * Checks the supplied message against the protobuf schema of its type. Unlike validateMessage
+ * this checks the value of every field and logs nothing, which makes it suitable for checking
+ * messages from untrusted peers before acting on them.
+ * @param msg - The message object to test.
+ * @returns A description of the first problem found, or undefined if the message matches its schema.
+ */
+export function checkMessageSchema(msg: BaseMessage): string | undefined {
+    if (!msg || typeof msg !== 'object' || Array.isArray(msg)) {
+        return 'Message is not an object.';
+    }
+
+    if (typeof msg.type !== 'string' || !msg.type) {
+        return 'Message has no type.';
+    }
+
+    const messageType = MessageRegistry[msg.type];
+    if (!messageType) {
+        return `Message is of an unknown type: "${msg.type}".`;
+    }
+
+    try {
+        messageType.fromJson(msg as unknown as JsonValue);
+    } catch (e: unknown) {
+        return e instanceof Error ? e.message : `Message "${msg.type}" does not match its schema.`;
+    }
+    return undefined;
+}
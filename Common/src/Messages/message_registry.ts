@@ -18,16 +18,27 @@ export const MessageRegistry: Record<string, IMessageType<BaseMessage>> = {
     identify: Messages.identify,
     listStreamers: Messages.listStreamers,
     offer: Messages.offer,
+    operatorNotice: Messages.operatorNotice,
     ping: Messages.ping,
     playerConnected: Messages.playerConnected,
     playerCount: Messages.playerCount,
     playerDisconnected: Messages.playerDisconnected,
     pong: Messages.pong,
+    queuePosition: Messages.queuePosition,
+    refreshTicket: Messages.refreshTicket,
+    resumeFailed: Messages.resumeFailed,
+    resumeSession: Messages.resumeSession,
     stats: Messages.stats,
     streamerDisconnected: Messages.streamerDisconnected,
     streamerList: Messages.streamerList,
+    streamerMetadata: Messages.streamerMetadata,
     subscribe: Messages.subscribe,
+    subscribeAny: Messages.subscribeAny,
+    ticketExpiring: Messages.ticketExpiring,
+    ticketRefreshFailed: Messages.ticketRefreshFailed,
+    ticketRefreshed: Messages.ticketRefreshed,
     unsubscribe: Messages.unsubscribe,
+    wireFormat: Messages.wireFormat,
 
     layerPreference: Messages.layerPreference,
 
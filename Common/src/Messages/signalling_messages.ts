@@ -61,6 +61,37 @@ export interface config {
      * @generated from protobuf field: optional string protocolVersion = 3
      */
     protocolVersion?: string;
+    /**
+     * The wire formats the signalling server accepts besides JSON. A peer may
+     * pick one by replying with a `wireFormat` message.
+     *
+     * @generated from protobuf field: repeated string wireFormats = 4
+     */
+    wireFormats: string[];
+}
+/**
+ * *
+ * Sent by a peer in response to `config` to pick one of the wire formats the
+ * signalling server offered. The message itself is always sent as JSON. From
+ * then on both ends may send messages in the chosen format, while JSON is
+ * still accepted. 'protobuf' is the protobuf binary encoding of these
+ * messages sent as binary websocket frames.
+ *
+ * @generated from protobuf message wireFormat
+ */
+export interface wireFormat {
+    /**
+     * Should always be 'wireFormat'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * The chosen wire format. Either 'json' or 'protobuf'.
+     *
+     * @generated from protobuf field: string format = 2
+     */
+    format: string;
 }
 /**
  * *
@@ -111,6 +142,51 @@ export interface endpointId {
      * @generated from protobuf field: optional string protocolVersion = 3
      */
     protocolVersion?: string;
+    /**
+     * Arbitrary descriptive data about the streamer such as a map name or build version.
+     * Shown to players in the streamer list.
+     *
+     * @generated from protobuf field: map<string, string> metadata = 4
+     */
+    metadata: {
+        [key: string]: string;
+    };
+    /**
+     * Labels players can filter the streamer list by.
+     *
+     * @generated from protobuf field: repeated string tags = 5
+     */
+    tags: string[];
+}
+/**
+ * *
+ * Message is consumed by the Signalling Server. Replaces the metadata and
+ * tags the streamer gave in `endpointId`. May be sent at any time, for
+ * example when the streamer loads a new map.
+ *
+ * @generated from protobuf message streamerMetadata
+ */
+export interface streamerMetadata {
+    /**
+     * Should always be 'streamerMetadata'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * Arbitrary descriptive data about the streamer.
+     *
+     * @generated from protobuf field: map<string, string> metadata = 2
+     */
+    metadata: {
+        [key: string]: string;
+    };
+    /**
+     * Labels players can filter the streamer list by.
+     *
+     * @generated from protobuf field: repeated string tags = 3
+     */
+    tags: string[];
 }
 /**
  * *
@@ -133,6 +209,14 @@ export interface endpointIdConfirm {
      * @generated from protobuf field: string committedId = 2
      */
     committedId: string;
+    /**
+     * When sent to a player on a server with session resume enabled, a token the
+     * player can present in `resumeSession` to reclaim its ID and subscription
+     * after its connection drops.
+     *
+     * @generated from protobuf field: optional string resumeToken = 3
+     */
+    resumeToken?: string;
 }
 /**
  * *
@@ -173,6 +257,12 @@ export interface listStreamers {
      * @generated from protobuf field: string type = 1
      */
     type: string;
+    /**
+     * When set only streamers that have every one of these tags are listed.
+     *
+     * @generated from protobuf field: repeated string tags = 2
+     */
+    tags: string[];
 }
 /**
  * *
@@ -194,6 +284,34 @@ export interface streamerList {
      * @generated from protobuf field: repeated string ids = 2
      */
     ids: string[];
+    /**
+     * The metadata and tags of each listed streamer, in the same order as ids.
+     *
+     * @generated from protobuf field: repeated streamerDescription streamers = 3
+     */
+    streamers: streamerDescription[];
+}
+/**
+ * *
+ * A submessage that describes a streamer in a `streamerList`.
+ *
+ * @generated from protobuf message streamerDescription
+ */
+export interface streamerDescription {
+    /**
+     * @generated from protobuf field: string streamerId = 1
+     */
+    streamerId: string;
+    /**
+     * @generated from protobuf field: map<string, string> metadata = 2
+     */
+    metadata: {
+        [key: string]: string;
+    };
+    /**
+     * @generated from protobuf field: repeated string tags = 3
+     */
+    tags: string[];
 }
 /**
  * *
@@ -216,6 +334,22 @@ export interface subscribe {
      */
     streamerId: string;
 }
+/**
+ * *
+ * Message is consumed by the signalling server. Tells the signalling server
+ * that the player wants to subscribe to whichever streamer its routing policy
+ * picks.
+ *
+ * @generated from protobuf message subscribeAny
+ */
+export interface subscribeAny {
+    /**
+     * Should always be 'subscribeAny'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+}
 /**
  * *
  * Message is consumed by the signalling server. Tells the signalling server
@@ -251,6 +385,200 @@ export interface subscribeFailed {
      * @generated from protobuf field: string message = 2
      */
     message: string;
+    /**
+     * A machine readable reason. One of 'streamer_not_found', 'streamer_full',
+     * 'group_not_allowed', 'streamer_not_permitted' or 'server_draining'.
+     *
+     * @generated from protobuf field: optional string reason = 3
+     */
+    reason?: string;
+}
+/**
+ * *
+ * Sent to a player waiting for a full streamer when the waiting room is
+ * enabled. Sent when the player joins the queue, whenever its place changes
+ * and periodically while it waits. The player is subscribed automatically
+ * once it reaches the front and a slot frees up. A player can leave the
+ * queue with an `unsubscribe` message.
+ *
+ * @generated from protobuf message queuePosition
+ */
+export interface queuePosition {
+    /**
+     * Should always be 'queuePosition'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * The ID of the streamer the player is waiting for.
+     *
+     * @generated from protobuf field: string streamerId = 2
+     */
+    streamerId: string;
+    /**
+     * The player's place in line. 1 is next.
+     *
+     * @generated from protobuf field: int32 position = 3
+     */
+    position: number;
+    /**
+     * The number of players waiting for the streamer.
+     *
+     * @generated from protobuf field: int32 queueLength = 4
+     */
+    queueLength: number;
+}
+/**
+ * *
+ * Message is consumed by the signalling server. Sent by a player that has
+ * reconnected after its connection dropped. If the token is still valid the
+ * player takes over its previous ID and subscription without the streamer
+ * being notified, so the existing WebRTC session can carry on.
+ *
+ * @generated from protobuf message resumeSession
+ */
+export interface resumeSession {
+    /**
+     * Should always be 'resumeSession'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * The resume token from the last `endpointIdConfirm` the player received.
+     *
+     * @generated from protobuf field: string resumeToken = 2
+     */
+    resumeToken: string;
+}
+/**
+ * *
+ * Sent in response to a resumeSession message when the session could not be
+ * resumed. The player remains connected as a new player.
+ *
+ * @generated from protobuf message resumeFailed
+ */
+export interface resumeFailed {
+    /**
+     * Should always be 'resumeFailed'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * A description of what went wrong.
+     *
+     * @generated from protobuf field: string message = 2
+     */
+    message: string;
+}
+/**
+ * *
+ * Sent to a player whose connect ticket expires soon. The player should get a
+ * new ticket and send it in a `refreshTicket` message before `expiresAt`, or
+ * it may be disconnected when the ticket expires.
+ *
+ * @generated from protobuf message ticketExpiring
+ */
+export interface ticketExpiring {
+    /**
+     * Should always be 'ticketExpiring'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * When the current ticket expires, in seconds since the epoch.
+     *
+     * @generated from protobuf field: uint32 expiresAt = 2
+     */
+    expiresAt: number;
+}
+/**
+ * *
+ * Message is consumed by the signalling server. Sent by a player to replace
+ * its connect ticket without reconnecting.
+ *
+ * @generated from protobuf message refreshTicket
+ */
+export interface refreshTicket {
+    /**
+     * Should always be 'refreshTicket'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * The new connect ticket.
+     *
+     * @generated from protobuf field: string ticket = 2
+     */
+    ticket: string;
+}
+/**
+ * *
+ * Sent in response to a refreshTicket message when the new ticket was
+ * accepted.
+ *
+ * @generated from protobuf message ticketRefreshed
+ */
+export interface ticketRefreshed {
+    /**
+     * Should always be 'ticketRefreshed'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * When the new ticket expires, in seconds since the epoch. 0 if it does not.
+     *
+     * @generated from protobuf field: uint32 expiresAt = 2
+     */
+    expiresAt: number;
+}
+/**
+ * *
+ * Sent in response to a refreshTicket message when the new ticket was
+ * refused. The current ticket stays in place until it expires.
+ *
+ * @generated from protobuf message ticketRefreshFailed
+ */
+export interface ticketRefreshFailed {
+    /**
+     * Should always be 'ticketRefreshFailed'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * A description of what went wrong.
+     *
+     * @generated from protobuf field: string message = 2
+     */
+    message: string;
+}
+/**
+ * *
+ * Sent to every player subscribed to a streamer when an operator broadcasts
+ * a notice through the signalling server's admin API. Players should show the
+ * text to the user. The stream is not affected.
+ *
+ * @generated from protobuf message operatorNotice
+ */
+export interface operatorNotice {
+    /**
+     * Should always be 'operatorNotice'
+     *
+     * @generated from protobuf field: string type = 1
+     */
+    type: string;
+    /**
+     * The text of the notice.
+     *
+     * @generated from protobuf field: string message = 2
+     */
+    message: string;
 }
 /**
  * *
@@ -284,6 +612,15 @@ export interface playerConnected {
      * @generated from protobuf field: string playerId = 5
      */
     playerId: string;
+    /**
+     * Claims of the connect ticket the player authenticated with. Only the claims the
+     * signalling server is configured to forward are included. Empty for anonymous players.
+     *
+     * @generated from protobuf field: map<string, string> playerClaims = 6
+     */
+    playerClaims: {
+        [key: string]: string;
+    };
 }
 /**
  * *
@@ -821,12 +1158,14 @@ class config$Type extends MessageType<config> {
         super("config", [
             { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
             { no: 2, name: "peerConnectionOptions", kind: "message", T: () => peerConnectionOptions },
-            { no: 3, name: "protocolVersion", kind: "scalar", opt: true, T: 9 /*ScalarType.STRING*/ }
+            { no: 3, name: "protocolVersion", kind: "scalar", opt: true, T: 9 /*ScalarType.STRING*/ },
+            { no: 4, name: "wireFormats", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ }
         ]);
     }
     create(value?: PartialMessage<config>): config {
         const message = globalThis.Object.create((this.messagePrototype!));
         message.type = "";
+        message.wireFormats = [];
         if (value !== undefined)
             reflectionMergePartial<config>(this, message, value);
         return message;
@@ -845,6 +1184,9 @@ class config$Type extends MessageType<config> {
                 case /* optional string protocolVersion */ 3:
                     message.protocolVersion = reader.string();
                     break;
+                case /* repeated string wireFormats */ 4:
+                    message.wireFormats.push(reader.string());
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -866,6 +1208,9 @@ class config$Type extends MessageType<config> {
         /* optional string protocolVersion = 3; */
         if (message.protocolVersion !== undefined)
             writer.tag(3, WireType.LengthDelimited).string(message.protocolVersion);
+        /* repeated string wireFormats = 4; */
+        for (let i = 0; i < message.wireFormats.length; i++)
+            writer.tag(4, WireType.LengthDelimited).string(message.wireFormats[i]);
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -877,6 +1222,61 @@ class config$Type extends MessageType<config> {
  */
 export const config = new config$Type();
 // @generated message type with reflection information, may provide speed optimized methods
+class wireFormat$Type extends MessageType<wireFormat> {
+    constructor() {
+        super("wireFormat", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "format", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<wireFormat>): wireFormat {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.format = "";
+        if (value !== undefined)
+            reflectionMergePartial<wireFormat>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: wireFormat): wireFormat {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string format */ 2:
+                    message.format = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: wireFormat, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string format = 2; */
+        if (message.format !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.format);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message wireFormat
+ */
+export const wireFormat = new wireFormat$Type();
+// @generated message type with reflection information, may provide speed optimized methods
 class identify$Type extends MessageType<identify> {
     constructor() {
         super("identify", [
@@ -929,13 +1329,17 @@ class endpointId$Type extends MessageType<endpointId> {
         super("endpointId", [
             { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
             { no: 2, name: "id", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
-            { no: 3, name: "protocolVersion", kind: "scalar", opt: true, T: 9 /*ScalarType.STRING*/ }
+            { no: 3, name: "protocolVersion", kind: "scalar", opt: true, T: 9 /*ScalarType.STRING*/ },
+            { no: 4, name: "metadata", kind: "map", K: 9 /*ScalarType.STRING*/, V: { kind: "scalar", T: 9 /*ScalarType.STRING*/ } },
+            { no: 5, name: "tags", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ }
         ]);
     }
     create(value?: PartialMessage<endpointId>): endpointId {
         const message = globalThis.Object.create((this.messagePrototype!));
         message.type = "";
         message.id = "";
+        message.metadata = {};
+        message.tags = [];
         if (value !== undefined)
             reflectionMergePartial<endpointId>(this, message, value);
         return message;
@@ -954,6 +1358,12 @@ class endpointId$Type extends MessageType<endpointId> {
                 case /* optional string protocolVersion */ 3:
                     message.protocolVersion = reader.string();
                     break;
+                case /* map<string, string> metadata */ 4:
+                    this.binaryReadMap4(message.metadata, reader, options);
+                    break;
+                case /* repeated string tags */ 5:
+                    message.tags.push(reader.string());
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -965,6 +1375,22 @@ class endpointId$Type extends MessageType<endpointId> {
         }
         return message;
     }
+    private binaryReadMap4(map: endpointId["metadata"], reader: IBinaryReader, options: BinaryReadOptions): void {
+        let len = reader.uint32(), end = reader.pos + len, key: keyof endpointId["metadata"] | undefined, val: endpointId["metadata"][any] | undefined;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case 1:
+                    key = reader.string();
+                    break;
+                case 2:
+                    val = reader.string();
+                    break;
+                default: throw new globalThis.Error("unknown map entry field for endpointId.metadata");
+            }
+        }
+        map[key ?? ""] = val ?? "";
+    }
     internalBinaryWrite(message: endpointId, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
         /* string type = 1; */
         if (message.type !== "")
@@ -975,6 +1401,12 @@ class endpointId$Type extends MessageType<endpointId> {
         /* optional string protocolVersion = 3; */
         if (message.protocolVersion !== undefined)
             writer.tag(3, WireType.LengthDelimited).string(message.protocolVersion);
+        /* map<string, string> metadata = 4; */
+        for (let k of globalThis.Object.keys(message.metadata))
+            writer.tag(4, WireType.LengthDelimited).fork().tag(1, WireType.LengthDelimited).string(k).tag(2, WireType.LengthDelimited).string(message.metadata[k]).join();
+        /* repeated string tags = 5; */
+        for (let i = 0; i < message.tags.length; i++)
+            writer.tag(5, WireType.LengthDelimited).string(message.tags[i]);
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -986,22 +1418,24 @@ class endpointId$Type extends MessageType<endpointId> {
  */
 export const endpointId = new endpointId$Type();
 // @generated message type with reflection information, may provide speed optimized methods
-class endpointIdConfirm$Type extends MessageType<endpointIdConfirm> {
+class streamerMetadata$Type extends MessageType<streamerMetadata> {
     constructor() {
-        super("endpointIdConfirm", [
+        super("streamerMetadata", [
             { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
-            { no: 2, name: "committedId", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+            { no: 2, name: "metadata", kind: "map", K: 9 /*ScalarType.STRING*/, V: { kind: "scalar", T: 9 /*ScalarType.STRING*/ } },
+            { no: 3, name: "tags", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ }
         ]);
     }
-    create(value?: PartialMessage<endpointIdConfirm>): endpointIdConfirm {
+    create(value?: PartialMessage<streamerMetadata>): streamerMetadata {
         const message = globalThis.Object.create((this.messagePrototype!));
         message.type = "";
-        message.committedId = "";
+        message.metadata = {};
+        message.tags = [];
         if (value !== undefined)
-            reflectionMergePartial<endpointIdConfirm>(this, message, value);
+            reflectionMergePartial<streamerMetadata>(this, message, value);
         return message;
     }
-    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: endpointIdConfirm): endpointIdConfirm {
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: streamerMetadata): streamerMetadata {
         let message = target ?? this.create(), end = reader.pos + length;
         while (reader.pos < end) {
             let [fieldNo, wireType] = reader.tag();
@@ -1009,9 +1443,90 @@ class endpointIdConfirm$Type extends MessageType<endpointIdConfirm> {
                 case /* string type */ 1:
                     message.type = reader.string();
                     break;
-                case /* string committedId */ 2:
+                case /* map<string, string> metadata */ 2:
+                    this.binaryReadMap2(message.metadata, reader, options);
+                    break;
+                case /* repeated string tags */ 3:
+                    message.tags.push(reader.string());
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    private binaryReadMap2(map: streamerMetadata["metadata"], reader: IBinaryReader, options: BinaryReadOptions): void {
+        let len = reader.uint32(), end = reader.pos + len, key: keyof streamerMetadata["metadata"] | undefined, val: streamerMetadata["metadata"][any] | undefined;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case 1:
+                    key = reader.string();
+                    break;
+                case 2:
+                    val = reader.string();
+                    break;
+                default: throw new globalThis.Error("unknown map entry field for streamerMetadata.metadata");
+            }
+        }
+        map[key ?? ""] = val ?? "";
+    }
+    internalBinaryWrite(message: streamerMetadata, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* map<string, string> metadata = 2; */
+        for (let k of globalThis.Object.keys(message.metadata))
+            writer.tag(2, WireType.LengthDelimited).fork().tag(1, WireType.LengthDelimited).string(k).tag(2, WireType.LengthDelimited).string(message.metadata[k]).join();
+        /* repeated string tags = 3; */
+        for (let i = 0; i < message.tags.length; i++)
+            writer.tag(3, WireType.LengthDelimited).string(message.tags[i]);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message streamerMetadata
+ */
+export const streamerMetadata = new streamerMetadata$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class endpointIdConfirm$Type extends MessageType<endpointIdConfirm> {
+    constructor() {
+        super("endpointIdConfirm", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "committedId", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 3, name: "resumeToken", kind: "scalar", opt: true, T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<endpointIdConfirm>): endpointIdConfirm {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.committedId = "";
+        if (value !== undefined)
+            reflectionMergePartial<endpointIdConfirm>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: endpointIdConfirm): endpointIdConfirm {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string committedId */ 2:
                     message.committedId = reader.string();
                     break;
+                case /* optional string resumeToken */ 3:
+                    message.resumeToken = reader.string();
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -1030,6 +1545,9 @@ class endpointIdConfirm$Type extends MessageType<endpointIdConfirm> {
         /* string committedId = 2; */
         if (message.committedId !== "")
             writer.tag(2, WireType.LengthDelimited).string(message.committedId);
+        /* optional string resumeToken = 3; */
+        if (message.resumeToken !== undefined)
+            writer.tag(3, WireType.LengthDelimited).string(message.resumeToken);
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -1099,12 +1617,14 @@ export const streamerIdChanged = new streamerIdChanged$Type();
 class listStreamers$Type extends MessageType<listStreamers> {
     constructor() {
         super("listStreamers", [
-            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "tags", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ }
         ]);
     }
     create(value?: PartialMessage<listStreamers>): listStreamers {
         const message = globalThis.Object.create((this.messagePrototype!));
         message.type = "";
+        message.tags = [];
         if (value !== undefined)
             reflectionMergePartial<listStreamers>(this, message, value);
         return message;
@@ -1117,6 +1637,9 @@ class listStreamers$Type extends MessageType<listStreamers> {
                 case /* string type */ 1:
                     message.type = reader.string();
                     break;
+                case /* repeated string tags */ 2:
+                    message.tags.push(reader.string());
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -1132,6 +1655,9 @@ class listStreamers$Type extends MessageType<listStreamers> {
         /* string type = 1; */
         if (message.type !== "")
             writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* repeated string tags = 2; */
+        for (let i = 0; i < message.tags.length; i++)
+            writer.tag(2, WireType.LengthDelimited).string(message.tags[i]);
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -1147,13 +1673,15 @@ class streamerList$Type extends MessageType<streamerList> {
     constructor() {
         super("streamerList", [
             { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
-            { no: 2, name: "ids", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ }
+            { no: 2, name: "ids", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ },
+            { no: 3, name: "streamers", kind: "message", repeat: 2 /*RepeatType.UNPACKED*/, T: () => streamerDescription }
         ]);
     }
     create(value?: PartialMessage<streamerList>): streamerList {
         const message = globalThis.Object.create((this.messagePrototype!));
         message.type = "";
         message.ids = [];
+        message.streamers = [];
         if (value !== undefined)
             reflectionMergePartial<streamerList>(this, message, value);
         return message;
@@ -1169,6 +1697,9 @@ class streamerList$Type extends MessageType<streamerList> {
                 case /* repeated string ids */ 2:
                     message.ids.push(reader.string());
                     break;
+                case /* repeated streamerDescription streamers */ 3:
+                    message.streamers.push(streamerDescription.internalBinaryRead(reader, reader.uint32(), options));
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -1187,6 +1718,9 @@ class streamerList$Type extends MessageType<streamerList> {
         /* repeated string ids = 2; */
         for (let i = 0; i < message.ids.length; i++)
             writer.tag(2, WireType.LengthDelimited).string(message.ids[i]);
+        /* repeated streamerDescription streamers = 3; */
+        for (let i = 0; i < message.streamers.length; i++)
+            streamerDescription.internalBinaryWrite(message.streamers[i], writer.tag(3, WireType.LengthDelimited).fork(), options).join();
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -1198,6 +1732,85 @@ class streamerList$Type extends MessageType<streamerList> {
  */
 export const streamerList = new streamerList$Type();
 // @generated message type with reflection information, may provide speed optimized methods
+class streamerDescription$Type extends MessageType<streamerDescription> {
+    constructor() {
+        super("streamerDescription", [
+            { no: 1, name: "streamerId", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "metadata", kind: "map", K: 9 /*ScalarType.STRING*/, V: { kind: "scalar", T: 9 /*ScalarType.STRING*/ } },
+            { no: 3, name: "tags", kind: "scalar", repeat: 2 /*RepeatType.UNPACKED*/, T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<streamerDescription>): streamerDescription {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.streamerId = "";
+        message.metadata = {};
+        message.tags = [];
+        if (value !== undefined)
+            reflectionMergePartial<streamerDescription>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: streamerDescription): streamerDescription {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string streamerId */ 1:
+                    message.streamerId = reader.string();
+                    break;
+                case /* map<string, string> metadata */ 2:
+                    this.binaryReadMap2(message.metadata, reader, options);
+                    break;
+                case /* repeated string tags */ 3:
+                    message.tags.push(reader.string());
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    private binaryReadMap2(map: streamerDescription["metadata"], reader: IBinaryReader, options: BinaryReadOptions): void {
+        let len = reader.uint32(), end = reader.pos + len, key: keyof streamerDescription["metadata"] | undefined, val: streamerDescription["metadata"][any] | undefined;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case 1:
+                    key = reader.string();
+                    break;
+                case 2:
+                    val = reader.string();
+                    break;
+                default: throw new globalThis.Error("unknown map entry field for streamerDescription.metadata");
+            }
+        }
+        map[key ?? ""] = val ?? "";
+    }
+    internalBinaryWrite(message: streamerDescription, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string streamerId = 1; */
+        if (message.streamerId !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.streamerId);
+        /* map<string, string> metadata = 2; */
+        for (let k of globalThis.Object.keys(message.metadata))
+            writer.tag(2, WireType.LengthDelimited).fork().tag(1, WireType.LengthDelimited).string(k).tag(2, WireType.LengthDelimited).string(message.metadata[k]).join();
+        /* repeated string tags = 3; */
+        for (let i = 0; i < message.tags.length; i++)
+            writer.tag(3, WireType.LengthDelimited).string(message.tags[i]);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message streamerDescription
+ */
+export const streamerDescription = new streamerDescription$Type();
+// @generated message type with reflection information, may provide speed optimized methods
 class subscribe$Type extends MessageType<subscribe> {
     constructor() {
         super("subscribe", [
@@ -1253,6 +1866,53 @@ class subscribe$Type extends MessageType<subscribe> {
  */
 export const subscribe = new subscribe$Type();
 // @generated message type with reflection information, may provide speed optimized methods
+class subscribeAny$Type extends MessageType<subscribeAny> {
+    constructor() {
+        super("subscribeAny", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<subscribeAny>): subscribeAny {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        if (value !== undefined)
+            reflectionMergePartial<subscribeAny>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: subscribeAny): subscribeAny {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: subscribeAny, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message subscribeAny
+ */
+export const subscribeAny = new subscribeAny$Type();
+// @generated message type with reflection information, may provide speed optimized methods
 class unsubscribe$Type extends MessageType<unsubscribe> {
     constructor() {
         super("unsubscribe", [
@@ -1304,7 +1964,8 @@ class subscribeFailed$Type extends MessageType<subscribeFailed> {
     constructor() {
         super("subscribeFailed", [
             { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
-            { no: 2, name: "message", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+            { no: 2, name: "message", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 3, name: "reason", kind: "scalar", opt: true, T: 9 /*ScalarType.STRING*/ }
         ]);
     }
     create(value?: PartialMessage<subscribeFailed>): subscribeFailed {
@@ -1326,6 +1987,9 @@ class subscribeFailed$Type extends MessageType<subscribeFailed> {
                 case /* string message */ 2:
                     message.message = reader.string();
                     break;
+                case /* optional string reason */ 3:
+                    message.reason = reader.string();
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -1344,6 +2008,9 @@ class subscribeFailed$Type extends MessageType<subscribeFailed> {
         /* string message = 2; */
         if (message.message !== "")
             writer.tag(2, WireType.LengthDelimited).string(message.message);
+        /* optional string reason = 3; */
+        if (message.reason !== undefined)
+            writer.tag(3, WireType.LengthDelimited).string(message.reason);
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -1355,13 +2022,470 @@ class subscribeFailed$Type extends MessageType<subscribeFailed> {
  */
 export const subscribeFailed = new subscribeFailed$Type();
 // @generated message type with reflection information, may provide speed optimized methods
+class queuePosition$Type extends MessageType<queuePosition> {
+    constructor() {
+        super("queuePosition", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "streamerId", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 3, name: "position", kind: "scalar", T: 5 /*ScalarType.INT32*/ },
+            { no: 4, name: "queueLength", kind: "scalar", T: 5 /*ScalarType.INT32*/ }
+        ]);
+    }
+    create(value?: PartialMessage<queuePosition>): queuePosition {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.streamerId = "";
+        message.position = 0;
+        message.queueLength = 0;
+        if (value !== undefined)
+            reflectionMergePartial<queuePosition>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: queuePosition): queuePosition {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string streamerId */ 2:
+                    message.streamerId = reader.string();
+                    break;
+                case /* int32 position */ 3:
+                    message.position = reader.int32();
+                    break;
+                case /* int32 queueLength */ 4:
+                    message.queueLength = reader.int32();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: queuePosition, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string streamerId = 2; */
+        if (message.streamerId !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.streamerId);
+        /* int32 position = 3; */
+        if (message.position !== 0)
+            writer.tag(3, WireType.Varint).int32(message.position);
+        /* int32 queueLength = 4; */
+        if (message.queueLength !== 0)
+            writer.tag(4, WireType.Varint).int32(message.queueLength);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message queuePosition
+ */
+export const queuePosition = new queuePosition$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class resumeSession$Type extends MessageType<resumeSession> {
+    constructor() {
+        super("resumeSession", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "resumeToken", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<resumeSession>): resumeSession {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.resumeToken = "";
+        if (value !== undefined)
+            reflectionMergePartial<resumeSession>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: resumeSession): resumeSession {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string resumeToken */ 2:
+                    message.resumeToken = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: resumeSession, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string resumeToken = 2; */
+        if (message.resumeToken !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.resumeToken);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message resumeSession
+ */
+export const resumeSession = new resumeSession$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class resumeFailed$Type extends MessageType<resumeFailed> {
+    constructor() {
+        super("resumeFailed", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "message", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<resumeFailed>): resumeFailed {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.message = "";
+        if (value !== undefined)
+            reflectionMergePartial<resumeFailed>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: resumeFailed): resumeFailed {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string message */ 2:
+                    message.message = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: resumeFailed, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string message = 2; */
+        if (message.message !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.message);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message resumeFailed
+ */
+export const resumeFailed = new resumeFailed$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class ticketExpiring$Type extends MessageType<ticketExpiring> {
+    constructor() {
+        super("ticketExpiring", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "expiresAt", kind: "scalar", T: 13 /*ScalarType.UINT32*/ }
+        ]);
+    }
+    create(value?: PartialMessage<ticketExpiring>): ticketExpiring {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.expiresAt = 0;
+        if (value !== undefined)
+            reflectionMergePartial<ticketExpiring>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: ticketExpiring): ticketExpiring {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* uint32 expiresAt */ 2:
+                    message.expiresAt = reader.uint32();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: ticketExpiring, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* uint32 expiresAt = 2; */
+        if (message.expiresAt !== 0)
+            writer.tag(2, WireType.Varint).uint32(message.expiresAt);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message ticketExpiring
+ */
+export const ticketExpiring = new ticketExpiring$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class refreshTicket$Type extends MessageType<refreshTicket> {
+    constructor() {
+        super("refreshTicket", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "ticket", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<refreshTicket>): refreshTicket {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.ticket = "";
+        if (value !== undefined)
+            reflectionMergePartial<refreshTicket>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: refreshTicket): refreshTicket {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string ticket */ 2:
+                    message.ticket = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: refreshTicket, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string ticket = 2; */
+        if (message.ticket !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.ticket);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message refreshTicket
+ */
+export const refreshTicket = new refreshTicket$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class ticketRefreshed$Type extends MessageType<ticketRefreshed> {
+    constructor() {
+        super("ticketRefreshed", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "expiresAt", kind: "scalar", T: 13 /*ScalarType.UINT32*/ }
+        ]);
+    }
+    create(value?: PartialMessage<ticketRefreshed>): ticketRefreshed {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.expiresAt = 0;
+        if (value !== undefined)
+            reflectionMergePartial<ticketRefreshed>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: ticketRefreshed): ticketRefreshed {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* uint32 expiresAt */ 2:
+                    message.expiresAt = reader.uint32();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: ticketRefreshed, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* uint32 expiresAt = 2; */
+        if (message.expiresAt !== 0)
+            writer.tag(2, WireType.Varint).uint32(message.expiresAt);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message ticketRefreshed
+ */
+export const ticketRefreshed = new ticketRefreshed$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class ticketRefreshFailed$Type extends MessageType<ticketRefreshFailed> {
+    constructor() {
+        super("ticketRefreshFailed", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "message", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<ticketRefreshFailed>): ticketRefreshFailed {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.message = "";
+        if (value !== undefined)
+            reflectionMergePartial<ticketRefreshFailed>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: ticketRefreshFailed): ticketRefreshFailed {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string message */ 2:
+                    message.message = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: ticketRefreshFailed, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string message = 2; */
+        if (message.message !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.message);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message ticketRefreshFailed
+ */
+export const ticketRefreshFailed = new ticketRefreshFailed$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class operatorNotice$Type extends MessageType<operatorNotice> {
+    constructor() {
+        super("operatorNotice", [
+            { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 2, name: "message", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+        ]);
+    }
+    create(value?: PartialMessage<operatorNotice>): operatorNotice {
+        const message = globalThis.Object.create((this.messagePrototype!));
+        message.type = "";
+        message.message = "";
+        if (value !== undefined)
+            reflectionMergePartial<operatorNotice>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(reader: IBinaryReader, length: number, options: BinaryReadOptions, target?: operatorNotice): operatorNotice {
+        let message = target ?? this.create(), end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* string type */ 1:
+                    message.type = reader.string();
+                    break;
+                case /* string message */ 2:
+                    message.message = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === "throw")
+                        throw new globalThis.Error(`Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`);
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: operatorNotice, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* string type = 1; */
+        if (message.type !== "")
+            writer.tag(1, WireType.LengthDelimited).string(message.type);
+        /* string message = 2; */
+        if (message.message !== "")
+            writer.tag(2, WireType.LengthDelimited).string(message.message);
+        let u = options.writeUnknownFields;
+        if (u !== false)
+            (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message operatorNotice
+ */
+export const operatorNotice = new operatorNotice$Type();
+// @generated message type with reflection information, may provide speed optimized methods
 class playerConnected$Type extends MessageType<playerConnected> {
     constructor() {
         super("playerConnected", [
             { no: 1, name: "type", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
             { no: 2, name: "dataChannel", kind: "scalar", T: 8 /*ScalarType.BOOL*/ },
             { no: 3, name: "sfu", kind: "scalar", T: 8 /*ScalarType.BOOL*/ },
-            { no: 5, name: "playerId", kind: "scalar", T: 9 /*ScalarType.STRING*/ }
+            { no: 5, name: "playerId", kind: "scalar", T: 9 /*ScalarType.STRING*/ },
+            { no: 6, name: "playerClaims", kind: "map", K: 9 /*ScalarType.STRING*/, V: { kind: "scalar", T: 9 /*ScalarType.STRING*/ } }
         ]);
     }
     create(value?: PartialMessage<playerConnected>): playerConnected {
@@ -1370,6 +2494,7 @@ class playerConnected$Type extends MessageType<playerConnected> {
         message.dataChannel = false;
         message.sfu = false;
         message.playerId = "";
+        message.playerClaims = {};
         if (value !== undefined)
             reflectionMergePartial<playerConnected>(this, message, value);
         return message;
@@ -1391,6 +2516,9 @@ class playerConnected$Type extends MessageType<playerConnected> {
                 case /* string playerId */ 5:
                     message.playerId = reader.string();
                     break;
+                case /* map<string, string> playerClaims */ 6:
+                    this.binaryReadMap6(message.playerClaims, reader, options);
+                    break;
                 default:
                     let u = options.readUnknownField;
                     if (u === "throw")
@@ -1402,6 +2530,22 @@ class playerConnected$Type extends MessageType<playerConnected> {
         }
         return message;
     }
+    private binaryReadMap6(map: playerConnected["playerClaims"], reader: IBinaryReader, options: BinaryReadOptions): void {
+        let len = reader.uint32(), end = reader.pos + len, key: keyof playerConnected["playerClaims"] | undefined, val: playerConnected["playerClaims"][any] | undefined;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case 1:
+                    key = reader.string();
+                    break;
+                case 2:
+                    val = reader.string();
+                    break;
+                default: throw new globalThis.Error("unknown map entry field for playerConnected.playerClaims");
+            }
+        }
+        map[key ?? ""] = val ?? "";
+    }
     internalBinaryWrite(message: playerConnected, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
         /* string type = 1; */
         if (message.type !== "")
@@ -1415,6 +2559,9 @@ class playerConnected$Type extends MessageType<playerConnected> {
         /* string playerId = 5; */
         if (message.playerId !== "")
             writer.tag(5, WireType.LengthDelimited).string(message.playerId);
+        /* map<string, string> playerClaims = 6; */
+        for (let k of globalThis.Object.keys(message.playerClaims))
+            writer.tag(6, WireType.LengthDelimited).fork().tag(1, WireType.LengthDelimited).string(k).tag(2, WireType.LengthDelimited).string(message.playerClaims[k]).join();
         let u = options.writeUnknownFields;
         if (u !== false)
             (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
@@ -0,0 +1,177 @@
+import { linkedTransports, MockTransport } from '../__test__/mockTransport';
+import { Logger, LogLevel } from '../Logger/Logger';
+import { BaseMessage } from '../Messages/base_message';
+import { createMessage } from '../Messages/message_helpers';
+import * as Messages from '../Messages/signalling_messages';
+import { SignallingProtocol } from './SignallingProtocol';
+import { decodeProtobufMessage, encodeProtobufMessage } from './WireFormat';
+
+// accepts the wire format a peer selects, the way the signalling server does.
+function acceptWireFormat(protocol: SignallingProtocol) {
+    protocol.on(Messages.wireFormat.typeName, (message: Messages.wireFormat) => {
+        if (message.format == 'json' || message.format == 'protobuf') {
+            protocol.wireFormat = message.format;
+        }
+    });
+}
+
+describe('SignallingProtocol', () => {
+    let transport: MockTransport;
+    let protocol: SignallingProtocol;
+    let received: BaseMessage[];
+
+    beforeAll(() => {
+        Logger.InitLogging(LogLevel.Disabled, false);
+    });
+
+    beforeEach(() => {
+        transport = new MockTransport();
+        protocol = new SignallingProtocol(transport);
+        received = [];
+        protocol.on(Messages.offer.typeName, (message: BaseMessage) => received.push(message));
+    });
+
+    it('should send messages as JSON text by default', () => {
+        const offer = createMessage(Messages.offer, { sdp: 'v=0' });
+        protocol.sendMessage(offer);
+
+        expect(protocol.wireFormat).toEqual('json');
+        expect(transport.sent).toEqual([JSON.stringify(offer)]);
+    });
+
+    it('should receive JSON sent as text', () => {
+        const offer = createMessage(Messages.offer, { sdp: 'v=0' });
+        transport.receive(JSON.stringify(offer));
+
+        expect(received).toEqual([offer]);
+    });
+
+    it('should receive JSON sent in a binary frame', () => {
+        const offer = createMessage(Messages.offer, { sdp: 'v=0' });
+        transport.receive(new TextEncoder().encode(JSON.stringify(offer)));
+
+        expect(received).toEqual([offer]);
+    });
+
+    it('should receive protobuf messages while sending JSON', () => {
+        const offer = createMessage(Messages.offer, { sdp: 'v=0' });
+        transport.receive(encodeProtobufMessage(offer)!);
+
+        expect(protocol.wireFormat).toEqual('json');
+        expect(received).toEqual([offer]);
+    });
+
+    it('should drop binary messages that cannot be decoded', () => {
+        const unhandled = jest.fn();
+        protocol.on('unhandled', unhandled);
+        transport.receive(new Uint8Array([0x0a, 0xff]));
+
+        expect(received).toEqual([]);
+        expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('should select protobuf when it is offered and send later messages in it', () => {
+        expect(protocol.selectWireFormat(['protobuf'])).toEqual('protobuf');
+
+        // the selection itself is sent as JSON so any server can read it
+        expect(transport.sent.length).toEqual(1);
+        expect(JSON.parse(transport.sent[0] as string)).toEqual({ type: 'wireFormat', format: 'protobuf' });
+
+        const offer = createMessage(Messages.offer, { sdp: 'v=0' });
+        protocol.sendMessage(offer);
+
+        expect(transport.sent[1]).toBeInstanceOf(Uint8Array);
+        expect(decodeProtobufMessage(transport.sent[1] as Uint8Array)).toEqual(offer);
+    });
+
+    it('should only send the wireFormat message once', () => {
+        protocol.selectWireFormat(['protobuf']);
+        protocol.selectWireFormat(['protobuf']);
+
+        expect(transport.sent.length).toEqual(1);
+    });
+
+    it.each([undefined, [], ['json']])('should stay on JSON when offered %p', (offered) => {
+        expect(protocol.selectWireFormat(offered)).toEqual('json');
+        expect(transport.sent).toEqual([]);
+    });
+
+    it('should fall back to JSON for messages that cannot be encoded in protobuf', () => {
+        protocol.wireFormat = 'protobuf';
+        const message = { type: 'customMessage', value: 1 };
+        protocol.sendMessage(message);
+
+        expect(transport.sent).toEqual([JSON.stringify(message)]);
+    });
+
+    describe('negotiation', () => {
+        let server: SignallingProtocol;
+        let client: SignallingProtocol;
+        let serverTransport: MockTransport;
+        let clientTransport: MockTransport;
+
+        beforeEach(() => {
+            [serverTransport, clientTransport] = linkedTransports();
+            server = new SignallingProtocol(serverTransport);
+            client = new SignallingProtocol(clientTransport);
+            acceptWireFormat(server);
+        });
+
+        it('should switch both ends to protobuf when the client picks it', () => {
+            client.on(Messages.config.typeName, (message: Messages.config) => {
+                client.selectWireFormat(message.wireFormats);
+            });
+            server.sendMessage(createMessage(Messages.config, { wireFormats: ['protobuf'] }));
+
+            expect(client.wireFormat).toEqual('protobuf');
+            expect(server.wireFormat).toEqual('protobuf');
+
+            const fromServer = jest.fn();
+            const fromClient = jest.fn();
+            client.on(Messages.offer.typeName, fromServer);
+            server.on(Messages.answer.typeName, fromClient);
+            const offer = createMessage(Messages.offer, { sdp: 'offer' });
+            const answer = createMessage(Messages.answer, { sdp: 'answer' });
+            server.sendMessage(offer);
+            client.sendMessage(answer);
+
+            expect(serverTransport.sent[1]).toBeInstanceOf(Uint8Array);
+            expect(clientTransport.sent[1]).toBeInstanceOf(Uint8Array);
+            expect(fromServer).toHaveBeenCalledWith(offer);
+            expect(fromClient).toHaveBeenCalledWith(answer);
+        });
+
+        it('should keep a JSON only client on JSON', () => {
+            // older clients ignore the wireFormats field and never send a wireFormat message
+            const fromServer = jest.fn();
+            const fromClient = jest.fn();
+            client.on(Messages.config.typeName, () => {});
+            client.on(Messages.offer.typeName, fromServer);
+            server.on(Messages.answer.typeName, fromClient);
+            server.sendMessage(createMessage(Messages.config, { wireFormats: ['protobuf'] }));
+
+            const offer = createMessage(Messages.offer, { sdp: 'offer' });
+            const answer = createMessage(Messages.answer, { sdp: 'answer' });
+            server.sendMessage(offer);
+            client.sendMessage(answer);
+
+            expect(server.wireFormat).toEqual('json');
+            expect(client.wireFormat).toEqual('json');
+            expect(serverTransport.sent.every((msg) => typeof msg === 'string')).toBe(true);
+            expect(clientTransport.sent).toEqual([JSON.stringify(answer)]);
+            expect(fromServer).toHaveBeenCalledWith(offer);
+            expect(fromClient).toHaveBeenCalledWith(answer);
+        });
+
+        it('should keep the client on JSON when the server offers nothing', () => {
+            client.on(Messages.config.typeName, (message: Messages.config) => {
+                client.selectWireFormat(message.wireFormats);
+            });
+            server.sendMessage(createMessage(Messages.config, {}));
+
+            expect(client.wireFormat).toEqual('json');
+            expect(server.wireFormat).toEqual('json');
+            expect(clientTransport.sent).toEqual([]);
+        });
+    });
+});
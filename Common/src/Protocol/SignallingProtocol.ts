@@ -4,6 +4,9 @@ import { ITransport } from '../Transport/ITransport';
 import { EventEmitter } from '../Event/EventEmitter';
 import { BaseMessage } from '../Messages/base_message';
 import { Logger } from '../Logger/Logger';
+import { WireFormat, decodeProtobufMessage, encodeProtobufMessage, isProtobufMessage } from './WireFormat';
+import { createMessage } from '../Messages/message_helpers';
+import * as Messages from '../Messages/signalling_messages';
 
 /**
  * Signalling protocol for handling messages from the signalling server.
@@ -23,6 +26,10 @@ import { Logger } from '../Logger/Logger';
  *   out:
  *      Emitted when sending a message out on the transport. Similar to 'message' but
  *      only for when messages are sent from this endpoint. Useful for debugging.
+ *
+ * Messages are sent as JSON unless wireFormat is changed, usually after negotiating
+ * with the other end through the config and wireFormat messages. Received messages
+ * are accepted in any wire format.
  */
 export class SignallingProtocol extends EventEmitter {
     static get SIGNALLING_VERSION(): string {
@@ -32,11 +39,36 @@ export class SignallingProtocol extends EventEmitter {
     // The transport in use by this protocol object.
     transport: ITransport;
 
+    /**
+     * An optional filter called with every parsed message before it is emitted. Returning
+     * false drops the message so no listeners see it.
+     */
+    messageFilter?: (message: BaseMessage) => boolean;
+
+    // The wire format used for outgoing messages. Messages that cannot be encoded in it are sent as JSON.
+    wireFormat: WireFormat;
+
     constructor(transport: ITransport) {
         super();
         this.transport = transport;
+        this.wireFormat = 'json';
+
+        transport.onMessage = (data: string | Uint8Array) => {
+            let msg: string;
+            if (typeof data === 'string') {
+                msg = data;
+            } else if (isProtobufMessage(data)) {
+                try {
+                    this.dispatchMessage(decodeProtobufMessage(data));
+                } catch (e: unknown) {
+                    const reason = e instanceof Error ? e.message : 'Unknown error';
+                    Logger.Error(`Error decoding binary message of ${data.length} bytes.\n${reason}`);
+                }
+                return;
+            } else {
+                msg = new TextDecoder().decode(data);
+            }
 
-        transport.onMessage = (msg: string) => {
             let parsedMessage: BaseMessage;
             try {
                 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
@@ -52,13 +84,7 @@ export class SignallingProtocol extends EventEmitter {
                 return;
             }
 
-            // call the handlers
-            transport.emit('message', parsedMessage); // emit this for listeners listening to any message
-            if (!this.emit(parsedMessage.type, parsedMessage)) {
-                // emit this for listeners listening for specific messages
-                // no listeners
-                this.emit('unhandled', parsedMessage);
-            }
+            this.dispatchMessage(parsedMessage);
         };
     }
 
@@ -93,8 +119,39 @@ export class SignallingProtocol extends EventEmitter {
      * @param msg - The message to send.
      */
     sendMessage(msg: BaseMessage): void {
-        this.transport.sendMessage(JSON.stringify(msg));
+        const encoded = this.wireFormat == 'protobuf' ? encodeProtobufMessage(msg) : null;
+        this.transport.sendMessage(encoded || JSON.stringify(msg));
         this.transport.emit('out', msg); // emit this for listeners listening to outgoing messages
         Logger.Debug('Protocol sent => \n' + JSON.stringify(msg, undefined, 4));
     }
+
+    /**
+     * Picks the wire format for this end of the connection from the formats the signalling
+     * server offered in its config message. If the server offers the protobuf format a
+     * wireFormat message is sent to select it and outgoing messages switch to protobuf.
+     * Servers that offer nothing are older servers that only speak JSON.
+     * @param offered - The wireFormats field of the config message.
+     * @returns The wire format now in use.
+     */
+    selectWireFormat(offered: string[] | undefined): WireFormat {
+        if (offered && offered.includes('protobuf') && this.wireFormat != 'protobuf') {
+            this.sendMessage(createMessage(Messages.wireFormat, { format: 'protobuf' }));
+            this.wireFormat = 'protobuf';
+        }
+        return this.wireFormat;
+    }
+
+    private dispatchMessage(message: BaseMessage): void {
+        if (this.messageFilter && !this.messageFilter(message)) {
+            return;
+        }
+
+        // call the handlers
+        this.transport.emit('message', message); // emit this for listeners listening to any message
+        if (!this.emit(message.type, message)) {
+            // emit this for listeners listening for specific messages
+            // no listeners
+            this.emit('unhandled', message);
+        }
+    }
 }
@@ -0,0 +1,53 @@
+import { createMessage } from '../Messages/message_helpers';
+import * as Messages from '../Messages/signalling_messages';
+import { decodeProtobufMessage, encodeProtobufMessage, isProtobufMessage } from './WireFormat';
+
+describe('WireFormat', () => {
+    it('should round trip messages through the protobuf encoding', () => {
+        const messages = [
+            createMessage(Messages.offer, { sdp: 'v=0', playerId: '12', sfu: false }),
+            createMessage(Messages.iceCandidate, {
+                playerId: '12',
+                candidate: { candidate: 'candidate:1 1 udp', sdpMid: '0', sdpMLineIndex: 0 }
+            }),
+            createMessage(Messages.config, { protocolVersion: '1.0.0', wireFormats: ['protobuf'] }),
+            createMessage(Messages.streamerList, { ids: ['a', 'b'] })
+        ];
+
+        for (const message of messages) {
+            const encoded = encodeProtobufMessage(message);
+            expect(encoded).not.toBeNull();
+            expect(isProtobufMessage(encoded!)).toBe(true);
+            expect(decodeProtobufMessage(encoded!)).toEqual(message);
+        }
+    });
+
+    it('should not encode messages of unknown types', () => {
+        expect(encodeProtobufMessage({ type: 'notAMessage' })).toBeNull();
+    });
+
+    it('should not encode messages with fields outside their schema', () => {
+        const message = createMessage(Messages.config, { protocolVersion: '1.0.0' }) as Messages.config;
+        message.peerConnectionOptions = { iceServers: [{ urls: ['stun:example.com'] }] } as object;
+
+        expect(encodeProtobufMessage(message)).toBeNull();
+    });
+
+    it('should not treat JSON text in a binary frame as protobuf', () => {
+        const json = JSON.stringify(createMessage(Messages.ping, { time: 1 }));
+
+        expect(isProtobufMessage(new TextEncoder().encode(json))).toBe(false);
+        expect(isProtobufMessage(new Uint8Array())).toBe(false);
+    });
+
+    it('should throw when decoding a message without a known type', () => {
+        const unknownType = encodeProtobufMessage(createMessage(Messages.ping, { time: 1 }))!;
+        // rewrite the type name in place to one that has the same length but is not registered
+        unknownType.set(new TextEncoder().encode('pung'), 2);
+
+        expect(() => decodeProtobufMessage(new Uint8Array([0x10, 0x01]))).toThrow(
+            'Binary message has no type.'
+        );
+        expect(() => decodeProtobufMessage(unknownType)).toThrow('unknown type: "pung"');
+    });
+});
@@ -0,0 +1,73 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { BinaryReader, WireType } from '@protobuf-ts/runtime';
+import { BaseMessage } from '../Messages/base_message';
+import { MessageRegistry } from '../Messages/message_registry';
+
+/**
+ * The encodings signalling messages can be sent in.
+ * 'json': Messages are JSON strings sent as text frames. Every peer supports this.
+ * 'protobuf': Messages are the protobuf binary encoding of their type sent as binary frames.
+ */
+export type WireFormat = 'json' | 'protobuf';
+
+// every message starts with its type as field 1, so the first byte of the protobuf
+// encoding is always the tag of a length delimited field 1. JSON starts with '{'.
+const PROTOBUF_FIRST_BYTE = 0x0a;
+
+/**
+ * Returns true if the binary data holds a protobuf encoded message rather than JSON text.
+ * Some peers send JSON in binary frames so the frame type alone does not tell.
+ */
+export function isProtobufMessage(data: Uint8Array): boolean {
+    return data.length > 0 && data[0] == PROTOBUF_FIRST_BYTE;
+}
+
+/**
+ * Encodes a message in the protobuf binary format. Messages of unknown types or with fields
+ * that are not part of their schema cannot be encoded without losing data.
+ * @param msg - The message to encode.
+ * @returns The encoded message or null if it can only be sent as JSON.
+ */
+export function encodeProtobufMessage(msg: BaseMessage): Uint8Array | null {
+    const messageType = MessageRegistry[msg.type];
+    if (!messageType) {
+        return null;
+    }
+
+    try {
+        return messageType.toBinary(messageType.fromJsonString(JSON.stringify(msg)));
+    } catch (e: unknown) {
+        return null;
+    }
+}
+
+/**
+ * Decodes a protobuf encoded message. The type is read from field 1 and the rest of the
+ * message is decoded with the matching type from the MessageRegistry.
+ * @param data - The encoded message.
+ * @returns The decoded message.
+ * @throws If the type is missing or unknown, or the data is not a valid message.
+ */
+export function decodeProtobufMessage(data: Uint8Array): BaseMessage {
+    const reader = new BinaryReader(data);
+    let typeName: string | undefined;
+    while (reader.pos < reader.len) {
+        const [fieldNo, wireType] = reader.tag();
+        if (fieldNo == 1 && wireType == WireType.LengthDelimited) {
+            typeName = reader.string();
+            break;
+        }
+        reader.skip(wireType);
+    }
+
+    if (!typeName) {
+        throw new Error('Binary message has no type.');
+    }
+
+    const messageType = MessageRegistry[typeName];
+    if (!messageType) {
+        throw new Error(`Binary message is of an unknown type: "${typeName}".`);
+    }
+
+    return messageType.fromBinary(data);
+}
@@ -9,14 +9,16 @@ import { EventEmitter } from '../Event/EventEmitter';
 export interface ITransport extends EventEmitter {
     /**
      * Called when the protocol wants to send a message over the transport.
-     * @param msg - The message to send over the transport.
+     * @param msg - The message to send over the transport. Strings are JSON, binary data is
+     * a protobuf encoded message.
      */
-    sendMessage(msg: string): void;
+    sendMessage(msg: string | Uint8Array): void;
 
     /**
      * Callback filled in by the SignallingProtocol and should be called by the transport when a new message arrives.
+     * Text should be passed as a string and binary data as a Uint8Array.
      */
-    onMessage?: (msg: string) => void;
+    onMessage?: (msg: string | Uint8Array) => void;
 
     /**
      * Connect to a given URL.
@@ -29,17 +29,17 @@ export class WebSocketTransport extends EventEmitter implements ITransport {
     }
 
     /**
-     * Sends a message over the websocket.
+     * Sends a message over the websocket. Strings are sent as text frames and binary data as binary frames.
      * @param msg - The message to send.
      */
-    sendMessage(msg: string): void {
+    sendMessage(msg: string | Uint8Array): void {
         if (this.webSocket) {
             this.webSocket.send(msg);
         }
     }
 
     // A handler for when messages are received.
-    onMessage?: (msg: string) => void;
+    onMessage?: (msg: string | Uint8Array) => void;
 
     /**
      * Connect to the signaling server
@@ -50,6 +50,8 @@ export class WebSocketTransport extends EventEmitter implements ITransport {
         Logger.Info(connectionURL);
         try {
             this.webSocket = new WebSocket(connectionURL, this.protocols);
+            // array buffers can be handed over without waiting so message order is kept.
+            this.webSocket.binaryType = 'arraybuffer';
             this.webSocket.onopen = (_: Event) => this.handleOnOpen();
             this.webSocket.onerror = (_: Event) => this.handleOnError();
             this.webSocket.onclose = (event: CloseEvent) => this.handleOnClose(event);
@@ -119,6 +121,13 @@ export class WebSocketTransport extends EventEmitter implements ITransport {
             return;
         }
 
+        if (event.data instanceof ArrayBuffer) {
+            if (this.onMessage) {
+                this.onMessage(new Uint8Array(event.data));
+            }
+            return;
+        }
+
         if (this.onMessage) {
             this.onMessage(event.data as string);
         }
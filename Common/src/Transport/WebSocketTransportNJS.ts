@@ -4,6 +4,26 @@ import { ITransport } from './ITransport';
 import { EventEmitter } from '../Event/EventEmitter';
 import WebSocket from 'ws';
 
+function messageSize(data: WebSocket.Data): number {
+    if (typeof data === 'string') {
+        return Buffer.byteLength(data);
+    }
+    if (Array.isArray(data)) {
+        return data.reduce((total, chunk) => total + chunk.byteLength, 0);
+    }
+    return data.byteLength;
+}
+
+function messageContent(data: WebSocket.Data): string | Uint8Array {
+    if (typeof data === 'string') {
+        return data;
+    }
+    if (Array.isArray(data)) {
+        return Buffer.concat(data);
+    }
+    return data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+}
+
 /**
  * An implementation of WebSocketTransport from pixelstreamingcommon that supports node.js websockets
  * This is needed because of the slight differences between the 'ws' node.js package and the websockets
@@ -15,6 +35,15 @@ export class WebSocketTransportNJS extends EventEmitter implements ITransport {
     webSocket?: WebSocket;
     protocols?: string | string[];
 
+    // The largest message in bytes this transport passes on. 0 means no limit.
+    maxMessageBytes = 0;
+
+    /**
+     * Called when a message larger than maxMessageBytes arrives. Return true to pass the
+     * message on regardless. Without this callback oversized messages are dropped.
+     */
+    onMessageTooLarge?: (size: number, limit: number) => boolean;
+
     /**
      * Constructs a new instance of a WebSocketTransport for node contexts.
      * @param existingSocket - An existing WebSocket to use.
@@ -44,17 +73,17 @@ export class WebSocketTransportNJS extends EventEmitter implements ITransport {
     }
 
     /**
-     * Sends a message over the websocket.
+     * Sends a message over the websocket. Strings are sent as text frames and binary data as binary frames.
      * @param msg - The message to send.
      */
-    sendMessage(msg: string): void {
+    sendMessage(msg: string | Uint8Array): void {
         if (this.webSocket) {
             this.webSocket.send(msg);
         }
     }
 
     // A handler for when messages are received.
-    onMessage?: (msg: string) => void;
+    onMessage?: (msg: string | Uint8Array) => void;
 
     /**
      * Connect to the signaling server
@@ -92,8 +121,20 @@ export class WebSocketTransportNJS extends EventEmitter implements ITransport {
      * @param event - Message Received
      */
     handleOnMessage(event: WebSocket.MessageEvent): void {
+        if (this.maxMessageBytes > 0) {
+            const size = messageSize(event.data);
+            if (size > this.maxMessageBytes) {
+                const deliver = this.onMessageTooLarge
+                    ? this.onMessageTooLarge(size, this.maxMessageBytes)
+                    : false;
+                if (!deliver) {
+                    return;
+                }
+            }
+        }
+
         if (this.onMessage) {
-            this.onMessage(event.data as string);
+            this.onMessage(messageContent(event.data));
         }
     }
 
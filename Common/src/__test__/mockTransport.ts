@@ -0,0 +1,47 @@
+import { EventEmitter } from '../Event/EventEmitter';
+import { ITransport } from '../Transport/ITransport';
+
+/**
+ * A transport that keeps everything sent over it. When linked to another MockTransport
+ * everything sent is delivered to the other end, the way a websocket would.
+ */
+export class MockTransport extends EventEmitter implements ITransport {
+    sent: Array<string | Uint8Array> = [];
+    peer?: MockTransport;
+
+    onMessage?: (msg: string | Uint8Array) => void;
+
+    sendMessage(msg: string | Uint8Array): void {
+        this.sent.push(msg);
+        if (this.peer?.onMessage) {
+            this.peer.onMessage(msg);
+        }
+    }
+
+    connect(_url: string): boolean {
+        return true;
+    }
+
+    disconnect(_code?: number, _reason?: string): void {}
+
+    isConnected(): boolean {
+        return true;
+    }
+
+    receive(msg: string | Uint8Array): void {
+        if (this.onMessage) {
+            this.onMessage(msg);
+        }
+    }
+}
+
+/**
+ * Creates two linked transports, like the two ends of a websocket.
+ */
+export function linkedTransports(): [MockTransport, MockTransport] {
+    const a = new MockTransport();
+    const b = new MockTransport();
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+}
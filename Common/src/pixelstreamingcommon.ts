@@ -4,6 +4,12 @@ export { ITransport } from './Transport/ITransport';
 export { WebSocketTransport } from './Transport/WebSocketTransport';
 export { WebSocketTransportNJS } from './Transport/WebSocketTransportNJS';
 export { SignallingProtocol } from './Protocol/SignallingProtocol';
+export {
+    WireFormat,
+    isProtobufMessage,
+    encodeProtobufMessage,
+    decodeProtobufMessage
+} from './Protocol/WireFormat';
 export { IMessageType } from '@protobuf-ts/runtime';
 export { BaseMessage } from './Messages/base_message';
 export { EventEmitter } from './Event/EventEmitter';
@@ -145,6 +145,7 @@ export class Streamer extends EventEmitter {
         if (msg.peerConnectionOptions !== undefined) {
             this.peerConnectionOptions = msg.peerConnectionOptions;
         }
+        this.protocol.selectWireFormat(msg.wireFormats);
     }
 
     handleIdentifyMessage(_msg: Messages.identify) {
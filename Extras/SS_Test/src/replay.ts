@@ -0,0 +1,212 @@
+import { TestContext, SignallingConnection } from './signalling_tester';
+import WebSocket from 'ws';
+import fs from 'fs';
+import path from 'path';
+import { MessageRegistry } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import config from './config';
+
+// replays sessions recorded by the signalling server (--record_sessions) against a running
+// signalling server. every recording becomes one connection. messages the peer sent are sent
+// again and messages the server sent are expected again, in the order they were recorded.
+//
+// usage: node dist/replay.js [options] <recording.jsonl>...
+//   --streamer_url <url>  where recorded streamers connect. defaults to config.streamerURL
+//   --player_url <url>    where recorded players connect. defaults to config.playerURL
+//   --sfu_url <url>       where recorded SFUs connect. defaults to ws://127.0.0.1:8889
+//   --timeout <ms>        how long to wait for each step of expected messages. defaults to 5000
+
+interface SessionRecord {
+    seq: number;
+    ts: string;
+    t: number;
+    event: 'open' | 'message' | 'close';
+    id: string;
+    role?: 'streamer' | 'player' | 'sfu';
+    direction?: 'in' | 'out';
+    message?: any;
+    code?: number;
+    reason?: string;
+}
+
+interface RecordedSession {
+    name: string;
+    role: string;
+    records: SessionRecord[];
+}
+
+interface ReplayStep {
+    session: RecordedSession;
+    record: SessionRecord;
+}
+
+interface ReplayOptions {
+    urls: { [role: string]: string };
+    timeout: number;
+    files: string[];
+}
+
+// fields holding ids the server hands out. they can differ between the recording and the replay.
+const ID_FIELDS = ['playerId', 'streamerId', 'id'];
+
+function logFunction(connection: SignallingConnection, message: string): void {
+    console.log(`${connection.name}: ${message}`);
+}
+
+function parseArguments(args: string[]): ReplayOptions {
+    const options: ReplayOptions = {
+        urls: {
+            streamer: config.streamerURL,
+            player: config.playerURL,
+            sfu: 'ws://127.0.0.1:8889'
+        },
+        timeout: 5000,
+        files: []
+    };
+
+    for (let i = 0; i < args.length; ++i) {
+        const arg = args[i];
+        if (arg == '--streamer_url' || arg == '--player_url' || arg == '--sfu_url') {
+            options.urls[arg.slice(2, -4)] = args[++i];
+        } else if (arg == '--timeout') {
+            options.timeout = parseInt(args[++i], 10);
+        } else {
+            options.files.push(arg);
+        }
+    }
+
+    return options;
+}
+
+function loadSession(file: string): RecordedSession {
+    const records: SessionRecord[] = fs
+        .readFileSync(file, 'utf-8')
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line));
+
+    const open = records.find((record) => record.event == 'open');
+    if (!open || !open.role) {
+        throw new Error(`${file} is not a session recording. It has no open record.`);
+    }
+
+    return { name: `${open.role} ${path.basename(file)}`, role: open.role, records: records };
+}
+
+async function main(): Promise<void> {
+    const options = parseArguments(process.argv.slice(2));
+    if (options.files.length == 0) {
+        console.log(
+            'usage: node dist/replay.js [--streamer_url url] [--player_url url] [--sfu_url url] [--timeout ms] <recording.jsonl>...'
+        );
+        process.exit(1);
+    }
+
+    // merge every recording into one timeline so connections act in the recorded order.
+    // recordings made by the same server are ordered by their sequence numbers.
+    const steps: ReplayStep[] = [];
+    for (const file of options.files) {
+        const session = loadSession(file);
+        for (const record of session.records) {
+            steps.push({ session: session, record: record });
+        }
+    }
+    steps.sort((a, b) => Date.parse(a.record.ts) - Date.parse(b.record.ts) || a.record.seq - b.record.seq);
+
+    const context = new TestContext(logFunction);
+    const connections: { [name: string]: SignallingConnection } = {};
+    const idMap: { [recordedId: string]: string } = {};
+    let pending: SignallingConnection[] = [];
+    let stepNumber = 0;
+
+    const remapIds = (message: any) => {
+        const remapped = Object.assign({}, message);
+        for (const field of ID_FIELDS) {
+            if (typeof remapped[field] === 'string' && idMap[remapped[field]]) {
+                remapped[field] = idMap[remapped[field]];
+            }
+        }
+        return remapped;
+    };
+
+    const learnIds = (recorded: any, actual: any) => {
+        for (const field of ID_FIELDS.concat(['committedId'])) {
+            if (
+                typeof recorded[field] === 'string' &&
+                typeof actual[field] === 'string' &&
+                recorded[field] != actual[field]
+            ) {
+                idMap[recorded[field]] = actual[field];
+            }
+        }
+    };
+
+    // waits for every expected message so far before the next message is sent.
+    const flush = async () => {
+        if (pending.length == 0) {
+            return;
+        }
+        stepNumber++;
+        if (!(await context.validateStep(options.timeout, pending))) {
+            console.log(`Replay step ${stepNumber} failed.`);
+            for (const error of context.errors) {
+                console.log(`  ${error}`);
+            }
+            process.exit(1);
+        }
+        pending = [];
+    };
+
+    const expectFrom = (connection: SignallingConnection) => {
+        if (pending.indexOf(connection) < 0) {
+            pending.push(connection);
+        }
+    };
+
+    for (const step of steps) {
+        const session = step.session;
+        const record = step.record;
+        let connection = connections[session.name];
+
+        if (record.event == 'open') {
+            connection = context.newConnection(session.name, options.urls[session.role]);
+            connections[session.name] = connection;
+            connection.addEventExpect('open', (event: WebSocket.Event) => {});
+            expectFrom(connection);
+            continue;
+        }
+
+        if (!connection) {
+            continue;
+        }
+
+        if (record.event == 'close') {
+            await flush();
+            connection.close(record.code || 1000, record.reason || '');
+            delete connections[session.name];
+            continue;
+        }
+
+        const messageType = MessageRegistry[record.message.type];
+        if (!messageType) {
+            console.log(`${session.name}: Skipping message of unknown type ${record.message.type}`);
+            continue;
+        }
+
+        if (record.direction == 'out') {
+            connection.addExpect(messageType, (message: any) => learnIds(record.message, message));
+            expectFrom(connection);
+        } else {
+            await flush();
+            connection.sendMessage(messageType, remapIds(record.message));
+        }
+    }
+
+    await flush();
+    console.log('Replay done.');
+    process.exit(0);
+}
+
+main().catch((error: Error) => {
+    console.log(`Replay failed: ${error.message}`);
+    process.exit(1);
+});
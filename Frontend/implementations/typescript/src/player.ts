@@ -551,7 +551,7 @@ document.body.onload = function() {
         removeSessionStorage(playerQueryStateStorageKey);
     }
 
-    const connectTicket =
+    let connectTicket =
         connectTicketFromQuery || readSessionStorage(connectTicketStorageKey)?.trim() || '';
     const reconnectContext =
         reconnectContextFromHash ??
@@ -650,6 +650,57 @@ document.body.onload = function() {
         config.setFlagEnabled(Flags.AutoConnect, true);
     }
 
+    // ask for a new ticket before the current one expires so the session is not disconnected.
+    // the new ticket is also used if the player reconnects. the refresh endpoint is POSTed
+    // { ticket, sessionId, sessionRequestId } and answers { ticket }.
+    stream.addEventListener('ticketExpiring', ({ data: { expiresAt } }) => {
+        const connectTicketRefreshUrl = config
+            .getTextSettingValue(TextParameters.ConnectTicketRefreshUrl)
+            .trim();
+        if (!connectTicket || !connectTicketRefreshUrl) {
+            Logger.Warning(
+                `Connect ticket expires at ${new Date(expiresAt * 1000).toISOString()} and cannot be refreshed.`
+            );
+            return;
+        }
+
+        void fetch(connectTicketRefreshUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                ticket: connectTicket,
+                sessionId: reconnectContext?.sessionId ?? null,
+                sessionRequestId: reconnectContext?.sessionRequestId ?? null
+            }),
+            credentials: 'include'
+        })
+            .then(async (response) => {
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status}`);
+                }
+
+                const body = (await response.json()) as { ticket?: unknown };
+                const refreshedTicket = typeof body.ticket === 'string' ? body.ticket.trim() : '';
+                if (!refreshedTicket) {
+                    throw new Error('response has no ticket');
+                }
+
+                connectTicket = refreshedTicket;
+                writeSessionStorage(connectTicketStorageKey, refreshedTicket);
+                stream.refreshConnectTicket(refreshedTicket);
+            })
+            .catch((error: unknown) => {
+                Logger.Warning(`Failed to refresh connect ticket: ${String(error)}`);
+            });
+    });
+    stream.addEventListener('ticketRefreshed', ({ data: { accepted, message } }) => {
+        if (!accepted) {
+            Logger.Warning(`Signalling server refused the refreshed connect ticket: ${message}`);
+        }
+    });
+
     const sessionNetworkPathCorrelationId =
         reconnectContext?.sessionId?.trim() ||
         reconnectContext?.sessionRequestId?.trim() ||
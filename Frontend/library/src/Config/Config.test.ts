@@ -100,6 +100,17 @@ describe('Config', () => {
         ).toEqual(changedSettings[OptionParameters.PreferredCodec]);
     });
 
+    it('should read the connect ticket refresh url from the url parameters', () => {
+        window.history.replaceState({}, '', '/?ct_refresh_url=https%3A%2F%2Fexample.com%2Frefresh');
+
+        const config = new Config({ useUrlParams: true });
+
+        expect(
+            config.getTextSettingValue(TextParameters.ConnectTicketRefreshUrl)
+        ).toEqual('https://example.com/refresh');
+        window.history.replaceState({}, '', '/');
+    });
+
     it('should replace setting values when new settings are set with set* setters', () => {
         const config = new Config();
 
@@ -81,6 +81,8 @@ export const isNumericId = (id: string): id is NumericParametersIds =>
  */
 export class TextParameters {
     static SignallingServerUrl = 'ss' as const;
+    static StreamerTags = 'StreamerTags' as const;
+    static ConnectTicketRefreshUrl = 'ct_refresh_url' as const;
 }
 
 export type TextParametersKeys = Exclude<keyof typeof TextParameters, 'prototype'>;
@@ -202,6 +204,33 @@ export class Config {
             )
         );
 
+        this.textParameters.set(
+            TextParameters.StreamerTags,
+            new SettingText(
+                TextParameters.StreamerTags,
+                'Streamer tags',
+                'Comma separated tags a streamer must have to be listed. Empty lists every streamer.',
+                settings && Object.prototype.hasOwnProperty.call(settings, TextParameters.StreamerTags)
+                    ? settings[TextParameters.StreamerTags]
+                    : '',
+                useUrlParams
+            )
+        );
+
+        this.textParameters.set(
+            TextParameters.ConnectTicketRefreshUrl,
+            new SettingText(
+                TextParameters.ConnectTicketRefreshUrl,
+                'Connect ticket refresh url',
+                'Url a new connect ticket is fetched from when the current one expires soon. Empty disables ticket refresh.',
+                settings &&
+                Object.prototype.hasOwnProperty.call(settings, TextParameters.ConnectTicketRefreshUrl)
+                    ? settings[TextParameters.ConnectTicketRefreshUrl]
+                    : '',
+                useUrlParams
+            )
+        );
+
         this.optionParameters.set(
             OptionParameters.StreamerId,
             new SettingOption(
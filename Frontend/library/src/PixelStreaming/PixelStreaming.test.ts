@@ -4,9 +4,9 @@ import {
     NumericParameters,
 } from '../Config/Config';
 import { PixelStreaming } from './PixelStreaming';
-import { SettingsChangedEvent, StreamerListMessageEvent, WebRtcConnectedEvent, WebRtcSdpEvent } from '../Util/EventEmitter';
+import { SettingsChangedEvent, StreamerListMessageEvent, TicketExpiringEvent, TicketRefreshedEvent, WebRtcConnectedEvent, WebRtcSdpEvent } from '../Util/EventEmitter';
 import { mockWebSocket, MockWebSocketSpyFunctions, MockWebSocketTriggerFunctions, unmockWebSocket } from '../__test__/mockWebSocket';
-import { BaseMessage, Messages, MessageHelpers } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { BaseMessage, Messages, MessageHelpers, decodeProtobufMessage, encodeProtobufMessage } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
 import { mockRTCPeerConnection, MockRTCPeerConnectionSpyFunctions, MockRTCPeerConnectionTriggerFunctions, unmockRTCPeerConnection } from '../__test__/mockRTCPeerConnection';
 import { mockHTMLMediaElement, mockMediaStream, unmockMediaStream } from '../__test__/mockMediaStream';
 import { InitialSettings } from '../DataChannel/InitialSettings';
@@ -233,6 +233,145 @@ describe('PixelStreaming', () => {
         expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledTimes(3);
     });
 
+    it('should resume the session without renegotiating when the websocket drops', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const disconnectedSpy = jest.fn();
+        const resumingSpy = jest.fn();
+        const resumedSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("webRtcDisconnected", disconnectedSpy);
+        pixelStreaming.addEventListener("sessionResuming", resumingSpy);
+        pixelStreaming.addEventListener("sessionResumed", resumedSpy);
+
+        establishMockedPixelStreamingConnection();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player0', resumeToken: 'token-1' }));
+        const peerConnectionCount = (rtcPeerConnectionSpyFunctions.constructorSpy as jest.Mock).mock.calls.length;
+        const peerCloseCount = (rtcPeerConnectionSpyFunctions.closeSpy as jest.Mock).mock.calls.length;
+        (webSocketSpyFunctions.sendSpy as jest.Mock).mockClear();
+
+        webSocketTriggerFunctions.triggerRemoteClose?.();
+
+        expect(disconnectedSpy).not.toHaveBeenCalled();
+        expect(resumingSpy).toHaveBeenCalledWith(expect.objectContaining({ data: { attempt: 1 } }));
+
+        jest.advanceTimersByTime(750);
+        expect(webSocketSpyFunctions.constructorSpy).toHaveBeenCalledTimes(2);
+
+        triggerWebSocketOpen();
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"resumeSession","resumeToken":"token-1"/)
+        );
+        expect(webSocketSpyFunctions.sendSpy).not.toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"listStreamers"/)
+        );
+
+        // the new connection is confirmed under a new id before the server hands our session back
+        triggerConfigMessage();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player1', resumeToken: 'token-2' }));
+        expect(resumedSpy).not.toHaveBeenCalled();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player0', resumeToken: 'token-3' }));
+
+        expect(resumedSpy).toHaveBeenCalledWith(expect.objectContaining({ data: { resumed: true, message: undefined } }));
+        expect(rtcPeerConnectionSpyFunctions.constructorSpy).toHaveBeenCalledTimes(peerConnectionCount);
+        expect(rtcPeerConnectionSpyFunctions.closeSpy).toHaveBeenCalledTimes(peerCloseCount);
+        expect(disconnectedSpy).not.toHaveBeenCalled();
+    });
+
+    it('should resume with the token of the session it is resuming if the websocket drops again', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const pixelStreaming = new PixelStreaming(config);
+
+        establishMockedPixelStreamingConnection();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player0', resumeToken: 'token-1' }));
+
+        webSocketTriggerFunctions.triggerRemoteClose?.();
+        jest.advanceTimersByTime(750);
+        triggerWebSocketOpen();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player1', resumeToken: 'token-2' }));
+        (webSocketSpyFunctions.sendSpy as jest.Mock).mockClear();
+
+        webSocketTriggerFunctions.triggerRemoteClose?.();
+        jest.advanceTimersByTime(750);
+        triggerWebSocketOpen();
+
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"resumeSession","resumeToken":"token-1"/)
+        );
+    });
+
+    it('should start a new session when the signalling server cannot resume the session', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const disconnectedSpy = jest.fn();
+        const resumedSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("webRtcDisconnected", disconnectedSpy);
+        pixelStreaming.addEventListener("sessionResumed", resumedSpy);
+
+        establishMockedPixelStreamingConnection();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player0', resumeToken: 'token-1' }));
+        const peerConnectionCount = (rtcPeerConnectionSpyFunctions.constructorSpy as jest.Mock).mock.calls.length;
+        const peerCloseCount = (rtcPeerConnectionSpyFunctions.closeSpy as jest.Mock).mock.calls.length;
+
+        webSocketTriggerFunctions.triggerRemoteClose?.();
+        jest.advanceTimersByTime(750);
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player1', resumeToken: 'token-2' }));
+        (webSocketSpyFunctions.sendSpy as jest.Mock).mockClear();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.resumeFailed, { message: 'Resume token is invalid or has expired.' }));
+
+        expect(resumedSpy).toHaveBeenCalledWith(expect.objectContaining({
+            data: { resumed: false, message: 'Resume token is invalid or has expired.' }
+        }));
+        expect(disconnectedSpy).toHaveBeenCalled();
+        expect(rtcPeerConnectionSpyFunctions.closeSpy).toHaveBeenCalledTimes(peerCloseCount + 1);
+        expect(rtcPeerConnectionSpyFunctions.constructorSpy).toHaveBeenCalledTimes(peerConnectionCount + 1);
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"listStreamers"/)
+        );
+
+        // the new session can be resumed with the token of the connection it runs on
+        triggerStreamerListMessage(streamerIdList);
+        triggerIceConnectionState('connected');
+        (webSocketSpyFunctions.sendSpy as jest.Mock).mockClear();
+        webSocketTriggerFunctions.triggerRemoteClose?.();
+        jest.advanceTimersByTime(750);
+        triggerWebSocketOpen();
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"resumeSession","resumeToken":"token-2"/)
+        );
+    });
+
+    it('should not resume the session when the signalling server did not issue a resume token', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const disconnectedSpy = jest.fn();
+        const resumingSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("webRtcDisconnected", disconnectedSpy);
+        pixelStreaming.addEventListener("sessionResuming", resumingSpy);
+
+        establishMockedPixelStreamingConnection();
+        webSocketTriggerFunctions.triggerRemoteClose?.();
+
+        expect(resumingSpy).not.toHaveBeenCalled();
+        expect(disconnectedSpy).toHaveBeenCalled();
+    });
+
+    it('should not resume the session after disconnect is called', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const resumingSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("sessionResuming", resumingSpy);
+
+        establishMockedPixelStreamingConnection();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: 'Player0', resumeToken: 'token-1' }));
+        pixelStreaming.disconnect();
+        jest.advanceTimersByTime(3000);
+
+        expect(resumingSpy).not.toHaveBeenCalled();
+        expect(webSocketSpyFunctions.constructorSpy).toHaveBeenCalledTimes(1);
+    });
+
     it('should request streamer list when connected to the signalling server', () => {
         const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
         const pixelStreaming = new PixelStreaming(config);
@@ -259,6 +398,7 @@ describe('PixelStreaming', () => {
                 type: Messages.streamerList.typeName,
                 ids: streamerIdList
             }),
+            streamers: [{ streamerId, metadata: {}, tags: [] }],
             autoSelectedStreamerId: streamerId,
             wantedStreamerId: '' 
         }));
@@ -284,6 +424,10 @@ describe('PixelStreaming', () => {
                 type: Messages.streamerList.typeName,
                 ids: extendedStreamerIdList
             }),
+            streamers: [
+                { streamerId, metadata: {}, tags: [] },
+                { streamerId: streamerId2, metadata: {}, tags: [] }
+            ],
             autoSelectedStreamerId: '',
             wantedStreamerId: ''
         }));
@@ -292,6 +436,159 @@ describe('PixelStreaming', () => {
         );
     });
 
+    it('should describe each listed streamer with the metadata and tags from the streamerList message', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const streamerListSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("streamerListMessage", streamerListSpy);
+
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        const description = { streamerId, metadata: { map: 'Lobby', build: '1.2.3' }, tags: ['europe'] };
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.streamerList, {
+            ids: streamerIdList,
+            streamers: [description]
+        }));
+
+        expect(streamerListSpy).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({
+                streamers: [description]
+            })
+        }));
+    });
+
+    it('should only ask for streamers with the configured tags', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true, StreamerTags: 'europe, demo'}});
+        const pixelStreaming = new PixelStreaming(config);
+
+        triggerWebSocketOpen();
+
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"listStreamers","tags":\["europe","demo"\]/)
+        );
+    });
+
+    it('should switch to the protobuf wire format when the signalling server offers it', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        new PixelStreaming(config);
+
+        triggerWebSocketOpen();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.config, { peerConnectionOptions: {}, wireFormats: ['protobuf'] }));
+
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            JSON.stringify({ type: 'wireFormat', format: 'protobuf' })
+        );
+
+        (webSocketSpyFunctions.sendSpy as jest.Mock).mockClear();
+        triggerStreamerListMessage(streamerIdList);
+
+        const sent = (webSocketSpyFunctions.sendSpy as jest.Mock).mock.calls.map(([data]) => data);
+        expect(sent.length).toBeGreaterThan(0);
+        expect(sent.every((data) => data instanceof Uint8Array)).toBe(true);
+        expect(decodeProtobufMessage(sent[sent.length - 1])).toEqual(expect.objectContaining({
+            type: Messages.subscribe.typeName,
+            streamerId
+        }));
+    });
+
+    it('should keep sending JSON when the signalling server does not offer a wire format', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        new PixelStreaming(config);
+
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        triggerStreamerListMessage(streamerIdList);
+
+        const sent = (webSocketSpyFunctions.sendSpy as jest.Mock).mock.calls.map(([data]) => data);
+        expect(sent.every((data) => typeof data === 'string')).toBe(true);
+        expect(webSocketSpyFunctions.sendSpy).not.toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"wireFormat"/)
+        );
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/"type":"subscribe".*MOCK_PIXEL_STREAMING/)
+        );
+    });
+
+    it('should handle protobuf encoded messages from the signalling server', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const eventSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("webRtcSdp", eventSpy);
+
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        triggerStreamerListMessage(streamerIdList);
+
+        const offer = encodeProtobufMessage(MessageHelpers.createMessage(Messages.offer, { sdp }))!;
+        webSocketTriggerFunctions.triggerOnMessageData?.(offer.slice().buffer);
+
+        expect(rtcPeerConnectionSpyFunctions.setRemoteDescriptionSpy).toHaveBeenCalledWith(expect.objectContaining({
+            sdp
+        }));
+        expect(eventSpy).toHaveBeenCalledWith(new WebRtcSdpEvent());
+    });
+
+    it('should handle JSON messages sent in binary frames', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const eventSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("webRtcSdp", eventSpy);
+
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        triggerStreamerListMessage(streamerIdList);
+
+        const offer = new TextEncoder().encode(JSON.stringify(MessageHelpers.createMessage(Messages.offer, { sdp })));
+        webSocketTriggerFunctions.triggerOnMessageData?.(offer.buffer);
+
+        expect(rtcPeerConnectionSpyFunctions.setRemoteDescriptionSpy).toHaveBeenCalledWith(expect.objectContaining({
+            sdp
+        }));
+        expect(eventSpy).toHaveBeenCalledWith(new WebRtcSdpEvent());
+    });
+
+    it('should emit ticketExpiring and send the refreshed connect ticket', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const expiringSpy = jest.fn();
+        const refreshedSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("ticketExpiring", expiringSpy);
+        pixelStreaming.addEventListener("ticketRefreshed", refreshedSpy);
+
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.ticketExpiring, { expiresAt: 1000 }));
+
+        expect(expiringSpy).toHaveBeenCalledWith(new TicketExpiringEvent({ expiresAt: 1000 }));
+
+        pixelStreaming.refreshConnectTicket('new-ticket');
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.ticketRefreshed, { expiresAt: 2000 }));
+
+        expect(webSocketSpyFunctions.sendSpy).toHaveBeenCalledWith(
+            JSON.stringify(MessageHelpers.createMessage(Messages.refreshTicket, { ticket: 'new-ticket' }))
+        );
+        expect(refreshedSpy).toHaveBeenCalledWith(new TicketRefreshedEvent({ accepted: true, expiresAt: 2000 }));
+    });
+
+    it('should emit ticketRefreshed with the reason when the refreshed connect ticket is refused', () => {
+        const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
+        const refreshedSpy = jest.fn();
+        const pixelStreaming = new PixelStreaming(config);
+        pixelStreaming.addEventListener("ticketRefreshed", refreshedSpy);
+
+        triggerWebSocketOpen();
+        triggerConfigMessage();
+        pixelStreaming.refreshConnectTicket('bad-ticket');
+        triggerSignallingMessage(MessageHelpers.createMessage(Messages.ticketRefreshFailed, { message: 'Connect ticket subject changed.' }));
+
+        expect(refreshedSpy).toHaveBeenCalledWith(new TicketRefreshedEvent({
+            accepted: false,
+            expiresAt: 0,
+            message: 'Connect ticket subject changed.'
+        }));
+        expect(webSocketSpyFunctions.closeSpy).not.toHaveBeenCalled();
+    });
+
     it('should set remoteDescription and emit webRtcSdp event when an offer is received', () => {
         const config = new Config({ initialSettings: {ss: mockSignallingUrl, AutoConnect: true}});
         const eventSpy = jest.fn();
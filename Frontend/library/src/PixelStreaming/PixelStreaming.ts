@@ -29,6 +29,12 @@ import {
     DataChannelLatencyTestResponseEvent,
     DataChannelLatencyTestResultEvent,
     PlayerCountEvent,
+    QueuePositionEvent,
+    TicketExpiringEvent,
+    TicketRefreshedEvent,
+    SessionResumingEvent,
+    SessionResumedEvent,
+    OperatorNoticeEvent,
     WebRtcTCPRelayDetectedEvent,
     SubscribeFailedEvent,
     WebRtcSdpOfferEvent,
@@ -666,8 +672,32 @@ export class PixelStreaming {
         this._eventEmitter.dispatchEvent(new PlayerCountEvent({ count: playerCount }));
     }
 
-    _onSubscribeFailed(message: string) {
-        this._eventEmitter.dispatchEvent(new SubscribeFailedEvent({ message: message }));
+    _onQueuePosition(streamerId: string, position: number, queueLength: number) {
+        this._eventEmitter.dispatchEvent(new QueuePositionEvent({ streamerId, position, queueLength }));
+    }
+
+    _onTicketExpiring(expiresAt: number) {
+        this._eventEmitter.dispatchEvent(new TicketExpiringEvent({ expiresAt }));
+    }
+
+    _onTicketRefreshed(accepted: boolean, expiresAt: number, message?: string) {
+        this._eventEmitter.dispatchEvent(new TicketRefreshedEvent({ accepted, expiresAt, message }));
+    }
+
+    _onSessionResuming(attempt: number) {
+        this._eventEmitter.dispatchEvent(new SessionResumingEvent({ attempt }));
+    }
+
+    _onSessionResumed(resumed: boolean, message?: string) {
+        this._eventEmitter.dispatchEvent(new SessionResumedEvent({ resumed, message }));
+    }
+
+    _onOperatorNotice(message: string) {
+        this._eventEmitter.dispatchEvent(new OperatorNoticeEvent({ message }));
+    }
+
+    _onSubscribeFailed(message: string, reason?: string) {
+        this._eventEmitter.dispatchEvent(new SubscribeFailedEvent({ message: message, reason: reason }));
     }
 
     // Sets up to emit the webrtc tcp relay detect event
@@ -800,6 +830,16 @@ export class PixelStreaming {
         return true;
     }
 
+    /**
+     * Replaces the connect ticket this player is authenticated with, without reconnecting.
+     * Call this when a ticketExpiring event is received. The outcome is reported in a
+     * ticketRefreshed event.
+     * @param ticket The new connect ticket.
+     */
+    public refreshConnectTicket(ticket: string) {
+        this._webRtcController.sendRefreshTicket(ticket);
+    }
+
     /**
      * Sets the text contents of the currently focused UE text box widget.
      * @param contents The new contents of the UE text box.
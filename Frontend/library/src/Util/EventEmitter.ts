@@ -373,6 +373,8 @@ export class StreamerListMessageEvent extends Event {
     readonly data: {
         /** Streamer list message containing an array of streamer ids */
         messageStreamerList: Messages.streamerList;
+        /** The metadata and tags of each listed streamer, in the same order as the ids */
+        streamers: Messages.streamerDescription[];
         /** Auto-selected streamer from the list, or null if unable to auto-select and user should be prompted to select */
         autoSelectedStreamerId: string;
         /** Wanted streamer id from various configurations. */
@@ -476,10 +478,16 @@ export class DataChannelLatencyTestResultEvent extends Event {
     }
 }
 
+/**
+ * An event that is emitted when subscribing to a streamer fails.
+ */
 export class SubscribeFailedEvent extends Event {
     override readonly type: 'subscribeFailed';
     readonly data: {
+        /** A description of what went wrong */
         message: string;
+        /** A machine readable reason if the signalling server sent one. eg. 'streamer_full' */
+        reason?: string;
     };
     constructor(data: SubscribeFailedEvent['data']) {
         super('subscribeFailed');
@@ -591,6 +599,109 @@ export class XrFrameEvent extends Event {
     }
 }
 
+/**
+ * An event that is emitted while waiting in the queue for a full streamer
+ */
+export class QueuePositionEvent extends Event {
+    override readonly type: 'queuePosition';
+    readonly data: {
+        /** The id of the streamer being waited for */
+        streamerId: string;
+        /** Place in line. 1 is next */
+        position: number;
+        /** Number of players waiting */
+        queueLength: number;
+    };
+    constructor(data: QueuePositionEvent['data']) {
+        super('queuePosition');
+        this.data = data;
+    }
+}
+
+/**
+ * An event that is emitted when the signalling server asks for a new connect ticket because
+ * the current one expires soon. Pass the new ticket to PixelStreaming.refreshConnectTicket.
+ */
+export class TicketExpiringEvent extends Event {
+    override readonly type: 'ticketExpiring';
+    readonly data: {
+        /** When the current ticket expires, in seconds since the epoch */
+        expiresAt: number;
+    };
+    constructor(data: TicketExpiringEvent['data']) {
+        super('ticketExpiring');
+        this.data = data;
+    }
+}
+
+/**
+ * An event that is emitted when the signalling server has answered a connect ticket refresh
+ */
+export class TicketRefreshedEvent extends Event {
+    override readonly type: 'ticketRefreshed';
+    readonly data: {
+        /** True if the new ticket was accepted */
+        accepted: boolean;
+        /** When the new ticket expires, in seconds since the epoch. 0 if it was refused or does not expire */
+        expiresAt: number;
+        /** Why the ticket was refused */
+        message?: string;
+    };
+    constructor(data: TicketRefreshedEvent['data']) {
+        super('ticketRefreshed');
+        this.data = data;
+    }
+}
+
+/**
+ * An event that is emitted when the signalling connection dropped and the player is reconnecting
+ * to resume its session. The stream keeps running while it does.
+ */
+export class SessionResumingEvent extends Event {
+    override readonly type: 'sessionResuming';
+    readonly data: {
+        /** The number of this resume attempt, starting at 1 */
+        attempt: number;
+    };
+    constructor(data: SessionResumingEvent['data']) {
+        super('sessionResuming');
+        this.data = data;
+    }
+}
+
+/**
+ * An event that is emitted when the signalling server has answered a session resume. When the
+ * session could not be resumed a new session is started instead.
+ */
+export class SessionResumedEvent extends Event {
+    override readonly type: 'sessionResumed';
+    readonly data: {
+        /** True if the previous session was resumed */
+        resumed: boolean;
+        /** Why the session could not be resumed */
+        message?: string;
+    };
+    constructor(data: SessionResumedEvent['data']) {
+        super('sessionResumed');
+        this.data = data;
+    }
+}
+
+/**
+ * An event that is emitted when an operator sends a notice to the players of a streamer
+ */
+export class OperatorNoticeEvent extends Event {
+    override readonly type: 'operatorNotice';
+    readonly data: {
+        /** The text of the notice */
+        message: string;
+    };
+    constructor(data: OperatorNoticeEvent['data']) {
+        super('operatorNotice');
+        this.data = data;
+    }
+}
+
 /**
  * An event that is emitted when receiving a player count from the signalling server
  */
@@ -658,6 +769,12 @@ export type PixelStreamingEvent =
     | XrSessionEndedEvent
     | XrFrameEvent
     | PlayerCountEvent
+    | QueuePositionEvent
+    | TicketExpiringEvent
+    | TicketRefreshedEvent
+    | SessionResumingEvent
+    | SessionResumedEvent
+    | OperatorNoticeEvent
     | WebRtcTCPRelayDetectedEvent;
 
 export class PixelStreamingEventEmitter extends EventTarget {
@@ -111,6 +111,14 @@ export class WebRtcPlayerController {
     keepalive: KeepaliveMonitor;
     playerId: string | null = null;
     hasCompletedInitialVideo: boolean;
+    // The id the signalling server confirmed for this player and the token it issued to resume
+    // the session with after the connection drops. Null when the server does not offer resume.
+    sessionPlayerId: string | null = null;
+    resumeToken: string | null = null;
+    // The session being resumed while reconnecting after the connection dropped.
+    resumingSession: { playerId: string; resumeToken: string } | null = null;
+    resumeAttempt: number;
+    resumeTimer: ReturnType<typeof setTimeout> = undefined;
 
     /**
      *
@@ -188,6 +196,27 @@ export class WebRtcPlayerController {
         this.protocol.addListener(Messages.subscribeFailed.typeName, (msg: BaseMessage) =>
             this.handleSubscribeFailedMessage(msg as Messages.subscribeFailed)
         );
+        this.protocol.addListener(Messages.queuePosition.typeName, (msg: BaseMessage) =>
+            this.handleQueuePositionMessage(msg as Messages.queuePosition)
+        );
+        this.protocol.addListener(Messages.ticketExpiring.typeName, (msg: BaseMessage) =>
+            this.handleTicketExpiringMessage(msg as Messages.ticketExpiring)
+        );
+        this.protocol.addListener(Messages.ticketRefreshed.typeName, (msg: BaseMessage) =>
+            this.handleTicketRefreshedMessage(msg as Messages.ticketRefreshed)
+        );
+        this.protocol.addListener(Messages.ticketRefreshFailed.typeName, (msg: BaseMessage) =>
+            this.handleTicketRefreshFailedMessage(msg as Messages.ticketRefreshFailed)
+        );
+        this.protocol.addListener(Messages.endpointIdConfirm.typeName, (msg: BaseMessage) =>
+            this.handleEndpointIdConfirmMessage(msg as Messages.endpointIdConfirm)
+        );
+        this.protocol.addListener(Messages.resumeFailed.typeName, (msg: BaseMessage) =>
+            this.handleResumeFailedMessage(msg as Messages.resumeFailed)
+        );
+        this.protocol.addListener(Messages.operatorNotice.typeName, (msg: BaseMessage) =>
+            this.handleOperatorNoticeMessage(msg as Messages.operatorNotice)
+        );
         this.protocol.addListener(Messages.streamerIdChanged.typeName, (msg: BaseMessage) =>
             this.handleStreamerIDChangedMessage(msg as Messages.streamerIdChanged)
         );
@@ -209,10 +238,18 @@ export class WebRtcPlayerController {
             this.handleIceCandidate(iceCandidateMessage.candidate);
         });
         this.protocol.transport.addListener('open', () => {
+            if (this.resumingSession) {
+                this.protocol.sendMessage(
+                    MessageHelpers.createMessage(Messages.resumeSession, {
+                        resumeToken: this.resumingSession.resumeToken
+                    })
+                );
+                return;
+            }
+
             const BrowserSendOffer = this.config.isFlagEnabled(Flags.BrowserSendOffer);
             if (!BrowserSendOffer) {
-                const message = MessageHelpers.createMessage(Messages.listStreamers);
-                this.protocol.sendMessage(message);
+                this.requestStreamerList();
             }
             this.reconnectAttempt = 0;
             this.isReconnecting = false;
@@ -228,6 +265,11 @@ export class WebRtcPlayerController {
             // lists all the codes.
             const CODE_GOING_AWAY = 1001;
 
+            // keep the stream running if the server is holding our session for us.
+            if (this.tryResumeSession(event)) {
+                return;
+            }
+
             const maxReconnectAttempts = this.config.getNumericSettingValue(
                 NumericParameters.MaxReconnectAttempts
             );
@@ -240,28 +282,8 @@ export class WebRtcPlayerController {
 
             this.forceReconnect = false;
 
-            // Reset the list of all possible codecs on disconnect so that if the next connection has "NegotiateCodecs" on
-            // then all codecs can be negotiated
-            this.config.getSettingOption(OptionParameters.PreferredCodec).options =
-                BrowserUtils.getSupportedVideoCodecs();
-
             this.pixelStreaming._onDisconnect(disconnectMessage, allowClickToReconnect);
-
-            this.afkController.stopAfkWarningTimer();
-
-            // stop sending stats on interval if we have closed our connection
-            if (this.statsTimerHandle && this.statsTimerHandle !== undefined) {
-                window.clearInterval(this.statsTimerHandle);
-            }
-
-            // reset the stream quality icon.
-            this.setVideoEncoderAvgQP(0);
-
-            // unregister all input device event handlers on disconnect
-            this.setTouchInputEnabled(false);
-            this.setMouseInputEnabled(false);
-            this.setKeyboardInputEnabled(false);
-            this.setGamePadInputEnabled(false);
+            this.stopStreamActivity();
 
             if (willTryReconnect) {
                 const reconnectDelayMs = this.hasCompletedInitialVideo ? 2000 : 750;
@@ -296,6 +318,7 @@ export class WebRtcPlayerController {
         this.forceReconnect = false;
         this.reconnectAttempt = 0;
         this.isReconnecting = false;
+        this.resumeAttempt = 0;
 
         this.config._addOnOptionSettingChangedListener(OptionParameters.StreamerId, (streamerid) => {
             if (streamerid === undefined || streamerid === '') {
@@ -865,6 +888,78 @@ export class WebRtcPlayerController {
         this.doReconnect(message);
     }
 
+    /**
+     * Stops everything tied to the current stream when the signalling session is lost.
+     */
+    stopStreamActivity() {
+        // Reset the list of all possible codecs on disconnect so that if the next connection has "NegotiateCodecs" on
+        // then all codecs can be negotiated
+        this.config.getSettingOption(OptionParameters.PreferredCodec).options =
+            BrowserUtils.getSupportedVideoCodecs();
+
+        this.afkController.stopAfkWarningTimer();
+
+        // stop sending stats on interval if we have closed our connection
+        if (this.statsTimerHandle && this.statsTimerHandle !== undefined) {
+            window.clearInterval(this.statsTimerHandle);
+        }
+
+        // reset the stream quality icon.
+        this.setVideoEncoderAvgQP(0);
+
+        // unregister all input device event handlers on disconnect
+        this.setTouchInputEnabled(false);
+        this.setMouseInputEnabled(false);
+        this.setKeyboardInputEnabled(false);
+        this.setGamePadInputEnabled(false);
+    }
+
+    /**
+     * Reconnects to resume the signalling session after the connection dropped, leaving the peer
+     * connection and the stream running. Only done when the server issued a resume token, the
+     * connection was not closed on purpose and the media path is still up.
+     * @param event - The close event of the dropped connection
+     * @returns True if a resume was started
+     */
+    tryResumeSession(event: CloseEvent): boolean {
+        const CODE_NORMAL_CLOSURE = 1000;
+        const CODE_GOING_AWAY = 1001;
+
+        const session =
+            this.resumingSession ??
+            (this.sessionPlayerId && this.resumeToken
+                ? { playerId: this.sessionPlayerId, resumeToken: this.resumeToken }
+                : null);
+        const iceState = this.peerConnectionController?.peerConnection?.iceConnectionState;
+        const mediaUp = iceState === 'connected' || iceState === 'completed' || iceState === 'disconnected';
+        const maxReconnectAttempts = this.config.getNumericSettingValue(
+            NumericParameters.MaxReconnectAttempts
+        );
+        if (
+            !session ||
+            !mediaUp ||
+            this.locallyClosed ||
+            event.code == CODE_NORMAL_CLOSURE ||
+            event.code == CODE_GOING_AWAY ||
+            this.resumeAttempt >= maxReconnectAttempts
+        ) {
+            this.resumingSession = null;
+            this.resumeAttempt = 0;
+            return false;
+        }
+
+        this.resumingSession = session;
+        this.resumeAttempt++;
+        Logger.Info(
+            `Signalling connection lost. Resuming the session of ${session.playerId} (attempt ${this.resumeAttempt}).`
+        );
+        this.pixelStreaming._onSessionResuming(this.resumeAttempt);
+
+        // need a small delay here to prevent reconnect spamming
+        this.resumeTimer = setTimeout(() => this.connectToSignallingServer(), 750);
+        return true;
+    }
+
     /**
      * Does the actual reconnect work. Used by the auto reconnect feature to skip the manual flag.
      */
@@ -1052,6 +1147,10 @@ export class WebRtcPlayerController {
      * Connect to the Signaling server
      */
     connectToSignallingServer() {
+        if (this.resumeTimer) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = undefined;
+        }
         this.locallyClosed = false;
         this.enableAutoReconnect = true;
         this.disconnectMessage = null;
@@ -1220,6 +1319,17 @@ export class WebRtcPlayerController {
     handleOnConfigMessage(messageConfig: Messages.config) {
         this.resizePlayerStyle();
 
+        // switch to the binary wire format if the signalling server offers it
+        const wireFormat = this.protocol.selectWireFormat(messageConfig.wireFormats);
+        Logger.Info(`Signalling wire format: ${wireFormat}`);
+
+        // the peer connection of the session being resumed is still running. a new session is
+        // only started if the resume fails.
+        if (this.resumingSession) {
+            this.peerConfig = messageConfig.peerConnectionOptions;
+            return;
+        }
+
         // Tell the WebRtcController to start a session with the peer options sent from the signaling server
         this.startSession(messageConfig.peerConnectionOptions);
     }
@@ -1228,6 +1338,19 @@ export class WebRtcPlayerController {
         this.protocol.sendMessage(MessageHelpers.createMessage(Messages.pong, { time: pingMessage.time }));
     }
 
+    /**
+     * Asks the signalling server for the streamers we could subscribe to, limited to those
+     * with every tag in the StreamerTags setting.
+     */
+    requestStreamerList() {
+        const tags = this.config
+            .getTextSettingValue(TextParameters.StreamerTags)
+            .split(',')
+            .map((tag) => tag.trim())
+            .filter((tag) => tag.length > 0);
+        this.protocol.sendMessage(MessageHelpers.createMessage(Messages.listStreamers, { tags }));
+    }
+
     /**
      * Handles when the signalling server gives us the list of streamer ids.
      */
@@ -1288,7 +1411,7 @@ export class WebRtcPlayerController {
                     this.reconnectAttempt++;
                     this.isReconnecting = true;
                     setTimeout(() => {
-                        this.protocol.sendMessage(MessageHelpers.createMessage(Messages.listStreamers));
+                        this.requestStreamerList();
                     }, reconnectDelay);
                 } else {
                     // We've exhausted our reconnect attempts, return to main screen
@@ -1299,10 +1422,21 @@ export class WebRtcPlayerController {
             }
         }
 
+        // older signalling servers only send ids so describe those streamers as having no metadata
+        const streamers = messageStreamerList.ids.map(
+            (streamerId) =>
+                messageStreamerList.streamers?.find((streamer) => streamer.streamerId == streamerId) || {
+                    streamerId,
+                    metadata: {},
+                    tags: []
+                }
+        );
+
         // dispatch this event finally
         this.pixelStreaming.dispatchEvent(
             new StreamerListMessageEvent({
                 messageStreamerList,
+                streamers,
                 autoSelectedStreamerId,
                 wantedStreamerId
             })
@@ -1313,7 +1447,99 @@ export class WebRtcPlayerController {
         this.reconnectAttempt = 0;
         this.isReconnecting = false;
         this.enableAutoReconnect = false;
-        this.pixelStreaming._onSubscribeFailed(subscribeFailedMessage.message);
+        this.pixelStreaming._onSubscribeFailed(subscribeFailedMessage.message, subscribeFailedMessage.reason);
+    }
+
+    /**
+     * Handles when the signalling server tells us our place in the queue for a full streamer.
+     */
+    handleQueuePositionMessage(queuePositionMessage: Messages.queuePosition) {
+        this.pixelStreaming._onQueuePosition(
+            queuePositionMessage.streamerId,
+            queuePositionMessage.position,
+            queuePositionMessage.queueLength
+        );
+    }
+
+    /**
+     * Handles when the signalling server tells us our connect ticket expires soon.
+     */
+    handleTicketExpiringMessage(ticketExpiringMessage: Messages.ticketExpiring) {
+        Logger.Info(`Connect ticket expires at ${ticketExpiringMessage.expiresAt}.`);
+        this.pixelStreaming._onTicketExpiring(ticketExpiringMessage.expiresAt);
+    }
+
+    /**
+     * Handles when the signalling server accepted our refreshed connect ticket.
+     */
+    handleTicketRefreshedMessage(ticketRefreshedMessage: Messages.ticketRefreshed) {
+        this.pixelStreaming._onTicketRefreshed(true, ticketRefreshedMessage.expiresAt);
+    }
+
+    /**
+     * Handles when the signalling server refused our refreshed connect ticket.
+     */
+    handleTicketRefreshFailedMessage(ticketRefreshFailedMessage: Messages.ticketRefreshFailed) {
+        Logger.Warning(`Connect ticket refresh failed: ${ticketRefreshFailedMessage.message}`);
+        this.pixelStreaming._onTicketRefreshed(false, 0, ticketRefreshFailedMessage.message);
+    }
+
+    /**
+     * Sends a new connect ticket to the signalling server to replace the current one.
+     * @param ticket - The new connect ticket
+     */
+    sendRefreshTicket(ticket: string) {
+        this.protocol.sendMessage(MessageHelpers.createMessage(Messages.refreshTicket, { ticket }));
+    }
+
+    /**
+     * Handles the signalling server confirming our player id. Servers with session resume enabled
+     * also send the token to resume our session with after the connection drops.
+     */
+    handleEndpointIdConfirmMessage(endpointIdConfirmMessage: Messages.endpointIdConfirm) {
+        this.sessionPlayerId = endpointIdConfirmMessage.committedId;
+        this.resumeToken = endpointIdConfirmMessage.resumeToken || null;
+
+        // a new connection is confirmed under a new id first. our old id comes back once the
+        // session has been resumed.
+        if (this.resumingSession && this.resumingSession.playerId == this.sessionPlayerId) {
+            Logger.Info(`Resumed the session of ${this.sessionPlayerId}.`);
+            this.resumingSession = null;
+            this.resumeAttempt = 0;
+            this.pixelStreaming._onSessionResumed(true);
+        }
+    }
+
+    /**
+     * Handles the signalling server refusing to resume our session. The old session is gone so the
+     * stream is torn down and a new session is started on the connection we have.
+     */
+    handleResumeFailedMessage(resumeFailedMessage: Messages.resumeFailed) {
+        Logger.Warning(`Could not resume the session: ${resumeFailedMessage.message}`);
+        this.resumingSession = null;
+        this.resumeAttempt = 0;
+        this.pixelStreaming._onSessionResumed(false, resumeFailedMessage.message);
+
+        this.pixelStreaming._onDisconnect(
+            `Could not resume the session: ${resumeFailedMessage.message}`,
+            false
+        );
+        this.stopStreamActivity();
+        this.closePeerConnection();
+
+        this.pixelStreaming._onWebRtcAutoConnect();
+        this.startSession(this.peerConfig);
+        if (!this.config.isFlagEnabled(Flags.BrowserSendOffer)) {
+            this.requestStreamerList();
+        }
+    }
+
+    /**
+     * Handles a notice sent by an operator to everyone watching the streamer.
+     */
+    handleOperatorNoticeMessage(operatorNoticeMessage: Messages.operatorNotice) {
+        Logger.Info(`Operator notice: ${operatorNoticeMessage.message}`);
+        this.pixelStreaming._onOperatorNotice(operatorNoticeMessage.message);
     }
 
     handleStreamerIDChangedMessage(streamerIDChangedMessage: Messages.streamerIdChanged) {
@@ -1612,6 +1838,12 @@ export class WebRtcPlayerController {
      */
     closeSignalingServer(message: string, allowReconnect: boolean) {
         this.locallyClosed = true;
+        // a resume waiting to reconnect would reopen the connection we are closing.
+        if (this.resumeTimer) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = undefined;
+        }
+        this.resumingSession = null;
         this.enableAutoReconnect = allowReconnect;
         this.disconnectMessage = message;
         this.protocol?.disconnect(1000, message);
@@ -15,6 +15,7 @@ export interface MockWebSocketTriggerFunctions {
     triggerOnError: null | (() => void);
     triggerOnClose: null | ((closeReason?: CloseEventInit) => void);
     triggerOnMessage: null | ((message?: BaseMessage) => void);
+    triggerOnMessageData: null | ((data: string | ArrayBuffer) => void);
     triggerOnMessageBinary: null | ((message?: Blob) => void);
     triggerRemoteClose: null | ((code?: number, reason?: string) => void);
 }
@@ -34,6 +35,7 @@ const triggerFunctions: MockWebSocketTriggerFunctions = {
     triggerOnError: null,
     triggerOnClose: null,
     triggerOnMessage: null,
+    triggerOnMessageData: null,
     triggerOnMessageBinary: null,
     triggerRemoteClose: null
 };
@@ -49,6 +51,7 @@ export class MockWebSocketImpl extends WebSocket {
         triggerFunctions.triggerOnError = this.triggerOnError.bind(this);
         triggerFunctions.triggerOnClose = this.triggerOnClose.bind(this);
         triggerFunctions.triggerOnMessage = this.triggerOnMessage.bind(this);
+        triggerFunctions.triggerOnMessageData = this.triggerOnMessageData.bind(this);
         triggerFunctions.triggerOnMessageBinary = this.triggerOnMessageBinary.bind(this);
         triggerFunctions.triggerRemoteClose = this.triggerRemoteClose.bind(this);
     }
@@ -97,6 +100,12 @@ export class MockWebSocketImpl extends WebSocket {
         spyFunctions.messageSpy?.(event);
     }
 
+    triggerOnMessageData(data: string | ArrayBuffer) {
+        const event = new MessageEvent('message', { data });
+        this.onmessage?.(event);
+        spyFunctions.messageSpy?.(event);
+    }
+
     triggerOnMessageBinary(message?: Blob) {
         const data =
             message ??
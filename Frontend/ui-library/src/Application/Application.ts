@@ -375,11 +375,14 @@ export class Application {
             ({ data: { messageStreamerList, autoSelectedStreamerId, wantedStreamerId } }) =>
                 this.handleStreamerListMessage(messageStreamerList, autoSelectedStreamerId, wantedStreamerId)
         );
-        this.stream.addEventListener('subscribeFailed', ({ data: { message } }) =>
-            this.handleSubscribeFailedMessage(message)
+        this.stream.addEventListener('subscribeFailed', ({ data: { message, reason } }) =>
+            this.handleSubscribeFailedMessage(message, reason)
         );
         this.stream.addEventListener('settingsChanged', (event) => this.onSettingsChanged(event));
         this.stream.addEventListener('playerCount', ({ data: { count } }) => this.onPlayerCount(count));
+        this.stream.addEventListener('queuePosition', ({ data: { position, queueLength } }) =>
+            this.onQueuePosition(position, queueLength)
+        );
         this.stream.addEventListener('webRtcTCPRelayDetected', () =>
             Logger.Warning(`Stream quailty degraded due to network enviroment, stream is relayed over TCP.`)
         );
@@ -729,6 +732,17 @@ export class Application {
         this.statsPanel?.handlePlayerCount(playerCount);
     }
 
+    /**
+     * Shows the player's place in line while waiting for a full streamer
+     * @param position - place in line. 1 is next
+     * @param queueLength - the number of players waiting
+     */
+    onQueuePosition(position: number, queueLength: number) {
+        this.showTextOverlay(
+            `The stream is full. You are number ${position} of ${queueLength} in line and will join automatically.`
+        );
+    }
+
     handleStreamerListMessage(
         messageStreamingList: Messages.streamerList,
         autoSelectedStreamerId: string,
@@ -772,8 +786,22 @@ export class Application {
         }
     }
 
-    handleSubscribeFailedMessage(message: string) {
-        this.showDisconnectOverlay(`Subscribe failed: "${message}" Click to try again`);
+    handleSubscribeFailedMessage(message: string, reason?: string) {
+        switch (reason) {
+            case 'streamer_full':
+                this.showDisconnectOverlay('This stream is full. Click to try again');
+                break;
+            case 'group_not_allowed':
+            case 'streamer_not_permitted':
+                this.showErrorOverlay('You do not have access to this stream.');
+                break;
+            case 'server_draining':
+                this.showDisconnectOverlay('This server is shutting down. Click to try again');
+                break;
+            default:
+                this.showDisconnectOverlay(`Subscribe failed: "${message}" Click to try again`);
+                break;
+        }
     }
 
     /**
@@ -0,0 +1,147 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { Messages, MessageHelpers } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+import { PlayerConnection } from './PlayerConnection';
+import { SignallingServer } from './SignallingServer';
+
+/**
+ * The outcome of an operator action.
+ * 'ok': The action was carried out.
+ * 'not_found': No player or streamer has the given id.
+ * 'not_local': The target is connected to another signalling node and the action
+ * can only be carried out by the node it is connected to.
+ * 'not_subscribed': The player is not subscribed to or waiting for a streamer.
+ */
+export type AdminOperationStatus = 'ok' | 'not_found' | 'not_local' | 'not_subscribed';
+
+// websocket close reasons are limited to 123 bytes.
+function truncateCloseReason(reason: string): string {
+    let truncated = reason;
+    while (Buffer.byteLength(truncated) > 123) {
+        truncated = truncated.slice(0, -1);
+    }
+    return truncated;
+}
+
+/**
+ * Disconnects a player. Players connected to other signalling nodes are disconnected
+ * through the registry backend.
+ * @param reason - The close reason sent to the player.
+ */
+export function kickPlayer(server: SignallingServer, playerId: string, reason: string): AdminOperationStatus {
+    const player = server.playerRegistry.get(playerId);
+    if (!player) {
+        return 'not_found';
+    }
+
+    Logger.info(`[admin] Kicking player ${playerId}: ${reason}`);
+    if (player instanceof PlayerConnection) {
+        player.kick(truncateCloseReason(reason));
+    } else {
+        player.protocol.disconnect(1001, truncateCloseReason(reason));
+    }
+    return 'ok';
+}
+
+/**
+ * Unsubscribes a player from its streamer while leaving it connected.
+ * @param notice - Optional operator notice sent to the player afterwards.
+ */
+export function unsubscribePlayer(
+    server: SignallingServer,
+    playerId: string,
+    notice?: string
+): AdminOperationStatus {
+    const player = server.playerRegistry.get(playerId);
+    if (!player) {
+        return 'not_found';
+    }
+    if (!(player instanceof PlayerConnection)) {
+        return 'not_local';
+    }
+
+    const streamerId = player.subscribedStreamer?.streamerId;
+    if (!player.forceUnsubscribe()) {
+        return 'not_subscribed';
+    }
+
+    Logger.info(`[admin] Unsubscribed player ${playerId} from ${streamerId || 'the waiting room'}.`);
+    if (notice) {
+        player.sendMessage(MessageHelpers.createMessage(Messages.operatorNotice, { message: notice }));
+    }
+    return 'ok';
+}
+
+/**
+ * Disconnects a streamer. Its subscribers are disconnected as they would be if the
+ * streamer had gone away by itself. Streamers connected to other signalling nodes are
+ * disconnected through the registry backend.
+ * @param reason - The close reason sent to the streamer.
+ */
+export function disconnectStreamer(
+    server: SignallingServer,
+    streamerId: string,
+    reason: string
+): AdminOperationStatus {
+    const streamer = server.streamerRegistry.find(streamerId);
+    if (!streamer) {
+        return 'not_found';
+    }
+
+    Logger.info(`[admin] Disconnecting streamer ${streamerId}: ${reason}`);
+    streamer.protocol.disconnect(1000, truncateCloseReason(reason));
+    return 'ok';
+}
+
+/**
+ * Changes the id of a streamer connected to this signalling node.
+ * @returns The status and, when successful, the id the streamer ended up with. The new
+ * id is sanitized against the existing ids so it may differ from the one asked for.
+ */
+export function renameStreamer(
+    server: SignallingServer,
+    streamerId: string,
+    newId: string
+): { status: AdminOperationStatus; streamerId?: string } {
+    const streamer = server.streamerRegistry.findLocal(streamerId);
+    if (!streamer) {
+        return { status: server.streamerRegistry.find(streamerId) ? 'not_local' : 'not_found' };
+    }
+
+    if (newId == streamerId) {
+        return { status: 'ok', streamerId };
+    }
+
+    const committedId = server.streamerRegistry.rename(streamer, newId);
+    Logger.info(`[admin] Renamed streamer ${streamerId} to ${committedId}.`);
+    return { status: 'ok', streamerId: committedId };
+}
+
+/**
+ * Sends an operatorNotice message to every player subscribed to a streamer, including
+ * players connected to other signalling nodes.
+ * @returns The status and, when successful, the number of players the notice was sent to.
+ */
+export function broadcastOperatorNotice(
+    server: SignallingServer,
+    streamerId: string,
+    notice: string
+): { status: AdminOperationStatus; recipients?: number } {
+    const streamer = server.streamerRegistry.find(streamerId);
+    if (!streamer) {
+        return { status: 'not_found' };
+    }
+
+    let recipients = 0;
+    for (const playerId of streamer.subscribers) {
+        const player = server.playerRegistry.get(playerId);
+        if (!player) {
+            continue;
+        }
+        player.sendMessage(MessageHelpers.createMessage(Messages.operatorNotice, { message: notice }));
+        recipients++;
+    }
+
+    Logger.info(`[admin] Sent an operator notice to ${recipients} subscriber(s) of ${streamerId}.`);
+    return { status: 'ok', recipients };
+}
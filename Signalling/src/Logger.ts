@@ -1,6 +1,6 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
 import { stringify, beautify } from './Utils';
-import { IProtoLogObj } from './LoggingUtils';
+import { ILogContext, IProtoLogObj, LOG_CONTEXT_KEYS } from './LoggingUtils';
 import path from 'path';
 import winston from 'winston';
 import 'winston-daily-rotate-file';
@@ -30,6 +30,10 @@ export interface IConfig {
 
     // the minimum log level for file messages
     logLevelFile?: string;
+
+    // 'text' (default) for readable console lines or 'json' to write console lines in the same
+    // structured form as the log files
+    logFormat?: string;
 }
 
 /**
@@ -72,15 +76,74 @@ export function InitLogging(config: IConfig): void {
     const logLevelFile = config.logLevelFile || 'info';
     logMessagesToConsole = config.logMessagesToConsole || 'none';
 
+    consoleTransport = createConsoleTransport(logLevelConsole, config.logFormat === 'json');
+    fileTransport = createFileTransport(logDir, logLevelFile);
     Logger = winston.createLogger({
-        transports: [createConsoleTransport(logLevelConsole), createFileTransport(logDir, logLevelFile)]
+        transports: [consoleTransport, fileTransport]
     });
 
     const commonLogger = new CommonLogger(Logger);
     overrideLogger(commonLogger);
 }
 
+/**
+ * Changes the minimum log levels of a logger set up by InitLogging while it is in use.
+ * @param config - The levels to change. Levels that are not given are left as they are.
+ */
+export function SetLogLevels(config: Pick<IConfig, 'logLevelConsole' | 'logLevelFile'>): void {
+    if (config.logLevelConsole && consoleTransport) {
+        consoleTransport.level = config.logLevelConsole;
+    }
+    if (config.logLevelFile && fileTransport) {
+        fileTransport.level = config.logLevelFile;
+    }
+}
+
+/**
+ * Logs a free form message at info level. The correlation ids are added to its structured
+ * log line.
+ * @param message - The message to log.
+ * @param context - The ids of what the message is about, such as a player or a command.
+ */
+export function LogWithContext(message: string, context?: ILogContext): void {
+    if (context) {
+        Logger.info(message, context);
+    } else {
+        Logger.info(message);
+    }
+}
+
+/**
+ * Sets correlation ids that are added to every structured log line from now on, such as the
+ * session request the instance is serving. Ids given as undefined are cleared. Ids logged
+ * with a line take precedence over these.
+ * @param context - The ids to set or clear.
+ */
+export function SetLogContext(context: ILogContext): void {
+    for (const key of LOG_CONTEXT_KEYS) {
+        if (!(key in context)) {
+            continue;
+        }
+        const value = context[key];
+        if (value === undefined || value === '') {
+            delete processContext[key];
+        } else {
+            processContext[key] = value;
+        }
+    }
+}
+
+/**
+ * Returns the correlation ids set with SetLogContext.
+ */
+export function GetLogContext(): ILogContext {
+    return { ...processContext };
+}
+
 let logMessagesToConsole = 'none';
+const processContext: ILogContext = {};
+let consoleTransport: winston.transport | null = null;
+let fileTransport: winston.transport | null = null;
 
 function createDefaultLogger() {
     return winston.createLogger({
@@ -90,7 +153,18 @@ function createDefaultLogger() {
     });
 }
 
-function createConsoleTransport(logLevel: string) {
+function createConsoleTransport(logLevel: string, json: boolean) {
+    if (json) {
+        return new winston.transports.Console({
+            level: logLevel,
+            format: combine(
+                createProtoMessageFilter()(),
+                timestamp({ format: 'YYYY-MM-DD HH:mm:ss.SSS' }),
+                splat(),
+                createFileFormat()
+            )
+        });
+    }
     return new winston.transports.Console({
         level: logLevel,
         format: combine(
@@ -166,6 +240,29 @@ function createFileTransport(logDirPath: string, logLevel: string) {
     });
 }
 
+/**
+ * Picks the correlation ids passed as metadata with a log call, for example
+ * Logger.info('...', { playerId }), on top of the ids set with SetLogContext.
+ */
+function contextFields(logObj: TransformableInfo): ILogContext {
+    const fields: ILogContext = { ...processContext };
+    for (const key of LOG_CONTEXT_KEYS) {
+        const value = logObj[key];
+        if (typeof value === 'string' && value) {
+            fields[key] = value;
+        }
+    }
+    return fields;
+}
+
+/**
+ * Free form messages conventionally start with the component that wrote them,
+ * such as '[idle-stop] ...'.
+ */
+function componentOf(message: string): string | undefined {
+    return /^\[([\w.-]+)\]/.exec(message)?.[1];
+}
+
 function createFileFormat() {
     return printf((logObj: TransformableInfo) => {
         if (typeof logObj.message === 'string') {
@@ -174,6 +271,8 @@ function createFileFormat() {
                 timestamp,
                 level,
                 event: 'message',
+                component: componentOf(message),
+                ...contextFields(logObj),
                 message
             });
         } else if (isLogObject(logObj.message)) {
@@ -181,6 +280,7 @@ function createFileFormat() {
             return JSON.stringify({
                 timestamp,
                 level,
+                ...processContext,
                 ...message
             });
         }
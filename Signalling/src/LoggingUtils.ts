@@ -2,21 +2,91 @@
 import { BaseMessage } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
 import { Logger } from './Logger';
 
-export interface IProtoLogObj {
+export interface IProtoLogObj extends ILogContext {
     event: string;
     direction: string;
     sender?: string;
     receiver?: string;
     target?: string;
+    // The authenticated subject of the player on either end, when known.
+    subject?: string;
+    // The id of the connect ticket that player connected with.
+    ticketId?: string;
     protoMessage: BaseMessage;
 }
 
+/**
+ * Who authenticated on a connection. Added to its log lines so they can be traced to a user.
+ */
+export interface ILogIdentity {
+    subject?: string;
+    ticketId?: string;
+}
+
+/**
+ * Ids that tie a log line to what it is about. Lines written in the JSON format carry
+ * these as top level fields so log queries can follow a player, streamer or session.
+ */
+export interface ILogContext {
+    playerId?: string;
+    streamerId?: string;
+    // The session request the instance is currently serving, as handed out by the instance agent.
+    sessionRequestId?: string;
+    // The instance agent command being carried out.
+    instanceCommandId?: string;
+    // The jti claim of the connect ticket the player connected with.
+    jti?: string;
+}
+
+/**
+ * The names of the ILogContext fields. Used to pick them out of log metadata.
+ */
+export const LOG_CONTEXT_KEYS: (keyof ILogContext)[] = [
+    'playerId',
+    'streamerId',
+    'sessionRequestId',
+    'instanceCommandId',
+    'jti'
+];
+
 /**
  * Most methods in here rely on connections implementing this interface so we can identify
  * who is sending or receiving etc.
  */
 export interface IMessageLogger {
     getReadableIdentifier(): string;
+    getLogIdentity?(): ILogIdentity | undefined;
+    getLogContext?(): ILogContext;
+}
+
+/**
+ * Returns the identity fields of the first connection that has an identity.
+ */
+function identityFields(...loggers: IMessageLogger[]): ILogIdentity {
+    for (const logger of loggers) {
+        const identity = logger.getLogIdentity?.();
+        if (identity) {
+            return { subject: identity.subject, ticketId: identity.ticketId };
+        }
+    }
+    return {};
+}
+
+/**
+ * Merges the correlation ids of the given connections. When more than one connection
+ * knows an id the first one wins.
+ */
+function contextFields(...loggers: IMessageLogger[]): ILogContext {
+    const fields: ILogContext = {};
+    for (const logger of loggers) {
+        const context = logger.getLogContext?.() ?? {};
+        for (const key of LOG_CONTEXT_KEYS) {
+            if (fields[key] === undefined && context[key] !== undefined) {
+                fields[key] = context[key];
+            }
+        }
+    }
+    return fields;
 }
 
 /**
@@ -29,6 +99,8 @@ export function logIncoming(recvr: IMessageLogger, message: BaseMessage): void {
         event: 'proto_message',
         direction: 'incoming',
         receiver: recvr.getReadableIdentifier(),
+        ...identityFields(recvr),
+        ...contextFields(recvr),
         protoMessage: message
     };
     Logger.info(logObj);
@@ -44,6 +116,8 @@ export function logOutgoing(sender: IMessageLogger, message: BaseMessage): void
         event: 'proto_message',
         direction: 'outgoing',
         sender: sender.getReadableIdentifier(),
+        ...identityFields(sender),
+        ...contextFields(sender),
         protoMessage: message
     });
 }
@@ -60,6 +134,8 @@ export function logForward(recvr: IMessageLogger, target: IMessageLogger, messag
         direction: 'forward',
         receiver: recvr.getReadableIdentifier(),
         target: target.getReadableIdentifier(),
+        ...identityFields(recvr, target),
+        ...contextFields(recvr, target),
         protoMessage: message
     });
 }
@@ -0,0 +1,279 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import {
+    BaseMessage,
+    MessageHelpers,
+    MessageRegistry,
+    SignallingProtocol,
+    WebSocketTransportNJS
+} from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+import { SignallingMetrics } from './Metrics';
+
+/**
+ * What is done with a message that breaks a limit.
+ * 'drop': The message is discarded and the connection stays open.
+ * 'warn': The violation is logged and counted but the message is handled as normal.
+ * 'disconnect': The message is discarded and the connection is closed.
+ */
+export type MessageViolationAction = 'drop' | 'warn' | 'disconnect';
+
+/**
+ * The kinds of limit a message can break.
+ * 'oversize': The message is larger than maxMessageBytes.
+ * 'rate': Messages of this type are arriving faster than their rate allows.
+ * 'schema': The message does not match the protobuf schema of its type.
+ */
+export type MessageViolationKind = 'oversize' | 'rate' | 'schema';
+
+/**
+ * A token bucket rate. The bucket holds up to burst tokens and is refilled at perSecond
+ * tokens a second. Every message takes one token.
+ */
+export interface IMessageRate {
+    perSecond: number;
+    // Defaults to perSecond.
+    burst?: number;
+}
+
+/**
+ * The limits applied to the messages received on a connection.
+ */
+export interface IMessageLimits {
+    // The largest message in bytes that is accepted. 0 or missing means no limit.
+    maxMessageBytes?: number;
+
+    // Rates by message type. The '*' entry applies to every type without its own entry.
+    rates?: Record<string, IMessageRate>;
+
+    // When true every message is checked against the protobuf schema of its type.
+    validateSchema?: boolean;
+
+    // The action for each kind of violation. Anything not given defaults to 'drop'.
+    actions?: Partial<Record<MessageViolationKind, MessageViolationAction>>;
+}
+
+const VIOLATION_KINDS: MessageViolationKind[] = ['oversize', 'rate', 'schema'];
+const VIOLATION_ACTIONS: MessageViolationAction[] = ['drop', 'warn', 'disconnect'];
+
+/**
+ * Checks message limits read from configuration. Invalid entries are logged and left out.
+ * @param rawLimits - The limits as read from configuration. May be a JSON string.
+ * @param label - The name of the option, used in log messages.
+ * @returns The limits or null when no limits are configured.
+ */
+export function normalizeMessageLimits(rawLimits: unknown, label: string): IMessageLimits | null {
+    let parsed = rawLimits;
+    if (typeof parsed === 'string') {
+        if (!parsed.trim()) {
+            return null;
+        }
+        try {
+            parsed = JSON.parse(parsed);
+        } catch {
+            Logger.warn(`Invalid ${label} value. It is not valid JSON. Message limits are disabled.`);
+            return null;
+        }
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return null;
+    }
+
+    const raw = parsed as {
+        maxMessageBytes?: unknown;
+        rates?: unknown;
+        validateSchema?: unknown;
+        actions?: unknown;
+    };
+    const limits: IMessageLimits = {};
+
+    if (raw.maxMessageBytes !== undefined) {
+        const maxMessageBytes = Number(raw.maxMessageBytes);
+        if (Number.isInteger(maxMessageBytes) && maxMessageBytes >= 0) {
+            limits.maxMessageBytes = maxMessageBytes;
+        } else {
+            Logger.warn(`Invalid ${label}.maxMessageBytes. Message size is not limited.`);
+        }
+    }
+
+    if (raw.rates && typeof raw.rates === 'object') {
+        limits.rates = {};
+        for (const [type, rawRate] of Object.entries(raw.rates as Record<string, unknown>)) {
+            const rate = (rawRate || {}) as { perSecond?: unknown; burst?: unknown };
+            const perSecond = Number(rate.perSecond);
+            const burst = rate.burst === undefined ? perSecond : Number(rate.burst);
+            if (!(perSecond > 0) || !(burst >= 1)) {
+                Logger.warn(`Invalid ${label}.rates entry for '${type}'. It is ignored.`);
+                continue;
+            }
+            limits.rates[type] = { perSecond, burst };
+        }
+    }
+
+    limits.validateSchema = raw.validateSchema === true;
+
+    limits.actions = {};
+    const rawActions = (raw.actions || {}) as Record<string, unknown>;
+    for (const kind of VIOLATION_KINDS) {
+        const action = rawActions[kind];
+        if (action === undefined) {
+            continue;
+        }
+        if (VIOLATION_ACTIONS.includes(action as MessageViolationAction)) {
+            limits.actions[kind] = action as MessageViolationAction;
+        } else {
+            Logger.warn(`Invalid ${label}.actions.${kind} value. Using 'drop'.`);
+        }
+    }
+
+    return limits;
+}
+
+/**
+ * Describes limits in one line for the startup log.
+ */
+export function describeMessageLimits(limits: IMessageLimits): string {
+    const rates = Object.entries(limits.rates || {})
+        .map(([type, rate]) => `${type}=${rate.perSecond}/s burst ${rate.burst}`)
+        .join(', ');
+    const actions = VIOLATION_KINDS.map((kind) => `${kind}=${limits.actions?.[kind] || 'drop'}`).join(', ');
+    return `maxMessageBytes=${limits.maxMessageBytes || 'unlimited'}, rates=[${rates}], validateSchema=${!!limits.validateSchema}, actions=[${actions}]`;
+}
+
+class TokenBucket {
+    private rate: IMessageRate;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(rate: IMessageRate) {
+        this.rate = rate;
+        this.tokens = rate.burst ?? rate.perSecond;
+        this.lastRefill = Date.now();
+    }
+
+    take(): boolean {
+        const now = Date.now();
+        const burst = this.rate.burst ?? this.rate.perSecond;
+        this.tokens = Math.min(burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate.perSecond);
+        this.lastRefill = now;
+        if (this.tokens < 1) {
+            return false;
+        }
+        this.tokens -= 1;
+        return true;
+    }
+}
+
+/**
+ * Applies message limits to the messages received on one connection. Oversized messages
+ * are caught by the transport before they are parsed, rates and schemas are checked by
+ * the protocol before any handler sees the message. Every violation is logged and counted.
+ */
+export class MessageGuard {
+    private limits: IMessageLimits;
+    private metrics: SignallingMetrics;
+    private describe: () => string;
+    private disconnect: (reason: string) => void;
+    private buckets: Map<string, TokenBucket>;
+    private disconnecting: boolean;
+
+    /**
+     * @param limits - The limits to apply.
+     * @param metrics - Violations are counted here.
+     * @param describe - Returns the connection's identifier for log messages.
+     * @param disconnect - Closes the connection when the action is 'disconnect'.
+     */
+    constructor(
+        limits: IMessageLimits,
+        metrics: SignallingMetrics,
+        describe: () => string,
+        disconnect: (reason: string) => void
+    ) {
+        this.limits = limits;
+        this.metrics = metrics;
+        this.describe = describe;
+        this.disconnect = disconnect;
+        this.buckets = new Map();
+        this.disconnecting = false;
+    }
+
+    /**
+     * Hooks the guard into a connection's transport and protocol.
+     */
+    attach(transport: WebSocketTransportNJS, protocol: SignallingProtocol): void {
+        if (this.limits.maxMessageBytes) {
+            transport.maxMessageBytes = this.limits.maxMessageBytes;
+            transport.onMessageTooLarge = (size: number, limit: number) =>
+                this.onViolation('oversize', undefined, `${size} bytes is over the limit of ${limit}`);
+        }
+        protocol.messageFilter = this.check.bind(this);
+    }
+
+    /**
+     * Checks a parsed message against the rate and schema limits.
+     * @returns False if the message should be dropped.
+     */
+    check(message: BaseMessage): boolean {
+        if (this.disconnecting) {
+            return false;
+        }
+
+        const type = typeof message?.type === 'string' ? message.type : '';
+        const bucket = this.getBucket(type);
+        if (bucket && !bucket.take()) {
+            if (!this.onViolation('rate', type, 'rate limit exceeded')) {
+                return false;
+            }
+        }
+
+        if (this.limits.validateSchema) {
+            const problem = MessageHelpers.checkMessageSchema(message);
+            if (problem && !this.onViolation('schema', type, problem)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private getBucket(type: string): TokenBucket | undefined {
+        const rates = this.limits.rates;
+        if (!rates) {
+            return undefined;
+        }
+
+        const key = Object.prototype.hasOwnProperty.call(rates, type) ? type : '*';
+        const rate = rates[key];
+        if (!rate) {
+            return undefined;
+        }
+
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(rate);
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    // Logs, counts and acts on a violation. Returns true if the message should be handled anyway.
+    private onViolation(kind: MessageViolationKind, type: string | undefined, detail: string): boolean {
+        const action = this.limits.actions?.[kind] || 'drop';
+        // only known types are used as labels so peers cannot create new series at will.
+        const typeLabel = type ? (MessageRegistry[type] ? type : 'unknown') : '';
+        this.metrics.messageViolations.inc({ kind, action, type: typeLabel });
+        Logger.warn(
+            `[message-limits] ${this.describe()} sent a message${type ? ` of type '${type}'` : ''} that broke the ${kind} limit (${detail}). Action: ${action}.`
+        );
+
+        if (action == 'warn') {
+            return true;
+        }
+
+        if (action == 'disconnect' && !this.disconnecting) {
+            this.disconnecting = true;
+            this.disconnect(`Message ${kind} limit exceeded.`);
+        }
+        return false;
+    }
+}
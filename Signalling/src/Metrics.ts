@@ -0,0 +1,250 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+
+/**
+ * Label names and values identifying one series of a metric.
+ */
+export type MetricLabels = Record<string, string>;
+
+interface IMetricSample {
+    labels: MetricLabels;
+    value: number;
+}
+
+function labelsKey(labels: MetricLabels): string {
+    return JSON.stringify(
+        Object.keys(labels)
+            .sort()
+            .map((name) => [name, labels[name]])
+    );
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const entries = Object.keys(labels)
+        .sort()
+        .map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+    return entries.length > 0 ? `{${entries.join(',')}}` : '';
+}
+
+/**
+ * A monotonically increasing count, optionally split into series by labels.
+ */
+export class Counter {
+    readonly name: string;
+    readonly help: string;
+
+    private series: Map<string, IMetricSample>;
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+        this.series = new Map();
+    }
+
+    /**
+     * Adds to the series identified by the labels.
+     * @param labels - The series to add to. Omit for a counter without labels.
+     * @param amount - How much to add. Defaults to 1.
+     */
+    inc(labels: MetricLabels = {}, amount: number = 1): void {
+        const key = labelsKey(labels);
+        const sample = this.series.get(key);
+        if (sample) {
+            sample.value += amount;
+        } else {
+            this.series.set(key, { labels: { ...labels }, value: amount });
+        }
+    }
+
+    /**
+     * Returns the value of the series identified by the labels. 0 if nothing was counted yet.
+     */
+    get(labels: MetricLabels = {}): number {
+        return this.series.get(labelsKey(labels))?.value || 0;
+    }
+
+    /**
+     * Returns the sum of every series.
+     */
+    total(): number {
+        let total = 0;
+        for (const sample of this.series.values()) {
+            total += sample.value;
+        }
+        return total;
+    }
+
+    /**
+     * Returns every series counted so far.
+     */
+    samples(): IMetricSample[] {
+        return Array.from(this.series.values());
+    }
+}
+
+/**
+ * A value that can go up and down. It is read from a callback whenever metrics are
+ * collected so it is never out of date.
+ */
+export class Gauge {
+    readonly name: string;
+    readonly help: string;
+
+    private collect: () => number;
+
+    constructor(name: string, help: string, collect: () => number) {
+        this.name = name;
+        this.help = help;
+        this.collect = collect;
+    }
+
+    /**
+     * Returns the current value.
+     */
+    get(): number {
+        return this.collect();
+    }
+}
+
+/**
+ * A set of counters and gauges that can be rendered in the Prometheus text exposition format.
+ */
+export class MetricsRegistry {
+    private counters: Counter[];
+    private gauges: Gauge[];
+
+    constructor() {
+        this.counters = [];
+        this.gauges = [];
+    }
+
+    /**
+     * Creates a counter and adds it to the registry.
+     */
+    counter(name: string, help: string): Counter {
+        const counter = new Counter(name, help);
+        this.counters.push(counter);
+        return counter;
+    }
+
+    /**
+     * Creates a gauge read from the given callback and adds it to the registry.
+     */
+    gauge(name: string, help: string, collect: () => number): Gauge {
+        const gauge = new Gauge(name, help, collect);
+        this.gauges.push(gauge);
+        return gauge;
+    }
+
+    /**
+     * Renders every metric in the Prometheus text exposition format (version 0.0.4).
+     */
+    render(): string {
+        const lines: string[] = [];
+        for (const gauge of this.gauges) {
+            lines.push(`# HELP ${gauge.name} ${gauge.help}`);
+            lines.push(`# TYPE ${gauge.name} gauge`);
+            lines.push(`${gauge.name} ${gauge.get()}`);
+        }
+        for (const counter of this.counters) {
+            lines.push(`# HELP ${counter.name} ${counter.help}`);
+            lines.push(`# TYPE ${counter.name} counter`);
+            const samples = counter.samples();
+            if (samples.length == 0) {
+                lines.push(`${counter.name} 0`);
+            }
+            for (const sample of samples) {
+                lines.push(`${counter.name}${formatLabels(sample.labels)} ${sample.value}`);
+            }
+        }
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Returns one human readable line per series, for printing to a console.
+     */
+    describe(): string[] {
+        const lines: string[] = [];
+        for (const gauge of this.gauges) {
+            lines.push(`${gauge.name}: ${gauge.get()}`);
+        }
+        for (const counter of this.counters) {
+            const samples = counter.samples();
+            if (samples.length == 0) {
+                lines.push(`${counter.name}: 0`);
+            }
+            for (const sample of samples) {
+                lines.push(`${counter.name}${formatLabels(sample.labels)}: ${sample.value}`);
+            }
+        }
+        return lines;
+    }
+}
+
+/**
+ * The counters kept by a signalling server. Gauges for the number of connections are
+ * added by the server itself since they are read from its registries.
+ */
+export class SignallingMetrics extends MetricsRegistry {
+    // Players that subscribed to a streamer.
+    readonly subscribes: Counter;
+    // Subscribe attempts that were refused, labelled by reason.
+    readonly subscribeFailures: Counter;
+    // Messages passed from one connection to another, labelled by message type.
+    readonly messagesForwarded: Counter;
+    // Player connections terminated by the keepalive watchdog, labelled by cause.
+    readonly keepaliveTerminations: Counter;
+    // Player connect tickets that failed validation, labelled by reason and auth mode.
+    readonly connectTicketRejections: Counter;
+    // Streamer and SFU connections that failed authentication, labelled by reason, auth mode and role.
+    readonly streamerAuthRejections: Counter;
+    // Player connections refused or evicted by a connection limit, labelled by limit and action.
+    readonly playerConnectionLimitHits: Counter;
+    // Websocket errors, labelled by the role of the connection.
+    readonly websocketErrors: Counter;
+    // Received messages that broke a message limit, labelled by kind, action and message type.
+    readonly messageViolations: Counter;
+
+    constructor() {
+        super();
+        this.subscribes = this.counter(
+            'signalling_subscribes_total',
+            'Players that subscribed to a streamer.'
+        );
+        this.subscribeFailures = this.counter(
+            'signalling_subscribe_failures_total',
+            'Subscribe attempts that were refused, by reason.'
+        );
+        this.messagesForwarded = this.counter(
+            'signalling_messages_forwarded_total',
+            'Messages forwarded between connections, by message type.'
+        );
+        this.keepaliveTerminations = this.counter(
+            'signalling_keepalive_terminations_total',
+            'Player connections terminated by the keepalive watchdog, by cause.'
+        );
+        this.connectTicketRejections = this.counter(
+            'signalling_connect_ticket_rejections_total',
+            'Player connect tickets that failed validation, by reason and auth mode.'
+        );
+        this.streamerAuthRejections = this.counter(
+            'signalling_streamer_auth_rejections_total',
+            'Streamer and SFU connections that failed authentication, by reason, auth mode and role.'
+        );
+        this.playerConnectionLimitHits = this.counter(
+            'signalling_player_connection_limit_hits_total',
+            'Player connections refused or evicted by a per address or per subject limit, by limit and action.'
+        );
+        this.websocketErrors = this.counter(
+            'signalling_websocket_errors_total',
+            'Websocket errors, by connection role.'
+        );
+        this.messageViolations = this.counter(
+            'signalling_message_violations_total',
+            'Received messages that broke a message limit, by kind, action and message type.'
+        );
+    }
+}
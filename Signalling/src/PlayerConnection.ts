@@ -1,4 +1,5 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
+import http from 'http';
 import WebSocket from 'ws';
 import {
     ITransport,
@@ -8,12 +9,25 @@ import {
     Messages,
     BaseMessage
 } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
-import { IPlayer, IPlayerInfo } from './PlayerRegistry';
+import { IPlayer, IPlayerIdentity, IPlayerInfo } from './PlayerRegistry';
 import { IStreamer } from './StreamerRegistry';
+import { RemoteStreamer } from './RemoteConnections';
+import { IQueuedPlayer } from './PlayerQueue';
+import {
+    IPlayerAccess,
+    SubscribeFailureReason,
+    checkStreamerAccess,
+    isSameAccess,
+    resolveStreamerPolicy
+} from './StreamerPolicy';
+import { MessageGuard } from './MessageGuard';
 import { Logger } from './Logger';
 import * as LogUtils from './LoggingUtils';
 import { SignallingServer } from './SignallingServer';
 
+// setTimeout cannot wait longer than this. Tickets that expire later are not watched.
+const MAX_TIMER_DELAY_MS = 2147483647;
+
 /**
  * A connection between the signalling server and a player connection.
  * This is where messages expected to be handled by the player come in
@@ -36,8 +50,22 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
     subscribedStreamer: IStreamer | null;
     // A descriptive string describing the remote address of this connection.
     remoteAddress?: string;
+    // What this player is allowed to subscribe to. Undefined for anonymous players.
+    access?: IPlayerAccess;
+    // Who this player authenticated as. Undefined for anonymous players.
+    identity?: IPlayerIdentity;
 
     private server: SignallingServer;
+    // True once the connection is closing on purpose so the session is not held for resume.
+    private closingLocally: boolean;
+    // True once another connection has taken over this player's session.
+    private resumed: boolean;
+    // The request that opened this connection. Used to validate refreshed connect tickets.
+    private request?: http.IncomingMessage;
+    // Timers asking the player to refresh its connect ticket and acting on its expiry.
+    private ticketExpiringTimer?: NodeJS.Timeout;
+    private ticketExpiredTimer?: NodeJS.Timeout;
+    private queueEntry: IQueuedPlayer;
     private streamerIdChangeListener: (newId: string) => void;
     private streamerDisconnectedListener: () => void;
 
@@ -47,20 +75,54 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
      * @param server - The signalling server object that spawned this player.
      * @param ws - The websocket coupled to this player connection.
      * @param remoteAddress - The remote address of this connection. Only used as display.
+     * @param request - The request that opened this connection.
      */
-    constructor(server: SignallingServer, ws: WebSocket, remoteAddress?: string) {
+    constructor(
+        server: SignallingServer,
+        ws: WebSocket,
+        remoteAddress?: string,
+        request?: http.IncomingMessage
+    ) {
         this.server = server;
+        this.request = request;
         this.playerId = '';
         this.subscribedStreamer = null;
-        this.transport = new WebSocketTransportNJS(ws);
+        const transport = new WebSocketTransportNJS(ws);
+        this.transport = transport;
         this.protocol = new SignallingProtocol(this.transport);
         this.remoteAddress = remoteAddress;
+        this.closingLocally = false;
+        this.resumed = false;
+
+        // start recording before any other listener is added so the recording sees the close
+        // before the reactions to it.
+        server.sessionRecorder?.record('player', this, remoteAddress);
 
         this.transport.on('error', this.onTransportError.bind(this));
         this.transport.on('close', this.onTransportClose.bind(this));
 
         this.streamerIdChangeListener = this.onStreamerIdChanged.bind(this);
         this.streamerDisconnectedListener = this.onStreamerDisconnected.bind(this);
+        this.queueEntry = {
+            player: this,
+            onPosition: this.sendQueuePosition.bind(this),
+            onAdmitted: (streamer: IStreamer) => this.subscribe(streamer.streamerId, true),
+            onStreamerGone: (streamer: IStreamer) =>
+                this.sendSubscribeFailed(
+                    'streamer_not_found',
+                    `Streamer ${streamer.streamerId} disconnected while you were waiting.`
+                )
+        };
+
+        if (server.playerMessageLimits) {
+            const guard = new MessageGuard(
+                server.playerMessageLimits,
+                server.metrics,
+                () => `Player ${this.playerId}`,
+                (reason: string) => this.disconnect(1008, reason)
+            );
+            guard.attach(transport, this.protocol);
+        }
 
         this.registerMessageHandlers();
     }
@@ -73,6 +135,26 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
         return this.playerId;
     }
 
+    /**
+     * Returns who this player authenticated as so log lines can be traced to a user.
+     * @returns The identity of this player or undefined if it is anonymous.
+     */
+    getLogIdentity(): LogUtils.ILogIdentity | undefined {
+        return this.identity;
+    }
+
+    /**
+     * Returns the ids that tie this player's log lines to its session.
+     * @returns The player id, the streamer it is subscribed to and its connect ticket id.
+     */
+    getLogContext(): LogUtils.ILogContext {
+        return {
+            playerId: this.playerId,
+            streamerId: this.subscribedStreamer?.streamerId,
+            jti: this.identity?.ticketId
+        };
+    }
+
     /**
      * Sends a signalling message to the player.
      * @param message - The message to send.
@@ -91,10 +173,97 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
             playerId: this.playerId,
             type: 'Player',
             subscribedTo: this.subscribedStreamer?.streamerId,
-            remoteAddress: this.remoteAddress
+            remoteAddress: this.remoteAddress,
+            identity: this.identity
         };
     }
 
+    /**
+     * Issues a fresh resume token and sends it to the player in an endpointIdConfirm message.
+     */
+    sendResumeToken(): void {
+        const resumeToken = this.server.playerSessions.issue(this);
+        const confirmMessage = MessageHelpers.createMessage(Messages.endpointIdConfirm, {
+            committedId: this.playerId,
+            resumeToken
+        });
+        this.sendMessage(confirmMessage);
+    }
+
+    /**
+     * Ends a session that was held for resume but never resumed. The streamer is told
+     * the player has gone.
+     */
+    endHeldSession(): void {
+        this.unsubscribe();
+    }
+
+    /**
+     * Disconnects the player on behalf of an operator. A session held for resume is
+     * ended as well. The websocket is closed as going away (1001) so players do not
+     * automatically reconnect.
+     * @param reason - The close reason sent to the player.
+     */
+    kick(reason: string): void {
+        const held = this.server.playerSessions.isHeld(this);
+        this.server.playerSessions.revoke(this);
+        if (held) {
+            // the connection is already gone so nothing will remove the player for us.
+            this.endHeldSession();
+            this.server.playerRegistry.remove(this);
+            return;
+        }
+
+        this.disconnect(1001, reason);
+    }
+
+    /**
+     * Starts tracking the expiry of the player's connect ticket. When playerTicketRefreshLeadMs
+     * is set the player is asked to refresh the ticket that long before it expires. Once the
+     * ticket has expired, allowing for playerTicketClockSkewMs, the player is disconnected when
+     * the server is configured to. Replaces any previous tracking.
+     */
+    watchTicketExpiry(): void {
+        this.clearTicketTimers();
+
+        const expiresAt = this.identity?.expiresAt;
+        if (!expiresAt) {
+            return;
+        }
+
+        const leadMs = this.server.config.playerTicketRefreshLeadMs || 0;
+        const skewMs = Math.max(0, this.server.config.playerTicketClockSkewMs || 0);
+        const expiresInMs = expiresAt * 1000 - Date.now();
+        if (leadMs > 0 && expiresInMs <= MAX_TIMER_DELAY_MS) {
+            this.ticketExpiringTimer = setTimeout(
+                () => {
+                    this.sendMessage(MessageHelpers.createMessage(Messages.ticketExpiring, { expiresAt }));
+                },
+                Math.max(0, expiresInMs - leadMs)
+            );
+        }
+        if (expiresInMs + skewMs <= MAX_TIMER_DELAY_MS) {
+            this.ticketExpiredTimer = setTimeout(
+                () => this.onTicketExpired(),
+                Math.max(0, expiresInMs + skewMs)
+            );
+        }
+    }
+
+    /**
+     * Unsubscribes the player from its streamer, or takes it out of the waiting room,
+     * on behalf of an operator. The player stays connected and may subscribe again.
+     * @returns False if the player was neither subscribed nor waiting.
+     */
+    forceUnsubscribe(): boolean {
+        if (!this.subscribedStreamer && !this.server.playerQueue?.queuedFor(this)) {
+            return false;
+        }
+
+        this.unsubscribe();
+        return true;
+    }
+
     private registerMessageHandlers(): void {
         /* eslint-disable @typescript-eslint/unbound-method */
         this.protocol.on(
@@ -105,11 +274,23 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
             Messages.unsubscribe.typeName,
             LogUtils.createHandlerListener(this, this.onUnsubscribeMessage)
         );
+        this.protocol.on(
+            Messages.subscribeAny.typeName,
+            LogUtils.createHandlerListener(this, this.onSubscribeAnyMessage)
+        );
         this.protocol.on(
             Messages.listStreamers.typeName,
             LogUtils.createHandlerListener(this, this.onListStreamers)
         );
+        this.protocol.on(
+            Messages.resumeSession.typeName,
+            LogUtils.createHandlerListener(this, this.onResumeSessionMessage)
+        );
         this.protocol.on(Messages.ping.typeName, LogUtils.createHandlerListener(this, this.onPingMessage));
+        this.protocol.on(
+            Messages.refreshTicket.typeName,
+            LogUtils.createHandlerListener(this, this.onRefreshTicketMessage)
+        );
         /* eslint-enable @typescript-eslint/unbound-method */
 
         this.protocol.on(Messages.offer.typeName, this.sendToStreamer.bind(this));
@@ -129,32 +310,59 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
             Logger.warn(
                 `Player ${this.playerId} tried to send to a streamer but they're not subscribed to any.`
             );
-            const streamerId = this.server.streamerRegistry.getFirstStreamerId();
-            if (!streamerId) {
+            const streamer = this.server.streamerHealth.route(this);
+            if (!streamer) {
                 Logger.error('There are no streamers to force a subscription. Disconnecting.');
                 this.disconnect();
                 return;
             } else {
-                Logger.warn(`Subscribing to ${streamerId}`);
-                this.subscribe(streamerId);
+                Logger.warn(`Subscribing to ${streamer.streamerId}`);
+                this.subscribe(streamer.streamerId);
             }
         }
 
+        if (!this.subscribedStreamer) {
+            // the subscription was refused or the player is waiting in the queue.
+            return;
+        }
+
+        if (message.type == Messages.answer.typeName) {
+            this.server.streamerHealth.negotiationAnswered(this.subscribedStreamer, this.playerId);
+        }
         message.playerId = this.playerId;
         LogUtils.logForward(this, this.subscribedStreamer!, message);
+        this.server.metrics.messagesForwarded.inc({ type: message.type });
         this.subscribedStreamer!.protocol.sendMessage(message);
     }
 
-    private subscribe(streamerId: string) {
+    private subscribe(streamerId: string, fromQueue: boolean = false) {
+        if (this.server.drain.draining) {
+            Logger.warn(
+                `subscribe: Player ${this.playerId} tried to subscribe to ${streamerId} while draining.`
+            );
+            this.sendSubscribeFailed(
+                'server_draining',
+                'The server is draining and is not starting new sessions.'
+            );
+            return;
+        }
+
         const streamer = this.server.streamerRegistry.find(streamerId);
         if (!streamer) {
             Logger.error(
                 `subscribe: Player ${this.playerId} tried to subscribe to a non-existent streamer ${streamerId}`
             );
-            const failureMessage = MessageHelpers.createMessage(Messages.subscribeFailed, {
-                message: `Streamer ${streamerId} does not exist.`
-            });
-            this.protocol.sendMessage(failureMessage);
+            this.sendSubscribeFailed('streamer_not_found', `Streamer ${streamerId} does not exist.`);
+            return;
+        }
+
+        const policy = resolveStreamerPolicy(this.server.config.streamerPolicies, streamer.streamerId);
+        const refusal = checkStreamerAccess(policy, this.access, streamer.streamerId);
+        if (refusal) {
+            Logger.error(
+                `subscribe: Player ${this.playerId} is not allowed to subscribe to ${streamerId} (${refusal}).`
+            );
+            this.sendSubscribeFailed(refusal, `You are not allowed to view streamer ${streamerId}.`);
             return;
         }
 
@@ -165,50 +373,170 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
             this.unsubscribe();
         }
 
-        if (streamer.maxSubscribers > 0 && streamer.subscribers.size >= streamer.maxSubscribers) {
+        const queue = this.server.playerQueue;
+        if (queue && queue.queuedFor(this) === streamer) {
+            // already waiting for this streamer. keep our place.
+            return;
+        }
+
+        const maxSubscribers = policy.maxSubscribers ?? streamer.maxSubscribers;
+        if (maxSubscribers > 0 && streamer.subscribers.size >= maxSubscribers) {
+            if (queue) {
+                queue.enqueue(streamer, this.queueEntry, fromQueue);
+                return;
+            }
+
             Logger.error(
-                `subscribe: Player ${this.playerId} could not subscribe to ${streamerId}. Max players (${streamer.maxSubscribers}) reached.`
+                `subscribe: Player ${this.playerId} could not subscribe to ${streamerId}. Max players (${maxSubscribers}) reached.`
+            );
+            this.sendSubscribeFailed(
+                'streamer_full',
+                `Streamer ${streamerId} is full. Max players = ${maxSubscribers}.`
             );
-            const failureMessage = MessageHelpers.createMessage(Messages.subscribeFailed, {
-                message: `Streamer ${streamerId} is full. Max players = ${streamer.maxSubscribers}.`
-            });
-            this.protocol.sendMessage(failureMessage);
             return;
         }
 
+        queue?.remove(this);
+
+        // in single controller mode everyone after the controller only spectates so gets no data channel.
+        let dataChannel = true;
+        if (policy.subscriberMode == 'single-controller') {
+            if (streamer.controllerId && streamer.subscribers.has(streamer.controllerId)) {
+                dataChannel = false;
+            } else {
+                streamer.controllerId = this.playerId;
+            }
+            Logger.info(
+                `subscribe: Player ${this.playerId} joins ${streamerId} as ${dataChannel ? 'controller' : 'spectator'}.`
+            );
+        }
+
         this.subscribedStreamer = streamer;
         this.subscribedStreamer.subscribers.add(this.playerId);
+        this.server.streamerRegistry.refresh(this.subscribedStreamer);
         this.subscribedStreamer.on('id_changed', this.streamerIdChangeListener);
         this.subscribedStreamer.on('disconnect', this.streamerDisconnectedListener);
 
         const connectedMessage = MessageHelpers.createMessage(Messages.playerConnected, {
             playerId: this.playerId,
-            dataChannel: true,
-            sfu: false
+            dataChannel,
+            sfu: false,
+            playerClaims: this.getForwardedClaims()
         });
         this.sendToStreamer(connectedMessage);
+        this.server.streamerHealth.negotiationStarted(streamer, this.playerId);
+        this.server.metrics.subscribes.inc();
+    }
+
+    /**
+     * Picks the identity claims the server is configured to forward to streamers. Claims
+     * that are not strings are sent as JSON.
+     */
+    private getForwardedClaims(): Record<string, string> {
+        const forwarded: Record<string, string> = {};
+        for (const name of this.server.config.forwardedPlayerClaims || []) {
+            const value = this.identity?.claims[name];
+            if (value !== undefined && value !== null) {
+                forwarded[name] = typeof value === 'string' ? value : JSON.stringify(value);
+            }
+        }
+        return forwarded;
+    }
+
+    private sendQueuePosition(streamer: IStreamer, position: number, queueLength: number): void {
+        const positionMessage = MessageHelpers.createMessage(Messages.queuePosition, {
+            streamerId: streamer.streamerId,
+            position,
+            queueLength
+        });
+        this.sendMessage(positionMessage);
+    }
+
+    private sendSubscribeFailed(reason: SubscribeFailureReason, description: string): void {
+        this.server.metrics.subscribeFailures.inc({ reason });
+        const failureMessage = MessageHelpers.createMessage(Messages.subscribeFailed, {
+            message: description,
+            reason
+        });
+        this.protocol.sendMessage(failureMessage);
     }
 
     private unsubscribe() {
+        this.server.playerQueue?.remove(this);
         if (!this.subscribedStreamer) {
             return;
         }
 
-        this.subscribedStreamer.subscribers.delete(this.playerId);
+        const streamer = this.subscribedStreamer;
+        streamer.subscribers.delete(this.playerId);
+        if (streamer.controllerId == this.playerId) {
+            streamer.controllerId = undefined;
+        }
+        this.server.streamerRegistry.refresh(streamer);
+        this.server.streamerHealth.negotiationEnded(streamer, this.playerId);
 
         const disconnectedMessage = MessageHelpers.createMessage(Messages.playerDisconnected, {
             playerId: this.playerId
         });
         this.sendToStreamer(disconnectedMessage);
 
-        this.subscribedStreamer.off('id_changed', this.streamerIdChangeListener);
-        this.subscribedStreamer.off('disconnect', this.streamerDisconnectedListener);
+        this.detachSubscription();
+        this.server.playerQueue?.admitNext(streamer);
+    }
+
+    /**
+     * Forgets the subscription to a streamer on another node after that node refused it.
+     * Nothing is sent to the streamer since it never learned about this player.
+     * @param nodeId - The node that refused the subscription.
+     */
+    dropRefusedSubscription(nodeId: string): void {
+        const streamer = this.subscribedStreamer;
+        if (!(streamer instanceof RemoteStreamer) || streamer.nodeId != nodeId) {
+            return;
+        }
+
+        Logger.warn(`Player ${this.playerId} was refused by ${streamer.getReadableIdentifier()}.`);
+        streamer.subscribers.delete(this.playerId);
+        this.server.streamerHealth.negotiationAnswered(streamer, this.playerId);
+        this.detachSubscription();
+    }
+
+    private detachSubscription(): IStreamer | null {
+        const streamer = this.subscribedStreamer;
+        if (streamer) {
+            streamer.off('id_changed', this.streamerIdChangeListener);
+            streamer.off('disconnect', this.streamerDisconnectedListener);
+        }
         this.subscribedStreamer = null;
+        return streamer;
+    }
+
+    private resumeSession(previous: PlayerConnection): void {
+        // take the subscription over quietly so the streamer keeps its peer connection.
+        const streamer = previous.detachSubscription();
+        previous.resumed = true;
+        if (previous.transport.isConnected()) {
+            previous.protocol.disconnect(1000, 'Session resumed on another connection.');
+        }
+
+        const temporaryId = this.playerId;
+        this.server.playerRegistry.replace(previous, this);
+        if (streamer) {
+            this.subscribedStreamer = streamer;
+            this.subscribedStreamer.on('id_changed', this.streamerIdChangeListener);
+            this.subscribedStreamer.on('disconnect', this.streamerDisconnectedListener);
+        }
+
+        Logger.info(
+            `[player-resume] ${temporaryId} resumed the session of ${this.playerId} (subscribed to ${streamer?.streamerId || 'nothing'}).`
+        );
+        this.sendResumeToken();
     }
 
-    private disconnect() {
+    private disconnect(code?: number, reason?: string) {
+        this.closingLocally = true;
         this.unsubscribe();
-        this.protocol.disconnect();
+        this.protocol.disconnect(code, reason);
     }
 
     private onStreamerDisconnected(): void {
@@ -217,10 +545,26 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
 
     private onTransportError(error: ErrorEvent): void {
         Logger.error(`Player (${this.playerId}) transport error ${error.message}`);
+        this.server.metrics.websocketErrors.inc({ role: 'player' });
     }
 
-    private onTransportClose(_event: CloseEvent): void {
+    private onTransportClose(event: CloseEvent): void {
         Logger.debug('PlayerConnection transport close.');
+        this.clearTicketTimers();
+        if (this.resumed) {
+            // another connection has taken over the session.
+            return;
+        }
+
+        this.server.playerQueue?.remove(this);
+
+        // a normal closure or going away means the player left on purpose.
+        const intentional = this.closingLocally || event.code == 1000 || event.code == 1001;
+        if (!intentional && this.server.playerSessions.hold(this)) {
+            return;
+        }
+
+        this.server.playerSessions.revoke(this);
         this.disconnect();
     }
 
@@ -228,15 +572,76 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
         this.subscribe(message.streamerId);
     }
 
+    private onResumeSessionMessage(message: Messages.resumeSession): void {
+        if (this.subscribedStreamer) {
+            this.sendResumeFailed('Cannot resume a session after subscribing.');
+            return;
+        }
+
+        const previous = this.server.playerSessions.find(message.resumeToken);
+        if (!previous || previous === this) {
+            this.sendResumeFailed('Resume token is invalid or has expired.');
+            return;
+        }
+
+        // a leaked token must not hand the session to someone else. the token is left alone so
+        // the owner can still resume.
+        if (
+            this.identity?.subject !== previous.identity?.subject ||
+            !isSameAccess(this.access, previous.access)
+        ) {
+            this.sendResumeFailed('The session belongs to a different identity.');
+            return;
+        }
+
+        // policies may have changed since the session subscribed.
+        const streamer = previous.subscribedStreamer;
+        if (streamer) {
+            const policy = resolveStreamerPolicy(this.server.config.streamerPolicies, streamer.streamerId);
+            const refusal = checkStreamerAccess(policy, this.access, streamer.streamerId);
+            if (refusal) {
+                this.sendResumeFailed(`You are no longer allowed to view streamer ${streamer.streamerId}.`);
+                previous.kick(`Session no longer permitted (${refusal}).`);
+                return;
+            }
+        }
+
+        this.server.playerSessions.claim(message.resumeToken);
+        if (this.identity) {
+            // resuming carries on the session the ticket was already used for.
+            this.server.config.releasePlayerTicketUse?.(this.identity);
+        }
+        this.resumeSession(previous);
+    }
+
+    private sendResumeFailed(reason: string): void {
+        Logger.warn(`[player-resume] Player ${this.playerId} could not resume a session: ${reason}`);
+        this.sendMessage(MessageHelpers.createMessage(Messages.resumeFailed, { message: reason }));
+    }
+
+    private onSubscribeAnyMessage(_message: Messages.subscribeAny): void {
+        const streamer = this.server.streamerHealth.route(this);
+        if (!streamer) {
+            Logger.error(`subscribeAny: There is no streamer player ${this.playerId} may subscribe to.`);
+            this.sendSubscribeFailed('streamer_not_found', 'No streamer is available.');
+            return;
+        }
+
+        Logger.info(
+            `subscribeAny: Routing player ${this.playerId} to ${streamer.streamerId} (policy ${this.server.streamerHealth.policy}).`
+        );
+        this.subscribe(streamer.streamerId);
+    }
+
     private onUnsubscribeMessage(_message: Messages.unsubscribe): void {
         this.unsubscribe();
     }
 
-    private onListStreamers(_message: Messages.listStreamers): void {
+    private onListStreamers(message: Messages.listStreamers): void {
+        const streamers = this.server.streamerRegistry.listStreamerDescriptions(true, message.tags || []);
         const listMessage = MessageHelpers.createMessage(Messages.streamerList, {
-            ids: this.server.streamerRegistry.streamers
-                .filter((streamer) => streamer.streaming)
-                .map((streamer) => streamer.streamerId)
+            ids: streamers.map((streamer) => streamer.streamerId),
+            streamers
         });
         this.sendMessage(listMessage);
     }
@@ -249,4 +654,97 @@ export class PlayerConnection implements IPlayer, LogUtils.IMessageLogger {
     private onPingMessage(message: Messages.ping): void {
         this.sendMessage(MessageHelpers.createMessage(Messages.pong, { time: message.time }));
     }
+
+    private onRefreshTicketMessage(message: Messages.refreshTicket): void {
+        const refreshPlayerIdentity = this.server.config.refreshPlayerIdentity;
+        if (!refreshPlayerIdentity || !this.request) {
+            this.sendTicketRefreshFailed('Connect tickets cannot be refreshed on this server.');
+            return;
+        }
+
+        refreshPlayerIdentity(message.ticket, this.request)
+            .then((result) => {
+                if (!result.identity) {
+                    this.sendTicketRefreshFailed(result.reason || 'The connect ticket is invalid.');
+                    return;
+                }
+
+                // connection limits are counted per subject when the player connects, so an
+                // anonymous player must not pick one up here either.
+                if (result.identity.subject !== this.identity?.subject) {
+                    this.sendTicketRefreshFailed('The connect ticket was issued to a different subject.');
+                    return;
+                }
+
+                this.identity = result.identity;
+                this.access = result.access;
+                this.watchTicketExpiry();
+                Logger.info(
+                    `[ticket-refresh] Player ${this.playerId} refreshed its connect ticket (expires ${result.identity.expiresAt ?? 'never'}).`
+                );
+                this.sendMessage(
+                    MessageHelpers.createMessage(Messages.ticketRefreshed, {
+                        expiresAt: result.identity.expiresAt || 0
+                    })
+                );
+                this.recheckStreamerAccess();
+            })
+            .catch((error: unknown) => {
+                Logger.error(
+                    `[ticket-refresh] Player ${this.playerId} ticket refresh failed: ${String(error)}`
+                );
+                this.sendTicketRefreshFailed('The connect ticket could not be validated.');
+            });
+    }
+
+    /**
+     * Ends the subscription, or the wait for one, when the player's refreshed access no longer
+     * permits the streamer.
+     */
+    private recheckStreamerAccess(): void {
+        const streamer = this.subscribedStreamer || this.server.playerQueue?.queuedFor(this);
+        if (!streamer) {
+            return;
+        }
+
+        const policy = resolveStreamerPolicy(this.server.config.streamerPolicies, streamer.streamerId);
+        const refusal = checkStreamerAccess(policy, this.access, streamer.streamerId);
+        if (!refusal) {
+            return;
+        }
+
+        Logger.warn(
+            `[ticket-refresh] Player ${this.playerId} may no longer view ${streamer.streamerId} (${refusal}). Unsubscribing.`
+        );
+        this.unsubscribe();
+        this.sendSubscribeFailed(
+            refusal,
+            `You are no longer allowed to view streamer ${streamer.streamerId}.`
+        );
+    }
+
+    private sendTicketRefreshFailed(reason: string): void {
+        Logger.warn(
+            `[ticket-refresh] Player ${this.playerId} could not refresh its connect ticket: ${reason}`
+        );
+        this.sendMessage(MessageHelpers.createMessage(Messages.ticketRefreshFailed, { message: reason }));
+    }
+
+    private onTicketExpired(): void {
+        this.clearTicketTimers();
+        if (!this.server.config.playerTicketExpiryDisconnect) {
+            Logger.warn(`[ticket-refresh] [soft] Player ${this.playerId} connect ticket has expired.`);
+            return;
+        }
+
+        Logger.warn(`[ticket-refresh] Player ${this.playerId} connect ticket expired. Disconnecting.`);
+        this.disconnect(1008, 'Connect ticket expired.');
+    }
+
+    private clearTicketTimers(): void {
+        clearTimeout(this.ticketExpiringTimer);
+        clearTimeout(this.ticketExpiredTimer);
+        this.ticketExpiringTimer = undefined;
+        this.ticketExpiredTimer = undefined;
+    }
 }
@@ -0,0 +1,170 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import http from 'http';
+import { Logger } from './Logger';
+import { SignallingMetrics } from './Metrics';
+import { PlayerConnection } from './PlayerConnection';
+
+/**
+ * What happens when a new player connection would go over a limit.
+ * reject-newest: the new connection is refused.
+ * evict-oldest: the oldest connection over the limit is closed to make room.
+ */
+export type PlayerConnectionLimitAction = 'reject-newest' | 'evict-oldest';
+
+export interface IPlayerConnectionLimits {
+    // Max concurrent player connections from one client address. 0 is unlimited.
+    maxPerAddress: number;
+    // Max concurrent player connections per authenticated subject. 0 is unlimited.
+    maxPerSubject: number;
+    action: PlayerConnectionLimitAction;
+}
+
+type LimitKind = 'address' | 'subject';
+
+/**
+ * Works out the address of the client behind a player connection request. When the server sits
+ * behind reverse proxies the address is taken from the X-Forwarded-For header, trusting as many
+ * entries from the right as there are proxies, the same way express resolves request.ip.
+ * @param request - The connection request.
+ * @param trustedProxies - The number of reverse proxies in front of the server.
+ * @returns The client address or undefined if the socket has already gone.
+ */
+export function resolveClientAddress(
+    request: http.IncomingMessage,
+    trustedProxies: number
+): string | undefined {
+    const socketAddress = request.socket.remoteAddress;
+    if (trustedProxies <= 0) {
+        return socketAddress;
+    }
+
+    const header = request.headers['x-forwarded-for'];
+    const forwarded = (Array.isArray(header) ? header.join(',') : header || '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0)
+        .reverse();
+    const hops = [socketAddress, ...forwarded];
+    return hops[Math.min(trustedProxies, hops.length - 1)];
+}
+
+/**
+ * Caps how many player connections may be open at once from one address and for one
+ * authenticated subject. Connections are tracked in the order they were opened so the
+ * oldest can be evicted. Only connections to this signalling process are counted.
+ */
+export class PlayerConnectionLimiter {
+    private getLimits: () => IPlayerConnectionLimits;
+    private metrics: SignallingMetrics;
+    private connections: Map<LimitKind, Map<string, PlayerConnection[]>>;
+    private keys: Map<PlayerConnection, Partial<Record<LimitKind, string>>>;
+
+    /**
+     * @param getLimits - Returns the current limits. Read on every new connection so limits can change at runtime.
+     * @param metrics - Rejections and evictions are counted here.
+     */
+    constructor(getLimits: () => IPlayerConnectionLimits, metrics: SignallingMetrics) {
+        this.getLimits = getLimits;
+        this.metrics = metrics;
+        this.connections = new Map([
+            ['address', new Map()],
+            ['subject', new Map()]
+        ]);
+        this.keys = new Map();
+    }
+
+    /**
+     * Checks whether a new connection fits within the limits. With the evict-oldest action the
+     * oldest connections are closed to make room and the new connection is always admitted.
+     * @param address - The client address of the new connection.
+     * @param subject - The subject the new connection authenticated as, if any.
+     * @returns The reason the connection is refused, or undefined if it may be admitted.
+     */
+    admit(address?: string, subject?: string): string | undefined {
+        const limits = this.getLimits();
+        const checks: [LimitKind, string | undefined, number][] = [
+            ['address', address, limits.maxPerAddress],
+            ['subject', subject, limits.maxPerSubject]
+        ];
+
+        if (limits.action === 'reject-newest') {
+            for (const [kind, key, max] of checks) {
+                if (key && max > 0 && this.count(kind, key) >= max) {
+                    this.metrics.playerConnectionLimitHits.inc({ limit: kind, action: 'rejected' });
+                    Logger.warn(
+                        `[connection-limit] Refused a player connection. ${kind} '${key}' already has ${max} connection(s).`
+                    );
+                    return `Too many connections for this ${kind}. The limit is ${max}.`;
+                }
+            }
+            return undefined;
+        }
+
+        for (const [kind, key, max] of checks) {
+            if (!key || max <= 0) {
+                continue;
+            }
+
+            while (this.count(kind, key) >= max) {
+                const oldest = this.connections.get(kind)!.get(key)![0];
+                this.remove(oldest);
+                this.metrics.playerConnectionLimitHits.inc({ limit: kind, action: 'evicted' });
+                Logger.warn(
+                    `[connection-limit] Evicting player ${oldest.playerId}. ${kind} '${key}' reached its limit of ${max} connection(s).`
+                );
+                oldest.kick(`Replaced by a newer connection. The ${kind} limit is ${max}.`);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Starts counting an admitted connection against its address and subject.
+     */
+    add(player: PlayerConnection, address?: string, subject?: string): void {
+        const keys: Partial<Record<LimitKind, string>> = { address, subject };
+        this.keys.set(player, keys);
+        for (const kind of ['address', 'subject'] as LimitKind[]) {
+            const key = keys[kind];
+            if (!key) {
+                continue;
+            }
+
+            const byKey = this.connections.get(kind)!;
+            const list = byKey.get(key) || [];
+            list.push(player);
+            byKey.set(key, list);
+        }
+    }
+
+    /**
+     * Stops counting a connection. Safe to call for connections that are not counted.
+     */
+    remove(player: PlayerConnection): void {
+        const keys = this.keys.get(player);
+        if (!keys) {
+            return;
+        }
+
+        this.keys.delete(player);
+        for (const kind of ['address', 'subject'] as LimitKind[]) {
+            const key = keys[kind];
+            const byKey = this.connections.get(kind)!;
+            const list = key ? byKey.get(key) : undefined;
+            if (!key || !list) {
+                continue;
+            }
+
+            const remaining = list.filter((entry) => entry !== player);
+            if (remaining.length > 0) {
+                byKey.set(key, remaining);
+            } else {
+                byKey.delete(key);
+            }
+        }
+    }
+
+    private count(kind: LimitKind, key: string): number {
+        return this.connections.get(kind)!.get(key)?.length || 0;
+    }
+}
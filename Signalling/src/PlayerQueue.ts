@@ -0,0 +1,175 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { Logger } from './Logger';
+import { IPlayer } from './PlayerRegistry';
+import { IStreamer } from './StreamerRegistry';
+
+/**
+ * A player waiting in a streamer's queue along with the callbacks used to
+ * keep it informed.
+ */
+export interface IQueuedPlayer {
+    player: IPlayer;
+
+    // Called with the player's 1 based place in line and the length of the queue.
+    onPosition(streamer: IStreamer, position: number, queueLength: number): void;
+
+    // Called when the player reaches the front of the queue and a slot is free.
+    onAdmitted(streamer: IStreamer): void;
+
+    // Called when the queue is dropped because the streamer went away.
+    onStreamerGone(streamer: IStreamer): void;
+}
+
+/**
+ * A FIFO waiting room for full streamers. Players that try to subscribe to a full
+ * streamer wait here, are told their place in line periodically and whenever it
+ * changes, and are admitted in order as subscribers leave.
+ */
+export class PlayerQueue {
+    // How often in milliseconds every queued player is sent its position.
+    readonly updateIntervalMs: number;
+
+    private queues: Map<IStreamer, IQueuedPlayer[]>;
+    private streamerGoneListeners: Map<IStreamer, () => void>;
+    private updateTimer: NodeJS.Timeout | null;
+
+    constructor(updateIntervalMs: number) {
+        this.updateIntervalMs = updateIntervalMs;
+        this.queues = new Map();
+        this.streamerGoneListeners = new Map();
+        this.updateTimer = null;
+    }
+
+    /**
+     * Adds a player to the back of a streamer's queue, or the front when it is being put
+     * back after an admission that could not be completed. A player can only wait for one
+     * streamer at a time so it leaves any other queue first.
+     */
+    enqueue(streamer: IStreamer, entry: IQueuedPlayer, atFront: boolean = false): void {
+        this.remove(entry.player);
+
+        let queue = this.queues.get(streamer);
+        if (!queue) {
+            queue = [];
+            this.queues.set(streamer, queue);
+            const listener = () => this.onStreamerGone(streamer);
+            this.streamerGoneListeners.set(streamer, listener);
+            streamer.on('disconnect', listener);
+        }
+
+        if (atFront) {
+            queue.unshift(entry);
+        } else {
+            queue.push(entry);
+        }
+        Logger.info(
+            `[player-queue] ${entry.player.playerId} is waiting for ${streamer.streamerId} (${queue.length} in line).`
+        );
+        this.notifyPositions(streamer, queue);
+        this.startUpdates();
+    }
+
+    /**
+     * Removes a player from whichever queue it is waiting in. Does nothing if it is not queued.
+     */
+    remove(player: IPlayer): void {
+        for (const [streamer, queue] of this.queues.entries()) {
+            const index = queue.findIndex((entry) => entry.player === player);
+            if (index < 0) {
+                continue;
+            }
+
+            queue.splice(index, 1);
+            Logger.info(`[player-queue] ${player.playerId} left the queue for ${streamer.streamerId}.`);
+            if (queue.length == 0) {
+                this.dropQueue(streamer);
+            } else {
+                this.notifyPositions(streamer, queue);
+            }
+            return;
+        }
+    }
+
+    /**
+     * Returns the streamer the player is waiting for or undefined if it is not queued.
+     */
+    queuedFor(player: IPlayer): IStreamer | undefined {
+        for (const [streamer, queue] of this.queues.entries()) {
+            if (queue.some((entry) => entry.player === player)) {
+                return streamer;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the number of players waiting for a streamer.
+     */
+    length(streamer: IStreamer): number {
+        return this.queues.get(streamer)?.length || 0;
+    }
+
+    /**
+     * Called when a streamer loses a subscriber. Admits the player at the front of its queue.
+     */
+    admitNext(streamer: IStreamer): void {
+        const queue = this.queues.get(streamer);
+        if (!queue) {
+            return;
+        }
+
+        // subscribers leave when the streamer itself goes away. the queue is dropped then.
+        if (!streamer.transport.isConnected()) {
+            return;
+        }
+
+        const entry = queue.shift()!;
+        if (queue.length == 0) {
+            this.dropQueue(streamer);
+        } else {
+            this.notifyPositions(streamer, queue);
+        }
+
+        Logger.info(`[player-queue] Admitting ${entry.player.playerId} to ${streamer.streamerId}.`);
+        entry.onAdmitted(streamer);
+    }
+
+    private onStreamerGone(streamer: IStreamer): void {
+        const queue = this.queues.get(streamer) || [];
+        this.dropQueue(streamer);
+        for (const entry of queue) {
+            entry.onStreamerGone(streamer);
+        }
+    }
+
+    private dropQueue(streamer: IStreamer): void {
+        const listener = this.streamerGoneListeners.get(streamer);
+        if (listener) {
+            streamer.off('disconnect', listener);
+        }
+        this.streamerGoneListeners.delete(streamer);
+        this.queues.delete(streamer);
+
+        if (this.queues.size == 0 && this.updateTimer) {
+            clearInterval(this.updateTimer);
+            this.updateTimer = null;
+        }
+    }
+
+    private notifyPositions(streamer: IStreamer, queue: IQueuedPlayer[]): void {
+        queue.forEach((entry, index) => entry.onPosition(streamer, index + 1, queue.length));
+    }
+
+    private startUpdates(): void {
+        if (this.updateTimer) {
+            return;
+        }
+
+        this.updateTimer = setInterval(() => {
+            for (const [streamer, queue] of this.queues.entries()) {
+                this.notifyPositions(streamer, queue);
+            }
+        }, this.updateIntervalMs);
+        this.updateTimer.unref();
+    }
+}
@@ -3,6 +3,8 @@ import { SignallingProtocol, BaseMessage, EventEmitter } from '@epicgames-ps/lib
 import { Logger } from './Logger';
 import { IMessageLogger } from './LoggingUtils';
 import { IStreamer } from './StreamerRegistry';
+import { IRegistryBackend, IRegistryPlayerRecord, InMemoryRegistryBackend } from './RegistryBackend';
+import { RemotePlayer } from './RemoteConnections';
 
 /**
  * An interface that describes a player that can be added to the
@@ -25,26 +27,52 @@ export interface IPlayerInfo {
     type: string;
     subscribedTo: string | undefined;
     remoteAddress: string | undefined;
+    // Who the player authenticated as. Undefined for anonymous players.
+    identity?: IPlayerIdentity;
+}
+
+/**
+ * Who a player authenticated as, usually taken from its validated connect ticket.
+ */
+export interface IPlayerIdentity {
+    // The authenticated subject. The ticket's sub claim.
+    subject?: string;
+    // The id of the ticket the player connected with. The ticket's jti claim.
+    ticketId?: string;
+    // When the ticket expires, in seconds since the epoch. The ticket's exp claim.
+    expiresAt?: number;
+    // Every claim of the ticket, including sub and jti.
+    claims: Record<string, unknown>;
 }
 
 /**
  * Handles all the player connections of a signalling server and
  * can be used to lookup connections by id etc.
+ * Players connected to other processes sharing the same registry
+ * backend can still be looked up by id and are represented by
+ * RemotePlayer objects.
  * Fires events when players are added or removed.
  * Events:
  *   'added': (playerId: string) Player was added.
  *   'removed': (playerId: string) Player was removed.
  */
 export class PlayerRegistry extends EventEmitter {
+    backend: IRegistryBackend;
+
     private players: Map<string, IPlayer> = new Map();
+    private remotePlayers: Map<string, RemotePlayer>;
     private playerCount: number;
     private nextPlayerId: number;
 
-    constructor() {
+    constructor(backend?: IRegistryBackend) {
         super();
         this.players = new Map();
+        this.remotePlayers = new Map();
         this.playerCount = 0;
         this.nextPlayerId = 0;
+        this.backend = backend || new InMemoryRegistryBackend();
+
+        this.backend.on('player_removed', this.onBackendPlayerRemoved.bind(this));
     }
 
     /**
@@ -54,38 +82,81 @@ export class PlayerRegistry extends EventEmitter {
         player.playerId = this.getUniquePlayerId();
         this.players.set(player.playerId, player);
         this.playerCount++;
+        const info = player.getPlayerInfo();
+        this.backend.publishPlayer({
+            playerId: player.playerId,
+            nodeId: this.backend.nodeId,
+            type: info.type,
+            remoteAddress: info.remoteAddress
+        });
         this.emit('added', player.playerId);
         Logger.info(`Registered new player: ${player.playerId}`);
     }
 
     /**
-     * Removes a player from the registry. Does nothing if the id
-     * does not exist.
+     * Removes a player from the registry. Does nothing if the player
+     * is not the one registered under its id.
      */
     remove(player: IPlayer): void {
-        if (!this.players.has(player.playerId)) {
+        if (this.players.get(player.playerId) !== player) {
             return;
         }
 
         this.emit('removed', player.playerId);
         this.players.delete(player.playerId);
         this.playerCount--;
+        this.backend.withdrawPlayer(player.playerId);
 
         Logger.info(`Unregistered player: ${player.playerId}`);
     }
 
+    /**
+     * Hands the id of a registered player over to another player connection. Used when
+     * a new connection resumes the session of a dropped one. The id previously assigned
+     * to the new connection is released.
+     */
+    replace(previous: IPlayer, player: IPlayer): void {
+        this.remove(player);
+        if (this.players.get(previous.playerId) === previous) {
+            this.players.delete(previous.playerId);
+        } else {
+            this.playerCount++;
+            this.emit('added', previous.playerId);
+        }
+
+        player.playerId = previous.playerId;
+        this.players.set(player.playerId, player);
+        const info = player.getPlayerInfo();
+        this.backend.publishPlayer({
+            playerId: player.playerId,
+            nodeId: this.backend.nodeId,
+            type: info.type,
+            remoteAddress: info.remoteAddress
+        });
+        Logger.info(`Player ${player.playerId} taken over by a new connection.`);
+    }
+
     /**
      * Tests if a player id exists in the registry.
      */
     has(playerId: string): boolean {
-        return this.players.has(playerId);
+        return this.players.has(playerId) || this.findRemoteRecord(playerId) !== undefined;
     }
 
     /**
-     * Gets a player from the registry using the player id.
+     * Gets a player from the registry using the player id. Players connected
+     * to other signalling nodes are returned as RemotePlayer objects.
      * Returns undefined if the player doesn't exist.
      */
     get(playerId: string): IPlayer | undefined {
+        return this.getLocal(playerId) || this.getRemote(playerId);
+    }
+
+    /**
+     * Gets a player connected to this process using the player id.
+     * Returns undefined if the player doesn't exist.
+     */
+    getLocal(playerId: string): IPlayer | undefined {
         return this.players.get(playerId);
     }
 
@@ -108,8 +179,42 @@ export class PlayerRegistry extends EventEmitter {
     }
 
     private getUniquePlayerId(): string {
-        const newPlayerId = `Player${this.nextPlayerId}`;
+        const newPlayerId = `${this.backend.playerIdPrefix}Player${this.nextPlayerId}`;
         this.nextPlayerId++;
         return newPlayerId;
     }
+
+    private getRemote(playerId: string): IPlayer | undefined {
+        const existing = this.remotePlayers.get(playerId);
+        if (existing) {
+            return existing;
+        }
+
+        const record = this.findRemoteRecord(playerId);
+        if (!record) {
+            return undefined;
+        }
+
+        const remotePlayer = new RemotePlayer(this.backend, record);
+        this.remotePlayers.set(playerId, remotePlayer);
+        return remotePlayer;
+    }
+
+    private findRemoteRecord(playerId: string): IRegistryPlayerRecord | undefined {
+        const record = this.backend.findPlayer(playerId);
+        if (!record || record.nodeId == this.backend.nodeId) {
+            return undefined;
+        }
+        return record;
+    }
+
+    private onBackendPlayerRemoved(record: IRegistryPlayerRecord): void {
+        const remotePlayer = this.remotePlayers.get(record.playerId);
+        if (!remotePlayer) {
+            return;
+        }
+
+        this.remotePlayers.delete(record.playerId);
+        remotePlayer.transport.markClosed();
+    }
 }
@@ -0,0 +1,142 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import crypto from 'crypto';
+import { Logger } from './Logger';
+import { PlayerConnection } from './PlayerConnection';
+
+interface IPlayerSession {
+    player: PlayerConnection;
+    // Set while the player's connection is down and the session is waiting to be resumed.
+    expiryTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Keeps track of the resume tokens issued to players. When a player's connection
+ * drops its session is held, keeping its player id registered and its subscription
+ * intact, until either a new connection presents the token or the resume window runs
+ * out and the session is ended for real.
+ */
+export class PlayerSessionStore {
+    // How long in milliseconds a dropped session is held. 0 disables session resume.
+    readonly windowMs: number;
+
+    private onExpired: (player: PlayerConnection) => void;
+    private sessions: Map<string, IPlayerSession>;
+    private tokens: Map<PlayerConnection, string>;
+
+    /**
+     * @param windowMs - How long in milliseconds a dropped session is held. 0 disables resume.
+     * @param onExpired - Called with the player when a held session is not resumed in time.
+     */
+    constructor(windowMs: number, onExpired: (player: PlayerConnection) => void) {
+        this.windowMs = windowMs;
+        this.onExpired = onExpired;
+        this.sessions = new Map();
+        this.tokens = new Map();
+    }
+
+    /**
+     * Returns true when session resume is enabled.
+     */
+    enabled(): boolean {
+        return this.windowMs > 0;
+    }
+
+    /**
+     * Issues a new resume token for the player. Any previous token is revoked.
+     * @returns The new token.
+     */
+    issue(player: PlayerConnection): string {
+        this.revoke(player);
+        const token = crypto.randomBytes(24).toString('base64url');
+        this.sessions.set(token, { player, expiryTimer: null });
+        this.tokens.set(player, token);
+        return token;
+    }
+
+    /**
+     * Revokes the player's resume token and cancels any pending expiry.
+     */
+    revoke(player: PlayerConnection): void {
+        const token = this.tokens.get(player);
+        if (!token) {
+            return;
+        }
+
+        const session = this.sessions.get(token);
+        if (session?.expiryTimer) {
+            clearTimeout(session.expiryTimer);
+        }
+        this.sessions.delete(token);
+        this.tokens.delete(player);
+    }
+
+    /**
+     * Starts holding the session of a player whose connection dropped.
+     * @returns False if the player has no resume token, in which case nothing is held.
+     */
+    hold(player: PlayerConnection): boolean {
+        const token = this.tokens.get(player);
+        if (!this.enabled() || !token) {
+            return false;
+        }
+
+        const session = this.sessions.get(token)!;
+        if (session.expiryTimer) {
+            return true;
+        }
+
+        session.expiryTimer = setTimeout(() => {
+            this.sessions.delete(token);
+            this.tokens.delete(player);
+            Logger.info(`[player-resume] Session of ${player.playerId} was not resumed in time.`);
+            this.onExpired(player);
+        }, this.windowMs);
+        session.expiryTimer.unref();
+
+        Logger.info(`[player-resume] Holding session of ${player.playerId} for ${this.windowMs}ms.`);
+        return true;
+    }
+
+    /**
+     * Returns true if the player's connection dropped and its session is waiting to be resumed.
+     */
+    isHeld(player: PlayerConnection): boolean {
+        const token = this.tokens.get(player);
+        return !!token && !!this.sessions.get(token)?.expiryTimer;
+    }
+
+    /**
+     * Returns the number of dropped sessions waiting to be resumed.
+     */
+    heldCount(): number {
+        let count = 0;
+        for (const session of this.sessions.values()) {
+            if (session.expiryTimer) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Looks up the player a resume token was issued to without consuming the token.
+     * @returns The player, or undefined if the token is unknown or expired.
+     */
+    find(token: string): PlayerConnection | undefined {
+        return this.sessions.get(token)?.player;
+    }
+
+    /**
+     * Redeems a resume token. The token is consumed either way.
+     * @returns The player the token was issued to, or undefined if the token is unknown or expired.
+     */
+    claim(token: string): PlayerConnection | undefined {
+        const session = this.sessions.get(token);
+        if (!session) {
+            return undefined;
+        }
+
+        this.revoke(session.player);
+        return session.player;
+    }
+}
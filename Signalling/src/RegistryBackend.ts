@@ -0,0 +1,159 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { EventEmitter } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+
+/**
+ * A description of a streamer as shared between signalling nodes.
+ */
+export interface IRegistryStreamerRecord {
+    streamerId: string;
+    nodeId: string;
+    type: string;
+    streaming: boolean;
+    maxSubscribers: number;
+    subscribers: string[];
+    remoteAddress?: string;
+    // Missing in records published by older signalling nodes.
+    metadata?: Record<string, string>;
+    tags?: string[];
+}
+
+/**
+ * A description of a player as shared between signalling nodes.
+ */
+export interface IRegistryPlayerRecord {
+    playerId: string;
+    nodeId: string;
+    type: string;
+    remoteAddress?: string;
+}
+
+/**
+ * A message relayed from one signalling node to a connection owned by another node.
+ * 'message' envelopes carry a serialized signalling message, 'disconnect' envelopes
+ * ask the owning node to close the target connection.
+ */
+export interface IRelayEnvelope {
+    kind: 'message' | 'disconnect';
+    target: 'streamer' | 'player';
+    targetId: string;
+    payload?: string;
+    code?: number;
+    reason?: string;
+}
+
+/**
+ * The shared state backend used by the streamer and player registries. Connections
+ * themselves always live in the registries of the process they connected to, the
+ * backend only shares descriptions of them so that other processes can find them and
+ * relay messages to them.
+ *
+ * Events:
+ *   'streamer_updated': (record: IRegistryStreamerRecord) A streamer was published or changed.
+ *   'streamer_renamed': (oldId: string, record: IRegistryStreamerRecord) A streamer changed its id.
+ *   'streamer_removed': (record: IRegistryStreamerRecord) A streamer was withdrawn.
+ *   'player_removed': (record: IRegistryPlayerRecord) A player was withdrawn.
+ *   'relay': (envelope: IRelayEnvelope, fromNodeId: string) A relayed message arrived for this node.
+ */
+export interface IRegistryBackend extends EventEmitter {
+    // The unique id of this signalling node.
+    readonly nodeId: string;
+
+    // Prefix applied to generated player ids so they are unique across nodes.
+    readonly playerIdPrefix: string;
+
+    publishStreamer(record: IRegistryStreamerRecord): void;
+    renameStreamer(oldId: string, record: IRegistryStreamerRecord): void;
+    withdrawStreamer(streamerId: string): void;
+    findStreamer(streamerId: string): IRegistryStreamerRecord | undefined;
+    listStreamers(): IRegistryStreamerRecord[];
+
+    publishPlayer(record: IRegistryPlayerRecord): void;
+    withdrawPlayer(playerId: string): void;
+    findPlayer(playerId: string): IRegistryPlayerRecord | undefined;
+    listPlayers(): IRegistryPlayerRecord[];
+
+    relay(targetNodeId: string, envelope: IRelayEnvelope): void;
+    close(): void;
+}
+
+/**
+ * The default registry backend. Keeps everything in memory for a single signalling
+ * process, which is the behaviour of a standalone server.
+ */
+export class InMemoryRegistryBackend extends EventEmitter implements IRegistryBackend {
+    readonly nodeId: string;
+    readonly playerIdPrefix: string;
+
+    private streamers: Map<string, IRegistryStreamerRecord>;
+    private players: Map<string, IRegistryPlayerRecord>;
+
+    constructor(nodeId: string = 'local') {
+        super();
+        this.nodeId = nodeId;
+        this.playerIdPrefix = '';
+        this.streamers = new Map();
+        this.players = new Map();
+    }
+
+    publishStreamer(record: IRegistryStreamerRecord): void {
+        this.streamers.set(record.streamerId, { ...record });
+        this.emit('streamer_updated', record);
+    }
+
+    renameStreamer(oldId: string, record: IRegistryStreamerRecord): void {
+        this.streamers.delete(oldId);
+        this.streamers.set(record.streamerId, { ...record });
+        this.emit('streamer_renamed', oldId, record);
+    }
+
+    withdrawStreamer(streamerId: string): void {
+        const record = this.streamers.get(streamerId);
+        if (!record) {
+            return;
+        }
+        this.streamers.delete(streamerId);
+        this.emit('streamer_removed', record);
+    }
+
+    findStreamer(streamerId: string): IRegistryStreamerRecord | undefined {
+        return this.streamers.get(streamerId);
+    }
+
+    listStreamers(): IRegistryStreamerRecord[] {
+        return Array.from(this.streamers.values());
+    }
+
+    publishPlayer(record: IRegistryPlayerRecord): void {
+        this.players.set(record.playerId, { ...record });
+    }
+
+    withdrawPlayer(playerId: string): void {
+        const record = this.players.get(playerId);
+        if (!record) {
+            return;
+        }
+        this.players.delete(playerId);
+        this.emit('player_removed', record);
+    }
+
+    findPlayer(playerId: string): IRegistryPlayerRecord | undefined {
+        return this.players.get(playerId);
+    }
+
+    listPlayers(): IRegistryPlayerRecord[] {
+        return Array.from(this.players.values());
+    }
+
+    relay(targetNodeId: string, envelope: IRelayEnvelope): void {
+        if (targetNodeId != this.nodeId) {
+            Logger.warn(
+                `InMemoryRegistryBackend: Cannot relay to node ${targetNodeId}. Dropping ${envelope.kind} for ${envelope.targetId}.`
+            );
+            return;
+        }
+        this.emit('relay', envelope, this.nodeId);
+    }
+
+    close(): void {}
+}
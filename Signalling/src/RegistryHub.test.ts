@@ -0,0 +1,202 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { Logger as CommonLogger, LogLevel } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+import { IRegistryStreamerRecord, IRelayEnvelope } from './RegistryBackend';
+import { RegistryHub } from './RegistryHub';
+import { SignallingServer } from './SignallingServer';
+import { WebSocketRegistryBackend } from './WebSocketRegistryBackend';
+
+const SECRET = 'hub-secret';
+
+function waitFor(predicate: () => boolean, timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (predicate()) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error('Timed out waiting for condition.'));
+            } else {
+                setTimeout(check, 10);
+            }
+        };
+        check();
+    });
+}
+
+function hubUrl(hub: RegistryHub): string {
+    return `ws://127.0.0.1:${(hub.wsServer.address() as AddressInfo).port}`;
+}
+
+function streamerRecord(streamerId: string, nodeId: string): IRegistryStreamerRecord {
+    return { streamerId, nodeId, type: 'Streamer', streaming: true, maxSubscribers: 0, subscribers: [] };
+}
+
+function listen(server: http.Server): Promise<number> {
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+    });
+}
+
+function closeServer(server: http.Server): Promise<void> {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe('RegistryHub', () => {
+    let hub: RegistryHub;
+    let backends: WebSocketRegistryBackend[];
+
+    beforeAll(() => {
+        Logger.silent = true;
+        CommonLogger.InitLogging(LogLevel.Disabled, false);
+    });
+
+    beforeEach(async () => {
+        hub = new RegistryHub({ port: 0, secret: SECRET });
+        backends = [];
+        await new Promise((resolve) => hub.wsServer.once('listening', resolve));
+    });
+
+    afterEach(() => {
+        for (const backend of backends) {
+            backend.close();
+        }
+        hub.close();
+    });
+
+    async function connectNode(nodeId: string): Promise<WebSocketRegistryBackend> {
+        const backend = new WebSocketRegistryBackend({ hubUrl: hubUrl(hub), nodeId, secret: SECRET });
+        backends.push(backend);
+        await waitFor(() => hub.listNodes().includes(nodeId));
+        return backend;
+    }
+
+    function rejectionStatus(headers: Record<string, string>): Promise<number | undefined> {
+        return new Promise((resolve) => {
+            const ws = new WebSocket(hubUrl(hub), { headers });
+            ws.on('unexpected-response', (_request, response: http.IncomingMessage) => {
+                resolve(response.statusCode);
+                ws.terminate();
+            });
+            ws.on('open', () => {
+                resolve(undefined);
+                ws.close();
+            });
+            ws.on('error', () => {});
+        });
+    }
+
+    it('should require a shared secret', () => {
+        expect(() => new RegistryHub({ port: 0, secret: '' })).toThrow();
+    });
+
+    it('should listen on localhost by default', () => {
+        expect((hub.wsServer.address() as AddressInfo).address).toBe('127.0.0.1');
+    });
+
+    it('should refuse nodes without the shared secret', async () => {
+        expect(await rejectionStatus({})).toBe(401);
+        expect(await rejectionStatus({ authorization: 'Bearer wrong-secret' })).toBe(401);
+        expect(await rejectionStatus({ authorization: `Bearer ${SECRET}` })).toBeUndefined();
+        expect(hub.listNodes()).toEqual([]);
+    });
+
+    it('should share streamers between nodes and withdraw them when their node leaves', async () => {
+        const nodeA = await connectNode('a');
+        const nodeB = await connectNode('b');
+
+        nodeA.publishStreamer(streamerRecord('streamer1', 'a'));
+        await waitFor(() => !!nodeB.findStreamer('streamer1'));
+        expect(nodeB.findStreamer('streamer1')!.nodeId).toBe('a');
+
+        nodeA.close();
+        await waitFor(() => !nodeB.findStreamer('streamer1'));
+        expect(hub.listNodes()).toEqual(['b']);
+    });
+
+    it('should give late nodes a snapshot of the shared state', async () => {
+        const nodeA = await connectNode('a');
+        nodeA.publishStreamer(streamerRecord('streamer1', 'a'));
+        await connectNode('c');
+        const nodeB = await connectNode('b');
+
+        await waitFor(() => !!nodeB.findStreamer('streamer1'));
+    });
+
+    it('should relay messages to the target node', async () => {
+        const nodeA = await connectNode('a');
+        const nodeB = await connectNode('b');
+        const received: [IRelayEnvelope, string][] = [];
+        nodeB.on('relay', (envelope: IRelayEnvelope, fromNodeId: string) => {
+            received.push([envelope, fromNodeId]);
+        });
+
+        const envelope: IRelayEnvelope = {
+            kind: 'disconnect',
+            target: 'player',
+            targetId: 'b-1',
+            code: 1000
+        };
+        nodeA.relay('b', envelope);
+
+        await waitFor(() => received.length > 0);
+        expect(received).toEqual([[envelope, 'a']]);
+    });
+
+    it('should let the owning node refuse remote players once the streamer is full', async () => {
+        const playerHttp = http.createServer();
+        const streamerHttp = http.createServer();
+        await listen(playerHttp);
+        const streamerPort = await listen(streamerHttp);
+
+        const owner = await connectNode('owner');
+        const remote = await connectNode('remote');
+        new SignallingServer({
+            httpServer: playerHttp,
+            streamerPort,
+            streamerWsOptions: { port: undefined, server: streamerHttp },
+            peerOptions: {},
+            playerKeepalive: false,
+            registryBackend: owner,
+            streamerPolicies: { default: { maxSubscribers: 1 } }
+        });
+
+        const streamer = new WebSocket(`ws://127.0.0.1:${streamerPort}`);
+        streamer.on('message', (data: WebSocket.RawData) => {
+            // eslint-disable-next-line @typescript-eslint/no-base-to-string
+            const message = JSON.parse(data.toString()) as { type: string };
+            if (message.type == 'identify') {
+                streamer.send(JSON.stringify({ type: 'endpointId', id: 'streamer1' }));
+            }
+        });
+        await waitFor(() => !!remote.findStreamer('streamer1'));
+
+        const refusals: IRelayEnvelope[] = [];
+        remote.on('relay', (envelope: IRelayEnvelope) => refusals.push(envelope));
+        for (const playerId of ['remote-1', 'remote-2']) {
+            remote.relay('owner', {
+                kind: 'message',
+                target: 'streamer',
+                targetId: 'streamer1',
+                payload: JSON.stringify({ type: 'playerConnected', playerId, dataChannel: true, sfu: false })
+            });
+        }
+
+        await waitFor(() => refusals.length > 0);
+        expect(refusals).toHaveLength(1);
+        expect(refusals[0].targetId).toBe('remote-2');
+        expect(JSON.parse(refusals[0].payload!)).toMatchObject({
+            type: 'subscribeFailed',
+            reason: 'streamer_full'
+        });
+        await waitFor(() => remote.findStreamer('streamer1')?.subscribers.length == 1);
+        expect(remote.findStreamer('streamer1')!.subscribers).toEqual(['remote-1']);
+
+        streamer.close();
+        await closeServer(streamerHttp);
+        await closeServer(playerHttp);
+    });
+});
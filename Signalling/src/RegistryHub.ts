@@ -0,0 +1,257 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import crypto from 'crypto';
+import http from 'http';
+import * as wslib from 'ws';
+import { Logger } from './Logger';
+import { IRegistryPlayerRecord, IRegistryStreamerRecord, IRelayEnvelope } from './RegistryBackend';
+
+/**
+ * The messages exchanged between a WebSocketRegistryBackend and a RegistryHub.
+ */
+export type RegistryHubMessage =
+    | { op: 'hello'; nodeId: string }
+    | { op: 'snapshot'; streamers: IRegistryStreamerRecord[]; players: IRegistryPlayerRecord[] }
+    | { op: 'publishStreamer'; record: IRegistryStreamerRecord }
+    | { op: 'renameStreamer'; oldId: string; record: IRegistryStreamerRecord }
+    | { op: 'withdrawStreamer'; streamerId: string }
+    | { op: 'publishPlayer'; record: IRegistryPlayerRecord }
+    | { op: 'withdrawPlayer'; playerId: string }
+    | { op: 'streamerUpdated'; record: IRegistryStreamerRecord }
+    | { op: 'streamerRenamed'; oldId: string; record: IRegistryStreamerRecord }
+    | { op: 'streamerRemoved'; record: IRegistryStreamerRecord }
+    | { op: 'playerUpdated'; record: IRegistryPlayerRecord }
+    | { op: 'playerRemoved'; record: IRegistryPlayerRecord }
+    | { op: 'relay'; targetNodeId: string; fromNodeId?: string; envelope: IRelayEnvelope };
+
+/**
+ * An interface describing the possible options to pass when creating
+ * a new RegistryHub object.
+ */
+export interface IRegistryHubConfig {
+    // The port to listen on for signalling node connections. Not needed if server supplied.
+    port?: number;
+
+    // The address to listen on. Defaults to 127.0.0.1 so only nodes on this machine can connect.
+    host?: string;
+
+    // The shared secret nodes must present as a bearer token when they connect.
+    secret: string;
+
+    // An existing http server to attach the hub websocket to.
+    server?: wslib.ServerOptions['server'];
+
+    // Additional websocket options for the hub listening websocket.
+    wsOptions?: wslib.ServerOptions;
+}
+
+/**
+ * A small coordination server shared by several signalling processes. Each process
+ * connects with a WebSocketRegistryBackend and publishes the streamers and players it
+ * owns. The hub keeps the combined state, broadcasts changes to every other node and
+ * relays messages between nodes. When a node disconnects all of its records are
+ * withdrawn.
+ *
+ * This is deliberately simple so that it can be run in-process as a local stand-in
+ * during development and testing. Nodes must present the hub's shared secret, since
+ * anyone connected can publish streamers and relay messages to any node.
+ */
+export class RegistryHub {
+    wsServer: wslib.WebSocketServer;
+
+    private secret: Buffer;
+    private nodes: Map<string, wslib.WebSocket>;
+    private streamers: Map<string, IRegistryStreamerRecord>;
+    private players: Map<string, IRegistryPlayerRecord>;
+
+    constructor(config: IRegistryHubConfig) {
+        if (!config.secret) {
+            throw new Error('RegistryHub: A shared secret is required.');
+        }
+
+        this.secret = Buffer.from(config.secret, 'utf8');
+        this.nodes = new Map();
+        this.streamers = new Map();
+        this.players = new Map();
+
+        const host = config.host || '127.0.0.1';
+        this.wsServer = new wslib.WebSocketServer({
+            port: config.server ? undefined : config.port,
+            host: config.server ? undefined : host,
+            server: config.server,
+            ...config.wsOptions,
+            verifyClient: (info: { req: http.IncomingMessage }) => this.isAuthorized(info.req)
+        });
+        this.wsServer.on('connection', this.onNodeConnected.bind(this));
+        if (!config.server) {
+            Logger.info(`RegistryHub: Listening for signalling nodes on ${host}:${config.port}`);
+        }
+    }
+
+    /**
+     * Returns the ids of all the currently connected nodes.
+     */
+    listNodes(): string[] {
+        return Array.from(this.nodes.keys());
+    }
+
+    /**
+     * Closes all node connections and stops listening.
+     */
+    close(): void {
+        for (const ws of this.nodes.values()) {
+            ws.close();
+        }
+        this.wsServer.close();
+    }
+
+    private isAuthorized(req: http.IncomingMessage): boolean {
+        const header = req.headers.authorization || '';
+        const token = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '', 'utf8');
+        if (token.length == this.secret.length && crypto.timingSafeEqual(token, this.secret)) {
+            return true;
+        }
+
+        Logger.warn(`RegistryHub: Refused a node from ${req.socket.remoteAddress} with a bad secret.`);
+        return false;
+    }
+
+    private onNodeConnected(ws: wslib.WebSocket): void {
+        let nodeId: string | undefined;
+
+        ws.on('message', (data: wslib.RawData) => {
+            let message: RegistryHubMessage;
+            try {
+                // eslint-disable-next-line @typescript-eslint/no-base-to-string
+                message = JSON.parse(data.toString()) as RegistryHubMessage;
+            } catch {
+                Logger.warn('RegistryHub: Ignoring malformed node message.');
+                return;
+            }
+
+            if (message.op == 'hello') {
+                nodeId = message.nodeId;
+                const existing = this.nodes.get(nodeId);
+                if (existing && existing !== ws) {
+                    Logger.warn(`RegistryHub: Node ${nodeId} reconnected. Dropping previous connection.`);
+                    this.removeNode(nodeId);
+                    existing.close();
+                }
+                this.nodes.set(nodeId, ws);
+                this.send(ws, {
+                    op: 'snapshot',
+                    streamers: Array.from(this.streamers.values()),
+                    players: Array.from(this.players.values())
+                });
+                Logger.info(`RegistryHub: Node ${nodeId} connected.`);
+                return;
+            }
+
+            if (!nodeId) {
+                Logger.warn(`RegistryHub: Ignoring '${message.op}' from a node that has not said hello.`);
+                return;
+            }
+
+            this.handleNodeMessage(nodeId, message);
+        });
+
+        ws.on('close', () => {
+            if (nodeId && this.nodes.get(nodeId) === ws) {
+                Logger.info(`RegistryHub: Node ${nodeId} disconnected.`);
+                this.removeNode(nodeId);
+                this.nodes.delete(nodeId);
+            }
+        });
+
+        ws.on('error', (error: Error) => {
+            Logger.error(`RegistryHub: Node ${nodeId || 'unknown'} error ${error.message}`);
+        });
+    }
+
+    private handleNodeMessage(nodeId: string, message: RegistryHubMessage): void {
+        switch (message.op) {
+            case 'publishStreamer': {
+                const record = { ...message.record, nodeId };
+                this.streamers.set(record.streamerId, record);
+                this.broadcast(nodeId, { op: 'streamerUpdated', record });
+                break;
+            }
+            case 'renameStreamer': {
+                const record = { ...message.record, nodeId };
+                this.streamers.delete(message.oldId);
+                this.streamers.set(record.streamerId, record);
+                this.broadcast(nodeId, { op: 'streamerRenamed', oldId: message.oldId, record });
+                break;
+            }
+            case 'withdrawStreamer': {
+                const record = this.streamers.get(message.streamerId);
+                if (record && record.nodeId == nodeId) {
+                    this.streamers.delete(message.streamerId);
+                    this.broadcast(nodeId, { op: 'streamerRemoved', record });
+                }
+                break;
+            }
+            case 'publishPlayer': {
+                const record = { ...message.record, nodeId };
+                this.players.set(record.playerId, record);
+                this.broadcast(nodeId, { op: 'playerUpdated', record });
+                break;
+            }
+            case 'withdrawPlayer': {
+                const record = this.players.get(message.playerId);
+                if (record && record.nodeId == nodeId) {
+                    this.players.delete(message.playerId);
+                    this.broadcast(nodeId, { op: 'playerRemoved', record });
+                }
+                break;
+            }
+            case 'relay': {
+                const target = this.nodes.get(message.targetNodeId);
+                if (!target) {
+                    Logger.warn(
+                        `RegistryHub: Node ${nodeId} tried to relay to unknown node ${message.targetNodeId}.`
+                    );
+                    break;
+                }
+                this.send(target, {
+                    op: 'relay',
+                    targetNodeId: message.targetNodeId,
+                    fromNodeId: nodeId,
+                    envelope: message.envelope
+                });
+                break;
+            }
+            default:
+                Logger.warn(`RegistryHub: Unhandled node message '${message.op}' from ${nodeId}.`);
+                break;
+        }
+    }
+
+    private removeNode(nodeId: string): void {
+        for (const record of Array.from(this.streamers.values())) {
+            if (record.nodeId == nodeId) {
+                this.streamers.delete(record.streamerId);
+                this.broadcast(nodeId, { op: 'streamerRemoved', record });
+            }
+        }
+        for (const record of Array.from(this.players.values())) {
+            if (record.nodeId == nodeId) {
+                this.players.delete(record.playerId);
+                this.broadcast(nodeId, { op: 'playerRemoved', record });
+            }
+        }
+    }
+
+    private broadcast(fromNodeId: string, message: RegistryHubMessage): void {
+        for (const [nodeId, ws] of this.nodes.entries()) {
+            if (nodeId != fromNodeId) {
+                this.send(ws, message);
+            }
+        }
+    }
+
+    private send(ws: wslib.WebSocket, message: RegistryHubMessage): void {
+        if (ws.readyState == wslib.WebSocket.OPEN) {
+            ws.send(JSON.stringify(message));
+        }
+    }
+}
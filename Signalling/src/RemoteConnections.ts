@@ -0,0 +1,227 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import {
+    ITransport,
+    SignallingProtocol,
+    BaseMessage,
+    EventEmitter,
+    decodeProtobufMessage
+} from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+import { IRegistryBackend, IRegistryPlayerRecord, IRegistryStreamerRecord } from './RegistryBackend';
+import { IStreamer, IStreamerInfo } from './StreamerRegistry';
+import { IPlayer, IPlayerInfo } from './PlayerRegistry';
+import * as LogUtils from './LoggingUtils';
+
+/**
+ * A transport that does not own a socket. Anything sent on it is relayed through the
+ * registry backend to the node that owns the target connection.
+ */
+export class RelayTransport extends EventEmitter implements ITransport {
+    private backend: IRegistryBackend;
+    private target: 'streamer' | 'player';
+    private getNodeId: () => string;
+    private getTargetId: () => string;
+    private closed: boolean;
+
+    onMessage?: (msg: string | Uint8Array) => void;
+
+    constructor(
+        backend: IRegistryBackend,
+        target: 'streamer' | 'player',
+        getNodeId: () => string,
+        getTargetId: () => string
+    ) {
+        super();
+        this.backend = backend;
+        this.target = target;
+        this.getNodeId = getNodeId;
+        this.getTargetId = getTargetId;
+        this.closed = false;
+    }
+
+    sendMessage(msg: string | Uint8Array): void {
+        // relayed messages always travel as JSON. the owning node encodes them for its peer.
+        let payload: string;
+        if (typeof msg === 'string') {
+            payload = msg;
+        } else {
+            try {
+                payload = JSON.stringify(decodeProtobufMessage(msg));
+            } catch (error: unknown) {
+                Logger.error(`RelayTransport: Could not decode a binary message to relay. ${String(error)}`);
+                return;
+            }
+        }
+
+        this.backend.relay(this.getNodeId(), {
+            kind: 'message',
+            target: this.target,
+            targetId: this.getTargetId(),
+            payload
+        });
+    }
+
+    connect(_url: string): boolean {
+        return false;
+    }
+
+    disconnect(code?: number, reason?: string): void {
+        this.backend.relay(this.getNodeId(), {
+            kind: 'disconnect',
+            target: this.target,
+            targetId: this.getTargetId(),
+            code,
+            reason
+        });
+    }
+
+    isConnected(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Marks the relay as closed and emits the close event like a real transport would.
+     */
+    markClosed(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.emit('close');
+    }
+}
+
+/**
+ * A stand-in for a streamer that is connected to another signalling node. Players on
+ * this node can subscribe to it like any local streamer and their messages are
+ * relayed to the owning node.
+ */
+export class RemoteStreamer extends EventEmitter implements IStreamer {
+    streamerId: string;
+    nodeId: string;
+    type: string;
+    transport: RelayTransport;
+    protocol: SignallingProtocol;
+    streaming: boolean;
+    maxSubscribers: number;
+    subscribers: Set<string>;
+    remoteAddress?: string;
+    metadata: Record<string, string>;
+    tags: string[];
+
+    constructor(backend: IRegistryBackend, record: IRegistryStreamerRecord) {
+        super();
+        this.streamerId = record.streamerId;
+        this.nodeId = record.nodeId;
+        this.type = record.type;
+        this.streaming = record.streaming;
+        this.maxSubscribers = record.maxSubscribers;
+        this.subscribers = new Set(record.subscribers);
+        this.remoteAddress = record.remoteAddress;
+        this.metadata = record.metadata || {};
+        this.tags = record.tags || [];
+        this.transport = new RelayTransport(
+            backend,
+            'streamer',
+            () => this.nodeId,
+            () => this.streamerId
+        );
+        this.protocol = new SignallingProtocol(this.transport);
+    }
+
+    /**
+     * Applies a newer shared description of this streamer.
+     */
+    update(record: IRegistryStreamerRecord): void {
+        this.nodeId = record.nodeId;
+        this.type = record.type;
+        this.streaming = record.streaming;
+        this.maxSubscribers = record.maxSubscribers;
+        this.subscribers = new Set(record.subscribers);
+        this.remoteAddress = record.remoteAddress;
+        this.metadata = record.metadata || {};
+        this.tags = record.tags || [];
+    }
+
+    getReadableIdentifier(): string {
+        return `${this.streamerId}@${this.nodeId}`;
+    }
+
+    getLogContext(): LogUtils.ILogContext {
+        return { streamerId: this.streamerId };
+    }
+
+    sendMessage(message: BaseMessage): void {
+        LogUtils.logOutgoing(this, message);
+        this.protocol.sendMessage(message);
+    }
+
+    getStreamerInfo(): IStreamerInfo {
+        return {
+            streamerId: this.streamerId,
+            type: this.type,
+            streaming: this.streaming,
+            remoteAddress: this.remoteAddress,
+            subscribers: Array.from(this.subscribers).map((playerId) => ({
+                playerId,
+                type: 'Player',
+                subscribedTo: this.streamerId,
+                remoteAddress: undefined
+            })),
+            metadata: this.metadata,
+            tags: this.tags
+        };
+    }
+}
+
+/**
+ * A stand-in for a player that is connected to another signalling node. Streamers on
+ * this node can address it by player id and their messages are relayed to the
+ * owning node.
+ */
+export class RemotePlayer implements IPlayer {
+    playerId: string;
+    nodeId: string;
+    type: string;
+    transport: RelayTransport;
+    protocol: SignallingProtocol;
+    subscribedStreamer: IStreamer | null;
+    remoteAddress?: string;
+
+    constructor(backend: IRegistryBackend, record: IRegistryPlayerRecord) {
+        this.playerId = record.playerId;
+        this.nodeId = record.nodeId;
+        this.type = record.type;
+        this.remoteAddress = record.remoteAddress;
+        this.subscribedStreamer = null;
+        this.transport = new RelayTransport(
+            backend,
+            'player',
+            () => this.nodeId,
+            () => this.playerId
+        );
+        this.protocol = new SignallingProtocol(this.transport);
+    }
+
+    getReadableIdentifier(): string {
+        return `${this.playerId}@${this.nodeId}`;
+    }
+
+    getLogContext(): LogUtils.ILogContext {
+        return { playerId: this.playerId };
+    }
+
+    sendMessage(message: BaseMessage): void {
+        LogUtils.logOutgoing(this, message);
+        this.protocol.sendMessage(message);
+    }
+
+    getPlayerInfo(): IPlayerInfo {
+        return {
+            playerId: this.playerId,
+            type: this.type,
+            subscribedTo: undefined,
+            remoteAddress: this.remoteAddress
+        };
+    }
+}
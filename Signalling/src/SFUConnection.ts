@@ -49,6 +49,10 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
     maxSubscribers: number;
     // A list of all the current subscribed players.
     subscribers: Set<string>;
+    // Descriptive data published with endpointId or streamerMetadata.
+    metadata: Record<string, string>;
+    // Labels the streamer list can be filtered by.
+    tags: string[];
 
     private server: SignallingServer;
     private layerPreferenceListener: (message: Messages.layerPreference) => void;
@@ -74,6 +78,12 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
         this.subscribedStreamer = null;
         this.maxSubscribers = 0;
         this.subscribers = new Set();
+        this.metadata = {};
+        this.tags = [];
+
+        // start recording before any other listener is added so the recording sees the close
+        // before the reactions to it.
+        server.sessionRecorder?.record('sfu', this, remoteAddress);
 
         this.transport.on('error', this.onTransportError.bind(this));
         this.transport.on('close', this.onTransportClose.bind(this));
@@ -93,6 +103,14 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
         return `(${this.streamerId}:${this.playerId})`;
     }
 
+    /**
+     * Returns the ids that tie this SFU's log lines to it.
+     * @returns The ids the SFU uses as a streamer and as a player.
+     */
+    getLogContext(): LogUtils.ILogContext {
+        return { streamerId: this.streamerId, playerId: this.playerId };
+    }
+
     /**
      * Sends a signalling message to the SFU.
      * @param message - The message to send.
@@ -115,7 +133,10 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
             subscribers: this.server.playerRegistry
                 .listPlayers()
                 .filter((player) => player.subscribedStreamer == this)
-                .map((player) => player.getPlayerInfo())
+                .map((player) => player.getPlayerInfo()),
+            health: this.server.streamerHealth.describe(this),
+            metadata: this.metadata,
+            tags: this.tags
         };
     }
 
@@ -217,6 +238,7 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
         }
 
         LogUtils.logForward(this, this.subscribedStreamer, message);
+        this.server.metrics.messagesForwarded.inc({ type: message.type });
 
         // normally we want to indicate what player this message came from
         // but in some instances we might already have set this (streamerDataChannels) due to poor choices
@@ -236,6 +258,7 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
         if (player) {
             delete message.playerId;
             LogUtils.logForward(this, player, message);
+            this.server.metrics.messagesForwarded.inc({ type: message.type });
             player.protocol.sendMessage(message);
         } else {
             Logger.error(`SFU attempted to forward to player ${message.playerId} which does not exist.`);
@@ -266,6 +289,7 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
 
     private onTransportError(error: ErrorEvent): void {
         Logger.error(`SFU (${this.playerId}) transport error ${error.message}`);
+        this.server.metrics.websocketErrors.inc({ role: 'sfu' });
     }
 
     private onTransportClose(_event: CloseEvent): void {
@@ -283,7 +307,7 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
 
     private onListStreamers(_message: Messages.listStreamers): void {
         const listMessage = MessageHelpers.createMessage(Messages.streamerList, {
-            ids: this.server.streamerRegistry.streamers.map((streamer) => streamer.streamerId)
+            ids: this.server.streamerRegistry.listStreamerIds(false)
         });
         this.sendMessage(listMessage);
     }
@@ -299,10 +323,12 @@ export class SFUConnection extends EventEmitter implements IPlayer, IStreamer, L
 
     private onStartStreaming(_message: Messages.startStreaming): void {
         this.streaming = true;
+        this.server.streamerRegistry.refresh(this);
     }
 
     private onStopStreaming(_message: Messages.stopStreaming): void {
         this.streaming = false;
+        this.server.streamerRegistry.refresh(this);
         this.emit('disconnect');
     }
 
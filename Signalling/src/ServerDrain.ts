@@ -0,0 +1,156 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { EventEmitter } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+import { PlayerConnection } from './PlayerConnection';
+import { SignallingServer } from './SignallingServer';
+
+/**
+ * Used by the API to describe the drain state of a server.
+ */
+export interface IDrainStatus {
+    draining: boolean;
+    // When draining started, as an ISO 8601 string. Missing when not draining.
+    since?: string;
+    // Why draining was started. Missing when not draining.
+    reason?: string;
+    // What started draining, such as 'rest', 'stdin' or 'instance-agent'. Missing when not draining.
+    source?: string;
+    // Players connected to this process, including dropped sessions waiting to be resumed.
+    remainingPlayers: number;
+    // Players subscribed to a streamer.
+    remainingSessions: number;
+}
+
+/**
+ * Takes a signalling server out of service without cutting anyone off. While draining
+ * new player connections and new subscriptions are refused but players that are
+ * already connected carry on as normal. Connections are still accepted while a dropped
+ * session is waiting to be resumed so that its player can come back.
+ * Only players connected to this signalling process are counted.
+ * Events:
+ *   'started': (status: IDrainStatus) Draining started.
+ *   'stopped': (status: IDrainStatus) Draining was called off.
+ *   'drained': (status: IDrainStatus) The last player left while draining. Fired straight
+ *   away if there are no players when draining starts.
+ */
+export class ServerDrain extends EventEmitter {
+    private server: SignallingServer;
+    private startedAt: Date | null;
+    private reason?: string;
+    private source?: string;
+    private drainedFired: boolean;
+
+    /**
+     * @param server - The server to drain. Its player registry is watched for players leaving.
+     */
+    constructor(server: SignallingServer) {
+        super();
+        this.server = server;
+        this.startedAt = null;
+        this.drainedFired = false;
+        this.server.playerRegistry.on('removed', this.onPlayerRemoved.bind(this));
+    }
+
+    /**
+     * True while the server is draining.
+     */
+    get draining(): boolean {
+        return this.startedAt !== null;
+    }
+
+    /**
+     * Starts draining. Does nothing if the server is already draining.
+     * @param reason - Why the server is being drained. Logged and reported in the status.
+     * @param source - What is draining the server.
+     * @returns True if draining started.
+     */
+    start(reason: string, source: string): boolean {
+        if (this.draining) {
+            return false;
+        }
+
+        this.startedAt = new Date();
+        this.reason = reason;
+        this.source = source;
+        this.drainedFired = false;
+        const status = this.describe();
+        Logger.info(
+            `[drain] Draining started by ${source}: ${reason}. ${status.remainingPlayers} player(s) and ${status.remainingSessions} session(s) remain.`
+        );
+        this.emit('started', status);
+        this.checkDrained();
+        return true;
+    }
+
+    /**
+     * Stops draining so new players are accepted again. Does nothing if the server is not draining.
+     * @param source - What called off draining.
+     * @returns True if draining stopped.
+     */
+    stop(source: string): boolean {
+        if (!this.draining) {
+            return false;
+        }
+
+        this.startedAt = null;
+        this.reason = undefined;
+        this.source = undefined;
+        Logger.info(`[drain] Draining stopped by ${source}.`);
+        this.emit('stopped', this.describe());
+        return true;
+    }
+
+    /**
+     * Returns the current drain state and how many players remain.
+     */
+    describe(): IDrainStatus {
+        const players = this.server.playerRegistry
+            .listPlayers()
+            .filter((player): player is PlayerConnection => player instanceof PlayerConnection);
+        return {
+            draining: this.draining,
+            since: this.startedAt?.toISOString(),
+            reason: this.reason,
+            source: this.source,
+            remainingPlayers: players.length,
+            remainingSessions: players.filter((player) => !!player.subscribedStreamer).length
+        };
+    }
+
+    /**
+     * Checks whether a new player connection may be accepted.
+     * @returns The reason the connection is refused, or undefined if it may be accepted.
+     */
+    admitConnection(): string | undefined {
+        if (!this.draining || this.server.playerSessions.heldCount() > 0) {
+            return undefined;
+        }
+        return 'The server is draining and is not accepting new players.';
+    }
+
+    private onPlayerRemoved(): void {
+        // the registry emits before the player is taken out so wait for it to be gone.
+        setImmediate(() => {
+            if (this.draining && !this.drainedFired && !this.checkDrained()) {
+                Logger.info(`[drain] ${this.describe().remainingPlayers} player(s) remain.`);
+            }
+        });
+    }
+
+    // returns true once the drained event has fired.
+    private checkDrained(): boolean {
+        if (!this.draining || this.drainedFired) {
+            return this.drainedFired;
+        }
+
+        const status = this.describe();
+        if (status.remainingPlayers > 0) {
+            return false;
+        }
+
+        this.drainedFired = true;
+        Logger.info(`[drain] No players remain. The server is drained.`);
+        this.emit('drained', status);
+        return true;
+    }
+}
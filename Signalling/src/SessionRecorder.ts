@@ -0,0 +1,229 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import fs from 'fs';
+import path from 'path';
+import { BaseMessage, ITransport } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+
+/**
+ * The kinds of connection a session can be recorded for.
+ */
+export type RecordedRole = 'streamer' | 'player' | 'sfu';
+
+/**
+ * One line of a session recording.
+ * 'open': Written once when the connection is accepted.
+ * 'message': A signalling message. 'in' messages were received from the peer, 'out'
+ * messages were sent to it.
+ * 'close': Written once when the connection closes.
+ */
+export interface ISessionRecord {
+    // Increases with every record written by the recorder, across all connections. Orders
+    // records that share a timestamp.
+    seq: number;
+    // The wall clock time of the record as an ISO 8601 string.
+    ts: string;
+    // Milliseconds since the connection was opened.
+    t: number;
+    event: 'open' | 'message' | 'close';
+    // The connection's identifier at the time of the record. Ids can change during a session.
+    id: string;
+    role?: RecordedRole;
+    remoteAddress?: string;
+    direction?: 'in' | 'out';
+    message?: BaseMessage;
+    code?: number;
+    reason?: string;
+}
+
+// The fields of each message type that hold credentials. Their values are never written
+// to a recording.
+const REDACTED_MESSAGE_FIELDS: Record<string, string[]> = {
+    endpointIdConfirm: ['resumeToken'],
+    resumeSession: ['resumeToken'],
+    refreshTicket: ['ticket']
+};
+
+const REDACTED = '[redacted]';
+
+/**
+ * Returns a copy of a message that is safe to write to a recording. Tokens and tickets are
+ * replaced with '[redacted]', as are the credentials of any ICE servers in peer connection
+ * options. The message itself is left untouched.
+ */
+function redactRecordedMessage(message: BaseMessage): BaseMessage {
+    const fields = REDACTED_MESSAGE_FIELDS[message.type] || [];
+    const redacted: Record<string, unknown> = { ...message };
+    for (const field of fields) {
+        if (redacted[field] !== undefined && redacted[field] !== '') {
+            redacted[field] = REDACTED;
+        }
+    }
+
+    const peerOptions = redacted['peerConnectionOptions'] as { iceServers?: unknown } | undefined;
+    if (peerOptions && Array.isArray(peerOptions.iceServers)) {
+        redacted['peerConnectionOptions'] = {
+            ...peerOptions,
+            iceServers: peerOptions.iceServers.map((server: unknown) => {
+                const iceServer = server as { credential?: unknown };
+                return iceServer && iceServer.credential !== undefined
+                    ? { ...iceServer, credential: REDACTED }
+                    : server;
+            })
+        };
+    }
+
+    return redacted as unknown as BaseMessage;
+}
+
+/**
+ * The part of a connection the recorder needs.
+ */
+export interface IRecordableConnection {
+    transport: ITransport;
+    getReadableIdentifier(): string;
+}
+
+interface IFinishedRecording {
+    filePath: string;
+    bytes: number;
+}
+
+/**
+ * Records every signalling message sent and received on a connection to a JSONL file, one
+ * file per connection. The recordings can be replayed against a running server with the
+ * replay tool in Extras/SS_Test. Credentials in messages are redacted before they are written.
+ *
+ * When the recordings would grow past maxBytes the oldest finished recordings are deleted.
+ * If that is not enough, sessions stop being recorded until enough space is freed.
+ */
+export class SessionRecorder {
+    // The directory recordings are written to.
+    readonly directory: string;
+    // The most bytes the recordings in the directory may take up. 0 is unlimited.
+    readonly maxBytes: number;
+
+    private sessionCount: number;
+    private recordCount: number;
+    private totalBytes: number;
+    // Oldest first.
+    private finished: IFinishedRecording[];
+
+    constructor(directory: string, maxBytes: number = 0) {
+        this.directory = directory;
+        this.maxBytes = maxBytes;
+        this.sessionCount = 0;
+        this.recordCount = 0;
+        this.totalBytes = 0;
+        this.finished = [];
+        fs.mkdirSync(directory, { recursive: true });
+        if (maxBytes > 0) {
+            this.findExistingRecordings();
+        }
+    }
+
+    /**
+     * Starts recording a connection. The recording ends when its transport closes.
+     * @returns The path of the recording.
+     */
+    record(role: RecordedRole, connection: IRecordableConnection, remoteAddress?: string): string {
+        const openedAt = Date.now();
+        this.sessionCount++;
+        const timestamp = new Date(openedAt).toISOString().replace(/[:.]/g, '-');
+        const filePath = path.join(this.directory, `${timestamp}-${role}-${this.sessionCount}.jsonl`);
+
+        const stream = fs.createWriteStream(filePath, { flags: 'a' });
+        stream.on('error', (error: Error) => {
+            Logger.error(`[session-recorder] Failed to write ${filePath}: ${error.message}`);
+        });
+
+        let bytes = 0;
+        let stopped = false;
+        const write = (record: Omit<ISessionRecord, 'seq' | 'ts' | 't' | 'id'>) => {
+            if (stopped) {
+                return;
+            }
+
+            const now = Date.now();
+            const line: ISessionRecord = {
+                seq: ++this.recordCount,
+                ts: new Date(now).toISOString(),
+                t: now - openedAt,
+                id: connection.getReadableIdentifier(),
+                ...record
+            };
+            const text = `${JSON.stringify(line)}\n`;
+            const size = Buffer.byteLength(text);
+            if (!this.makeRoom(size)) {
+                Logger.warn(
+                    `[session-recorder] Recordings have reached ${this.maxBytes} bytes. Stopped recording ${filePath}.`
+                );
+                stopped = true;
+                stream.end();
+                return;
+            }
+
+            bytes += size;
+            this.totalBytes += size;
+            stream.write(text);
+        };
+
+        const onIncoming = (message: BaseMessage) =>
+            write({ event: 'message', direction: 'in', message: redactRecordedMessage(message) });
+        const onOutgoing = (message: BaseMessage) =>
+            write({ event: 'message', direction: 'out', message: redactRecordedMessage(message) });
+        const onClose = (event?: { code?: number; reason?: string }) => {
+            connection.transport.off('message', onIncoming);
+            connection.transport.off('out', onOutgoing);
+            write({ event: 'close', code: event?.code, reason: event?.reason });
+            stream.end();
+        };
+
+        // only deleted once the stream is closed, since it would create the file again.
+        stream.once('close', () => this.finished.push({ filePath, bytes }));
+
+        write({ event: 'open', role, remoteAddress });
+        connection.transport.on('message', onIncoming);
+        connection.transport.on('out', onOutgoing);
+        connection.transport.once('close', onClose);
+
+        Logger.debug(`[session-recorder] Recording ${role} session to ${filePath}`);
+        return filePath;
+    }
+
+    // deletes the oldest finished recordings until size more bytes fit. returns false if
+    // they still do not fit.
+    private makeRoom(size: number): boolean {
+        if (this.maxBytes <= 0) {
+            return true;
+        }
+
+        while (this.totalBytes + size > this.maxBytes && this.finished.length > 0) {
+            const oldest = this.finished.shift()!;
+            this.totalBytes -= oldest.bytes;
+            try {
+                fs.rmSync(oldest.filePath, { force: true });
+                Logger.info(
+                    `[session-recorder] Deleted ${oldest.filePath} to stay under ${this.maxBytes} bytes.`
+                );
+            } catch (error: unknown) {
+                Logger.error(`[session-recorder] Failed to delete ${oldest.filePath}: ${String(error)}`);
+            }
+        }
+        return this.totalBytes + size <= this.maxBytes;
+    }
+
+    // recordings left by earlier runs count towards maxBytes and are deleted first. their
+    // names start with the time they were opened so sorting them puts the oldest first.
+    private findExistingRecordings(): void {
+        const names = fs
+            .readdirSync(this.directory)
+            .filter((name) => name.endsWith('.jsonl'))
+            .sort();
+        for (const name of names) {
+            const filePath = path.join(this.directory, name);
+            const bytes = fs.statSync(filePath).size;
+            this.finished.push({ filePath, bytes });
+            this.totalBytes += bytes;
+        }
+    }
+}
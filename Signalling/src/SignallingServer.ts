@@ -6,9 +6,29 @@ import { StreamerConnection } from './StreamerConnection';
 import { PlayerConnection } from './PlayerConnection';
 import { SFUConnection } from './SFUConnection';
 import { Logger } from './Logger';
-import { StreamerRegistry } from './StreamerRegistry';
-import { PlayerRegistry } from './PlayerRegistry';
-import { Messages, MessageHelpers, SignallingProtocol } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { IStreamer, StreamerRegistry } from './StreamerRegistry';
+import { IPlayerIdentity, PlayerRegistry } from './PlayerRegistry';
+import { PlayerSessionStore } from './PlayerSessionStore';
+import { PlayerQueue } from './PlayerQueue';
+import { ServerDrain } from './ServerDrain';
+import { StreamerHealthTracker, StreamerRoutingPolicy } from './StreamerHealth';
+import {
+    PlayerConnectionLimitAction,
+    PlayerConnectionLimiter,
+    resolveClientAddress
+} from './PlayerConnectionLimiter';
+import { SignallingMetrics } from './Metrics';
+import { SessionRecorder } from './SessionRecorder';
+import { IMessageLimits, describeMessageLimits, normalizeMessageLimits } from './MessageGuard';
+import { IPlayerAccess, IStreamerPolicies, resolveStreamerPolicy } from './StreamerPolicy';
+import { IRegistryBackend, IRelayEnvelope, InMemoryRegistryBackend } from './RegistryBackend';
+import {
+    Messages,
+    MessageHelpers,
+    SignallingProtocol,
+    BaseMessage
+} from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import * as LogUtils from './LoggingUtils';
 import { stringify } from './Utils';
 
 const SCALEWORLD_SESSION_ID_PARAM = 'sm_session_id';
@@ -73,6 +93,73 @@ export interface IServerConfig {
     // Max number of players per streamer.
     maxSubscribers?: number;
 
+    // Per streamer subscribe policies. Allowed groups, max subscribers and subscriber mode.
+    streamerPolicies?: IStreamerPolicies;
+
+    // Resolves what a newly connected player is allowed to access from its connection request.
+    // Players are anonymous when this is not supplied or returns undefined.
+    resolvePlayerAccess?: (request: http.IncomingMessage) => IPlayerAccess | undefined;
+
+    // Resolves who a newly connected player authenticated as from its connection request.
+    // Players are anonymous when this is not supplied or returns undefined.
+    resolvePlayerIdentity?: (request: http.IncomingMessage) => IPlayerIdentity | undefined;
+
+    // The identity claims forwarded to the streamer in playerConnected messages. Nothing is
+    // forwarded when empty.
+    forwardedPlayerClaims?: string[];
+
+    // Time in milliseconds before a player's connect ticket expires that the player is asked
+    // to refresh it. 0 means players are not asked.
+    playerTicketRefreshLeadMs?: number;
+
+    // When true players whose connect ticket expires without being refreshed are disconnected.
+    // Otherwise the expiry is only logged.
+    playerTicketExpiryDisconnect?: boolean;
+
+    // Time in milliseconds a connect ticket is still honoured after it expires, to allow for
+    // clock differences with the ticket issuer.
+    playerTicketClockSkewMs?: number;
+
+    // Validates a refreshed connect ticket sent by a connected player. The player's identity
+    // and access are replaced by the result. Players cannot refresh tickets when not supplied.
+    refreshPlayerIdentity?: (ticket: string, request: http.IncomingMessage) => Promise<IPlayerTicketRefresh>;
+
+    // Called with the identity of a player whose connection resumed a session or was refused,
+    // so the connect ticket use that connection took can be given back.
+    releasePlayerTicketUse?: (identity: IPlayerIdentity) => void;
+
+    // How a streamer is picked for players that did not name one, either by sending
+    // subscribeAny or by sending signalling messages before subscribing. Defaults to first.
+    streamerRoutingPolicy?: StreamerRoutingPolicy;
+
+    // Interval in milliseconds between pings sent to streamers to measure their round trip
+    // time for health scoring. 0 or undefined disables streamer pings.
+    streamerPingIntervalMs?: number;
+
+    // Time in milliseconds a new subscription may take to exchange an answer before it counts
+    // as a failed negotiation against the streamer's health. Defaults to 15 seconds.
+    streamerNegotiationTimeoutMs?: number;
+
+    // Max concurrent player connections from one client address. 0 or undefined is unlimited.
+    playerMaxConnectionsPerAddress?: number;
+
+    // Max concurrent player connections per authenticated subject. 0 or undefined is unlimited.
+    playerMaxConnectionsPerSubject?: number;
+
+    // What happens to a player connection that would go over a connection limit.
+    // Defaults to reject-newest.
+    playerConnectionLimitAction?: PlayerConnectionLimitAction;
+
+    // The number of reverse proxies in front of the player port. The client address used for
+    // connection limits is read from that many X-Forwarded-For entries. 0 uses the socket address.
+    playerTrustedProxies?: number;
+
+    // When true players subscribing to a full streamer wait in a queue instead of failing.
+    playerQueue?: boolean;
+
+    // Interval in milliseconds between queue position updates sent to waiting players.
+    playerQueueUpdateIntervalMs?: number;
+
     // Enables websocket ping/pong keepalive for player connections.
     playerKeepalive?: boolean;
 
@@ -81,8 +168,73 @@ export interface IServerConfig {
 
     // Number of consecutive missed pongs before terminating a player connection.
     playerKeepaliveMaxMissedPongs?: number;
+
+    // Time in milliseconds a player's session is held after its connection drops so that
+    // the player can reconnect and resume it. 0 disables session resume.
+    playerResumeWindowMs?: number;
+
+    // When set every signalling message of every session is recorded to a JSONL file
+    // per connection in this directory.
+    sessionRecordingDir?: string;
+
+    // The most bytes the session recordings may take up. The oldest recordings are deleted
+    // to make room. 0 is unlimited.
+    sessionRecordingMaxBytes?: number;
+
+    // When true peers are offered the protobuf binary wire format in the config message.
+    // Peers that do not pick it keep using JSON.
+    protobufWireFormat?: boolean;
+
+    // Size, rate and schema limits applied to messages received from players. May be given
+    // as an object or a JSON string. Players are not limited when this is not supplied.
+    // Streamers and SFUs are never limited.
+    playerMessageLimits?: IMessageLimits | string;
+
+    // The backend used to share streamer and player state with other signalling processes.
+    // Defaults to an in-memory backend which keeps this server standalone.
+    registryBackend?: IRegistryBackend;
+
+    // The metrics the server counts into. Supply one to share it with other parts of the
+    // application, such as connect ticket validation. A new one is created otherwise.
+    metrics?: SignallingMetrics;
 }
 
+/**
+ * The result of validating a refreshed connect ticket. See IServerConfig.refreshPlayerIdentity.
+ */
+export interface IPlayerTicketRefresh {
+    // Who the new ticket authenticates. Undefined when the ticket was refused.
+    identity?: IPlayerIdentity;
+    // What the new ticket allows the player to access.
+    access?: IPlayerAccess;
+    // Why the ticket was refused.
+    reason?: string;
+}
+
+/**
+ * The part of the server configuration that can be changed while the server is running.
+ * See SignallingServer.updateConfig.
+ */
+export type LiveServerConfig = Partial<
+    Pick<
+        IServerConfig,
+        | 'peerOptions'
+        | 'peerOptionsPlayer'
+        | 'peerOptionsStreamer'
+        | 'maxSubscribers'
+        | 'playerKeepalive'
+        | 'playerKeepaliveIntervalMs'
+        | 'playerKeepaliveMaxMissedPongs'
+        | 'forwardedPlayerClaims'
+        | 'playerTicketExpiryDisconnect'
+        | 'playerTicketClockSkewMs'
+        | 'playerMaxConnectionsPerAddress'
+        | 'playerMaxConnectionsPerSubject'
+        | 'playerConnectionLimitAction'
+        | 'streamerRoutingPolicy'
+    >
+>;
+
 export type ProtocolConfig = {
     [key: string]: any;
 };
@@ -158,7 +310,17 @@ export class SignallingServer {
     protocolConfigStreamer: ProtocolConfig;
     streamerRegistry: StreamerRegistry;
     playerRegistry: PlayerRegistry;
+    registryBackend: IRegistryBackend;
+    playerSessions: PlayerSessionStore;
+    playerQueue: PlayerQueue | null;
+    playerConnectionLimiter: PlayerConnectionLimiter;
+    streamerHealth: StreamerHealthTracker;
+    drain: ServerDrain;
+    playerMessageLimits: IMessageLimits | null;
+    sessionRecorder: SessionRecorder | null;
+    metrics: SignallingMetrics;
     startTime: Date;
+    private protobufWireFormat: boolean;
     private playerKeepaliveEnabled: boolean;
     private playerKeepaliveIntervalMs: number;
     private playerKeepaliveMaxMissedPongs: number;
@@ -174,43 +336,95 @@ export class SignallingServer {
         Logger.debug('Started SignallingServer with config: %s', stringify(config));
 
         this.config = config;
-        this.streamerRegistry = new StreamerRegistry();
-        this.playerRegistry = new PlayerRegistry();
-        const sharedPeerOptions = this.config.peerOptions || {};
-        const playerPeerOptions = this.config.peerOptionsPlayer || sharedPeerOptions;
-        const streamerPeerOptions = this.config.peerOptionsStreamer || sharedPeerOptions;
+        this.registryBackend = config.registryBackend || new InMemoryRegistryBackend();
+        this.streamerRegistry = new StreamerRegistry(this.registryBackend);
+        this.playerRegistry = new PlayerRegistry(this.registryBackend);
+        this.registryBackend.on('relay', this.onRelayedMessage.bind(this));
+        this.metrics = config.metrics || new SignallingMetrics();
+        this.registerConnectionGauges();
+        this.protobufWireFormat = parseBooleanOption(
+            this.config.protobufWireFormat,
+            false,
+            'protobufWireFormat'
+        );
+        const wireFormats = this.protobufWireFormat ? ['protobuf'] : [];
         this.protocolConfig = {
             protocolVersion: SignallingProtocol.SIGNALLING_VERSION,
-            peerConnectionOptions: sharedPeerOptions
+            wireFormats
         };
         this.protocolConfigPlayer = {
             protocolVersion: SignallingProtocol.SIGNALLING_VERSION,
-            peerConnectionOptions: playerPeerOptions
+            wireFormats
         };
         this.protocolConfigStreamer = {
             protocolVersion: SignallingProtocol.SIGNALLING_VERSION,
-            peerConnectionOptions: streamerPeerOptions
+            wireFormats
         };
+        this.applyPeerOptions();
         this.startTime = new Date();
-        this.playerKeepaliveEnabled = parseBooleanOption(
-            this.config.playerKeepalive,
-            true,
-            'playerKeepalive'
+        this.playerKeepaliveEnabled = true;
+        this.playerKeepaliveIntervalMs = 30_000;
+        this.playerKeepaliveMaxMissedPongs = 2;
+        this.readPlayerKeepaliveConfig();
+        this.playerKeepaliveTimer = null;
+        this.playerKeepaliveState = new Map();
+        this.playerSessions = new PlayerSessionStore(
+            parseMinIntegerOption(this.config.playerResumeWindowMs, 0, 0, 'playerResumeWindowMs'),
+            this.onPlayerSessionExpired.bind(this)
         );
-        this.playerKeepaliveIntervalMs = parseMinIntegerOption(
-            this.config.playerKeepaliveIntervalMs,
-            30_000,
-            1_000,
-            'playerKeepaliveIntervalMs'
+        if (this.playerSessions.enabled()) {
+            Logger.info(`[player-resume] Enabled (windowMs=${this.playerSessions.windowMs}).`);
+        }
+        this.streamerHealth = new StreamerHealthTracker(
+            this,
+            parseMinIntegerOption(
+                this.config.streamerNegotiationTimeoutMs,
+                15_000,
+                1_000,
+                'streamerNegotiationTimeoutMs'
+            ),
+            5 * 60_000
         );
-        this.playerKeepaliveMaxMissedPongs = parseMinIntegerOption(
-            this.config.playerKeepaliveMaxMissedPongs,
-            2,
-            1,
-            'playerKeepaliveMaxMissedPongs'
+        this.drain = new ServerDrain(this);
+        this.playerConnectionLimiter = new PlayerConnectionLimiter(
+            () => ({
+                maxPerAddress: this.config.playerMaxConnectionsPerAddress || 0,
+                maxPerSubject: this.config.playerMaxConnectionsPerSubject || 0,
+                action: this.config.playerConnectionLimitAction || 'reject-newest'
+            }),
+            this.metrics
         );
-        this.playerKeepaliveTimer = null;
-        this.playerKeepaliveState = new Map();
+        this.playerQueue = null;
+        if (parseBooleanOption(this.config.playerQueue, false, 'playerQueue')) {
+            this.playerQueue = new PlayerQueue(
+                parseMinIntegerOption(
+                    this.config.playerQueueUpdateIntervalMs,
+                    5_000,
+                    1_000,
+                    'playerQueueUpdateIntervalMs'
+                )
+            );
+            Logger.info(`[player-queue] Enabled (updateIntervalMs=${this.playerQueue.updateIntervalMs}).`);
+        }
+        this.sessionRecorder = null;
+        if (this.config.sessionRecordingDir) {
+            this.sessionRecorder = new SessionRecorder(
+                this.config.sessionRecordingDir,
+                parseMinIntegerOption(this.config.sessionRecordingMaxBytes, 0, 0, 'sessionRecordingMaxBytes')
+            );
+            Logger.info(
+                `[session-recorder] Recording signalling sessions to ${this.sessionRecorder.directory}.`
+            );
+        }
+        this.playerMessageLimits = normalizeMessageLimits(
+            this.config.playerMessageLimits,
+            'playerMessageLimits'
+        );
+        if (this.playerMessageLimits) {
+            Logger.info(
+                `[message-limits] Player limits: ${describeMessageLimits(this.playerMessageLimits)}.`
+            );
+        }
 
         if (!config.playerPort && !config.httpServer && !config.httpsServer) {
             Logger.error('No player port, http server or https server supplied to SignallingServer.');
@@ -251,12 +465,154 @@ export class SignallingServer {
         }
     }
 
+    /**
+     * Applies configuration changes while the server is running. Peer options are sent to
+     * peers that connect from now on and maxSubscribers applies to every connected streamer.
+     * Raising maxSubscribers admits queued players into the new slots.
+     * Player keepalive changes restart the watchdog. Players that connected while it was
+     * disabled are not watched until they reconnect.
+     * @param changes - The settings to change. Settings that are not given keep their value.
+     */
+    updateConfig(changes: LiveServerConfig): void {
+        Object.assign(this.config, changes);
+
+        if ('peerOptions' in changes || 'peerOptionsPlayer' in changes || 'peerOptionsStreamer' in changes) {
+            this.applyPeerOptions();
+        }
+
+        if ('maxSubscribers' in changes) {
+            for (const streamer of this.streamerRegistry.streamers) {
+                if (streamer instanceof StreamerConnection) {
+                    streamer.maxSubscribers = this.config.maxSubscribers || 0;
+                    this.admitQueuedPlayers(streamer);
+                }
+            }
+        }
+
+        if (
+            'playerKeepalive' in changes ||
+            'playerKeepaliveIntervalMs' in changes ||
+            'playerKeepaliveMaxMissedPongs' in changes
+        ) {
+            if (this.playerKeepaliveTimer) {
+                clearInterval(this.playerKeepaliveTimer);
+                this.playerKeepaliveTimer = null;
+            }
+            this.readPlayerKeepaliveConfig();
+            if (!this.playerKeepaliveEnabled) {
+                this.playerKeepaliveState.clear();
+            }
+            this.initializePlayerKeepaliveWatchdog();
+        }
+    }
+
+    private applyPeerOptions(): void {
+        const sharedPeerOptions = this.config.peerOptions || {};
+        this.protocolConfig['peerConnectionOptions'] = sharedPeerOptions;
+        this.protocolConfigPlayer['peerConnectionOptions'] =
+            this.config.peerOptionsPlayer || sharedPeerOptions;
+        this.protocolConfigStreamer['peerConnectionOptions'] =
+            this.config.peerOptionsStreamer || sharedPeerOptions;
+    }
+
+    private readPlayerKeepaliveConfig(): void {
+        this.playerKeepaliveEnabled = parseBooleanOption(
+            this.config.playerKeepalive,
+            true,
+            'playerKeepalive'
+        );
+        this.playerKeepaliveIntervalMs = parseMinIntegerOption(
+            this.config.playerKeepaliveIntervalMs,
+            30_000,
+            1_000,
+            'playerKeepaliveIntervalMs'
+        );
+        this.playerKeepaliveMaxMissedPongs = parseMinIntegerOption(
+            this.config.playerKeepaliveMaxMissedPongs,
+            2,
+            1,
+            'playerKeepaliveMaxMissedPongs'
+        );
+    }
+
+    private registerConnectionGauges(): void {
+        this.metrics.gauge(
+            'signalling_streamers',
+            'Streamers connected to this server.',
+            () =>
+                this.streamerRegistry.streamers.filter((streamer) => streamer instanceof StreamerConnection)
+                    .length
+        );
+        this.metrics.gauge(
+            'signalling_players',
+            'Players connected to this server.',
+            () =>
+                this.playerRegistry.listPlayers().filter((player) => player instanceof PlayerConnection)
+                    .length
+        );
+        this.metrics.gauge(
+            'signalling_sfus',
+            'SFUs connected to this server.',
+            () =>
+                this.streamerRegistry.streamers.filter((streamer) => streamer instanceof SFUConnection).length
+        );
+        this.metrics.gauge('signalling_draining', '1 while the server is draining, otherwise 0.', () =>
+            this.drain.draining ? 1 : 0
+        );
+    }
+
+    /**
+     * Admits players waiting in a streamer's queue while it has free slots, such as after its
+     * subscriber limit was raised.
+     */
+    private admitQueuedPlayers(streamer: StreamerConnection): void {
+        if (!this.playerQueue) {
+            return;
+        }
+
+        const policy = resolveStreamerPolicy(this.config.streamerPolicies, streamer.streamerId);
+        const maxSubscribers = policy.maxSubscribers ?? streamer.maxSubscribers;
+        // every admission takes a player off the queue, so this runs at most once per player.
+        for (let waiting = this.playerQueue.length(streamer); waiting > 0; waiting--) {
+            if (maxSubscribers > 0 && streamer.subscribers.size >= maxSubscribers) {
+                return;
+            }
+            this.playerQueue.admitNext(streamer);
+        }
+    }
+
+    /**
+     * Lets a newly connected peer pick one of the wire formats offered in its config message.
+     * Only messages sent to the peer are affected. Messages from it are accepted in any format.
+     */
+    private acceptWireFormat(connection: LogUtils.IMessageLogger & { protocol: SignallingProtocol }): void {
+        const onWireFormat = (message: Messages.wireFormat) => {
+            if (message.format == 'json' || (message.format == 'protobuf' && this.protobufWireFormat)) {
+                connection.protocol.wireFormat = message.format;
+                Logger.info(
+                    `[wire-format] ${connection.getReadableIdentifier()} selected ${message.format}.`
+                );
+                return;
+            }
+
+            Logger.warn(
+                `[wire-format] ${connection.getReadableIdentifier()} selected unsupported wire format '${message.format}'. Staying on ${connection.protocol.wireFormat}.`
+            );
+        };
+        connection.protocol.on(
+            Messages.wireFormat.typeName,
+            LogUtils.createHandlerListener(connection, onWireFormat)
+        );
+    }
+
     private onStreamerConnected(ws: wslib.WebSocket, request: http.IncomingMessage) {
         Logger.info(`New streamer connection: %s`, request.socket.remoteAddress);
 
         const newStreamer = new StreamerConnection(this, ws, request.socket.remoteAddress);
         newStreamer.maxSubscribers = this.config.maxSubscribers || 0;
 
+        this.acceptWireFormat(newStreamer);
+
         // add it to the registry and when the transport closes, remove it.
         this.streamerRegistry.add(newStreamer);
         newStreamer.transport.on('close', () => {
@@ -270,10 +626,10 @@ export class SignallingServer {
 
         // because peer connection options is a general field with all optional fields
         // it doesnt play nice with mergePartial so we just add it verbatim
-        const message: Messages.config = MessageHelpers.createMessage(
+        const message = MessageHelpers.createMessage(
             Messages.config,
             this.protocolConfigStreamer
-        );
+        ) as Messages.config;
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
         message.peerConnectionOptions = this.protocolConfigStreamer['peerConnectionOptions'];
         newStreamer.sendMessage(message);
@@ -282,7 +638,34 @@ export class SignallingServer {
     private onPlayerConnected(ws: wslib.WebSocket, request: http.IncomingMessage) {
         Logger.info(`New player connection: %s (%s)`, request.socket.remoteAddress, request.url);
 
-        const newPlayer = new PlayerConnection(this, ws, request.socket.remoteAddress);
+        const identity = this.config.resolvePlayerIdentity?.(request);
+        const clientAddress = resolveClientAddress(request, this.config.playerTrustedProxies || 0);
+        // the connect ticket use was recorded when the upgrade was verified, so it is given
+        // back when the connection is refused here.
+        const drainRefusal = this.drain.admitConnection();
+        if (drainRefusal) {
+            Logger.info(`[drain] Refused a player connection from ${clientAddress}.`);
+            if (identity) {
+                this.config.releasePlayerTicketUse?.(identity);
+            }
+            ws.close(1013, drainRefusal);
+            return;
+        }
+
+        const limitRefusal = this.playerConnectionLimiter.admit(clientAddress, identity?.subject);
+        if (limitRefusal) {
+            if (identity) {
+                this.config.releasePlayerTicketUse?.(identity);
+            }
+            ws.close(1008, limitRefusal);
+            return;
+        }
+
+        const newPlayer = new PlayerConnection(this, ws, request.socket.remoteAddress, request);
+        newPlayer.access = this.config.resolvePlayerAccess?.(request);
+        newPlayer.identity = identity;
+        newPlayer.watchTicketExpiry();
+        this.playerConnectionLimiter.add(newPlayer, clientAddress, identity?.subject);
         const scaleWorldSessionId = readScaleWorldSessionId(request);
         if (scaleWorldSessionId) {
             (newPlayer as PlayerConnection & { scaleWorldSessionId?: string }).scaleWorldSessionId =
@@ -297,29 +680,50 @@ export class SignallingServer {
             ).scaleWorldSessionRequestId = scaleWorldSessionRequestId;
         }
         this.registerPlayerKeepalive(ws, request.socket.remoteAddress);
+        this.acceptWireFormat(newPlayer);
 
         // add it to the registry and when the transport closes, remove it
         this.playerRegistry.add(newPlayer);
         newPlayer.transport.on('close', () => {
             this.unregisterPlayerKeepalive(ws);
+            this.playerConnectionLimiter.remove(newPlayer);
+            if (this.playerSessions.isHeld(newPlayer)) {
+                // keep the slot reserved until the session is resumed or expires.
+                Logger.info(
+                    `Player %s (%s) connection dropped.`,
+                    newPlayer.playerId,
+                    request.socket.remoteAddress
+                );
+                return;
+            }
             this.playerRegistry.remove(newPlayer);
             Logger.info(`Player %s (%s) disconnected.`, newPlayer.playerId, request.socket.remoteAddress);
         });
 
         // because peer connection options is a general field with all optional fields
         // it doesnt play nice with mergePartial so we just add it verbatim
-        const message: Messages.config = MessageHelpers.createMessage(
+        const message = MessageHelpers.createMessage(
             Messages.config,
             this.protocolConfigPlayer
-        );
+        ) as Messages.config;
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
         message.peerConnectionOptions = this.protocolConfigPlayer['peerConnectionOptions'];
         newPlayer.sendMessage(message);
+
+        if (this.playerSessions.enabled()) {
+            newPlayer.sendResumeToken();
+        }
+    }
+
+    private onPlayerSessionExpired(player: PlayerConnection): void {
+        player.endHeldSession();
+        this.playerRegistry.remove(player);
     }
 
     private onSFUConnected(ws: wslib.WebSocket, request: http.IncomingMessage) {
         Logger.info(`New SFU connection: %s`, request.socket.remoteAddress);
         const newSFU = new SFUConnection(this, ws, request.socket.remoteAddress);
+        this.acceptWireFormat(newSFU);
 
         // SFU acts as both a streamer and player
         this.streamerRegistry.add(newSFU);
@@ -332,12 +736,101 @@ export class SignallingServer {
 
         // because peer connection options is a general field with all optional fields
         // it doesnt play nice with mergePartial so we just add it verbatim
-        const message: Messages.config = MessageHelpers.createMessage(Messages.config, this.protocolConfig);
+        const message = MessageHelpers.createMessage(Messages.config, this.protocolConfig) as Messages.config;
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
         message.peerConnectionOptions = this.protocolConfig['peerConnectionOptions'];
         newSFU.sendMessage(message);
     }
 
+    private onRelayedMessage(envelope: IRelayEnvelope, fromNodeId: string): void {
+        const target =
+            envelope.target == 'streamer'
+                ? this.streamerRegistry.findLocal(envelope.targetId)
+                : this.playerRegistry.getLocal(envelope.targetId);
+        if (!target) {
+            Logger.warn(
+                `Relayed ${envelope.kind} from node ${fromNodeId} for unknown ${envelope.target} ${envelope.targetId}. Ignored.`
+            );
+            return;
+        }
+
+        if (envelope.kind == 'disconnect') {
+            target.protocol.disconnect(envelope.code, envelope.reason);
+            return;
+        }
+
+        let message: BaseMessage;
+        try {
+            message = JSON.parse(envelope.payload || '') as BaseMessage;
+        } catch {
+            Logger.error(`Relayed message from node ${fromNodeId} could not be parsed. Ignored.`);
+            return;
+        }
+
+        // remote players subscribe and unsubscribe by sending these through to the streamer
+        // so this is where the owning node learns about them.
+        if (envelope.target == 'streamer' && message.playerId) {
+            const streamer = this.streamerRegistry.findLocal(envelope.targetId)!;
+            if (message.type == Messages.playerConnected.typeName) {
+                if (!this.hasRoomFor(streamer, message.playerId)) {
+                    this.refuseRemoteSubscriber(streamer, message.playerId, fromNodeId);
+                    return;
+                }
+                streamer.subscribers.add(message.playerId);
+                this.streamerRegistry.refresh(streamer);
+            } else if (message.type == Messages.playerDisconnected.typeName) {
+                streamer.subscribers.delete(message.playerId);
+                this.streamerRegistry.refresh(streamer);
+                this.playerQueue?.admitNext(streamer);
+            }
+        }
+
+        if (
+            envelope.target == 'player' &&
+            message.type == Messages.subscribeFailed.typeName &&
+            target instanceof PlayerConnection
+        ) {
+            target.dropRefusedSubscription(fromNodeId);
+        }
+
+        const sender: LogUtils.IMessageLogger = {
+            getReadableIdentifier: () => `${message.playerId || envelope.targetId}@${fromNodeId}`
+        };
+        LogUtils.logForward(sender, target, message);
+        target.protocol.sendMessage(message);
+    }
+
+    private hasRoomFor(streamer: IStreamer, playerId: string): boolean {
+        const policy = resolveStreamerPolicy(this.config.streamerPolicies, streamer.streamerId);
+        const maxSubscribers = policy.maxSubscribers ?? streamer.maxSubscribers;
+        return (
+            maxSubscribers <= 0 ||
+            streamer.subscribers.has(playerId) ||
+            streamer.subscribers.size < maxSubscribers
+        );
+    }
+
+    /**
+     * Other nodes only see this node's subscriber counts through the registry, so two nodes
+     * can both let a player into the last slot. This node owns the streamer and has the
+     * real count, so it refuses the late player here.
+     */
+    private refuseRemoteSubscriber(streamer: IStreamer, playerId: string, nodeId: string): void {
+        Logger.warn(
+            `Remote player ${playerId}@${nodeId} could not subscribe to ${streamer.streamerId}. Max players reached.`
+        );
+        const refusal = MessageHelpers.createMessage(Messages.subscribeFailed, {
+            reason: 'streamer_full',
+            message: `Streamer ${streamer.streamerId} is full.`
+        });
+        this.registryBackend.relay(nodeId, {
+            kind: 'message',
+            target: 'player',
+            targetId: playerId,
+            payload: JSON.stringify(refusal)
+        });
+    }
+
     private initializePlayerKeepaliveWatchdog(): void {
         if (!this.playerKeepaliveEnabled) {
             Logger.info('[player-keepalive] Disabled.');
@@ -393,6 +886,7 @@ export class SignallingServer {
                     `[player-keepalive] Terminating stale player connection (${state.remoteAddress || 'unknown'}). Missed pongs=${state.missedPongs}.`
                 );
                 this.playerKeepaliveState.delete(ws);
+                this.metrics.keepaliveTerminations.inc({ cause: 'missed_pongs' });
                 ws.terminate();
                 continue;
             }
@@ -406,6 +900,7 @@ export class SignallingServer {
                     `[player-keepalive] Ping failed for player connection (${state.remoteAddress || 'unknown'}): ${message}. Terminating socket.`
                 );
                 this.playerKeepaliveState.delete(ws);
+                this.metrics.keepaliveTerminations.inc({ cause: 'ping_failed' });
                 ws.terminate();
             }
         }
@@ -7,6 +7,7 @@ import {
     BaseMessage,
     Messages,
     EventEmitter,
+    KeepaliveMonitor,
     MessageHelpers
 } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
 import { IStreamer, IStreamerInfo } from './StreamerRegistry';
@@ -42,6 +43,10 @@ export class StreamerConnection extends EventEmitter implements IStreamer, LogUt
     maxSubscribers: number;
     // A list of all the current subscribed players.
     subscribers: Set<string>;
+    // Descriptive data published with endpointId or streamerMetadata.
+    metadata: Record<string, string>;
+    // Labels the streamer list can be filtered by.
+    tags: string[];
 
     private server: SignallingServer;
 
@@ -63,12 +68,29 @@ export class StreamerConnection extends EventEmitter implements IStreamer, LogUt
         this.remoteAddress = remoteAddress;
         this.maxSubscribers = 0;
         this.subscribers = new Set();
+        this.metadata = {};
+        this.tags = [];
+
+        // start recording before any other listener is added so the recording sees the close
+        // before the reactions to it.
+        server.sessionRecorder?.record('streamer', this, remoteAddress);
 
         this.transport.on('error', this.onTransportError.bind(this));
         this.transport.on('close', this.onTransportClose.bind(this));
 
         this.registerMessageHandlers();
 
+        // ping the streamer to measure its round trip time for health scoring.
+        const pingIntervalMs = server.config.streamerPingIntervalMs || 0;
+        if (pingIntervalMs > 0) {
+            const keepalive = new KeepaliveMonitor(this.protocol, pingIntervalMs);
+            keepalive.onTimeout = () => server.streamerHealth.recordMissedPong(this);
+            this.protocol.on(Messages.pong.typeName, () =>
+                server.streamerHealth.recordRtt(this, keepalive.RTT)
+            );
+            this.transport.on('message', () => server.streamerHealth.recordMessage(this));
+        }
+
         this.protocol.on('unhandled', (message: BaseMessage) => {
             Logger.warn(`Unhandled streamer protocol message: ${JSON.stringify(message)}`);
         });
@@ -82,6 +104,14 @@ export class StreamerConnection extends EventEmitter implements IStreamer, LogUt
         return this.streamerId;
     }
 
+    /**
+     * Returns the ids that tie this streamer's log lines to it.
+     * @returns The streamer id.
+     */
+    getLogContext(): LogUtils.ILogContext {
+        return { streamerId: this.streamerId };
+    }
+
     /**
      * Sends a signalling message to the player.
      * @param message - The message to send.
@@ -104,7 +134,10 @@ export class StreamerConnection extends EventEmitter implements IStreamer, LogUt
             subscribers: this.server.playerRegistry
                 .listPlayers()
                 .filter((player) => player.subscribedStreamer == this)
-                .map((player) => player.getPlayerInfo())
+                .map((player) => player.getPlayerInfo()),
+            health: this.server.streamerHealth.describe(this),
+            metadata: this.metadata,
+            tags: this.tags
         };
     }
 
@@ -136,7 +169,11 @@ export class StreamerConnection extends EventEmitter implements IStreamer, LogUt
         } else {
             const player = this.server.playerRegistry.get(message.playerId);
             if (player) {
+                if (message.type == Messages.answer.typeName) {
+                    this.server.streamerHealth.negotiationAnswered(this, message.playerId);
+                }
                 LogUtils.logForward(this, player, message);
+                this.server.metrics.messagesForwarded.inc({ type: message.type });
                 player.protocol.sendMessage(message);
             }
         }
@@ -144,6 +181,7 @@ export class StreamerConnection extends EventEmitter implements IStreamer, LogUt
 
     private onTransportError(error: ErrorEvent): void {
         Logger.error(`Streamer (${this.streamerId}) transport error ${error.message}`);
+        this.server.metrics.websocketErrors.inc({ role: 'streamer' });
     }
 
     private onTransportClose(): void {
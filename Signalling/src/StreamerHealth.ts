@@ -0,0 +1,316 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { Logger } from './Logger';
+import { IStreamer } from './StreamerRegistry';
+import { IPlayerAccess, checkStreamerAccess, resolveStreamerPolicy } from './StreamerPolicy';
+import { SignallingServer } from './SignallingServer';
+
+/**
+ * How a streamer is picked for a player that did not name one.
+ * first: the first streamer in the registry, as before routing policies existed.
+ * least-loaded: the streamer with the fewest subscribers for its capacity.
+ * healthiest: the streamer with the best health score.
+ * sticky-by-subject: the streamer the same subject was last routed to, otherwise the healthiest.
+ */
+export type StreamerRoutingPolicy = 'first' | 'least-loaded' | 'healthiest' | 'sticky-by-subject';
+
+/**
+ * Used by the API to describe the health of a streamer.
+ */
+export interface IStreamerHealth {
+    // 0 to 100. Higher is healthier. Used by the healthiest routing policy.
+    score: number;
+    // The last measured ping round trip time in milliseconds. Missing until a pong comes back.
+    rttMs?: number;
+    // True when the streamer answered pings before, missed the latest one and has sent nothing since.
+    unresponsive: boolean;
+    subscribers: number;
+    // 0 is unlimited.
+    maxSubscribers: number;
+    // Subscriptions that ended or timed out before an answer was exchanged, in the failure window.
+    negotiationFailures: number;
+}
+
+/**
+ * A player asking to be routed to a streamer.
+ */
+export interface IRoutedPlayer {
+    access?: IPlayerAccess;
+    identity?: { subject?: string };
+}
+
+interface IStreamerHealthState {
+    rttMs?: number;
+    unresponsive: boolean;
+    // Times of recent negotiation failures in milliseconds since the epoch.
+    failures: number[];
+    // Negotiations waiting for an answer, by player id.
+    pending: Map<string, NodeJS.Timeout>;
+}
+
+// Sticky routes remembered at most. The oldest are forgotten first.
+const MAX_STICKY_SUBJECTS = 10_000;
+
+/**
+ * Keeps the health of every streamer known to the server and picks streamers for players
+ * that did not name one. Health is the ping round trip time measured by the streamer's
+ * keepalive, its load and how many recent subscriptions failed to negotiate. Streamers
+ * connected to other signalling processes are only judged by their load.
+ */
+export class StreamerHealthTracker {
+    // How long in milliseconds a negotiation may take before it counts as failed.
+    readonly negotiationTimeoutMs: number;
+    // How long in milliseconds a negotiation failure counts against a streamer.
+    readonly failureWindowMs: number;
+
+    private server: SignallingServer;
+    private states: WeakMap<IStreamer, IStreamerHealthState>;
+    private stickyRoutes: Map<string, string>;
+
+    /**
+     * @param server - The server whose registry and config are used for routing.
+     * @param negotiationTimeoutMs - How long a negotiation may take before it counts as failed.
+     * @param failureWindowMs - How long a negotiation failure counts against a streamer.
+     */
+    constructor(server: SignallingServer, negotiationTimeoutMs: number, failureWindowMs: number) {
+        this.server = server;
+        this.negotiationTimeoutMs = negotiationTimeoutMs;
+        this.failureWindowMs = failureWindowMs;
+        this.states = new WeakMap();
+        this.stickyRoutes = new Map();
+    }
+
+    /**
+     * The routing policy currently configured on the server.
+     */
+    get policy(): StreamerRoutingPolicy {
+        return this.server.config.streamerRoutingPolicy || 'first';
+    }
+
+    /**
+     * Records a pong from the streamer's keepalive.
+     */
+    recordRtt(streamer: IStreamer, rttMs: number): void {
+        const state = this.getState(streamer);
+        state.rttMs = rttMs;
+        state.unresponsive = false;
+    }
+
+    /**
+     * Records that a message arrived from the streamer. A streamer that is sending messages
+     * is responsive even if it missed a pong.
+     */
+    recordMessage(streamer: IStreamer): void {
+        const state = this.states.get(streamer);
+        if (state?.unresponsive) {
+            state.unresponsive = false;
+        }
+    }
+
+    /**
+     * Records that the streamer did not answer a keepalive ping in time. Streamers that never
+     * answered a ping are not marked since they may not implement the keepalive.
+     */
+    recordMissedPong(streamer: IStreamer): void {
+        const state = this.getState(streamer);
+        if (state.rttMs !== undefined && !state.unresponsive) {
+            Logger.warn(`[streamer-health] Streamer ${streamer.streamerId} missed a keepalive pong.`);
+            state.unresponsive = true;
+        }
+    }
+
+    /**
+     * Starts timing the negotiation of a new subscription.
+     */
+    negotiationStarted(streamer: IStreamer, playerId: string): void {
+        const state = this.getState(streamer);
+        this.clearPending(state, playerId);
+        const timer = setTimeout(() => {
+            state.pending.delete(playerId);
+            this.recordFailure(streamer, state, playerId, 'timed out');
+        }, this.negotiationTimeoutMs);
+        timer.unref();
+        state.pending.set(playerId, timer);
+    }
+
+    /**
+     * Marks the negotiation of a subscription as done once an answer has passed in either direction.
+     */
+    negotiationAnswered(streamer: IStreamer, playerId: string): void {
+        const state = this.states.get(streamer);
+        if (state) {
+            this.clearPending(state, playerId);
+        }
+    }
+
+    /**
+     * Called when a subscription ends. A negotiation still waiting for an answer counts as failed.
+     */
+    negotiationEnded(streamer: IStreamer, playerId: string): void {
+        const state = this.states.get(streamer);
+        if (state && this.clearPending(state, playerId)) {
+            this.recordFailure(streamer, state, playerId, 'ended before an answer');
+        }
+    }
+
+    /**
+     * Returns the current health of a streamer.
+     */
+    describe(streamer: IStreamer): IStreamerHealth {
+        const state = this.states.get(streamer);
+        const subscribers = streamer.subscribers.size;
+        const maxSubscribers = this.getMaxSubscribers(streamer);
+        const negotiationFailures = state ? this.pruneFailures(state) : 0;
+
+        // load costs up to 40 points, latency up to 30, failed negotiations up to 30.
+        // a streamer that stopped answering pings loses another 50.
+        const loadPenalty =
+            maxSubscribers > 0 ? (40 * subscribers) / maxSubscribers : Math.min(40, 5 * subscribers);
+        const rttPenalty = Math.min(30, (state?.rttMs || 0) / 10);
+        const failurePenalty = Math.min(30, 10 * negotiationFailures);
+        const unresponsive = state?.unresponsive || false;
+        const score = 100 - loadPenalty - rttPenalty - failurePenalty - (unresponsive ? 50 : 0);
+
+        return {
+            score: Math.max(0, Math.round(score)),
+            rttMs: state?.rttMs,
+            unresponsive,
+            subscribers,
+            maxSubscribers,
+            negotiationFailures
+        };
+    }
+
+    /**
+     * Picks a streamer for a player using the configured routing policy. Only streaming
+     * streamers the player may access are considered, and those with a free slot are
+     * preferred so a full streamer is only picked when every streamer is full.
+     * @returns The chosen streamer or undefined if there is none the player may use.
+     */
+    route(player: IRoutedPlayer): IStreamer | undefined {
+        const registry = this.server.streamerRegistry;
+        const allowed = registry
+            .listStreamerIds(true)
+            .map((streamerId) => registry.find(streamerId))
+            .filter((streamer): streamer is IStreamer => !!streamer)
+            .filter((streamer) => {
+                const policy = resolveStreamerPolicy(
+                    this.server.config.streamerPolicies,
+                    streamer.streamerId
+                );
+                return !checkStreamerAccess(policy, player.access, streamer.streamerId);
+            });
+        const withRoom = allowed.filter((streamer) => {
+            const maxSubscribers = this.getMaxSubscribers(streamer);
+            return maxSubscribers <= 0 || streamer.subscribers.size < maxSubscribers;
+        });
+        const candidates = withRoom.length > 0 ? withRoom : allowed;
+        if (candidates.length == 0) {
+            return undefined;
+        }
+
+        const chosen = this.choose(candidates, player.identity?.subject);
+        Logger.debug(
+            `[streamer-routing] Routed a player to ${chosen.streamerId} with policy ${this.policy} out of ${candidates.length} candidate(s).`
+        );
+        return chosen;
+    }
+
+    private choose(candidates: IStreamer[], subject?: string): IStreamer {
+        switch (this.policy) {
+            case 'first':
+                return candidates[0];
+            case 'least-loaded':
+                return this.best(candidates, (streamer) => {
+                    const maxSubscribers = this.getMaxSubscribers(streamer);
+                    const load = streamer.subscribers.size;
+                    return -(maxSubscribers > 0 ? load / maxSubscribers : load);
+                });
+            case 'healthiest':
+                return this.best(candidates, (streamer) => this.describe(streamer).score);
+            case 'sticky-by-subject': {
+                const previousId = subject ? this.stickyRoutes.get(subject) : undefined;
+                const previous = candidates.find((streamer) => streamer.streamerId == previousId);
+                const chosen = previous || this.best(candidates, (streamer) => this.describe(streamer).score);
+                if (subject) {
+                    // re-inserting keeps the most recently routed subjects at the end.
+                    this.stickyRoutes.delete(subject);
+                    this.stickyRoutes.set(subject, chosen.streamerId);
+                    if (this.stickyRoutes.size > MAX_STICKY_SUBJECTS) {
+                        this.stickyRoutes.delete(this.stickyRoutes.keys().next().value!);
+                    }
+                }
+                return chosen;
+            }
+        }
+    }
+
+    // returns the candidate with the highest rank. ties go to the earliest candidate.
+    private best(candidates: IStreamer[], rank: (streamer: IStreamer) => number): IStreamer {
+        let best = candidates[0];
+        let bestRank = rank(best);
+        for (const streamer of candidates.slice(1)) {
+            const streamerRank = rank(streamer);
+            if (streamerRank > bestRank) {
+                best = streamer;
+                bestRank = streamerRank;
+            }
+        }
+        return best;
+    }
+
+    private getMaxSubscribers(streamer: IStreamer): number {
+        const policy = resolveStreamerPolicy(this.server.config.streamerPolicies, streamer.streamerId);
+        return policy.maxSubscribers ?? streamer.maxSubscribers;
+    }
+
+    private getState(streamer: IStreamer): IStreamerHealthState {
+        let state = this.states.get(streamer);
+        if (!state) {
+            const newState: IStreamerHealthState = { unresponsive: false, failures: [], pending: new Map() };
+            // negotiations with a streamer that has gone away can no longer be answered.
+            streamer.once('disconnect', () => {
+                for (const playerId of Array.from(newState.pending.keys())) {
+                    this.clearPending(newState, playerId);
+                }
+            });
+            this.states.set(streamer, newState);
+            state = newState;
+        }
+        return state;
+    }
+
+    // returns true if the negotiation was still pending.
+    private clearPending(state: IStreamerHealthState, playerId: string): boolean {
+        const timer = state.pending.get(playerId);
+        if (!timer) {
+            return false;
+        }
+        clearTimeout(timer);
+        state.pending.delete(playerId);
+        return true;
+    }
+
+    private recordFailure(
+        streamer: IStreamer,
+        state: IStreamerHealthState,
+        playerId: string,
+        cause: string
+    ): void {
+        // a streamer that has gone away ends every negotiation. that says nothing about its health.
+        if (!streamer.transport.isConnected()) {
+            return;
+        }
+
+        Logger.warn(
+            `[streamer-health] Negotiation between ${streamer.streamerId} and player ${playerId} ${cause}.`
+        );
+        state.failures.push(Date.now());
+        this.pruneFailures(state);
+    }
+
+    private pruneFailures(state: IStreamerHealthState): number {
+        const cutoff = Date.now() - this.failureWindowMs;
+        state.failures = state.failures.filter((time) => time >= cutoff);
+        return state.failures.length;
+    }
+}
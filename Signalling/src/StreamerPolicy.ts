@@ -0,0 +1,115 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+
+/**
+ * How subscribers of a streamer share it.
+ * 'shared': Every subscriber is given a data channel and can control the stream.
+ * 'single-controller': The first subscriber is the controller and is the only one given a
+ * data channel. Everyone subscribing while there is a controller is a spectator.
+ */
+export type StreamerSubscriberMode = 'shared' | 'single-controller';
+
+/**
+ * The rules applied when a player subscribes to a streamer.
+ */
+export interface IStreamerPolicy {
+    // Player groups allowed to subscribe. Empty or missing allows every player.
+    allowedGroups?: string[];
+
+    // Max number of subscribers. Overrides the server wide maxSubscribers. 0 means unlimited.
+    maxSubscribers?: number;
+
+    // How subscribers share the streamer. Defaults to 'shared'.
+    subscriberMode?: StreamerSubscriberMode;
+}
+
+/**
+ * The set of streamer policies for a signalling server. Per streamer entries are
+ * merged over the default policy.
+ */
+export interface IStreamerPolicies {
+    // The policy applied to every streamer.
+    default?: IStreamerPolicy;
+
+    // Policies for specific streamer ids.
+    streamers?: Record<string, IStreamerPolicy>;
+}
+
+/**
+ * What a player is allowed to access, usually derived from its connect ticket.
+ */
+export interface IPlayerAccess {
+    // The groups the player belongs to. Matched against a policy's allowedGroups.
+    groups: string[];
+
+    // When set the player may only subscribe to these streamer ids.
+    streamers?: string[];
+}
+
+/**
+ * Machine readable reasons sent in subscribeFailed messages.
+ */
+export type SubscribeFailureReason =
+    | 'streamer_not_found'
+    | 'streamer_full'
+    | 'group_not_allowed'
+    | 'streamer_not_permitted'
+    | 'server_draining';
+
+/**
+ * Returns the effective policy for a streamer.
+ * @param policies - The configured policies. May be undefined when none are configured.
+ * @param streamerId - The id of the streamer being subscribed to.
+ */
+export function resolveStreamerPolicy(
+    policies: IStreamerPolicies | undefined,
+    streamerId: string
+): IStreamerPolicy {
+    return {
+        ...policies?.default,
+        ...policies?.streamers?.[streamerId]
+    };
+}
+
+/**
+ * Checks whether a player may subscribe to a streamer under a policy.
+ * @returns The reason the player is refused or undefined if it is allowed.
+ */
+export function checkStreamerAccess(
+    policy: IStreamerPolicy,
+    access: IPlayerAccess | undefined,
+    streamerId: string
+): SubscribeFailureReason | undefined {
+    if (access?.streamers && !access.streamers.includes(streamerId)) {
+        return 'streamer_not_permitted';
+    }
+
+    const allowedGroups = policy.allowedGroups || [];
+    if (allowedGroups.length > 0) {
+        const groups = access?.groups || [];
+        if (!groups.some((group) => allowedGroups.includes(group))) {
+            return 'group_not_allowed';
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns true when two players have the same access. Groups and streamer ids are compared
+ * ignoring their order.
+ */
+export function isSameAccess(a: IPlayerAccess | undefined, b: IPlayerAccess | undefined): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    return hasSameMembers(a.groups, b.groups) && hasSameMembers(a.streamers, b.streamers);
+}
+
+function hasSameMembers(a: string[] | undefined, b: string[] | undefined): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    const setA = new Set(a);
+    const setB = new Set(b);
+    return setA.size === setB.size && [...setA].every((value) => setB.has(value));
+}
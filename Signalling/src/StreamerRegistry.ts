@@ -10,6 +10,9 @@ import {
 import { Logger } from './Logger';
 import { IMessageLogger } from './LoggingUtils';
 import { IPlayerInfo } from './PlayerRegistry';
+import { IRegistryBackend, IRegistryStreamerRecord, InMemoryRegistryBackend } from './RegistryBackend';
+import { RemoteStreamer } from './RemoteConnections';
+import { IStreamerHealth } from './StreamerHealth';
 
 /**
  * An interface that describes a streamer that can be added to the
@@ -22,6 +25,12 @@ export interface IStreamer extends EventEmitter, IMessageLogger {
     streaming: boolean;
     maxSubscribers: number;
     subscribers: Set<string>;
+    // The id of the subscriber controlling a streamer in single-controller mode.
+    controllerId?: string;
+    // Descriptive data the streamer published about itself such as a map name or build version.
+    metadata: Record<string, string>;
+    // Labels the streamer list can be filtered by.
+    tags: string[];
 
     sendMessage(message: BaseMessage): void;
     getStreamerInfo(): IStreamerInfo;
@@ -36,11 +45,33 @@ export interface IStreamerInfo {
     streaming: boolean;
     remoteAddress: string | undefined;
     subscribers: IPlayerInfo[];
+    // Missing for streamers connected to other signalling processes.
+    health?: IStreamerHealth;
+    metadata: Record<string, string>;
+    tags: string[];
 }
 
+/**
+ * Describes a streamer to players choosing between streamers.
+ */
+export interface IStreamerDescription {
+    streamerId: string;
+    metadata: Record<string, string>;
+    tags: string[];
+}
+
+// Limits on the metadata and tags a streamer publishes, since they are kept for every
+// streamer, shared with other nodes and sent to players.
+const MAX_METADATA_ENTRIES = 32;
+const MAX_TAGS = 32;
+const MAX_METADATA_TEXT_LENGTH = 256;
+
 /**
  * Handles all the streamer connections of a signalling server and
  * can be used to lookup connections by id etc.
+ * Streamers connected to this process are kept in `streamers`. Streamers
+ * connected to other processes sharing the same registry backend can
+ * still be found by id and are represented by RemoteStreamer objects.
  * Fires events when streamers are added or removed.
  * Events:
  *   'added': (playerId: string) Player was added.
@@ -49,10 +80,19 @@ export interface IStreamerInfo {
 export class StreamerRegistry extends EventEmitter {
     streamers: IStreamer[];
     defaultStreamerIdPrefix: string = 'UnknownStreamer';
+    backend: IRegistryBackend;
+
+    private remoteStreamers: Map<string, RemoteStreamer>;
 
-    constructor() {
+    constructor(backend?: IRegistryBackend) {
         super();
         this.streamers = [];
+        this.backend = backend || new InMemoryRegistryBackend();
+        this.remoteStreamers = new Map();
+
+        this.backend.on('streamer_updated', this.onBackendStreamerUpdated.bind(this));
+        this.backend.on('streamer_renamed', this.onBackendStreamerRenamed.bind(this));
+        this.backend.on('streamer_removed', this.onBackendStreamerRemoved.bind(this));
     }
 
     /**
@@ -73,9 +113,14 @@ export class StreamerRegistry extends EventEmitter {
         }
 
         this.streamers.push(streamer);
+        this.backend.publishStreamer(this.createRecord(streamer));
 
         // request that the new streamer id itself.
         streamer.protocol.on(Messages.endpointId.typeName, this.onEndpointId.bind(this, streamer));
+        streamer.protocol.on(
+            Messages.streamerMetadata.typeName,
+            this.onStreamerMetadata.bind(this, streamer)
+        );
         streamer.sendMessage(MessageHelpers.createMessage(Messages.identify));
 
         this.emit('added', streamer.streamerId);
@@ -97,26 +142,87 @@ export class StreamerRegistry extends EventEmitter {
             return false;
         }
         this.streamers.splice(index, 1);
+        this.backend.withdrawStreamer(streamer.streamerId);
         this.emit('removed', streamer.streamerId);
         return true;
     }
 
     /**
-     * Attempts to find the given streamer id in the registry.
+     * Attempts to find the given streamer id in the registry. Streamers connected
+     * to other signalling nodes are returned as RemoteStreamer objects.
      */
     find(streamerId: string): IStreamer | undefined {
+        return this.findLocal(streamerId) || this.findRemote(streamerId);
+    }
+
+    /**
+     * Attempts to find the given streamer id amongst the streamers connected to this process.
+     */
+    findLocal(streamerId: string): IStreamer | undefined {
         return this.streamers.find((streamer) => streamer.streamerId == streamerId);
     }
 
     /**
-     * Used by players who haven't subscribed but try to send a message.
-     * This is to cover legacy connections that do not know how to subscribe.
-     * The player will be assigned the first streamer in the list.
+     * Returns the ids of every streamer known to the registry backend, including
+     * those connected to other signalling nodes.
+     * @param streamingOnly - When true only streamers ready to be subscribed to are returned.
+     */
+    listStreamerIds(streamingOnly: boolean): string[] {
+        const localIds = this.streamers
+            .filter((streamer) => !streamingOnly || streamer.streaming)
+            .map((streamer) => streamer.streamerId);
+        const remoteIds = this.listRemoteRecords()
+            .filter((record) => !streamingOnly || record.streaming)
+            .map((record) => record.streamerId);
+        return localIds.concat(remoteIds);
+    }
+
+    /**
+     * Describes every streamer known to the registry backend, including those connected
+     * to other signalling nodes.
+     * @param streamingOnly - When true only streamers ready to be subscribed to are described.
+     * @param tags - When not empty only streamers that have every one of these tags are described.
+     */
+    listStreamerDescriptions(streamingOnly: boolean, tags: string[] = []): IStreamerDescription[] {
+        const local = this.streamers
+            .filter((streamer) => !streamingOnly || streamer.streaming)
+            .map((streamer) => ({
+                streamerId: streamer.streamerId,
+                metadata: streamer.metadata,
+                tags: streamer.tags
+            }));
+        const remote = this.listRemoteRecords()
+            .filter((record) => !streamingOnly || record.streaming)
+            .map((record) => ({
+                streamerId: record.streamerId,
+                metadata: record.metadata || {},
+                tags: record.tags || []
+            }));
+        return local
+            .concat(remote)
+            .filter((description) => tags.every((tag) => description.tags.includes(tag)));
+    }
+
+    /**
+     * Republishes the shared description of a local streamer. Call this after
+     * changing its subscribers or streaming state.
+     */
+    refresh(streamer: IStreamer): void {
+        if (this.streamers.indexOf(streamer) == -1) {
+            return;
+        }
+        this.backend.publishStreamer(this.createRecord(streamer));
+    }
+
+    /**
+     * Returns the first streamer id known to the registry, preferring streamers connected
+     * to this process. Used by the first routing policy.
      * @returns The first streamerId in the registry or null if there are none.
      */
     getFirstStreamerId(): string | null {
         if (this.empty()) {
-            return null;
+            const remoteRecords = this.listRemoteRecords();
+            return remoteRecords.length > 0 ? remoteRecords[0].streamerId : null;
         }
         return this.streamers[0].streamerId;
     }
@@ -135,19 +241,74 @@ export class StreamerRegistry extends EventEmitter {
         return this.streamers.length;
     }
 
-    private onEndpointId(streamer: IStreamer, message: Messages.endpointId): void {
+    /**
+     * Changes the id of a streamer connected to this process. The new id is sanitized
+     * like any other id so it may come out different to the one asked for. Subscribers
+     * are told through the streamer's 'id_changed' event and the streamer is sent the
+     * committed id.
+     * @returns The id the streamer ended up with.
+     */
+    rename(streamer: IStreamer, newId: string): string {
         const oldId = streamer.streamerId;
 
         // id might conflict or be invalid so here we sanitize it
-        streamer.streamerId = this.sanitizeStreamerId(message.id);
+        streamer.streamerId = this.sanitizeStreamerId(newId);
 
         Logger.debug(`StreamerRegistry: Streamer id change. ${oldId} -> ${streamer.streamerId}`);
+        this.backend.renameStreamer(oldId, this.createRecord(streamer));
         streamer.emit('id_changed', streamer.streamerId);
 
         // because we might have sanitized the id, we confirm the id back to the streamer
         streamer.sendMessage(
             MessageHelpers.createMessage(Messages.endpointIdConfirm, { committedId: streamer.streamerId })
         );
+        return streamer.streamerId;
+    }
+
+    private onEndpointId(streamer: IStreamer, message: Messages.endpointId): void {
+        // set before renaming so the renamed record carries the metadata. older streamers send neither field.
+        this.setMetadata(streamer, message.metadata, message.tags);
+        this.rename(streamer, message.id);
+    }
+
+    private onStreamerMetadata(streamer: IStreamer, message: Messages.streamerMetadata): void {
+        this.setMetadata(streamer, message.metadata, message.tags);
+        Logger.debug(
+            `StreamerRegistry: Streamer ${streamer.streamerId} published metadata. Tags: ${streamer.tags.join(', ')}`
+        );
+        this.refresh(streamer);
+    }
+
+    // entries and tags over the limits are left out rather than cut short.
+    private setMetadata(streamer: IStreamer, metadata?: Record<string, string>, tags?: string[]): void {
+        const fits = (text: unknown) => typeof text === 'string' && text.length <= MAX_METADATA_TEXT_LENGTH;
+        let dropped = 0;
+
+        streamer.metadata = {};
+        let entries = 0;
+        for (const [key, value] of Object.entries(metadata || {})) {
+            if (entries >= MAX_METADATA_ENTRIES || !fits(key) || !fits(value)) {
+                dropped++;
+                continue;
+            }
+            streamer.metadata[key] = value;
+            entries++;
+        }
+
+        streamer.tags = [];
+        for (const tag of tags || []) {
+            if (streamer.tags.length >= MAX_TAGS || !fits(tag)) {
+                dropped++;
+                continue;
+            }
+            streamer.tags.push(tag);
+        }
+
+        if (dropped > 0) {
+            Logger.warn(
+                `StreamerRegistry: Left out ${dropped} metadata entries or tags of streamer ${streamer.streamerId} that were over the limits.`
+            );
+        }
     }
 
     private sanitizeStreamerId(id: string): string {
@@ -157,11 +318,15 @@ export class StreamerRegistry extends EventEmitter {
         }
 
         // search for existing streamerId and optionally append a numeric value
+        // ids must be unique across all nodes sharing the backend
+        const existingIds = this.streamers
+            .map((streamer) => streamer.streamerId)
+            .concat(this.listRemoteRecords().map((record) => record.streamerId));
         let maxPostfix = -1;
-        for (const streamer of this.streamers) {
+        for (const existingId of existingIds) {
             const idMatchRegex = /^(.*?)(\d*)$/;
 
-            const [, baseId, postfix] = streamer.streamerId.match(idMatchRegex)!;
+            const [, baseId, postfix] = existingId.match(idMatchRegex)!;
             // if the id is numeric then base id will be empty and we need to compare with the postfix
             if ((baseId != '' && baseId != id) || (baseId == '' && postfix != id)) {
                 continue;
@@ -176,4 +341,68 @@ export class StreamerRegistry extends EventEmitter {
         }
         return id;
     }
+
+    private findRemote(streamerId: string): IStreamer | undefined {
+        const existing = this.remoteStreamers.get(streamerId);
+        if (existing) {
+            return existing;
+        }
+
+        const record = this.backend.findStreamer(streamerId);
+        if (!record || record.nodeId == this.backend.nodeId) {
+            return undefined;
+        }
+
+        const remoteStreamer = new RemoteStreamer(this.backend, record);
+        this.remoteStreamers.set(streamerId, remoteStreamer);
+        return remoteStreamer;
+    }
+
+    private listRemoteRecords(): IRegistryStreamerRecord[] {
+        return this.backend.listStreamers().filter((record) => record.nodeId != this.backend.nodeId);
+    }
+
+    private createRecord(streamer: IStreamer): IRegistryStreamerRecord {
+        const info = streamer.getStreamerInfo();
+        return {
+            streamerId: streamer.streamerId,
+            nodeId: this.backend.nodeId,
+            type: info.type,
+            streaming: streamer.streaming,
+            maxSubscribers: streamer.maxSubscribers,
+            subscribers: Array.from(streamer.subscribers),
+            remoteAddress: info.remoteAddress,
+            metadata: streamer.metadata,
+            tags: streamer.tags
+        };
+    }
+
+    private onBackendStreamerUpdated(record: IRegistryStreamerRecord): void {
+        this.remoteStreamers.get(record.streamerId)?.update(record);
+    }
+
+    private onBackendStreamerRenamed(oldId: string, record: IRegistryStreamerRecord): void {
+        const remoteStreamer = this.remoteStreamers.get(oldId);
+        if (!remoteStreamer) {
+            return;
+        }
+
+        this.remoteStreamers.delete(oldId);
+        this.remoteStreamers.set(record.streamerId, remoteStreamer);
+        remoteStreamer.streamerId = record.streamerId;
+        remoteStreamer.update(record);
+        remoteStreamer.emit('id_changed', record.streamerId);
+    }
+
+    private onBackendStreamerRemoved(record: IRegistryStreamerRecord): void {
+        const remoteStreamer = this.remoteStreamers.get(record.streamerId);
+        if (!remoteStreamer) {
+            return;
+        }
+
+        Logger.info(`StreamerRegistry: Remote streamer ${remoteStreamer.getReadableIdentifier()} went away.`);
+        this.remoteStreamers.delete(record.streamerId);
+        remoteStreamer.transport.markClosed();
+        remoteStreamer.emit('disconnect');
+    }
 }
@@ -0,0 +1,266 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import WebSocket from 'ws';
+import { EventEmitter } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
+import { Logger } from './Logger';
+import {
+    IRegistryBackend,
+    IRegistryPlayerRecord,
+    IRegistryStreamerRecord,
+    IRelayEnvelope
+} from './RegistryBackend';
+import { RegistryHubMessage } from './RegistryHub';
+
+/**
+ * An interface describing the possible options to pass when creating
+ * a new WebSocketRegistryBackend object.
+ */
+export interface IWebSocketRegistryBackendConfig {
+    // The websocket url of the RegistryHub to connect to.
+    hubUrl: string;
+
+    // The unique id of this signalling node. Must be unique across all nodes sharing the hub.
+    nodeId: string;
+
+    // The shared secret of the hub.
+    secret: string;
+
+    // Delay in milliseconds before reconnecting to the hub after the connection drops.
+    reconnectIntervalMs?: number;
+}
+
+/**
+ * A registry backend that shares streamer and player state with other signalling
+ * processes through a RegistryHub. A local mirror of the shared state is kept so that
+ * lookups never block, and records owned by this node are republished whenever the
+ * hub connection is re-established.
+ */
+export class WebSocketRegistryBackend extends EventEmitter implements IRegistryBackend {
+    readonly nodeId: string;
+    readonly playerIdPrefix: string;
+
+    private hubUrl: string;
+    private secret: string;
+    private reconnectIntervalMs: number;
+    private webSocket?: WebSocket;
+    private reconnectTimer: NodeJS.Timeout | null;
+    private closed: boolean;
+    private streamers: Map<string, IRegistryStreamerRecord>;
+    private players: Map<string, IRegistryPlayerRecord>;
+
+    constructor(config: IWebSocketRegistryBackendConfig) {
+        super();
+        this.nodeId = config.nodeId;
+        this.playerIdPrefix = `${config.nodeId}-`;
+        this.hubUrl = config.hubUrl;
+        this.secret = config.secret;
+        this.reconnectIntervalMs = config.reconnectIntervalMs || 2000;
+        this.reconnectTimer = null;
+        this.closed = false;
+        this.streamers = new Map();
+        this.players = new Map();
+
+        this.connect();
+    }
+
+    /**
+     * Returns true when the hub connection is open.
+     */
+    isConnected(): boolean {
+        return !!this.webSocket && this.webSocket.readyState == WebSocket.OPEN;
+    }
+
+    publishStreamer(record: IRegistryStreamerRecord): void {
+        const ownRecord = { ...record, nodeId: this.nodeId };
+        this.streamers.set(ownRecord.streamerId, ownRecord);
+        this.send({ op: 'publishStreamer', record: ownRecord });
+    }
+
+    renameStreamer(oldId: string, record: IRegistryStreamerRecord): void {
+        const ownRecord = { ...record, nodeId: this.nodeId };
+        this.streamers.delete(oldId);
+        this.streamers.set(ownRecord.streamerId, ownRecord);
+        this.send({ op: 'renameStreamer', oldId, record: ownRecord });
+    }
+
+    withdrawStreamer(streamerId: string): void {
+        if (!this.streamers.has(streamerId)) {
+            return;
+        }
+        this.streamers.delete(streamerId);
+        this.send({ op: 'withdrawStreamer', streamerId });
+    }
+
+    findStreamer(streamerId: string): IRegistryStreamerRecord | undefined {
+        return this.streamers.get(streamerId);
+    }
+
+    listStreamers(): IRegistryStreamerRecord[] {
+        return Array.from(this.streamers.values());
+    }
+
+    publishPlayer(record: IRegistryPlayerRecord): void {
+        const ownRecord = { ...record, nodeId: this.nodeId };
+        this.players.set(ownRecord.playerId, ownRecord);
+        this.send({ op: 'publishPlayer', record: ownRecord });
+    }
+
+    withdrawPlayer(playerId: string): void {
+        if (!this.players.has(playerId)) {
+            return;
+        }
+        this.players.delete(playerId);
+        this.send({ op: 'withdrawPlayer', playerId });
+    }
+
+    findPlayer(playerId: string): IRegistryPlayerRecord | undefined {
+        return this.players.get(playerId);
+    }
+
+    listPlayers(): IRegistryPlayerRecord[] {
+        return Array.from(this.players.values());
+    }
+
+    relay(targetNodeId: string, envelope: IRelayEnvelope): void {
+        if (targetNodeId == this.nodeId) {
+            this.emit('relay', envelope, this.nodeId);
+            return;
+        }
+        if (!this.isConnected()) {
+            Logger.warn(
+                `WebSocketRegistryBackend: Hub is not connected. Dropping ${envelope.kind} for ${envelope.targetId} on node ${targetNodeId}.`
+            );
+            return;
+        }
+        this.send({ op: 'relay', targetNodeId, envelope });
+    }
+
+    close(): void {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.webSocket?.close();
+    }
+
+    private connect(): void {
+        this.webSocket = new WebSocket(this.hubUrl, {
+            headers: { authorization: `Bearer ${this.secret}` }
+        });
+        this.webSocket.on('open', this.onHubOpen.bind(this));
+        this.webSocket.on('message', this.onHubMessage.bind(this));
+        this.webSocket.on('close', this.onHubClose.bind(this));
+        this.webSocket.on('error', (error: Error) => {
+            Logger.error(`WebSocketRegistryBackend: Hub connection error ${error.message}`);
+        });
+    }
+
+    private onHubOpen(): void {
+        Logger.info(`WebSocketRegistryBackend: Node ${this.nodeId} connected to hub ${this.hubUrl}`);
+        this.send({ op: 'hello', nodeId: this.nodeId });
+
+        // the hub forgets everything we owned when we disconnected so republish it.
+        for (const record of this.streamers.values()) {
+            if (record.nodeId == this.nodeId) {
+                this.send({ op: 'publishStreamer', record });
+            }
+        }
+        for (const record of this.players.values()) {
+            if (record.nodeId == this.nodeId) {
+                this.send({ op: 'publishPlayer', record });
+            }
+        }
+    }
+
+    private onHubClose(): void {
+        if (this.closed) {
+            return;
+        }
+
+        Logger.warn(
+            `WebSocketRegistryBackend: Lost connection to hub. Reconnecting in ${this.reconnectIntervalMs}ms.`
+        );
+        this.dropRemoteRecords(new Set());
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, this.reconnectIntervalMs);
+        this.reconnectTimer.unref();
+    }
+
+    private onHubMessage(data: WebSocket.RawData): void {
+        let message: RegistryHubMessage;
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-base-to-string
+            message = JSON.parse(data.toString()) as RegistryHubMessage;
+        } catch {
+            Logger.warn('WebSocketRegistryBackend: Ignoring malformed hub message.');
+            return;
+        }
+
+        switch (message.op) {
+            case 'snapshot': {
+                const knownIds = new Set(message.streamers.map((record) => record.streamerId));
+                this.dropRemoteRecords(knownIds);
+                for (const record of message.streamers) {
+                    if (record.nodeId != this.nodeId) {
+                        this.streamers.set(record.streamerId, record);
+                        this.emit('streamer_updated', record);
+                    }
+                }
+                for (const record of message.players) {
+                    if (record.nodeId != this.nodeId) {
+                        this.players.set(record.playerId, record);
+                    }
+                }
+                break;
+            }
+            case 'streamerUpdated':
+                this.streamers.set(message.record.streamerId, message.record);
+                this.emit('streamer_updated', message.record);
+                break;
+            case 'streamerRenamed':
+                this.streamers.delete(message.oldId);
+                this.streamers.set(message.record.streamerId, message.record);
+                this.emit('streamer_renamed', message.oldId, message.record);
+                break;
+            case 'streamerRemoved':
+                this.streamers.delete(message.record.streamerId);
+                this.emit('streamer_removed', message.record);
+                break;
+            case 'playerUpdated':
+                this.players.set(message.record.playerId, message.record);
+                break;
+            case 'playerRemoved':
+                this.players.delete(message.record.playerId);
+                this.emit('player_removed', message.record);
+                break;
+            case 'relay':
+                this.emit('relay', message.envelope, message.fromNodeId);
+                break;
+            default:
+                Logger.warn(`WebSocketRegistryBackend: Unhandled hub message '${message.op}'.`);
+                break;
+        }
+    }
+
+    private dropRemoteRecords(keepStreamerIds: Set<string>): void {
+        for (const record of Array.from(this.streamers.values())) {
+            if (record.nodeId != this.nodeId && !keepStreamerIds.has(record.streamerId)) {
+                this.streamers.delete(record.streamerId);
+                this.emit('streamer_removed', record);
+            }
+        }
+        for (const record of Array.from(this.players.values())) {
+            if (record.nodeId != this.nodeId) {
+                this.players.delete(record.playerId);
+            }
+        }
+    }
+
+    private send(message: RegistryHubMessage): void {
+        if (this.isConnected()) {
+            this.webSocket!.send(JSON.stringify(message));
+        }
+    }
+}
@@ -1,11 +1,25 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
+export * from './AdminOperations';
 export * from './Logger';
 export * from './LoggingUtils';
+export * from './MessageGuard';
+export * from './Metrics';
 export * from './PlayerConnection';
+export * from './PlayerConnectionLimiter';
+export * from './PlayerQueue';
 export * from './PlayerRegistry';
+export * from './PlayerSessionStore';
+export * from './RegistryBackend';
+export * from './RegistryHub';
+export * from './RemoteConnections';
 export * from './SFUConnection';
+export * from './ServerDrain';
+export * from './SessionRecorder';
 export * from './SignallingServer';
 export * from './StreamerConnection';
+export * from './StreamerHealth';
+export * from './StreamerPolicy';
 export * from './StreamerRegistry';
 export * from './WebServer';
+export * from './WebSocketRegistryBackend';
 // keep Utils internal for now
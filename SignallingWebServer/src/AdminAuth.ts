@@ -0,0 +1,230 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import type http from 'http';
+import type express from 'express';
+import { AdminOperationStatus, Logger } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import {
+    parseNumericDateClaim,
+    timingSafeBufferEqual,
+    validateAudience,
+    verifyHs256Jwt
+} from './ConnectTicketAuth';
+
+export interface AdminAuthSettings {
+    // A static bearer token that grants admin access. Empty disables it.
+    token: string;
+    // The scope an HS256 JWT must carry to grant admin access. Empty disables JWT access.
+    jwtScope: string;
+    // The aud an admin JWT must carry. Must differ from the connect ticket audience so a
+    // connect ticket cannot be used as an admin token.
+    jwtAudience: string;
+    // The connect ticket audience, only used to check jwtAudience differs from it.
+    ticketAudience: string;
+    // The connect ticket signing key, issuer and clock skew. Admin JWTs are checked against them.
+    signingKey: string;
+    issuer: string;
+    clockSkewSeconds: number;
+}
+
+const ADMIN_STATUS_CODES: Record<AdminOperationStatus, number> = {
+    ok: 200,
+    not_found: 404,
+    not_local: 409,
+    not_subscribed: 409
+};
+
+type ValidationResult = {
+    isValid: boolean;
+    reason?: string;
+    subject?: string;
+};
+
+function parseBearerToken(req: http.IncomingMessage): string {
+    const header = req.headers.authorization;
+    if (typeof header !== 'string') {
+        return '';
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    return match ? match[1].trim() : '';
+}
+
+function hasScope(scopeClaim: unknown, scope: string): boolean {
+    if (typeof scopeClaim === 'string') {
+        return scopeClaim.split(' ').includes(scope);
+    }
+
+    if (Array.isArray(scopeClaim)) {
+        return scopeClaim.some((entry) => entry === scope);
+    }
+
+    return false;
+}
+
+function validateAdminJwt(token: string, settings: AdminAuthSettings): ValidationResult {
+    const verified = verifyHs256Jwt(token, settings.signingKey);
+    if ('reason' in verified) {
+        return { isValid: false, reason: `Admin ${verified.reason}` };
+    }
+
+    const payload = verified.payload;
+    const issuer = typeof payload.iss === 'string' ? payload.iss : '';
+    if (issuer !== settings.issuer) {
+        return { isValid: false, reason: 'Admin JWT issuer is invalid.' };
+    }
+
+    if (!validateAudience(payload.aud, settings.jwtAudience)) {
+        return { isValid: false, reason: 'Admin JWT audience is invalid.' };
+    }
+
+    const nowEpoch = Math.floor(Date.now() / 1000);
+    const skew = Math.max(0, settings.clockSkewSeconds);
+    const exp = parseNumericDateClaim(payload.exp);
+    if (exp === null) {
+        return { isValid: false, reason: 'Admin JWT is missing exp claim.' };
+    }
+
+    if (nowEpoch > exp + skew) {
+        return { isValid: false, reason: 'Admin JWT has expired.' };
+    }
+
+    const nbf = parseNumericDateClaim(payload.nbf);
+    if (nbf !== null && nowEpoch + skew < nbf) {
+        return { isValid: false, reason: 'Admin JWT is not active yet.' };
+    }
+
+    if (!hasScope(payload.scope, settings.jwtScope)) {
+        return { isValid: false, reason: `Admin JWT is missing the '${settings.jwtScope}' scope.` };
+    }
+
+    return { isValid: true, subject: typeof payload.sub === 'string' ? payload.sub : undefined };
+}
+
+function validateSettings(settings: AdminAuthSettings): void {
+    if (settings.token && settings.token.length < 32) {
+        throw new Error('admin_token must be at least 32 characters.');
+    }
+
+    if (!settings.jwtScope) {
+        return;
+    }
+
+    if (!settings.issuer) {
+        throw new Error('auth_issuer is required when admin_jwt_scope is set.');
+    }
+
+    if (!settings.jwtAudience) {
+        throw new Error('admin_jwt_audience is required when admin_jwt_scope is set.');
+    }
+
+    if (settings.jwtAudience === settings.ticketAudience) {
+        throw new Error('admin_jwt_audience must differ from auth_audience.');
+    }
+
+    if (!settings.signingKey || settings.signingKey.length < 32) {
+        throw new Error('auth_signing_key must be at least 32 characters when admin_jwt_scope is set.');
+    }
+}
+
+/**
+ * Trims the admin auth settings and checks they are usable.
+ * @throws If the settings are invalid.
+ */
+export function normalizeAdminAuthSettings(authSettings: AdminAuthSettings): AdminAuthSettings {
+    const settings: AdminAuthSettings = {
+        token: authSettings.token.trim(),
+        jwtScope: authSettings.jwtScope.trim(),
+        jwtAudience: authSettings.jwtAudience.trim(),
+        ticketAudience: authSettings.ticketAudience.trim(),
+        signingKey: authSettings.signingKey,
+        issuer: authSettings.issuer.trim(),
+        clockSkewSeconds: Number.isFinite(authSettings.clockSkewSeconds) ? authSettings.clockSkewSeconds : 5
+    };
+    validateSettings(settings);
+    return settings;
+}
+
+/**
+ * Creates the express-openapi security handler for the admin REST operations. A request
+ * is allowed when its bearer token is either the configured admin token or an HS256 JWT
+ * signed with the connect ticket signing key that carries the admin audience and scope. When neither
+ * is configured every admin request is refused.
+ */
+export function createAdminSecurityHandler(
+    authSettings: AdminAuthSettings
+): (req: http.IncomingMessage) => boolean {
+    const settings = normalizeAdminAuthSettings(authSettings);
+
+    if (!settings.token && !settings.jwtScope) {
+        Logger.info('Admin REST operations are disabled. Set admin_token or admin_jwt_scope to enable them.');
+    }
+
+    const expectedToken = Buffer.from(settings.token, 'utf8');
+    return (req: http.IncomingMessage) => {
+        const token = parseBearerToken(req);
+        if (!token) {
+            Logger.warn(`Admin request ${req.method} ${req.url} refused: bearer token is required.`);
+            return false;
+        }
+
+        if (settings.token && timingSafeBufferEqual(Buffer.from(token, 'utf8'), expectedToken)) {
+            return true;
+        }
+
+        if (settings.jwtScope) {
+            const validation = validateAdminJwt(token, settings);
+            if (validation.isValid) {
+                Logger.info(
+                    `Admin request ${req.method} ${req.url} by '${validation.subject || 'unknown'}'.`
+                );
+                return true;
+            }
+
+            Logger.warn(
+                `Admin request ${req.method} ${req.url} refused: ${
+                    validation.reason || 'Admin JWT validation failed.'
+                }`
+            );
+            return false;
+        }
+
+        Logger.warn(`Admin request ${req.method} ${req.url} refused: bearer token is invalid.`);
+        return false;
+    };
+}
+
+export interface ReloadableAdminSecurityHandler {
+    // Install this as the security handler of the admin REST operations.
+    securityHandler: (req: http.IncomingMessage) => boolean;
+    // Replaces the admin auth settings used for new requests. Throws and keeps the current
+    // settings if the new ones are invalid.
+    update(authSettings: AdminAuthSettings): void;
+}
+
+/**
+ * Creates an admin security handler whose settings can be replaced while the server is
+ * running, so admin tokens and the signing key can be rotated without a restart.
+ */
+export function createReloadableAdminSecurityHandler(
+    authSettings: AdminAuthSettings
+): ReloadableAdminSecurityHandler {
+    let current = createAdminSecurityHandler(authSettings);
+    return {
+        securityHandler: (req: http.IncomingMessage) => current(req),
+        update: (nextSettings: AdminAuthSettings) => {
+            current = createAdminSecurityHandler(nextSettings);
+        }
+    };
+}
+
+/**
+ * Responds to an admin REST operation with its outcome as an AdminResult object.
+ * @param extra - Additional fields for successful operations.
+ */
+export function sendAdminResult(
+    res: express.Response,
+    status: AdminOperationStatus,
+    message: string,
+    extra?: Record<string, unknown>
+): void {
+    res.status(ADMIN_STATUS_CODES[status]).json({ status, message, ...extra });
+}
@@ -2,8 +2,16 @@
 import crypto from 'crypto';
 import type http from 'http';
 import type * as wslib from 'ws';
-import { Logger } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import {
+    IPlayerAccess,
+    IPlayerIdentity,
+    IPlayerTicketRefresh,
+    Logger,
+    SignallingMetrics
+} from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
 import type { ConnectTicketRuntimeGate } from './connect-ticket-runtime-state';
+import type { ConnectTicketReplayStore } from './connect-ticket-replay-state';
+import type { ConnectTicketKeySet } from './ConnectTicketJwks';
 
 export type ConnectTicketAuthMode = 'off' | 'soft' | 'enforce';
 
@@ -11,18 +19,66 @@ export interface ConnectTicketAuthSettings {
     mode: ConnectTicketAuthMode;
     issuer: string;
     audience: string;
+    // HMAC key for HS256 tickets. HS256 tickets are refused when this is empty.
     signingKey: string;
+    // Public keys for RS256 and ES256 tickets. Those tickets are refused when not supplied.
+    keySet?: ConnectTicketKeySet;
     instanceId: string;
     routeHostSuffix: string;
     clockSkewSeconds: number;
     runtimeGate?: ConnectTicketRuntimeGate;
+    // How many connections a ticket may open. 0 or missing means unlimited. Tickets must
+    // carry a jti claim when limited.
+    ticketMaxUses?: number;
+    // Remembers ticket uses by jti. Required when ticketMaxUses is set.
+    replayStore?: ConnectTicketReplayStore;
+    // Rejected tickets are counted here when supplied.
+    metrics?: SignallingMetrics;
 }
 
+export interface ConnectTicketClaims {
+    // The ticket subject. Used as the player's group for streamer policies.
+    subject?: string;
+    // The streamer ids the ticket is limited to. Missing means any streamer.
+    streamers?: string[];
+    // The ticket id. The jti claim.
+    tokenId?: string;
+    // When the ticket expires, in seconds since the epoch. The exp claim.
+    expiresAt?: number;
+    // Every claim in the ticket payload.
+    payload: Record<string, unknown>;
+}
+
+/**
+ * Machine readable reasons a connect ticket is rejected. Used to label rejection metrics.
+ */
+export type ConnectTicketRejectionCode =
+    | 'missing'
+    | 'malformed'
+    | 'bad_signature'
+    | 'unknown_key'
+    | 'bad_issuer'
+    | 'bad_audience'
+    | 'expired'
+    | 'not_yet_valid'
+    | 'instance_mismatch'
+    | 'bad_route_key'
+    | 'host_mismatch'
+    | 'bad_claims'
+    | 'runtime_gate'
+    | 'replayed'
+    | 'replay_store_full';
+
 type ValidationResult = {
     isValid: boolean;
     reason?: string;
+    code?: ConnectTicketRejectionCode;
+    claims?: ConnectTicketClaims;
 };
 
+// Claims of the tickets that passed validation, keyed by the upgrade request they arrived on.
+const validatedTicketClaims = new WeakMap<http.IncomingMessage, ConnectTicketClaims>();
+
 const isDnsLabelChar = (charCode: number): boolean =>
     (charCode >= 97 && charCode <= 122) || (charCode >= 48 && charCode <= 57);
 
@@ -74,7 +130,7 @@ function decodeBase64Url(value: string): Buffer {
     return Buffer.from(`${base64}${padding}`, 'base64');
 }
 
-function timingSafeBufferEqual(a: Buffer, b: Buffer): boolean {
+export function timingSafeBufferEqual(a: Buffer, b: Buffer): boolean {
     if (a.length !== b.length) {
         return false;
     }
@@ -104,7 +160,7 @@ function parseTicketFromRequest(req: http.IncomingMessage, host: string): string
     return parsed.searchParams.get('ct')?.trim() || '';
 }
 
-function validateAudience(payloadAud: unknown, expectedAudience: string): boolean {
+export function validateAudience(payloadAud: unknown, expectedAudience: string): boolean {
     if (typeof payloadAud === 'string') {
         return payloadAud === expectedAudience;
     }
@@ -116,7 +172,7 @@ function validateAudience(payloadAud: unknown, expectedAudience: string): boolea
     return false;
 }
 
-function parseNumericDateClaim(value: unknown): number | null {
+export function parseNumericDateClaim(value: unknown): number | null {
     if (typeof value !== 'number' || !Number.isFinite(value)) {
         return null;
     }
@@ -124,74 +180,197 @@ function parseNumericDateClaim(value: unknown): number | null {
     return Math.trunc(value);
 }
 
-function validateToken(token: string, host: string, settings: ConnectTicketAuthSettings): ValidationResult {
+type DecodedJwt = {
+    header: Record<string, unknown>;
+    payload: Record<string, unknown>;
+    signature: Buffer;
+    signingInput: string;
+};
+
+type JwtVerification =
+    | { payload: Record<string, unknown> }
+    | { reason: string; code: 'malformed' | 'bad_signature' | 'unknown_key' };
+
+function decodeJwt(token: string): DecodedJwt | { reason: string; code: 'malformed' } {
     const segments = token.split('.');
     if (segments.length !== 3) {
-        return { isValid: false, reason: 'Connect ticket JWT format is invalid.' };
+        return { reason: 'JWT format is invalid.', code: 'malformed' };
     }
 
     const [headerSegment, payloadSegment, signatureSegment] = segments;
-    let header: Record<string, unknown>;
-    let payload: Record<string, unknown>;
-    let providedSignature: Buffer;
     try {
-        header = JSON.parse(decodeBase64Url(headerSegment).toString('utf8')) as Record<string, unknown>;
-        payload = JSON.parse(decodeBase64Url(payloadSegment).toString('utf8')) as Record<string, unknown>;
-        providedSignature = decodeBase64Url(signatureSegment);
+        return {
+            header: JSON.parse(decodeBase64Url(headerSegment).toString('utf8')) as Record<string, unknown>,
+            payload: JSON.parse(decodeBase64Url(payloadSegment).toString('utf8')) as Record<string, unknown>,
+            signature: decodeBase64Url(signatureSegment),
+            signingInput: `${headerSegment}.${payloadSegment}`
+        };
     } catch {
-        return { isValid: false, reason: 'Connect ticket JWT could not be decoded.' };
+        return { reason: 'JWT could not be decoded.', code: 'malformed' };
     }
+}
 
-    if (header.alg !== 'HS256') {
-        return { isValid: false, reason: 'Connect ticket JWT alg must be HS256.' };
+function verifyHmacSignature(decoded: DecodedJwt, signingKey: string): boolean {
+    const expectedSignature = crypto.createHmac('sha256', signingKey).update(decoded.signingInput).digest();
+    return timingSafeBufferEqual(decoded.signature, expectedSignature);
+}
+
+/**
+ * Decodes an HS256 JWT and checks its signature. Claims are not validated.
+ * @returns The token payload, or the reason the token was refused.
+ */
+export function verifyHs256Jwt(
+    token: string,
+    signingKey: string
+): { payload: Record<string, unknown> } | { reason: string; code: 'malformed' | 'bad_signature' } {
+    const decoded = decodeJwt(token);
+    if ('reason' in decoded) {
+        return decoded;
+    }
+
+    if (decoded.header.alg !== 'HS256') {
+        return { reason: 'JWT alg must be HS256.', code: 'malformed' };
+    }
+
+    if (!verifyHmacSignature(decoded, signingKey)) {
+        return { reason: 'JWT signature is invalid.', code: 'bad_signature' };
     }
 
-    const signingInput = `${headerSegment}.${payloadSegment}`;
-    const expectedSignature = crypto.createHmac('sha256', settings.signingKey).update(signingInput).digest();
-    if (!timingSafeBufferEqual(providedSignature, expectedSignature)) {
-        return { isValid: false, reason: 'Connect ticket JWT signature is invalid.' };
+    return { payload: decoded.payload };
+}
+
+/**
+ * Decodes a connect ticket JWT and checks its signature. HS256 tickets are checked with the
+ * signing key, RS256 and ES256 tickets with the key set, picking keys by kid. Claims are not
+ * validated.
+ * @returns The token payload, or the reason the token was refused.
+ */
+async function verifyConnectTicketJwt(
+    token: string,
+    settings: ConnectTicketAuthSettings
+): Promise<JwtVerification> {
+    const decoded = decodeJwt(token);
+    if ('reason' in decoded) {
+        return decoded;
+    }
+
+    const alg = decoded.header.alg;
+    if (alg === 'HS256' && settings.signingKey) {
+        if (!verifyHmacSignature(decoded, settings.signingKey)) {
+            return { reason: 'JWT signature is invalid.', code: 'bad_signature' };
+        }
+        return { payload: decoded.payload };
     }
 
+    if ((alg === 'RS256' || alg === 'ES256') && settings.keySet) {
+        const kid = typeof decoded.header.kid === 'string' ? decoded.header.kid : undefined;
+        const keys = await settings.keySet.getKeys(kid, alg);
+        if (keys.length == 0) {
+            return {
+                reason: `JWT was signed with an unknown ${alg} key '${kid || '(no kid)'}'.`,
+                code: 'unknown_key'
+            };
+        }
+
+        // ES256 signatures in JWTs are the raw r and s values rather than DER.
+        const verified = keys.some((key) =>
+            crypto.verify(
+                'sha256',
+                Buffer.from(decoded.signingInput),
+                alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+                decoded.signature
+            )
+        );
+        if (!verified) {
+            return { reason: 'JWT signature is invalid.', code: 'bad_signature' };
+        }
+        return { payload: decoded.payload };
+    }
+
+    const accepted = [settings.signingKey ? 'HS256' : '', settings.keySet ? 'RS256, ES256' : '']
+        .filter((entry) => entry)
+        .join(', ');
+    return { reason: `JWT alg must be one of: ${accepted}.`, code: 'malformed' };
+}
+
+/**
+ * Checks a connect ticket for a player on the given host.
+ * @param countUse - Whether a valid ticket counts as one of its uses. Tickets that do not
+ * open a connection, like refreshed tickets, are not counted.
+ */
+async function validateToken(
+    token: string,
+    host: string,
+    settings: ConnectTicketAuthSettings,
+    countUse = true
+): Promise<ValidationResult> {
+    const verified = await verifyConnectTicketJwt(token, settings);
+    if ('reason' in verified) {
+        return { isValid: false, reason: `Connect ticket ${verified.reason}`, code: verified.code };
+    }
+
+    const payload = verified.payload;
     const nowEpoch = Math.floor(Date.now() / 1000);
     const skew = Math.max(0, settings.clockSkewSeconds);
     const issuer = typeof payload.iss === 'string' ? payload.iss : '';
     if (issuer !== settings.issuer) {
-        return { isValid: false, reason: 'Connect ticket issuer is invalid.' };
+        return { isValid: false, reason: 'Connect ticket issuer is invalid.', code: 'bad_issuer' };
     }
 
     if (!validateAudience(payload.aud, settings.audience)) {
-        return { isValid: false, reason: 'Connect ticket audience is invalid.' };
+        return { isValid: false, reason: 'Connect ticket audience is invalid.', code: 'bad_audience' };
     }
 
     const exp = parseNumericDateClaim(payload.exp);
     if (exp === null) {
-        return { isValid: false, reason: 'Connect ticket is missing exp claim.' };
+        return { isValid: false, reason: 'Connect ticket is missing exp claim.', code: 'bad_claims' };
     }
 
     if (nowEpoch > exp + skew) {
-        return { isValid: false, reason: 'Connect ticket has expired.' };
+        return { isValid: false, reason: 'Connect ticket has expired.', code: 'expired' };
     }
 
     const nbf = parseNumericDateClaim(payload.nbf);
     if (nbf !== null && nowEpoch + skew < nbf) {
-        return { isValid: false, reason: 'Connect ticket is not active yet.' };
+        return { isValid: false, reason: 'Connect ticket is not active yet.', code: 'not_yet_valid' };
     }
 
     const instanceId = typeof payload.instanceId === 'string' ? payload.instanceId.trim() : '';
     if (!instanceId || instanceId !== settings.instanceId) {
-        return { isValid: false, reason: 'Connect ticket instanceId does not match this server.' };
+        return {
+            isValid: false,
+            reason: 'Connect ticket instanceId does not match this server.',
+            code: 'instance_mismatch'
+        };
     }
 
     const routeKeyClaim = typeof payload.routeKey === 'string' ? normalizeRouteKey(payload.routeKey) : '';
     if (!routeKeyClaim) {
-        return { isValid: false, reason: 'Connect ticket routeKey is missing or invalid.' };
+        return {
+            isValid: false,
+            reason: 'Connect ticket routeKey is missing or invalid.',
+            code: 'bad_route_key'
+        };
     }
 
     const expectedHost = `${routeKeyClaim}.${settings.routeHostSuffix}`;
     if (host !== expectedHost) {
         return {
             isValid: false,
-            reason: `Connect ticket host mismatch. Expected '${expectedHost}', got '${host || 'unknown'}'.`
+            reason: `Connect ticket host mismatch. Expected '${expectedHost}', got '${host || 'unknown'}'.`,
+            code: 'host_mismatch'
+        };
+    }
+
+    const streamersClaim = payload.streamers;
+    if (
+        streamersClaim !== undefined &&
+        (!Array.isArray(streamersClaim) || !streamersClaim.every((entry) => typeof entry === 'string'))
+    ) {
+        return {
+            isValid: false,
+            reason: 'Connect ticket streamers claim must be a list of streamer ids.',
+            code: 'bad_claims'
         };
     }
 
@@ -203,10 +382,43 @@ function validateToken(token: string, host: string, settings: ConnectTicketAuthS
         subject: typeof payload.sub === 'string' ? payload.sub : undefined
     });
     if (runtimeRejectReason) {
-        return { isValid: false, reason: runtimeRejectReason };
+        return { isValid: false, reason: runtimeRejectReason, code: 'runtime_gate' };
+    }
+
+    // uses are only counted once everything else passed so invalid attempts do not use up a ticket.
+    if (countUse && settings.ticketMaxUses && settings.replayStore) {
+        const tokenId = typeof payload.jti === 'string' ? payload.jti.trim() : '';
+        if (!tokenId) {
+            return { isValid: false, reason: 'Connect ticket is missing jti claim.', code: 'bad_claims' };
+        }
+
+        const uses = settings.replayStore.recordUse(tokenId, exp + skew);
+        if (uses === null) {
+            return {
+                isValid: false,
+                reason: `Connect ticket ${tokenId} cannot be tracked. The seen ticket store is full.`,
+                code: 'replay_store_full'
+            };
+        }
+        if (uses > settings.ticketMaxUses) {
+            return {
+                isValid: false,
+                reason: `Connect ticket ${tokenId} was replayed. It has been used ${uses} times and allows ${settings.ticketMaxUses}.`,
+                code: 'replayed'
+            };
+        }
     }
 
-    return { isValid: true };
+    return {
+        isValid: true,
+        claims: {
+            subject: typeof payload.sub === 'string' && payload.sub ? payload.sub : undefined,
+            streamers: streamersClaim as string[] | undefined,
+            tokenId: typeof payload.jti === 'string' && payload.jti ? payload.jti : undefined,
+            expiresAt: exp,
+            payload
+        }
+    };
 }
 
 function validateSettings(settings: ConnectTicketAuthSettings): void {
@@ -222,7 +434,13 @@ function validateSettings(settings: ConnectTicketAuthSettings): void {
         throw new Error('auth_audience is required when auth_mode is soft or enforce.');
     }
 
-    if (!settings.signingKey || settings.signingKey.length < 32) {
+    if (!settings.signingKey && !settings.keySet) {
+        throw new Error(
+            'auth_signing_key or a JWKS (auth_jwks_file, auth_jwks_url) is required when auth_mode is soft or enforce.'
+        );
+    }
+
+    if (settings.signingKey && settings.signingKey.length < 32) {
         throw new Error('auth_signing_key must be at least 32 characters when auth_mode is soft or enforce.');
     }
 
@@ -241,6 +459,15 @@ function validateSettings(settings: ConnectTicketAuthSettings): void {
     if (UriCheckHostName(settings.routeHostSuffix) === false) {
         throw new Error('auth_route_host_suffix must be a valid DNS host suffix.');
     }
+
+    const maxUses = settings.ticketMaxUses ?? 0;
+    if (!Number.isInteger(maxUses) || maxUses < 0) {
+        throw new Error('auth_ticket_max_uses must be a whole number. 0 means unlimited.');
+    }
+
+    if (maxUses > 0 && !settings.replayStore) {
+        throw new Error('A seen ticket store is required when auth_ticket_max_uses is set.');
+    }
 }
 
 function UriCheckHostName(value: string): boolean {
@@ -272,10 +499,14 @@ export function normalizeAuthSettings(settings: ConnectTicketAuthSettings): Conn
         issuer: settings.issuer.trim(),
         audience: settings.audience.trim(),
         signingKey: settings.signingKey,
+        keySet: settings.keySet,
         instanceId: settings.instanceId.trim(),
         routeHostSuffix: normalizeHost(settings.routeHostSuffix),
         clockSkewSeconds: Number.isFinite(settings.clockSkewSeconds) ? settings.clockSkewSeconds : 5,
-        runtimeGate: settings.runtimeGate
+        runtimeGate: settings.runtimeGate,
+        ticketMaxUses: settings.ticketMaxUses ?? 0,
+        replayStore: settings.replayStore,
+        metrics: settings.metrics
     };
 
     validateSettings(normalized);
@@ -294,6 +525,14 @@ export function createPlayerVerifyClient(
     Logger.info(
         `Connect ticket auth mode is ${settings.mode.toUpperCase()} for instance '${settings.instanceId}' and suffix '${settings.routeHostSuffix}'.`
     );
+    if (settings.keySet) {
+        Logger.info(
+            `Connect tickets signed with RS256 or ES256 are checked against ${settings.keySet.describe()}.`
+        );
+    }
+    if (settings.ticketMaxUses) {
+        Logger.info(`Connect tickets may be used ${settings.ticketMaxUses} time(s). Replays are rejected.`);
+    }
 
     return ((
         info: { req: http.IncomingMessage },
@@ -303,6 +542,7 @@ export function createPlayerVerifyClient(
         const token = parseTicketFromRequest(info.req, host);
         if (!token) {
             const reason = 'Connect ticket (ct) is required.';
+            settings.metrics?.connectTicketRejections.inc({ reason: 'missing', mode: settings.mode });
             if (settings.mode === 'enforce') {
                 Logger.warn(reason);
                 done(false, 401, reason);
@@ -314,19 +554,146 @@ export function createPlayerVerifyClient(
             return;
         }
 
-        const validation = validateToken(token, host, settings);
-        if (validation.isValid) {
+        void validateToken(token, host, settings)
+            .catch((error: unknown): ValidationResult => {
+                const message = error instanceof Error ? error.message : String(error);
+                return {
+                    isValid: false,
+                    reason: `Connect ticket could not be validated: ${message}`,
+                    code: 'malformed'
+                };
+            })
+            .then((validation: ValidationResult) => {
+                if (validation.isValid) {
+                    if (validation.claims) {
+                        validatedTicketClaims.set(info.req, validation.claims);
+                    }
+                    done(true);
+                    return;
+                }
+
+                settings.metrics?.connectTicketRejections.inc({
+                    reason: validation.code || 'malformed',
+                    mode: settings.mode
+                });
+                if (settings.mode === 'enforce') {
+                    Logger.warn(validation.reason || 'Connect ticket validation failed.');
+                    done(false, 401, validation.reason || 'Connect ticket validation failed.');
+                    return;
+                }
+
+                Logger.warn(`[soft] ${validation.reason || 'Connect ticket validation failed.'}`);
+                done(true);
+            });
+    }) as NonNullable<wslib.ServerOptions['verifyClient']>;
+}
+
+export interface ReloadablePlayerVerifyClient {
+    // Install this on the player websocket server. It accepts every player while auth is off.
+    verifyClient: NonNullable<wslib.ServerOptions['verifyClient']>;
+    // Replaces the auth settings used for new connections. Throws and keeps the current
+    // settings if the new ones are invalid.
+    update(authSettings: ConnectTicketAuthSettings): void;
+    // Validates a refreshed ticket sent by a connected player against the current settings.
+    // The ticket must be valid for the host the player originally connected to.
+    // Refreshing does not count as a use of the ticket.
+    refreshIdentity: (ticket: string, req: http.IncomingMessage) => Promise<IPlayerTicketRefresh>;
+    // Gives back the ticket use a player's connection took, for connections that resumed a
+    // session instead of starting a new one.
+    releaseTicketUse: (identity: IPlayerIdentity) => void;
+}
+
+/**
+ * Creates a player verifyClient whose auth settings can be replaced while the server is
+ * running, so auth can move between off, soft and enforce without a restart.
+ */
+export function createReloadablePlayerVerifyClient(
+    authSettings: ConnectTicketAuthSettings
+): ReloadablePlayerVerifyClient {
+    let current = createPlayerVerifyClient(authSettings);
+    let settings = normalizeAuthSettings(authSettings);
+    const verifyClient: wslib.VerifyClientCallbackAsync = (info, done) => {
+        if (!current) {
             done(true);
             return;
         }
 
-        if (settings.mode === 'enforce') {
-            Logger.warn(validation.reason || 'Connect ticket validation failed.');
-            done(false, 401, validation.reason || 'Connect ticket validation failed.');
-            return;
+        (current as wslib.VerifyClientCallbackAsync)(info, done);
+    };
+
+    return {
+        verifyClient,
+        update: (nextSettings: ConnectTicketAuthSettings) => {
+            current = createPlayerVerifyClient(nextSettings);
+            settings = normalizeAuthSettings(nextSettings);
+        },
+        refreshIdentity: async (ticket: string, req: http.IncomingMessage) => {
+            if (settings.mode === 'off') {
+                return { reason: 'Connect ticket auth is off.' };
+            }
+
+            const validation = await validateToken(ticket.trim(), parseHostFromRequest(req), settings, false);
+            if (!validation.isValid || !validation.claims) {
+                settings.metrics?.connectTicketRejections.inc({
+                    reason: validation.code || 'malformed',
+                    mode: settings.mode
+                });
+                return { reason: validation.reason || 'Connect ticket validation failed.' };
+            }
+
+            return {
+                identity: identityFromClaims(validation.claims),
+                access: accessFromClaims(validation.claims)
+            };
+        },
+        releaseTicketUse: (identity: IPlayerIdentity) => {
+            const tokenId = identity.ticketId?.trim();
+            if (settings.mode === 'off' || !settings.ticketMaxUses || !settings.replayStore || !tokenId) {
+                return;
+            }
+
+            settings.replayStore.releaseUse(tokenId);
         }
+    };
+}
 
-        Logger.warn(`[soft] ${validation.reason || 'Connect ticket validation failed.'}`);
-        done(true);
-    }) as NonNullable<wslib.ServerOptions['verifyClient']>;
+/**
+ * Returns the claims of the connect ticket that was validated for a player connection request.
+ * Undefined if the request carried no valid ticket.
+ */
+export function getConnectTicketClaims(req: http.IncomingMessage): ConnectTicketClaims | undefined {
+    return validatedTicketClaims.get(req);
+}
+
+/**
+ * Derives what a player may access from its connect ticket. The ticket subject is the
+ * player's group and the streamers claim limits which streamers it may subscribe to.
+ */
+export function resolvePlayerAccessFromTicket(req: http.IncomingMessage): IPlayerAccess | undefined {
+    const claims = getConnectTicketClaims(req);
+    return claims ? accessFromClaims(claims) : undefined;
+}
+
+/**
+ * Derives who a player authenticated as from its connect ticket.
+ */
+export function resolvePlayerIdentityFromTicket(req: http.IncomingMessage): IPlayerIdentity | undefined {
+    const claims = getConnectTicketClaims(req);
+    return claims ? identityFromClaims(claims) : undefined;
+}
+
+function accessFromClaims(claims: ConnectTicketClaims): IPlayerAccess {
+    return {
+        groups: claims.subject ? [claims.subject] : [],
+        streamers: claims.streamers
+    };
+}
+
+function identityFromClaims(claims: ConnectTicketClaims): IPlayerIdentity {
+    return {
+        subject: claims.subject,
+        ticketId: claims.tokenId,
+        expiresAt: claims.expiresAt,
+        claims: claims.payload
+    };
 }
@@ -0,0 +1,197 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import crypto from 'crypto';
+import fs from 'fs';
+import { Logger } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+
+const DEFAULT_CACHE_SECONDS = 300;
+// a token signed by an unknown kid refreshes the keys at most this often.
+const UNKNOWN_KID_REFRESH_INTERVAL_MS = 30_000;
+const FETCH_TIMEOUT_MS = 5_000;
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'];
+
+export type AsymmetricJwtAlg = 'RS256' | 'ES256';
+
+export interface ConnectTicketJwksOptions {
+    // A local JWKS file. Re-read when it changes.
+    filePath?: string;
+    // A JWKS url. Fetched again once the cache expires.
+    url?: string;
+    // How long loaded keys are used before they are refreshed.
+    cacheSeconds?: number;
+    logger?: (message: string) => void;
+}
+
+export interface ConnectTicketKeySet {
+    // Returns the public keys that may have signed a token with the given kid and alg. The
+    // keys are refreshed first when they are stale or the kid is unknown. Tokens without a
+    // kid are checked against every key of the right type.
+    getKeys(kid: string | undefined, alg: AsymmetricJwtAlg): Promise<crypto.KeyObject[]>;
+    // Describes where the keys come from, for the startup log.
+    describe(): string;
+}
+
+interface LoadedKey {
+    kid?: string;
+    alg?: string;
+    kty: string;
+    crv?: string;
+    key: crypto.KeyObject;
+}
+
+type Jwk = Record<string, unknown>;
+
+function parseJwks(raw: string, source: string, logger: (message: string) => void): LoadedKey[] {
+    const parsed = JSON.parse(raw) as { keys?: unknown };
+    if (!parsed || !Array.isArray(parsed.keys)) {
+        throw new Error(`${source} is not a JWKS. It has no keys list.`);
+    }
+
+    const keys: LoadedKey[] = [];
+    for (const entry of parsed.keys as Jwk[]) {
+        const kid = typeof entry?.kid === 'string' ? entry.kid : undefined;
+        if (entry?.use !== undefined && entry.use !== 'sig') {
+            continue;
+        }
+        if (entry?.kty !== 'RSA' && entry?.kty !== 'EC') {
+            logger(`[connect-ticket-jwks] Skipping key ${kid || '(no kid)'} in ${source}. Unsupported kty.`);
+            continue;
+        }
+
+        // only the public part of a key is ever used, even if the JWKS holds private keys.
+        const publicJwk = Object.fromEntries(
+            Object.entries(entry).filter(([name]) => !PRIVATE_JWK_FIELDS.includes(name))
+        );
+        try {
+            keys.push({
+                kid,
+                alg: typeof entry.alg === 'string' ? entry.alg : undefined,
+                kty: entry.kty,
+                crv: typeof entry.crv === 'string' ? entry.crv : undefined,
+                key: crypto.createPublicKey({ key: publicJwk as crypto.JsonWebKey, format: 'jwk' })
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger(`[connect-ticket-jwks] Skipping key ${kid || '(no kid)'} in ${source}: ${message}`);
+        }
+    }
+
+    if (keys.length == 0) {
+        throw new Error(`${source} has no usable RSA or EC signing keys.`);
+    }
+    return keys;
+}
+
+function keyMatchesAlg(key: LoadedKey, alg: AsymmetricJwtAlg): boolean {
+    if (key.alg && key.alg !== alg) {
+        return false;
+    }
+    return alg === 'RS256' ? key.kty === 'RSA' : key.kty === 'EC' && key.crv === 'P-256';
+}
+
+/**
+ * Loads the public keys connect tickets are signed with from a JWKS file, a JWKS url or
+ * both. Several keys can be active at once so signing keys can be rotated with overlap.
+ * A file that is set but cannot be read makes creation throw. A url that cannot be fetched
+ * keeps the keys it served last.
+ */
+export function createConnectTicketKeySet(options: ConnectTicketJwksOptions): ConnectTicketKeySet {
+    const logger = options.logger ?? ((message: string) => Logger.info(message));
+    const filePath = options.filePath?.trim() || '';
+    const url = options.url?.trim() || '';
+    const cacheMs = Math.max(0, options.cacheSeconds ?? DEFAULT_CACHE_SECONDS) * 1000;
+    if (!filePath && !url) {
+        throw new Error('A JWKS file or url is required.');
+    }
+
+    let fileKeys: LoadedKey[] = [];
+    let fileModifiedMs = 0;
+    let urlKeys: LoadedKey[] = [];
+    let loadedAtMs = 0;
+    let lastUnknownKidRefreshMs = 0;
+    let refreshing: Promise<void> | null = null;
+
+    const loadFile = (): void => {
+        const stat = fs.statSync(filePath);
+        if (stat.mtimeMs === fileModifiedMs) {
+            return;
+        }
+        fileKeys = parseJwks(fs.readFileSync(filePath, 'utf8'), filePath, logger);
+        fileModifiedMs = stat.mtimeMs;
+        logger(`[connect-ticket-jwks] Loaded ${fileKeys.length} key(s) from ${filePath}.`);
+    };
+
+    const loadUrl = async (): Promise<void> => {
+        const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        urlKeys = parseJwks(await response.text(), url, logger);
+        logger(`[connect-ticket-jwks] Loaded ${urlKeys.length} key(s) from ${url}.`);
+    };
+
+    const refresh = (): Promise<void> => {
+        if (refreshing) {
+            return refreshing;
+        }
+
+        refreshing = (async () => {
+            if (filePath) {
+                try {
+                    loadFile();
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    logger(
+                        `[connect-ticket-jwks] Failed to reload ${filePath}: ${message}. Keeping the last keys.`
+                    );
+                }
+            }
+            if (url) {
+                try {
+                    await loadUrl();
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    logger(
+                        `[connect-ticket-jwks] Failed to fetch ${url}: ${message}. Keeping the last keys.`
+                    );
+                }
+            }
+            loadedAtMs = Date.now();
+        })().finally(() => {
+            refreshing = null;
+        });
+        return refreshing;
+    };
+
+    const findKeys = (kid: string | undefined, alg: AsymmetricJwtAlg): LoadedKey[] =>
+        [...fileKeys, ...urlKeys].filter((key) => keyMatchesAlg(key, alg) && (!kid || key.kid === kid));
+
+    if (filePath) {
+        loadFile();
+        loadedAtMs = Date.now();
+    }
+    if (url) {
+        void refresh();
+    }
+
+    return {
+        async getKeys(kid: string | undefined, alg: AsymmetricJwtAlg): Promise<crypto.KeyObject[]> {
+            const now = Date.now();
+            if (now - loadedAtMs >= cacheMs) {
+                await refresh();
+            } else if (refreshing) {
+                await refreshing;
+            }
+
+            let keys = findKeys(kid, alg);
+            if (keys.length == 0 && kid && now - lastUnknownKidRefreshMs >= UNKNOWN_KID_REFRESH_INTERVAL_MS) {
+                lastUnknownKidRefreshMs = now;
+                await refresh();
+                keys = findKeys(kid, alg);
+            }
+            return keys.map((key) => key.key);
+        },
+        describe(): string {
+            return [filePath, url].filter((source) => source).join(' and ');
+        }
+    };
+}
@@ -18,7 +18,8 @@ export function initInputHandler(options: IProgramOptions, signallingServer: Sig
         c: { desc: 'Print configuration.', func: printConfig },
         i: { desc: 'Print current server info.', func: printServerInfo },
         s: { desc: 'Print list of connected streamers.', func: printStreamerList },
-        p: { desc: 'Print list of connected players.', func: printPlayerList }
+        p: { desc: 'Print list of connected players.', func: printPlayerList },
+        d: { desc: 'Start or stop draining.', func: toggleDrain }
     };
 
     // on any data into stdin
@@ -48,8 +49,10 @@ function printConfig(options: IProgramOptions) {
     process.stdout.write(`${beautify(options)}\n`);
 }
 
-function printServerInfo(_options: IProgramOptions, _signallingServer: SignallingServer) {
-    process.stdout.write(`Info:\n\t<TODO input times/counts/errors etc>\n`);
+function printServerInfo(_options: IProgramOptions, signallingServer: SignallingServer) {
+    const uptimeSeconds = Math.floor((Date.now() - signallingServer.startTime.getTime()) / 1000);
+    const lines = [`uptime: ${uptimeSeconds}s`, ...signallingServer.metrics.describe()];
+    process.stdout.write(`Info:\n${lines.map((line) => `\t${line}\n`).join('')}`);
 }
 
 function printStreamerList(_options: IProgramOptions, signallingServer: SignallingServer) {
@@ -63,3 +66,12 @@ function printPlayerList(_options: IProgramOptions, signallingServer: Signalling
         `Player Ids: ${JSON.stringify(signallingServer.playerRegistry.listPlayers().map((player) => player.playerId))}\n`
     );
 }
+
+function toggleDrain(_options: IProgramOptions, signallingServer: SignallingServer) {
+    if (signallingServer.drain.draining) {
+        signallingServer.drain.stop('stdin');
+    } else {
+        signallingServer.drain.start('Drain requested from the console', 'stdin');
+    }
+    process.stdout.write(`Drain: ${JSON.stringify(signallingServer.drain.describe())}\n`);
+}
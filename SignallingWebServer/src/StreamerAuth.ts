@@ -0,0 +1,269 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import fs from 'fs';
+import https from 'https';
+import type http from 'http';
+import type tls from 'tls';
+import type * as wslib from 'ws';
+import { Logger, SignallingMetrics } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import {
+    ConnectTicketAuthMode,
+    parseNumericDateClaim,
+    timingSafeBufferEqual,
+    verifyHs256Jwt
+} from './ConnectTicketAuth';
+
+// How streamers and SFUs prove who they are.
+// secret: they present a shared secret.
+// ticket: they present an HS256 JWT signed with the shared secret.
+// mtls: they present a client certificate issued by a trusted CA.
+export type StreamerAuthMethod = 'secret' | 'ticket' | 'mtls';
+
+// The kind of connection being authenticated. Tickets must be issued for the same role.
+export type StreamerAuthRole = 'streamer' | 'sfu';
+
+export interface StreamerAuthSettings {
+    mode: ConnectTicketAuthMode;
+    method: StreamerAuthMethod;
+    // The shared secret, or the HMAC key streamer tickets are signed with.
+    secret: string;
+    // The CA client certificates must be issued by. mtls only.
+    tlsCaPath: string;
+    // The certificate and key the streamer and SFU ports serve. mtls only.
+    tlsCertPath: string;
+    tlsKeyPath: string;
+    // Client certificate common names that are accepted. Empty accepts any certificate from the CA.
+    allowedCertNames: string[];
+    clockSkewSeconds: number;
+    metrics?: SignallingMetrics;
+}
+
+/**
+ * Machine readable reasons a streamer or SFU connection is refused. Used to label rejection metrics.
+ */
+export type StreamerAuthRejectionCode =
+    | 'missing'
+    | 'bad_secret'
+    | 'malformed'
+    | 'bad_signature'
+    | 'expired'
+    | 'not_yet_valid'
+    | 'bad_role'
+    | 'no_client_cert'
+    | 'untrusted_cert'
+    | 'bad_cert_name';
+
+type ValidationResult = {
+    isValid: boolean;
+    reason?: string;
+    code?: StreamerAuthRejectionCode;
+};
+
+// streamers that cannot set headers, such as the Unreal plugin, pass the credential as ?st= in their url.
+function parseCredentialFromRequest(req: http.IncomingMessage): string {
+    const header = req.headers.authorization;
+    if (typeof header === 'string') {
+        const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+        if (match) {
+            return match[1].trim();
+        }
+    }
+
+    const parsed = new URL(req.url || '/', 'http://localhost');
+    return parsed.searchParams.get('st')?.trim() || '';
+}
+
+function validateSecret(req: http.IncomingMessage, settings: StreamerAuthSettings): ValidationResult {
+    const credential = parseCredentialFromRequest(req);
+    if (!credential) {
+        return { isValid: false, reason: 'A streamer secret is required.', code: 'missing' };
+    }
+
+    if (!timingSafeBufferEqual(Buffer.from(credential, 'utf8'), Buffer.from(settings.secret, 'utf8'))) {
+        return { isValid: false, reason: 'The streamer secret is invalid.', code: 'bad_secret' };
+    }
+
+    return { isValid: true };
+}
+
+function validateTicket(
+    req: http.IncomingMessage,
+    role: StreamerAuthRole,
+    settings: StreamerAuthSettings
+): ValidationResult {
+    const credential = parseCredentialFromRequest(req);
+    if (!credential) {
+        return { isValid: false, reason: 'A streamer ticket is required.', code: 'missing' };
+    }
+
+    const verified = verifyHs256Jwt(credential, settings.secret);
+    if ('reason' in verified) {
+        return { isValid: false, reason: `Streamer ticket ${verified.reason}`, code: verified.code };
+    }
+
+    const payload = verified.payload;
+    const nowEpoch = Math.floor(Date.now() / 1000);
+    const skew = Math.max(0, settings.clockSkewSeconds);
+    const exp = parseNumericDateClaim(payload.exp);
+    if (exp === null) {
+        return { isValid: false, reason: 'Streamer ticket is missing exp claim.', code: 'malformed' };
+    }
+
+    if (nowEpoch > exp + skew) {
+        return { isValid: false, reason: 'Streamer ticket has expired.', code: 'expired' };
+    }
+
+    const nbf = parseNumericDateClaim(payload.nbf);
+    if (nbf !== null && nowEpoch + skew < nbf) {
+        return { isValid: false, reason: 'Streamer ticket is not active yet.', code: 'not_yet_valid' };
+    }
+
+    if (payload.role !== role) {
+        return {
+            isValid: false,
+            reason: `Streamer ticket was not issued for the ${role} role.`,
+            code: 'bad_role'
+        };
+    }
+
+    return { isValid: true };
+}
+
+function validateClientCertificate(
+    req: http.IncomingMessage,
+    settings: StreamerAuthSettings
+): ValidationResult {
+    const socket = req.socket as tls.TLSSocket;
+    const certificate = typeof socket.getPeerCertificate === 'function' ? socket.getPeerCertificate() : null;
+    if (!certificate || Object.keys(certificate).length == 0) {
+        return { isValid: false, reason: 'A client certificate is required.', code: 'no_client_cert' };
+    }
+
+    if (!socket.authorized) {
+        return {
+            isValid: false,
+            reason: `The client certificate is not trusted: ${String(socket.authorizationError)}.`,
+            code: 'untrusted_cert'
+        };
+    }
+
+    const commonNames = ([] as string[]).concat(certificate.subject?.CN ?? []);
+    if (
+        settings.allowedCertNames.length > 0 &&
+        !commonNames.some((name) => settings.allowedCertNames.includes(name))
+    ) {
+        return {
+            isValid: false,
+            reason: `The client certificate '${commonNames.join(', ')}' is not allowed.`,
+            code: 'bad_cert_name'
+        };
+    }
+
+    return { isValid: true };
+}
+
+function validateSettings(settings: StreamerAuthSettings): void {
+    if (settings.mode === 'off') {
+        return;
+    }
+
+    if (settings.method === 'mtls') {
+        for (const [field, filePath] of [
+            ['streamer_auth_tls_ca', settings.tlsCaPath],
+            ['streamer_auth_tls_cert', settings.tlsCertPath],
+            ['streamer_auth_tls_key', settings.tlsKeyPath]
+        ]) {
+            if (!filePath) {
+                throw new Error(`${field} is required when streamer_auth_method is mtls.`);
+            }
+            if (!fs.existsSync(filePath)) {
+                throw new Error(`${field} "${filePath}" does not exist.`);
+            }
+        }
+        return;
+    }
+
+    if (settings.secret.length < 32) {
+        throw new Error(
+            `streamer_auth_secret must be at least 32 characters when streamer_auth_method is ${settings.method}.`
+        );
+    }
+}
+
+/**
+ * Creates the websocket options that authenticate connections on the streamer or SFU port.
+ * With the mtls method the port is served over TLS and asks for client certificates, so the
+ * returned options carry their own https server, already listening on the port.
+ * @returns The options to merge into the websocket server options, or undefined when the mode is off.
+ */
+export function createStreamerWsOptions(
+    authSettings: StreamerAuthSettings,
+    role: StreamerAuthRole,
+    port: number
+): wslib.ServerOptions | undefined {
+    const settings: StreamerAuthSettings = {
+        ...authSettings,
+        secret: authSettings.secret.trim(),
+        tlsCaPath: authSettings.tlsCaPath.trim(),
+        tlsCertPath: authSettings.tlsCertPath.trim(),
+        tlsKeyPath: authSettings.tlsKeyPath.trim(),
+        clockSkewSeconds: Number.isFinite(authSettings.clockSkewSeconds) ? authSettings.clockSkewSeconds : 5
+    };
+    validateSettings(settings);
+    if (settings.mode === 'off') {
+        Logger.info(`Streamer auth mode is OFF for the ${role} port.`);
+        return undefined;
+    }
+
+    const mode = settings.mode.toUpperCase();
+    Logger.info(`Streamer auth mode is ${mode} for the ${role} port using method '${settings.method}'.`);
+
+    const validate = (req: http.IncomingMessage): ValidationResult => {
+        switch (settings.method) {
+            case 'secret':
+                return validateSecret(req, settings);
+            case 'ticket':
+                return validateTicket(req, role, settings);
+            case 'mtls':
+                return validateClientCertificate(req, settings);
+        }
+    };
+
+    const verifyClient: wslib.VerifyClientCallbackAsync = (info, done) => {
+        const validation = validate(info.req);
+        if (validation.isValid) {
+            done(true);
+            return;
+        }
+
+        const reason = validation.reason || 'Streamer authentication failed.';
+        settings.metrics?.streamerAuthRejections.inc({
+            reason: validation.code || 'malformed',
+            mode: settings.mode,
+            role
+        });
+        if (settings.mode === 'enforce') {
+            Logger.warn(`Refused ${role} connection from ${info.req.socket.remoteAddress}: ${reason}`);
+            done(false, 401, reason);
+            return;
+        }
+
+        Logger.warn(`[soft] ${role} connection from ${info.req.socket.remoteAddress}: ${reason}`);
+        done(true);
+    };
+
+    if (settings.method !== 'mtls') {
+        return { verifyClient };
+    }
+
+    // client certificates are checked in verifyClient rather than by the TLS handshake so that
+    // soft mode can let untrusted streamers through and every rejection is counted.
+    const server = https.createServer({
+        ca: fs.readFileSync(settings.tlsCaPath),
+        cert: fs.readFileSync(settings.tlsCertPath),
+        key: fs.readFileSync(settings.tlsKeyPath),
+        requestCert: true,
+        rejectUnauthorized: false
+    });
+    server.listen(port);
+    return { port: undefined, server, verifyClient };
+}
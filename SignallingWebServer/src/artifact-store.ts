@@ -0,0 +1,405 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { execFile } from 'child_process';
+import { createHash, createHmac } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_S3_REGION = 'us-east-1';
+const PUT_TIMEOUT_MS = 120_000;
+const HEAD_TIMEOUT_MS = 15_000;
+
+/**
+ * The id of the AWS CLI store. Queue records written before stores could be chosen have no
+ * store id and always targeted it.
+ */
+export const AWS_CLI_ARTIFACT_STORE_ID = 'aws-cli';
+
+export interface ArtifactObjectInfo {
+    eTag?: string;
+    objectVersionId?: string;
+    sizeBytes?: number;
+}
+
+/**
+ * Somewhere artifact bundles are uploaded to. Objects are addressed by bucket and key
+ * whatever the backend is.
+ */
+export interface ArtifactStore {
+    // Identifies the backend and where it points, such as 'aws-cli' or 's3-http:http://localhost:9000'.
+    // Recorded on queue records so a backend change can be detected while records are pending.
+    id: string;
+    // Returns where an object lives in a form suitable for log lines.
+    describeLocation: (bucketName: string, objectKey: string) => string;
+    putObject: (
+        localPath: string,
+        bucketName: string,
+        objectKey: string,
+        contentType: string,
+        region?: string
+    ) => Promise<void>;
+    headObject: (bucketName: string, objectKey: string, region?: string) => Promise<ArtifactObjectInfo>;
+}
+
+export interface ArtifactStoreRuntimeOptions {
+    // 'aws-cli' (default), 's3-http' or 'local'.
+    storeType?: string;
+    // The AWS CLI executable used by 'aws-cli'.
+    awsCliPath?: string;
+    // The region passed to the AWS CLI and used to sign 's3-http' requests. Overrides the
+    // region each upload was requested for.
+    awsRegion?: string;
+    // The base URL of the S3-compatible API used by 's3-http', such as http://localhost:9000.
+    storeEndpoint?: string;
+    // Credentials used to sign 's3-http' requests. Requests are sent unsigned without them.
+    storeAccessKeyId?: string;
+    storeSecretAccessKey?: string;
+    // The directory objects are copied into by 'local'. Each bucket is a sub directory.
+    storeLocalPath?: string;
+    // A ready made store. When given the other store options are ignored.
+    store?: ArtifactStore;
+}
+
+export interface ArtifactStoreSettings {
+    // Prefixes of the environment variables read when an option is not given, in order of
+    // preference. For example INSTANCE_AGENT_ARTIFACT reads INSTANCE_AGENT_ARTIFACT_STORE_TYPE.
+    envPrefixes: string[];
+    // The directory a relative storeLocalPath is resolved against.
+    baseDirectory: string;
+    logger: (message: string) => void;
+}
+
+function normalizeOptionalText(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+function truncateText(value: string, maxLength: number): string {
+    return value.length <= maxLength ? value : `${value.slice(0, maxLength)}...`;
+}
+
+function readSetting(optionValue: unknown, envPrefixes: string[], envSuffix: string): string | undefined {
+    const fromOptions = normalizeOptionalText(optionValue);
+    if (fromOptions) {
+        return fromOptions;
+    }
+
+    for (const prefix of envPrefixes) {
+        const fromEnv = normalizeOptionalText(process.env[`${prefix}_${envSuffix}`]);
+        if (fromEnv) {
+            return fromEnv;
+        }
+    }
+    return undefined;
+}
+
+function appendRegion(args: string[], region: string | undefined): string[] {
+    const normalizedRegion = normalizeOptionalText(region);
+    return normalizedRegion ? [...args, '--region', normalizedRegion] : args;
+}
+
+function stripQuotes(value: string | undefined): string | undefined {
+    return value?.replace(/^"|"$/g, '');
+}
+
+/**
+ * Uploads with `aws s3 cp` and reads object details with `aws s3api head-object`.
+ * @param awsCliPath - The AWS CLI executable.
+ * @param defaultRegion - The region used for every call. Each call's own region is only used
+ * when this is not given.
+ */
+export function createAwsCliArtifactStore(
+    awsCliPath: string,
+    defaultRegion: string | undefined,
+    logger: (message: string) => void
+): ArtifactStore {
+    return {
+        id: AWS_CLI_ARTIFACT_STORE_ID,
+        describeLocation: (bucketName, objectKey) => `s3://${bucketName}/${objectKey}`,
+        async putObject(localPath, bucketName, objectKey, contentType, region) {
+            const args = appendRegion(
+                [
+                    's3',
+                    'cp',
+                    localPath,
+                    `s3://${bucketName}/${objectKey}`,
+                    '--only-show-errors',
+                    '--content-type',
+                    contentType
+                ],
+                defaultRegion ?? region
+            );
+            const { stderr } = await execFileAsync(awsCliPath, args, { windowsHide: true });
+            if (stderr && stderr.trim().length > 0) {
+                logger(`[artifact-store] AWS CLI upload stderr: ${truncateText(stderr.trim(), 500)}`);
+            }
+        },
+        async headObject(bucketName, objectKey, region) {
+            const args = appendRegion(
+                ['s3api', 'head-object', '--bucket', bucketName, '--key', objectKey, '--output', 'json'],
+                defaultRegion ?? region
+            );
+            const { stdout } = await execFileAsync(awsCliPath, args, { windowsHide: true });
+            const parsed = JSON.parse(stdout || '{}') as {
+                ETag?: unknown;
+                VersionId?: unknown;
+                ContentLength?: unknown;
+            };
+            return {
+                eTag: stripQuotes(normalizeOptionalText(parsed.ETag)),
+                objectVersionId: normalizeOptionalText(parsed.VersionId),
+                sizeBytes: typeof parsed.ContentLength === 'number' ? parsed.ContentLength : undefined
+            };
+        }
+    };
+}
+
+// encodes a path segment the way AWS signature version 4 expects.
+function encodeS3PathSegment(segment: string): string {
+    return encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+}
+
+function sha256Hex(value: Buffer | string): string {
+    return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+    return createHmac('sha256', key).update(value, 'utf8').digest();
+}
+
+/**
+ * Adds AWS signature version 4 headers for an S3 request with no query string.
+ */
+function signS3Request(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    region: string,
+    accessKeyId: string,
+    secretAccessKey: string
+): void {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    headers['host'] = url.host;
+    headers['x-amz-content-sha256'] = payloadHash;
+    headers['x-amz-date'] = amzDate;
+
+    const headerNames = Object.keys(headers)
+        .map((name) => name.toLowerCase())
+        .sort();
+    const lowerCaseHeaders: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => (lowerCaseHeaders[name.toLowerCase()] = value));
+    const canonicalHeaders = headerNames.map((name) => `${name}:${lowerCaseHeaders[name].trim()}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join(
+        '\n'
+    );
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(
+        hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'),
+        'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+    headers['authorization'] = [
+        `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}`,
+        `SignedHeaders=${signedHeaders}`,
+        `Signature=${signature}`
+    ].join(', ');
+}
+
+/**
+ * Talks to an S3-compatible HTTP API such as MinIO using path style addressing,
+ * <endpoint>/<bucket>/<key>. Requests are signed with AWS signature version 4 when
+ * credentials are given.
+ * @param endpoint - The base URL of the API.
+ * @param defaultRegion - The region used to sign every request. Each call's own region is only
+ * used when this is not given.
+ */
+export function createS3HttpArtifactStore(
+    endpoint: string,
+    defaultRegion: string | undefined,
+    credentials?: { accessKeyId: string; secretAccessKey: string }
+): ArtifactStore {
+    const baseUrl = new URL(endpoint);
+    const basePath = baseUrl.pathname.replace(/\/+$/, '');
+
+    const objectUrl = (bucketName: string, objectKey: string): URL => {
+        const url = new URL(baseUrl.toString());
+        url.pathname = [
+            basePath,
+            encodeS3PathSegment(bucketName),
+            ...objectKey.split('/').map(encodeS3PathSegment)
+        ].join('/');
+        url.search = '';
+        return url;
+    };
+
+    const send = async (
+        method: string,
+        url: URL,
+        headers: Record<string, string>,
+        body: Buffer | undefined,
+        region: string | undefined,
+        timeoutMs: number
+    ): Promise<Response> => {
+        if (credentials) {
+            signS3Request(
+                method,
+                url,
+                headers,
+                sha256Hex(body ?? ''),
+                defaultRegion ?? normalizeOptionalText(region) ?? DEFAULT_S3_REGION,
+                credentials.accessKeyId,
+                credentials.secretAccessKey
+            );
+            // fetch sets the host header itself.
+            delete headers['host'];
+        }
+
+        const response = await fetch(url.toString(), {
+            method,
+            headers,
+            // copied into a plain Uint8Array, which fetch accepts as a body.
+            body: body ? new Uint8Array(body) : undefined,
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+        if (!response.ok) {
+            const detail = method === 'HEAD' ? '' : truncateText((await response.text()).trim(), 500);
+            const suffix = detail ? `: ${detail}` : '';
+            throw new Error(
+                `${method} ${url.toString()} failed with ${response.status} ${response.statusText}${suffix}`
+            );
+        }
+        return response;
+    };
+
+    return {
+        id: `s3-http:${baseUrl.origin}${basePath}`,
+        describeLocation: (bucketName, objectKey) => objectUrl(bucketName, objectKey).toString(),
+        async putObject(localPath, bucketName, objectKey, contentType, region) {
+            const body = await fs.promises.readFile(localPath);
+            await send(
+                'PUT',
+                objectUrl(bucketName, objectKey),
+                { 'content-type': contentType },
+                body,
+                region,
+                PUT_TIMEOUT_MS
+            );
+        },
+        async headObject(bucketName, objectKey, region) {
+            const response = await send(
+                'HEAD',
+                objectUrl(bucketName, objectKey),
+                {},
+                undefined,
+                region,
+                HEAD_TIMEOUT_MS
+            );
+            const contentLength = Number.parseInt(response.headers.get('content-length') ?? '', 10);
+            return {
+                eTag: stripQuotes(normalizeOptionalText(response.headers.get('etag'))),
+                objectVersionId: normalizeOptionalText(response.headers.get('x-amz-version-id')),
+                sizeBytes: Number.isFinite(contentLength) ? contentLength : undefined
+            };
+        }
+    };
+}
+
+/**
+ * Copies objects into a local directory, one sub directory per bucket. Useful for
+ * hosts without object storage and for testing offline.
+ * @param rootPath - The directory objects are copied into.
+ */
+export function createLocalArtifactStore(rootPath: string): ArtifactStore {
+    const root = path.resolve(rootPath);
+
+    const objectPath = (bucketName: string, objectKey: string): string => {
+        const resolved = path.resolve(root, bucketName, ...objectKey.split('/'));
+        if (!resolved.startsWith(root + path.sep)) {
+            throw new Error(`Object ${bucketName}/${objectKey} resolves outside ${root}.`);
+        }
+        return resolved;
+    };
+
+    return {
+        id: `local:${root}`,
+        describeLocation: (bucketName, objectKey) => objectPath(bucketName, objectKey),
+        async putObject(localPath, bucketName, objectKey) {
+            const destination = objectPath(bucketName, objectKey);
+            await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+            const tempPath = `${destination}.${process.pid}.${Date.now()}.tmp`;
+            await fs.promises.copyFile(localPath, tempPath);
+            await fs.promises.rename(tempPath, destination);
+        },
+        async headObject(bucketName, objectKey) {
+            const destination = objectPath(bucketName, objectKey);
+            const content = await fs.promises.readFile(destination);
+            return {
+                // the same as an S3 ETag for an object uploaded in one part.
+                eTag: createHash('md5').update(content).digest('hex'),
+                sizeBytes: content.length
+            };
+        }
+    };
+}
+
+/**
+ * Creates the store described by the options, falling back to environment variables for
+ * options that are not given.
+ * @returns The store. Throws if the options do not describe a usable store.
+ */
+export function createArtifactStore(
+    options: ArtifactStoreRuntimeOptions,
+    settings: ArtifactStoreSettings
+): ArtifactStore {
+    if (options.store) {
+        return options.store;
+    }
+
+    const { envPrefixes } = settings;
+    const storeType = (readSetting(options.storeType, envPrefixes, 'STORE_TYPE') ?? 'aws-cli').toLowerCase();
+    const awsRegion = readSetting(options.awsRegion, envPrefixes, 'AWS_REGION');
+    switch (storeType) {
+        case 'aws-cli':
+            return createAwsCliArtifactStore(
+                readSetting(options.awsCliPath, envPrefixes, 'AWS_CLI_PATH') ?? 'aws',
+                awsRegion,
+                settings.logger
+            );
+        case 's3-http': {
+            const endpoint = readSetting(options.storeEndpoint, envPrefixes, 'STORE_ENDPOINT');
+            if (!endpoint) {
+                throw new Error("store type 's3-http' needs a store endpoint");
+            }
+            const accessKeyId =
+                readSetting(options.storeAccessKeyId, envPrefixes, 'STORE_ACCESS_KEY_ID') ??
+                normalizeOptionalText(process.env.AWS_ACCESS_KEY_ID);
+            const secretAccessKey =
+                readSetting(options.storeSecretAccessKey, envPrefixes, 'STORE_SECRET_ACCESS_KEY') ??
+                normalizeOptionalText(process.env.AWS_SECRET_ACCESS_KEY);
+            return createS3HttpArtifactStore(
+                endpoint,
+                awsRegion ?? normalizeOptionalText(process.env.AWS_REGION),
+                accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined
+            );
+        }
+        case 'local': {
+            const localPath = readSetting(options.storeLocalPath, envPrefixes, 'STORE_LOCAL_PATH');
+            if (!localPath) {
+                throw new Error("store type 'local' needs a store local path");
+            }
+            return createLocalArtifactStore(path.resolve(settings.baseDirectory, localPath));
+        }
+        default:
+            throw new Error(`unknown store type '${storeType}'`);
+    }
+}
@@ -0,0 +1,177 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import fs from 'fs';
+
+const DEFAULT_WATCH_INTERVAL_MS = 2_000;
+
+export type ConfigValues = Record<string, unknown>;
+
+export interface ConfigReloadHandler {
+    // The config keys this handler can apply while the server is running.
+    keys: string[];
+    // Checks the new values and returns a function that applies them. Throws if they are
+    // invalid. Nothing is applied unless every handler accepts its values.
+    prepare: (config: ConfigValues, changedKeys: string[]) => () => void;
+}
+
+export interface ConfigReloadOptions {
+    enabled?: boolean | string;
+    configFilePath: string;
+    // The config file as it was read at startup.
+    initialConfig: ConfigValues;
+    // Values given on the command line. They win over the config file so changes to these
+    // keys in the file are ignored.
+    commandLineValues?: ConfigValues;
+    handlers: ConfigReloadHandler[];
+    watchIntervalMs?: number;
+    logger?: (message: string) => void;
+}
+
+export interface ConfigReloadResult {
+    // Keys that changed and were applied.
+    applied: string[];
+    // Keys that differ from the config the server started with and only take effect after
+    // a restart.
+    restartRequired: string[];
+    // Keys that changed in the file but are set on the command line.
+    overridden: string[];
+    // Why the config was rejected. Nothing was applied when this is set.
+    error?: string;
+}
+
+export interface ConfigReloadController {
+    reload(trigger: string): ConfigReloadResult;
+    stop(): void;
+}
+
+function parseBoolean(rawValue: unknown, fallback: boolean): boolean {
+    if (typeof rawValue === 'boolean') return rawValue;
+    if (typeof rawValue !== 'string') return fallback;
+    switch (rawValue.trim().toLowerCase()) {
+        case '1':
+        case 'true':
+        case 'yes':
+        case 'on':
+            return true;
+        case '0':
+        case 'false':
+        case 'no':
+        case 'off':
+            return false;
+        default:
+            return fallback;
+    }
+}
+
+function readConfigFile(configFilePath: string): ConfigValues {
+    const parsed: unknown = JSON.parse(fs.readFileSync(configFilePath, { encoding: 'utf8' }));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('The config file must hold a JSON object.');
+    }
+    return parsed as ConfigValues;
+}
+
+function changedKeys(previous: ConfigValues, next: ConfigValues): string[] {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    return Array.from(keys)
+        .filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+        .sort();
+}
+
+function formatKeys(keys: string[]): string {
+    return keys.length > 0 ? keys.join(', ') : 'none';
+}
+
+/**
+ * Reloads the config file on SIGHUP and whenever the file changes. Changes to keys that a
+ * handler can apply are checked and applied while the server keeps running. Changes to any
+ * other key are reported as needing a restart.
+ */
+export function wireConfigReload(options: ConfigReloadOptions): ConfigReloadController | null {
+    const log = options.logger ?? (() => {});
+    if (!parseBoolean(options.enabled, false)) {
+        return null;
+    }
+
+    const commandLineValues = options.commandLineValues ?? {};
+    const liveKeys = new Set(options.handlers.flatMap((handler) => handler.keys));
+    let appliedConfig: ConfigValues = { ...options.initialConfig };
+
+    const reload = (trigger: string): ConfigReloadResult => {
+        let fileConfig: ConfigValues;
+        try {
+            fileConfig = readConfigFile(options.configFilePath);
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            log(
+                `[config-reload] Rejected ${options.configFilePath} (${trigger}): ${message} Keeping the current configuration.`
+            );
+            return { applied: [], restartRequired: [], overridden: [], error: message };
+        }
+
+        const overridden = changedKeys(appliedConfig, fileConfig).filter((key) =>
+            Object.prototype.hasOwnProperty.call(commandLineValues, key)
+        );
+        const nextConfig: ConfigValues = { ...fileConfig, ...commandLineValues };
+        const previousConfig: ConfigValues = { ...appliedConfig, ...commandLineValues };
+        const changed = changedKeys(previousConfig, nextConfig).filter((key) => liveKeys.has(key));
+        const restartRequired = changedKeys(
+            { ...options.initialConfig, ...commandLineValues },
+            nextConfig
+        ).filter((key) => !liveKeys.has(key));
+
+        const commits: (() => void)[] = [];
+        try {
+            for (const handler of options.handlers) {
+                const handlerKeys = changed.filter((key) => handler.keys.includes(key));
+                if (handlerKeys.length > 0) {
+                    commits.push(handler.prepare(nextConfig, handlerKeys));
+                }
+            }
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            log(
+                `[config-reload] Rejected ${options.configFilePath} (${trigger}): ${message} Keeping the current configuration.`
+            );
+            return { applied: [], restartRequired, overridden, error: message };
+        }
+
+        for (const commit of commits) {
+            commit();
+        }
+        appliedConfig = fileConfig;
+
+        log(
+            `[config-reload] Reloaded ${options.configFilePath} (${trigger}). ` +
+                `Applied: ${formatKeys(changed)}. ` +
+                `Needs restart: ${formatKeys(restartRequired)}. ` +
+                `Overridden on the command line: ${formatKeys(overridden)}.`
+        );
+        return { applied: changed, restartRequired, overridden };
+    };
+
+    const onSignal = () => {
+        reload('SIGHUP');
+    };
+    process.on('SIGHUP', onSignal);
+
+    fs.watchFile(
+        options.configFilePath,
+        { persistent: false, interval: options.watchIntervalMs ?? DEFAULT_WATCH_INTERVAL_MS },
+        (current: fs.Stats, previous: fs.Stats) => {
+            if (current.mtimeMs !== previous.mtimeMs) {
+                reload('file change');
+            }
+        }
+    );
+
+    const liveKeyList = Array.from(liveKeys).sort().join(', ');
+    log(`[config-reload] Enabled for ${options.configFilePath}. Live keys: ${liveKeyList}.`);
+
+    return {
+        reload,
+        stop: () => {
+            process.off('SIGHUP', onSignal);
+            fs.unwatchFile(options.configFilePath);
+        }
+    };
+}
@@ -0,0 +1,205 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+const DEFAULT_WRITE_DELAY_MS = 1000;
+
+export interface ConnectTicketReplayStore {
+    // Records one use of a ticket and returns how many times it has been used, this use
+    // included. The ticket is forgotten after forgetAtEpochSeconds. Returns null without
+    // recording anything when the ticket is new and the store is full.
+    recordUse(tokenId: string, forgetAtEpochSeconds: number): number | null;
+    // Gives back one recorded use of a ticket. Does nothing if the ticket has no uses.
+    releaseUse(tokenId: string): void;
+    // Writes pending changes to the state file now rather than after the write delay.
+    flush(): void;
+}
+
+export interface ConnectTicketReplayStoreOptions {
+    statePath?: string;
+    desiredStatePath?: string;
+    // The most tickets remembered at once. When full, new tickets are refused until the
+    // remembered ones expire.
+    maxEntries?: number;
+    // How long changes are collected before the state file is rewritten.
+    writeDelayMs?: number;
+    logger?: (message: string) => void;
+}
+
+interface ConnectTicketReplayEntry {
+    uses: number;
+    forgetAtEpochSeconds: number;
+}
+
+interface ConnectTicketReplayStateSnapshot {
+    tickets?: Record<string, ConnectTicketReplayEntry>;
+    updatedAtUtc?: string;
+}
+
+function normalizeOptionalText(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+export function resolveConnectTicketReplayStatePath(desiredStatePath?: string | null): string {
+    const normalizedDesiredStatePath = typeof desiredStatePath === 'string' ? desiredStatePath.trim() : '';
+    if (normalizedDesiredStatePath.length > 0) {
+        return path.resolve(
+            path.dirname(path.resolve(normalizedDesiredStatePath)),
+            'connect-ticket-replay-state.json'
+        );
+    }
+
+    return path.resolve(__dirname, '..', 'state', 'connect-ticket-replay-state.json');
+}
+
+function readReplayStateSnapshot(
+    filePath: string,
+    logger: (message: string) => void
+): Map<string, ConnectTicketReplayEntry> {
+    const entries = new Map<string, ConnectTicketReplayEntry>();
+    const normalizedPath = path.resolve(filePath);
+    if (!fs.existsSync(normalizedPath)) {
+        return entries;
+    }
+
+    try {
+        const raw = fs.readFileSync(normalizedPath, 'utf8');
+        const snapshot = JSON.parse(raw) as ConnectTicketReplayStateSnapshot;
+        for (const [tokenId, entry] of Object.entries(snapshot.tickets ?? {})) {
+            if (
+                Number.isInteger(entry?.uses) &&
+                entry.uses > 0 &&
+                Number.isFinite(entry.forgetAtEpochSeconds)
+            ) {
+                entries.set(tokenId, { uses: entry.uses, forgetAtEpochSeconds: entry.forgetAtEpochSeconds });
+            }
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger(`[connect-ticket-replay] Failed to read seen ticket state '${normalizedPath}': ${message}`);
+    }
+    return entries;
+}
+
+function writeReplayStateSnapshot(
+    filePath: string,
+    entries: Map<string, ConnectTicketReplayEntry>,
+    logger: (message: string) => void
+): void {
+    const normalizedPath = path.resolve(filePath);
+    const snapshot: ConnectTicketReplayStateSnapshot = {
+        tickets: Object.fromEntries(entries),
+        updatedAtUtc: new Date().toISOString()
+    };
+    try {
+        fs.mkdirSync(path.dirname(normalizedPath), { recursive: true });
+        const tempPath = `${normalizedPath}.${process.pid}.${Date.now()}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(snapshot), 'utf8');
+        fs.renameSync(tempPath, normalizedPath);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger(`[connect-ticket-replay] Failed to write seen ticket state '${normalizedPath}': ${message}`);
+    }
+}
+
+/**
+ * Remembers which connect tickets were used and how often, so tickets can be limited to a
+ * number of uses. The state is written to the state directory so it survives restarts.
+ * Changes are written together once the write delay has passed, and when the process exits.
+ */
+export function createConnectTicketReplayStore(
+    options: ConnectTicketReplayStoreOptions = {}
+): ConnectTicketReplayStore {
+    const logger = options.logger ?? ((message: string) => Logger.info(message));
+    const statePath =
+        normalizeOptionalText(options.statePath) ??
+        resolveConnectTicketReplayStatePath(options.desiredStatePath);
+    const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    const writeDelayMs = Math.max(0, options.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS);
+    const entries = readReplayStateSnapshot(statePath, logger);
+    let writeTimer: NodeJS.Timeout | null = null;
+    let full = false;
+
+    const flush = (): void => {
+        if (!writeTimer) {
+            return;
+        }
+        clearTimeout(writeTimer);
+        writeTimer = null;
+        writeReplayStateSnapshot(statePath, entries, logger);
+    };
+
+    const scheduleWrite = (): void => {
+        if (writeTimer) {
+            return;
+        }
+        writeTimer = setTimeout(flush, writeDelayMs);
+        writeTimer.unref();
+    };
+
+    process.once('exit', flush);
+
+    const forgetExpired = (nowEpochSeconds: number): void => {
+        for (const [tokenId, entry] of entries) {
+            if (entry.forgetAtEpochSeconds < nowEpochSeconds) {
+                entries.delete(tokenId);
+            }
+        }
+    };
+
+    // Forgetting unexpired tickets would let them be replayed, so new tickets are refused
+    // instead. Only the first refusal while full is logged.
+    const refuseWhileFull = (): null => {
+        if (!full) {
+            full = true;
+            logger(
+                `[connect-ticket-replay] Seen ticket store is full (${maxEntries}). Refusing new tickets until remembered ones expire.`
+            );
+        }
+        return null;
+    };
+
+    forgetExpired(Math.floor(Date.now() / 1000));
+
+    return {
+        recordUse(tokenId: string, forgetAtEpochSeconds: number): number | null {
+            const nowEpochSeconds = Math.floor(Date.now() / 1000);
+            forgetExpired(nowEpochSeconds);
+
+            const entry = entries.get(tokenId);
+            if (entry) {
+                entry.uses++;
+                entry.forgetAtEpochSeconds = Math.max(entry.forgetAtEpochSeconds, forgetAtEpochSeconds);
+            } else {
+                if (entries.size >= maxEntries) {
+                    return refuseWhileFull();
+                }
+                full = false;
+                entries.set(tokenId, { uses: 1, forgetAtEpochSeconds });
+            }
+
+            scheduleWrite();
+            return entries.get(tokenId)?.uses ?? 1;
+        },
+        releaseUse(tokenId: string): void {
+            const entry = entries.get(tokenId);
+            if (!entry) {
+                return;
+            }
+
+            entry.uses--;
+            if (entry.uses <= 0) {
+                entries.delete(tokenId);
+            }
+            scheduleWrite();
+        },
+        flush
+    };
+}
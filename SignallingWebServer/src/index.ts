@@ -8,16 +8,53 @@ import {
     WebServer,
     InitLogging,
     Logger,
-    IWebServerConfig
+    IWebServerConfig,
+    IRegistryBackend,
+    IStreamerPolicies,
+    PlayerConnectionLimitAction,
+    StreamerRoutingPolicy,
+    RegistryHub,
+    SetLogLevels,
+    SignallingMetrics,
+    WebSocketRegistryBackend
 } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
 import { beautify, IProgramOptions } from './Utils';
 import { initInputHandler } from './InputHandler';
 import { Command, Option } from 'commander';
 import { initialize } from 'express-openapi';
-import { ConnectTicketAuthMode, createPlayerVerifyClient } from './ConnectTicketAuth';
+import {
+    ConnectTicketAuthMode,
+    ConnectTicketAuthSettings,
+    createReloadablePlayerVerifyClient,
+    normalizeAuthSettings,
+    resolvePlayerAccessFromTicket,
+    resolvePlayerIdentityFromTicket
+} from './ConnectTicketAuth';
+import {
+    AdminAuthSettings,
+    createReloadableAdminSecurityHandler,
+    normalizeAdminAuthSettings
+} from './AdminAuth';
+import { StreamerAuthMethod, StreamerAuthSettings, createStreamerWsOptions } from './StreamerAuth';
 import { createConnectTicketRuntimeGate } from './connect-ticket-runtime-state';
+import { createConnectTicketReplayStore } from './connect-ticket-replay-state';
+import { createConnectTicketKeySet } from './ConnectTicketJwks';
 import { wireViewerIdleStop } from './viewer-idle-stop';
 import { wireInstanceAgent } from './instance-agent';
+import { createInstanceAgentCommandRegistry } from './instance-agent-commands';
+import {
+    createFakeInstanceIdentityServer,
+    createInstanceIdentityProvider,
+    InstanceIdentityProvider
+} from './instance-identity';
+import {
+    createRuntimeStatusEventStream,
+    createRuntimeStatusHistorySink,
+    createRuntimeStatusWebhookSink,
+    RuntimeStatusSink
+} from './runtime-status-sinks';
+import { createRuntimeHealthProbe } from './runtime-health';
+import { ConfigReloadHandler, wireConfigReload } from './config-reload';
 import {
     createRuntimeStatusPublisher,
     createSessionNetworkPathReporter,
@@ -29,12 +66,18 @@ const pjson = require('../package.json') as PackageJsonMetadata;
 
 const ENV_PLACEHOLDER_REGEX = /\$\{ENV:([A-Z0-9_]+)\}/g;
 
+const LOG_LEVELS = ['debug', 'info', 'warning', 'error'];
+
 const REDACTED_LOG_FIELDS = new Set([
+    'admin_token',
     'auth_signing_key',
     'instance_agent_bootstrap_shared_secret',
     'peer_options',
     'peer_options_player',
-    'peer_options_streamer'
+    'peer_options_streamer',
+    'registry_hub_secret',
+    'runtime_status_webhook_secret',
+    'streamer_auth_secret'
 ]);
 
 function resolveEnvPlaceholders(value: unknown, missing: Set<string>): unknown {
@@ -73,6 +116,25 @@ function normalizeAuthMode(value: string): ConnectTicketAuthMode {
     throw new Error(`Invalid auth_mode '${value}'. Expected one of: off, soft, enforce.`);
 }
 
+function readConnectionLimitAction(values: IProgramOptions): PlayerConnectionLimitAction {
+    const action = String(values.player_connection_limit_action || 'reject-newest');
+    if (action !== 'reject-newest' && action !== 'evict-oldest') {
+        throw Error(
+            `Invalid player_connection_limit_action '${action}'. Expected one of: reject-newest, evict-oldest.`
+        );
+    }
+    return action;
+}
+
+function readStreamerRoutingPolicy(values: IProgramOptions): StreamerRoutingPolicy {
+    const policy = String(values.streamer_routing_policy || 'first');
+    const policies = ['first', 'least-loaded', 'healthiest', 'sticky-by-subject'];
+    if (!policies.includes(policy)) {
+        throw Error(`Invalid streamer_routing_policy '${policy}'. Expected one of: ${policies.join(', ')}.`);
+    }
+    return policy as StreamerRoutingPolicy;
+}
+
 function resolveAuthOption(currentValue: unknown, envVarName: string): string {
     const normalizedCurrent = typeof currentValue === 'string' ? currentValue.trim() : '';
     if (normalizedCurrent) {
@@ -82,6 +144,102 @@ function resolveAuthOption(currentValue: unknown, envVarName: string): string {
     return (process.env[envVarName] || '').trim();
 }
 
+function readClockSkewSeconds(values: IProgramOptions): number {
+    const clockSkewSeconds = Number.parseInt(String(values.auth_clock_skew_seconds || '5'), 10);
+    if (Number.isNaN(clockSkewSeconds)) {
+        throw Error(
+            `Invalid auth_clock_skew_seconds value '${values.auth_clock_skew_seconds}'. Expected an integer.`
+        );
+    }
+    return clockSkewSeconds;
+}
+
+function readAuthSettings(values: IProgramOptions): ConnectTicketAuthSettings {
+    const clockSkewSeconds = readClockSkewSeconds(values);
+    return {
+        mode: normalizeAuthMode(String(values.auth_mode || 'off')),
+        issuer: resolveAuthOption(values.auth_issuer, 'CONNECT_TICKET_ISSUER'),
+        audience: resolveAuthOption(values.auth_audience, 'CONNECT_TICKET_AUDIENCE'),
+        signingKey: resolveAuthOption(values.auth_signing_key, 'CONNECT_TICKET_SIGNING_KEY'),
+        instanceId: resolveAuthOption(values.auth_instance_id, 'INSTANCE_ID'),
+        routeHostSuffix: resolveAuthOption(values.auth_route_host_suffix, 'CONNECT_TICKET_ROUTE_HOST_SUFFIX'),
+        clockSkewSeconds,
+        keySet:
+            values.auth_jwks_file || values.auth_jwks_url
+                ? createConnectTicketKeySet({
+                      filePath: String(values.auth_jwks_file || ''),
+                      url: String(values.auth_jwks_url || ''),
+                      cacheSeconds: readIntegerValue(values, 'auth_jwks_cache_seconds', 300, 0),
+                      logger: (message: string) => Logger.info(message)
+                  })
+                : undefined,
+        ticketMaxUses: readIntegerValue(values, 'auth_ticket_max_uses', 0, 0)
+    };
+}
+
+function readAdminAuthSettings(values: IProgramOptions): AdminAuthSettings {
+    return {
+        token: resolveAuthOption(values.admin_token, 'SIGNALLING_ADMIN_TOKEN'),
+        jwtScope: String(values.admin_jwt_scope || ''),
+        jwtAudience: String(values.admin_jwt_audience || ''),
+        ticketAudience: resolveAuthOption(values.auth_audience, 'CONNECT_TICKET_AUDIENCE'),
+        signingKey: resolveAuthOption(values.auth_signing_key, 'CONNECT_TICKET_SIGNING_KEY'),
+        issuer: resolveAuthOption(values.auth_issuer, 'CONNECT_TICKET_ISSUER'),
+        clockSkewSeconds: readClockSkewSeconds(values)
+    };
+}
+
+function readIntegerValue(
+    values: IProgramOptions,
+    field: string,
+    fallback: number,
+    minValue: number
+): number {
+    const rawValue: unknown = values[field];
+    if (rawValue === undefined || rawValue === null || rawValue === '') {
+        return fallback;
+    }
+
+    const parsed =
+        typeof rawValue === 'number' ? rawValue : typeof rawValue === 'string' ? Number(rawValue) : NaN;
+    if (!Number.isInteger(parsed) || parsed < minValue) {
+        throw Error(
+            `Invalid ${field} value ${JSON.stringify(rawValue)}. Expected an integer of at least ${minValue}.`
+        );
+    }
+    return parsed;
+}
+
+// reads a list given either as an array or as a comma separated string.
+function readListValue(values: IProgramOptions, field: string): string[] {
+    const rawValue: unknown = values[field];
+    const entries = Array.isArray(rawValue)
+        ? rawValue
+        : typeof rawValue === 'string'
+        ? rawValue.split(',')
+        : [];
+    return entries
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+}
+
+// reads peer options from a config the same way they are read at startup. the file wins.
+function readPeerOptionsValue(values: IProgramOptions, field: string, missing: Set<string>): unknown {
+    const file: unknown = values[`${field}_file`];
+    let value: unknown = values[field];
+    if (typeof file === 'string' && file) {
+        if (!fs.existsSync(file)) {
+            throw Error(`${field}_file "${file}" does not exist.`);
+        }
+        value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } else if (typeof value === 'string' && value.trim()) {
+        value = JSON.parse(value);
+    }
+
+    return value ? resolveEnvPlaceholders(value, missing) : value;
+}
+
 function sanitizeOptionsForLogging(input: IProgramOptions): IProgramOptions {
     const sanitized: IProgramOptions = { ...input };
     for (const field of REDACTED_LOG_FIELDS) {
@@ -153,6 +311,14 @@ program
             .choices(['debug', 'info', 'warning', 'error'])
             .default(config_file.log_level_file || 'info')
     )
+    .addOption(
+        new Option(
+            '--log_format <format>',
+            'Sets the format of console messages. json writes the same structured lines as the log files, with player, streamer, session request, command and ticket ids.'
+        )
+            .choices(['text', 'json'])
+            .default(config_file.log_format || 'text')
+    )
     .addOption(
         new Option(
             '--console_messages [detail]',
@@ -181,6 +347,39 @@ program
         'Sets the maximum number of subscribers per streamer. 0 = unlimited',
         config_file.max_players || '0'
     )
+    .addOption(
+        new Option(
+            '--registry_backend <backend>',
+            'Sets where streamer/player registry state is kept. "hub" shares it with other signalling processes through a registry hub.'
+        )
+            .choices(['memory', 'hub'])
+            .default(config_file.registry_backend || 'memory')
+    )
+    .option(
+        '--registry_hub_url <url>',
+        'Websocket url of the registry hub when registry_backend is hub.',
+        config_file.registry_hub_url || ''
+    )
+    .option(
+        '--registry_hub_port <port>',
+        'When set this process also hosts the registry hub on the given port.',
+        config_file.registry_hub_port || ''
+    )
+    .option(
+        '--registry_hub_host <address>',
+        'The address the registry hub hosted by this process listens on.',
+        config_file.registry_hub_host || '127.0.0.1'
+    )
+    .option(
+        '--registry_hub_secret <value>',
+        'Shared secret every process sharing the registry hub must present. Required when registry_backend is hub. Falls back to REGISTRY_HUB_SECRET.',
+        config_file.registry_hub_secret || ''
+    )
+    .option(
+        '--registry_node_id <value>',
+        'Unique id of this signalling process amongst those sharing the registry hub.',
+        config_file.registry_node_id || ''
+    )
     .option('--serve', 'Enables the webserver on player_port.', config_file.serve || false)
     .option(
         '--http_root <path>',
@@ -218,6 +417,26 @@ program
         'Enables the rest API interface that can be accessed at <server_url>/api/api-definition',
         config_file.rest_api || false
     )
+    .option(
+        '--metrics',
+        'Exposes counters and gauges in the Prometheus text format at <server_url>/metrics',
+        config_file.metrics || false
+    )
+    .option(
+        '--admin_token <value>',
+        'Bearer token that authorizes the admin REST operations (kick, unsubscribe, rename, notice). At least 32 characters.',
+        config_file.admin_token || ''
+    )
+    .option(
+        '--admin_jwt_scope <value>',
+        'When set, HS256 JWTs signed with auth_signing_key by auth_issuer that carry this scope also authorize the admin REST operations.',
+        config_file.admin_jwt_scope || ''
+    )
+    .option(
+        '--admin_jwt_audience <value>',
+        'The aud claim admin JWTs must carry. Required with admin_jwt_scope and must differ from auth_audience.',
+        config_file.admin_jwt_audience || ''
+    )
     .addOption(
         new Option(
             '--peer_options <json-string>',
@@ -260,6 +479,11 @@ program
             'Additional JSON data to send in peerConnectionOptions of the config message for streamer peers only. This allows you to provide JSON data without having to deal with it on the command line.'
         ).default(config_file.peer_options_streamer_file || '')
     )
+    .option(
+        '--streamer_policies_file <filename>',
+        'JSON file of per streamer subscribe policies (allowed groups, max subscribers, subscriber mode).',
+        config_file.streamer_policies_file || ''
+    )
     .option(
         '--reverse-proxy',
         'Enables reverse proxy mode. This will trust the X-Forwarded-For header.',
@@ -293,6 +517,21 @@ program
         'HMAC signing key used to validate connect tickets (HS256).',
         config_file.auth_signing_key || ''
     )
+    .option(
+        '--auth_jwks_file <path>',
+        'JWKS file with the public keys of RS256 and ES256 connect tickets. Re-read when it changes.',
+        config_file.auth_jwks_file || ''
+    )
+    .option(
+        '--auth_jwks_url <url>',
+        'URL of a JWKS with the public keys of RS256 and ES256 connect tickets.',
+        config_file.auth_jwks_url || ''
+    )
+    .option(
+        '--auth_jwks_cache_seconds <number>',
+        'How long JWKS keys are cached before they are refreshed. Unknown key ids also trigger a refresh.',
+        config_file.auth_jwks_cache_seconds || '300'
+    )
     .option(
         '--auth_instance_id <value>',
         'Expected instanceId claim for this signalling server instance.',
@@ -308,6 +547,62 @@ program
         'Allowed JWT clock skew in seconds.',
         config_file.auth_clock_skew_seconds || '5'
     )
+    .option(
+        '--auth_ticket_max_uses <number>',
+        'How many player connections one connect ticket may open. Needs a jti claim in every ticket. 0 = unlimited',
+        config_file.auth_ticket_max_uses || '0'
+    )
+    .option(
+        '--auth_ticket_refresh_seconds <number>',
+        'Seconds before a player connect ticket expires that the player is asked for a new one. Players are disconnected when it expires in enforce mode. 0 = off',
+        config_file.auth_ticket_refresh_seconds || '0'
+    )
+    .option(
+        '--auth_forward_claims <list>',
+        'Comma separated connect ticket claims sent to the streamer when a player subscribes. For example sub,jti',
+        config_file.auth_forward_claims || ''
+    )
+    .addOption(
+        new Option(
+            '--streamer_auth_mode <mode>',
+            'Sets auth mode for streamer and SFU websocket connections.'
+        )
+            .choices(['off', 'soft', 'enforce'])
+            .default(config_file.streamer_auth_mode || 'off')
+    )
+    .addOption(
+        new Option(
+            '--streamer_auth_method <method>',
+            'How streamers and SFUs authenticate. A shared secret, an HS256 ticket signed with the secret, or a client certificate.'
+        )
+            .choices(['secret', 'ticket', 'mtls'])
+            .default(config_file.streamer_auth_method || 'secret')
+    )
+    .option(
+        '--streamer_auth_secret <value>',
+        'Shared secret for the secret method or HMAC key for the ticket method. At least 32 characters.',
+        config_file.streamer_auth_secret || ''
+    )
+    .option(
+        '--streamer_auth_tls_ca <path>',
+        'CA certificate that streamer and SFU client certificates must be issued by (mtls).',
+        config_file.streamer_auth_tls_ca || ''
+    )
+    .option(
+        '--streamer_auth_tls_cert <path>',
+        'Certificate served on the streamer and SFU ports (mtls).',
+        config_file.streamer_auth_tls_cert || ''
+    )
+    .option(
+        '--streamer_auth_tls_key <path>',
+        'Key of the certificate served on the streamer and SFU ports (mtls).',
+        config_file.streamer_auth_tls_key || ''
+    )
+    .option(
+        '--streamer_auth_cert_names <list>',
+        'Comma separated client certificate common names that are accepted (mtls). Empty accepts any certificate from the CA.',
+        config_file.streamer_auth_cert_names || ''
+    )
     .option(
         '--player_keepalive <value>',
         'Enables websocket keepalive watchdog for player connections. true/false',
@@ -323,6 +618,77 @@ program
         'Missed websocket pong count before forcing player disconnect.',
         config_file.player_keepalive_max_missed_pongs || '2'
     )
+    .option(
+        '--player_queue <value>',
+        'Queues players subscribing to a full streamer and subscribes them in order as slots free up. true/false',
+        config_file.player_queue ?? 'false'
+    )
+    .option(
+        '--player_queue_update_interval_ms <number>',
+        'Interval between queue position updates sent to waiting players.',
+        config_file.player_queue_update_interval_ms || '5000'
+    )
+    .option(
+        '--player_resume_window_ms <number>',
+        'How long a dropped player session is held so the player can resume it. 0 disables resume.',
+        config_file.player_resume_window_ms || '0'
+    )
+    .option(
+        '--player_max_connections_per_address <number>',
+        'Max concurrent player connections from one client address. Honours reverse_proxy_num_proxies. 0 = unlimited',
+        config_file.player_max_connections_per_address || '0'
+    )
+    .option(
+        '--player_max_connections_per_subject <number>',
+        'Max concurrent player connections per connect ticket subject (sub). 0 = unlimited',
+        config_file.player_max_connections_per_subject || '0'
+    )
+    .addOption(
+        new Option(
+            '--player_connection_limit_action <action>',
+            'What happens to a player connection over a connection limit. The newest is refused or the oldest is closed.'
+        )
+            .choices(['reject-newest', 'evict-oldest'])
+            .default(config_file.player_connection_limit_action || 'reject-newest')
+    )
+    .addOption(
+        new Option(
+            '--streamer_routing_policy <policy>',
+            'How a streamer is picked for players that send subscribeAny or send messages before subscribing.'
+        )
+            .choices(['first', 'least-loaded', 'healthiest', 'sticky-by-subject'])
+            .default(config_file.streamer_routing_policy || 'first')
+    )
+    .option(
+        '--streamer_ping_interval_ms <number>',
+        'Interval between pings sent to streamers to measure their round trip time for health scoring. 0 = off',
+        config_file.streamer_ping_interval_ms || '0'
+    )
+    .option(
+        '--streamer_negotiation_timeout_ms <number>',
+        'Time a new subscription may take to exchange an answer before it counts against the streamer health.',
+        config_file.streamer_negotiation_timeout_ms || '15000'
+    )
+    .option(
+        '--record_sessions <path>',
+        'Records every signalling message of every session to a JSONL file per connection in this directory. Empty disables recording.',
+        config_file.record_sessions || ''
+    )
+    .option(
+        '--record_sessions_max_bytes <number>',
+        'The most bytes session recordings may take up. The oldest recordings are deleted to make room. 0 is unlimited.',
+        config_file.record_sessions_max_bytes || '0'
+    )
+    .option(
+        '--protobuf_wire_format <value>',
+        'Offers peers the protobuf binary wire format for signalling messages. Peers that do not support it keep using JSON. true/false',
+        config_file.protobuf_wire_format ?? 'false'
+    )
+    .option(
+        '--player_message_limits <json-string>',
+        'JSON object of size, rate and schema limits applied to messages received from players, and the action taken when one is broken. Streamers and SFUs are not limited.',
+        config_file.player_message_limits || ''
+    )
     .option(
         '--viewer_idle_stop <value>',
         'Enables automatic EC2 stop when the signalling server stays idle (no viewers). true/false',
@@ -383,6 +749,64 @@ program
         'Version label written with runtime status tags.',
         config_file.runtime_status_version || ''
     )
+    .option(
+        '--health_endpoints <value>',
+        'Serves liveness and readiness probes derived from the runtime status at /healthz and /readyz. true/false',
+        config_file.health_endpoints ?? 'true'
+    )
+    .option(
+        '--runtime_status_webhook_url <url>',
+        'When set each runtime status update is also POSTed as JSON to this URL.',
+        config_file.runtime_status_webhook_url || ''
+    )
+    .option(
+        '--runtime_status_webhook_secret <value>',
+        'Secret used to sign runtime status webhook bodies with HMAC-SHA256. Required for the webhook.',
+        config_file.runtime_status_webhook_secret || ''
+    )
+    .option(
+        '--runtime_status_webhook_max_attempts <number>',
+        'How many times a runtime status webhook delivery is tried before it is dropped.',
+        config_file.runtime_status_webhook_max_attempts || '5'
+    )
+    .option(
+        '--runtime_status_history_path <path>',
+        'When set each runtime status update is also appended as a JSON line to this file.',
+        config_file.runtime_status_history_path || ''
+    )
+    .option(
+        '--runtime_status_sink_heartbeats <value>',
+        'Also sends runtime status heartbeats to the webhook and history file. true/false',
+        config_file.runtime_status_sink_heartbeats ?? 'false'
+    )
+    .option(
+        '--runtime_status_events <value>',
+        'Serves runtime status updates as server-sent events at /api/runtime-status/events to admins. Needs rest_api. true/false',
+        config_file.runtime_status_events ?? 'false'
+    )
+    .addOption(
+        new Option(
+            '--instance_identity_provider <type>',
+            'Where the instance identity, tags and stop requests go. aws uses EC2 instance metadata and the AWS CLI, static reads a JSON file and http talks to an identity server.'
+        )
+            .choices(['aws', 'static', 'http'])
+            .default(config_file.instance_identity_provider || 'aws')
+    )
+    .option(
+        '--instance_identity_file <path>',
+        'JSON file read by the static instance identity provider.',
+        config_file.instance_identity_file || ''
+    )
+    .option(
+        '--instance_identity_url <url>',
+        'Base URL of the identity server used by the http instance identity provider.',
+        config_file.instance_identity_url || ''
+    )
+    .option(
+        '--instance_identity_fake_port <port>',
+        'When set this process also hosts a fake identity server on the given port for local testing. The http provider uses it when no URL is set.',
+        config_file.instance_identity_fake_port || ''
+    )
     .option(
         '--instance_agent <value>',
         'Enables passive instance-agent heartbeat and runtime event publishing. true/false',
@@ -468,6 +892,21 @@ program
         'AWS CLI executable used for session artifact uploads (default: runtime status AWS CLI path or aws).',
         config_file.instance_agent_artifact_aws_cli_path || ''
     )
+    .option(
+        '--instance_agent_artifact_store <type>',
+        'Where session artifacts are uploaded: aws-cli (default), s3-http for an S3-compatible HTTP API or local for a directory. Also used for screenshot bundles.',
+        config_file.instance_agent_artifact_store || ''
+    )
+    .option(
+        '--instance_agent_artifact_store_endpoint <url>',
+        'Base URL of the S3-compatible API used by the s3-http artifact store. Requests are signed with INSTANCE_AGENT_ARTIFACT_STORE_ACCESS_KEY_ID and INSTANCE_AGENT_ARTIFACT_STORE_SECRET_ACCESS_KEY when set.',
+        config_file.instance_agent_artifact_store_endpoint || ''
+    )
+    .option(
+        '--instance_agent_artifact_store_local_path <path>',
+        'Directory the local artifact store copies artifacts into, one sub directory per bucket.',
+        config_file.instance_agent_artifact_store_local_path || ''
+    )
     .option(
         '--instance_agent_artifact_queue_path <path>',
         'Local durable queue path for pending session artifact upload/registration records.',
@@ -528,6 +967,11 @@ program
         'Delay before collecting screenshots after session teardown starts.',
         config_file.instance_agent_screenshot_artifact_settle_delay_ms || ''
     )
+    .option(
+        '--config_reload <value>',
+        'Reloads the config file on SIGHUP and when it changes. Log levels, peer options, max_players, player keepalive, player connection limits, streamer routing policy and auth settings are applied live. Other changes are reported as needing a restart. true/false',
+        config_file.config_reload ?? 'false'
+    )
     .option(
         '--log_config',
         'Will print the program configuration on startup.',
@@ -565,7 +1009,8 @@ InitLogging({
     logDir: options.log_folder,
     logMessagesToConsole: options.console_messages,
     logLevelConsole: options.log_level_console,
-    logLevelFile: options.log_level_file
+    logLevelFile: options.log_level_file,
+    logFormat: options.log_format
 });
 
 // read the peer_options_file
@@ -614,6 +1059,28 @@ if (options.peer_options_streamer_file) {
     );
 }
 
+// read the streamer_policies_file
+let streamerPolicies: IStreamerPolicies | undefined;
+if (options.streamer_policies_file) {
+    if (!fs.existsSync(options.streamer_policies_file)) {
+        Logger.error(`streamer_policies_file "${options.streamer_policies_file}" does not exist.`);
+        throw Error(`Failed to find a streamer policies file called ${options.streamer_policies_file}.`);
+    }
+
+    streamerPolicies = JSON.parse(
+        fs.readFileSync(options.streamer_policies_file, 'utf-8')
+    ) as IStreamerPolicies;
+    const policyList = [streamerPolicies.default, ...Object.values(streamerPolicies.streamers || {})];
+    for (const policy of policyList) {
+        const mode: string | undefined = policy?.subscriberMode;
+        if (mode && mode !== 'shared' && mode !== 'single-controller') {
+            throw Error(
+                `Invalid subscriberMode '${mode}' in streamer_policies_file. Expected shared or single-controller.`
+            );
+        }
+    }
+}
+
 Logger.info(`${pjson.name} v${pjson.version} starting...`);
 
 const missingEnvVars = new Set<string>();
@@ -627,11 +1094,15 @@ if (options.peer_options_streamer) {
     options.peer_options_streamer = resolveEnvPlaceholders(options.peer_options_streamer, missingEnvVars);
 }
 const authEnvFields = [
+    'admin_token',
+    'auth_jwks_url',
     'auth_issuer',
     'auth_audience',
     'auth_signing_key',
     'auth_instance_id',
-    'auth_route_host_suffix'
+    'auth_route_host_suffix',
+    'registry_hub_secret',
+    'streamer_auth_secret'
 ] as const;
 for (const field of authEnvFields) {
     if (typeof options[field] === 'string') {
@@ -644,6 +1115,7 @@ if (missingEnvVars.size > 0) {
     throw Error(`Missing required environment variables referenced in configuration: ${missing}`);
 }
 
+options.admin_token = resolveAuthOption(options.admin_token, 'SIGNALLING_ADMIN_TOKEN');
 options.auth_issuer = resolveAuthOption(options.auth_issuer, 'CONNECT_TICKET_ISSUER');
 options.auth_audience = resolveAuthOption(options.auth_audience, 'CONNECT_TICKET_AUDIENCE');
 options.auth_signing_key = resolveAuthOption(options.auth_signing_key, 'CONNECT_TICKET_SIGNING_KEY');
@@ -652,6 +1124,8 @@ options.auth_route_host_suffix = resolveAuthOption(
     options.auth_route_host_suffix,
     'CONNECT_TICKET_ROUTE_HOST_SUFFIX'
 );
+options.streamer_auth_secret = resolveAuthOption(options.streamer_auth_secret, 'STREAMER_AUTH_SECRET');
+options.registry_hub_secret = resolveAuthOption(options.registry_hub_secret, 'REGISTRY_HUB_SECRET');
 
 if (options.log_config) {
     Logger.info('Config:');
@@ -666,30 +1140,93 @@ if (options.reverse_proxy) {
     app.set('trust proxy', options.reverse_proxy_num_proxies);
 }
 
-const authMode = normalizeAuthMode(String(options.auth_mode || 'off'));
-const authClockSkewSeconds = Number.parseInt(String(options.auth_clock_skew_seconds || '5'), 10);
-if (Number.isNaN(authClockSkewSeconds)) {
-    throw Error(
-        `Invalid auth_clock_skew_seconds value '${options.auth_clock_skew_seconds}'. Expected an integer.`
-    );
-}
+const authSettings = readAuthSettings(options);
+const authClockSkewSeconds = authSettings.clockSkewSeconds;
 const instanceAgentDesiredStatePath = String(options.instance_agent_desired_state_path || '');
 const connectTicketRuntimeGate = createConnectTicketRuntimeGate({
     desiredStatePath: instanceAgentDesiredStatePath,
     logger: (message: string) => Logger.info(message)
 });
 
-const playerVerifyClient = createPlayerVerifyClient({
-    mode: authMode,
-    issuer: String(options.auth_issuer || ''),
-    audience: String(options.auth_audience || ''),
-    signingKey: String(options.auth_signing_key || ''),
-    instanceId: String(options.auth_instance_id || ''),
-    routeHostSuffix: String(options.auth_route_host_suffix || ''),
-    clockSkewSeconds: authClockSkewSeconds,
-    runtimeGate: connectTicketRuntimeGate
+const connectTicketReplayStore = createConnectTicketReplayStore({
+    desiredStatePath: instanceAgentDesiredStatePath,
+    logger: (message: string) => Logger.info(message)
+});
+
+const signallingMetrics = new SignallingMetrics();
+const playerVerifyClient = createReloadablePlayerVerifyClient({
+    ...authSettings,
+    runtimeGate: connectTicketRuntimeGate,
+    replayStore: connectTicketReplayStore,
+    metrics: signallingMetrics
 });
 
+function createRegistryBackend(): IRegistryBackend | undefined {
+    const backend = String(options.registry_backend || 'memory');
+    if (backend !== 'hub') {
+        return undefined;
+    }
+
+    const secret = String(options.registry_hub_secret || '');
+    if (!secret) {
+        throw Error('registry_hub_secret is required when registry_backend is hub.');
+    }
+
+    const hubPort = Number.parseInt(String(options.registry_hub_port || ''), 10);
+    const hubHost = String(options.registry_hub_host || '').trim() || '127.0.0.1';
+    if (!Number.isNaN(hubPort)) {
+        new RegistryHub({ port: hubPort, host: hubHost, secret });
+    }
+
+    const hubUrl =
+        String(options.registry_hub_url || '').trim() || (hubPort ? `ws://${hubHost}:${hubPort}` : '');
+    if (!hubUrl) {
+        throw Error('registry_hub_url or registry_hub_port is required when registry_backend is hub.');
+    }
+
+    const nodeId = String(options.registry_node_id || '').trim() || `node${process.pid}`;
+    Logger.info(`Sharing signalling registry state through hub ${hubUrl} as node '${nodeId}'.`);
+    return new WebSocketRegistryBackend({ hubUrl, nodeId, secret });
+}
+
+const instanceIdentityFakePort = Number.parseInt(String(options.instance_identity_fake_port || ''), 10);
+if (!Number.isNaN(instanceIdentityFakePort)) {
+    const fakeIdentityServer = createFakeInstanceIdentityServer(instanceIdentityFakePort, {
+        identity: {
+            instanceId: String(options.instance_agent_instance_id || '').trim() || 'i-local',
+            region: String(options.instance_agent_region || '').trim() || 'local'
+        }
+    });
+    fakeIdentityServer.ready
+        .then(() => Logger.info(`Hosting a fake instance identity server at ${fakeIdentityServer.url}.`))
+        .catch((error: unknown) =>
+            Logger.error(`Could not host the fake instance identity server: ${String(error)}`)
+        );
+}
+
+function createIdentityProvider(awsCliPath: string): InstanceIdentityProvider {
+    return createInstanceIdentityProvider({
+        type: String(options.instance_identity_provider || 'aws'),
+        awsCliPath,
+        filePath: String(options.instance_identity_file || ''),
+        url:
+            String(options.instance_identity_url || '').trim() ||
+            (Number.isNaN(instanceIdentityFakePort) ? '' : `http://127.0.0.1:${instanceIdentityFakePort}`)
+    });
+}
+
+const streamerAuthSettings: StreamerAuthSettings = {
+    mode: normalizeAuthMode(String(options.streamer_auth_mode || 'off')),
+    method: String(options.streamer_auth_method || 'secret') as StreamerAuthMethod,
+    secret: String(options.streamer_auth_secret || ''),
+    tlsCaPath: String(options.streamer_auth_tls_ca || ''),
+    tlsCertPath: String(options.streamer_auth_tls_cert || ''),
+    tlsKeyPath: String(options.streamer_auth_tls_key || ''),
+    allowedCertNames: readListValue(options, 'streamer_auth_cert_names'),
+    clockSkewSeconds: authClockSkewSeconds,
+    metrics: signallingMetrics
+};
+
 const serverOpts: IServerConfig = {
     streamerPort: options.streamer_port,
     playerPort: options.player_port,
@@ -700,15 +1237,46 @@ const serverOpts: IServerConfig = {
     maxSubscribers: options.max_players,
     playerKeepalive: options.player_keepalive,
     playerKeepaliveIntervalMs: options.player_keepalive_interval_ms,
-    playerKeepaliveMaxMissedPongs: options.player_keepalive_max_missed_pongs
+    playerKeepaliveMaxMissedPongs: options.player_keepalive_max_missed_pongs,
+    streamerWsOptions: createStreamerWsOptions(
+        streamerAuthSettings,
+        'streamer',
+        Number(options.streamer_port)
+    ),
+    sfuWsOptions: options.sfu_port
+        ? createStreamerWsOptions(streamerAuthSettings, 'sfu', Number(options.sfu_port))
+        : undefined,
+    playerResumeWindowMs: options.player_resume_window_ms,
+    playerMaxConnectionsPerAddress: readIntegerValue(options, 'player_max_connections_per_address', 0, 0),
+    playerMaxConnectionsPerSubject: readIntegerValue(options, 'player_max_connections_per_subject', 0, 0),
+    playerConnectionLimitAction: readConnectionLimitAction(options),
+    streamerRoutingPolicy: readStreamerRoutingPolicy(options),
+    streamerPingIntervalMs: readIntegerValue(options, 'streamer_ping_interval_ms', 0, 0),
+    streamerNegotiationTimeoutMs: readIntegerValue(options, 'streamer_negotiation_timeout_ms', 15000, 1000),
+    playerTrustedProxies: options.reverse_proxy ? Number(options.reverse_proxy_num_proxies) : 0,
+    playerQueue: options.player_queue,
+    playerQueueUpdateIntervalMs: options.player_queue_update_interval_ms,
+    playerMessageLimits: options.player_message_limits,
+    protobufWireFormat: options.protobuf_wire_format,
+    sessionRecordingDir: options.record_sessions,
+    sessionRecordingMaxBytes: options.record_sessions_max_bytes,
+    streamerPolicies,
+    resolvePlayerAccess: resolvePlayerAccessFromTicket,
+    resolvePlayerIdentity: resolvePlayerIdentityFromTicket,
+    forwardedPlayerClaims: readListValue(options, 'auth_forward_claims'),
+    playerTicketRefreshLeadMs: readIntegerValue(options, 'auth_ticket_refresh_seconds', 0, 0) * 1000,
+    playerTicketExpiryDisconnect: authSettings.mode === 'enforce',
+    playerTicketClockSkewMs: authClockSkewSeconds * 1000,
+    refreshPlayerIdentity: playerVerifyClient.refreshIdentity,
+    releasePlayerTicketUse: playerVerifyClient.releaseTicketUse,
+    registryBackend: createRegistryBackend(),
+    metrics: signallingMetrics
 };
 
-if (playerVerifyClient) {
-    serverOpts.playerWsOptions = {
-        ...(serverOpts.playerWsOptions || {}),
-        verifyClient: playerVerifyClient
-    };
-}
+serverOpts.playerWsOptions = {
+    ...(serverOpts.playerWsOptions || {}),
+    verifyClient: playerVerifyClient.verifyClient
+};
 
 if (options.serve) {
     const webserverOptions: IWebServerConfig = {
@@ -744,6 +1312,7 @@ const instanceAgentClient = wireInstanceAgent(signallingServer, {
     instanceId: String(options.instance_agent_instance_id || ''),
     region: String(options.instance_agent_region || ''),
     requireIdentityProof: options.instance_agent_require_identity_proof,
+    identityProvider: createIdentityProvider(String(options.runtime_status_aws_cli_path || 'aws')),
     lane: String(options.instance_agent_lane || ''),
     routeKey: String(options.instance_agent_route_key || ''),
     scopeValue: String(options.instance_agent_scope_value || ''),
@@ -760,6 +1329,9 @@ const instanceAgentClient = wireInstanceAgent(signallingServer, {
         awsCliPath:
             options.instance_agent_artifact_aws_cli_path || options.runtime_status_aws_cli_path || undefined,
         awsRegion: options.instance_agent_region || undefined,
+        storeType: options.instance_agent_artifact_store || undefined,
+        storeEndpoint: options.instance_agent_artifact_store_endpoint || undefined,
+        storeLocalPath: options.instance_agent_artifact_store_local_path || undefined,
         queuePath: options.instance_agent_artifact_queue_path || undefined,
         maxBytes: options.instance_agent_artifact_max_bytes || undefined,
         logFolder: options.log_folder || undefined,
@@ -776,6 +1348,9 @@ const instanceAgentClient = wireInstanceAgent(signallingServer, {
         awsCliPath:
             options.instance_agent_artifact_aws_cli_path || options.runtime_status_aws_cli_path || undefined,
         awsRegion: options.instance_agent_region || undefined,
+        storeType: options.instance_agent_artifact_store || undefined,
+        storeEndpoint: options.instance_agent_artifact_store_endpoint || undefined,
+        storeLocalPath: options.instance_agent_artifact_store_local_path || undefined,
         queuePath: options.instance_agent_screenshot_artifact_queue_path || undefined,
         maxFiles: options.instance_agent_screenshot_artifact_max_files || undefined,
         maxBytes: options.instance_agent_screenshot_artifact_max_bytes || undefined,
@@ -790,19 +1365,81 @@ const instanceAgentClient = wireInstanceAgent(signallingServer, {
     },
     logger: (message: string) => Logger.info(message)
 });
+const instanceAgentCommands = createInstanceAgentCommandRegistry(signallingServer, instanceAgentClient, {
+    logger: (message: string) => Logger.info(message)
+});
+instanceAgentCommands?.register({
+    commandType: 'captureDiagnostics',
+    timeoutMs: 180_000,
+    resultSchema: { capturedAtUtc: { type: 'string', required: true } },
+    run: async (command, context) => {
+        context.signal.throwIfAborted();
+        const reason = typeof context.payload.reason === 'string' ? context.payload.reason : undefined;
+        // Captured bundles are queued before they are uploaded, so stopping early on abort
+        // leaves them to be uploaded by a later tick of the agent.
+        let settleAborted = (): void => undefined;
+        const aborted = new Promise<void>((resolve, reject) => {
+            const onAbort = () => reject(new Error('Diagnostics capture was aborted.'));
+            context.signal.addEventListener('abort', onAbort, { once: true });
+            settleAborted = () => {
+                context.signal.removeEventListener('abort', onAbort);
+                resolve();
+            };
+        });
+        try {
+            await Promise.race([
+                Promise.all([
+                    context.client.captureSessionLogArtifact('command_capture_diagnostics', command, {
+                        reason
+                    }),
+                    context.client.captureSessionScreenshotArtifact('command_capture_diagnostics', command, {
+                        reason
+                    })
+                ]),
+                aborted
+            ]);
+        } finally {
+            settleAborted();
+        }
+        return { capturedAtUtc: new Date().toISOString() };
+    }
+});
+
+const runtimeStatusEventStream = createRuntimeStatusEventStream({
+    enabled: options.runtime_status_events,
+    logger: (message: string) => Logger.info(message)
+});
+const runtimeStatusSinks = [
+    createRuntimeStatusWebhookSink({
+        url: String(options.runtime_status_webhook_url || ''),
+        secret: String(options.runtime_status_webhook_secret || ''),
+        maxAttempts: options.runtime_status_webhook_max_attempts,
+        includeHeartbeats: options.runtime_status_sink_heartbeats,
+        logger: (message: string) => Logger.info(message)
+    }),
+    createRuntimeStatusHistorySink({
+        filePath: String(options.runtime_status_history_path || ''),
+        includeHeartbeats: options.runtime_status_sink_heartbeats,
+        logger: (message: string) => Logger.info(message)
+    }),
+    runtimeStatusEventStream?.sink ?? null
+].filter((sink): sink is RuntimeStatusSink => sink !== null);
 const runtimeStatusPublisher = createRuntimeStatusPublisher({
     enabled: options.runtime_status,
     awsCliPath: options.runtime_status_aws_cli_path,
+    identityProvider: createIdentityProvider(String(options.runtime_status_aws_cli_path || 'aws')),
     source: String(options.runtime_status_source || 'signalling-server'),
     version: String(options.runtime_status_version || pjson.version || ''),
     observer: (update) => {
         instanceAgentClient?.recordRuntimeStatus(update);
     },
+    sinks: runtimeStatusSinks,
     logger: (message: string) => Logger.info(message)
 });
 const sessionNetworkPathReporter = createSessionNetworkPathReporter({
     enabled: options.runtime_status,
     awsCliPath: options.runtime_status_aws_cli_path,
+    identityProvider: createIdentityProvider(String(options.runtime_status_aws_cli_path || 'aws')),
     logger: (message: string) => Logger.info(message)
 });
 
@@ -811,6 +1448,12 @@ const runtimeStatusController = wireSignallingRuntimeStatus(signallingServer, ru
     source: String(options.runtime_status_source || 'signalling-server')
 });
 
+if (options.metrics) {
+    app.get('/metrics', (_request, response) => {
+        response.type('text/plain; version=0.0.4').send(signallingMetrics.render());
+    });
+}
+
 app.post('/api/session-network-path', express.json({ limit: '8kb' }), async (request, response) => {
     const body = request.body as
         | {
@@ -855,7 +1498,7 @@ app.post('/api/session-network-path', express.json({ limit: '8kb' }), async (req
     response.sendStatus(204);
 });
 
-wireViewerIdleStop(signallingServer, {
+const viewerIdleStopController = wireViewerIdleStop(signallingServer, {
     enabled: options.viewer_idle_stop,
     graceMs: options.viewer_idle_grace_ms,
     firstViewerGraceMs: options.viewer_idle_first_viewer_grace_ms,
@@ -865,19 +1508,40 @@ wireViewerIdleStop(signallingServer, {
     desiredStatePath:
         instanceAgentDesiredStatePath.trim().length > 0 ? instanceAgentDesiredStatePath : undefined,
     awsCliPath: options.viewer_idle_aws_cli_path,
+    identityProvider: createIdentityProvider(String(options.viewer_idle_aws_cli_path || 'aws')),
     dryRun: options.viewer_idle_stop_dry_run,
     logger: (message: string) => Logger.info(message),
     runtimeStatusPublisher,
     runtimeStatusController,
     instanceAgentClient,
+    commandRegistry: instanceAgentCommands,
     connectTicketRuntimeGate
 });
 
+const healthProbe = createRuntimeHealthProbe(signallingServer, {
+    enabled: options.health_endpoints,
+    runtimeStatusController,
+    viewerIdleStopController
+});
+if (healthProbe) {
+    app.get('/healthz', (_request, response) => {
+        const { statusCode, report } = healthProbe.liveness();
+        response.set('Cache-Control', 'no-store').status(statusCode).json(report);
+    });
+    app.get('/readyz', (_request, response) => {
+        const { statusCode, report } = healthProbe.readiness();
+        response.set('Cache-Control', 'no-store').status(statusCode).json(report);
+    });
+}
+
 if (options.stdin) {
     initInputHandler(options, signallingServer);
 }
 
-if (options.rest_api) {
+const adminSecurity = options.rest_api
+    ? createReloadableAdminSecurityHandler(readAdminAuthSettings(options))
+    : null;
+if (adminSecurity) {
     void initialize({
         app,
         docsPath: '/api-definition',
@@ -886,6 +1550,283 @@ if (options.rest_api) {
         paths: './dist/paths',
         dependencies: {
             signallingServer
+        },
+        consumesMiddleware: {
+            'application/json': express.json({ limit: '8kb' })
+        },
+        errorMiddleware: (
+            err: { status?: number; message?: string; errors?: unknown },
+            _req: express.Request,
+            res: express.Response,
+            _next: express.NextFunction
+        ) => {
+            // validation and security failures carry a status. anything else is our fault.
+            res.status(err.status || 500).json({ message: err.message, errors: err.errors });
+        },
+        securityHandlers: {
+            // express-openapi hands security handlers the express request.
+            adminBearer: (req) => adminSecurity.securityHandler(req as express.Request)
         }
     });
 }
+
+if (runtimeStatusEventStream) {
+    // the stream is not part of the openapi definition so it checks the admin bearer itself.
+    if (adminSecurity) {
+        const eventStream = runtimeStatusEventStream;
+        app.get('/api/runtime-status/events', (request, response) => {
+            if (!adminSecurity.securityHandler(request)) {
+                response.status(401).json({ message: 'Admin authorization is required.' });
+                return;
+            }
+            eventStream.handleRequest(request, response);
+        });
+    } else {
+        Logger.warn('runtime_status_events needs rest_api for admin auth. The event stream is not served.');
+    }
+}
+
+function createConfigReloadHandlers(): ConfigReloadHandler[] {
+    const handlers: ConfigReloadHandler[] = [
+        {
+            keys: ['log_level_console', 'log_level_file'],
+            prepare: (config: IProgramOptions) => {
+                const levels = {
+                    log_level_console: String(config.log_level_console || 'info'),
+                    log_level_file: String(config.log_level_file || 'info')
+                };
+                for (const [field, level] of Object.entries(levels)) {
+                    if (!LOG_LEVELS.includes(level)) {
+                        throw Error(
+                            `Invalid ${field} '${level}'. Expected one of: ${LOG_LEVELS.join(', ')}.`
+                        );
+                    }
+                }
+                return () => {
+                    Object.assign(options, levels);
+                    SetLogLevels({
+                        logLevelConsole: levels.log_level_console,
+                        logLevelFile: levels.log_level_file
+                    });
+                };
+            }
+        },
+        {
+            keys: [
+                'peer_options',
+                'peer_options_file',
+                'peer_options_player',
+                'peer_options_player_file',
+                'peer_options_streamer',
+                'peer_options_streamer_file'
+            ],
+            prepare: (config: IProgramOptions) => {
+                const missing = new Set<string>();
+                const peerOptions = readPeerOptionsValue(config, 'peer_options', missing);
+                const peerOptionsPlayer = readPeerOptionsValue(config, 'peer_options_player', missing);
+                const peerOptionsStreamer = readPeerOptionsValue(config, 'peer_options_streamer', missing);
+                if (missing.size > 0) {
+                    const missingList = Array.from(missing).sort().join(', ');
+                    throw Error(`Missing environment variables referenced in peer options: ${missingList}.`);
+                }
+                return () => {
+                    Object.assign(options, {
+                        peer_options: peerOptions,
+                        peer_options_player: peerOptionsPlayer,
+                        peer_options_streamer: peerOptionsStreamer
+                    });
+                    signallingServer.updateConfig({ peerOptions, peerOptionsPlayer, peerOptionsStreamer });
+                };
+            }
+        },
+        {
+            keys: ['auth_forward_claims'],
+            prepare: (config: IProgramOptions) => {
+                const forwardedPlayerClaims = readListValue(config, 'auth_forward_claims');
+                return () => {
+                    options.auth_forward_claims = forwardedPlayerClaims.join(',');
+                    signallingServer.updateConfig({ forwardedPlayerClaims });
+                };
+            }
+        },
+        {
+            keys: [
+                'player_max_connections_per_address',
+                'player_max_connections_per_subject',
+                'player_connection_limit_action'
+            ],
+            prepare: (config: IProgramOptions) => {
+                const playerMaxConnectionsPerAddress = readIntegerValue(
+                    config,
+                    'player_max_connections_per_address',
+                    0,
+                    0
+                );
+                const playerMaxConnectionsPerSubject = readIntegerValue(
+                    config,
+                    'player_max_connections_per_subject',
+                    0,
+                    0
+                );
+                const playerConnectionLimitAction = readConnectionLimitAction(config);
+                return () => {
+                    options.player_max_connections_per_address = playerMaxConnectionsPerAddress;
+                    options.player_max_connections_per_subject = playerMaxConnectionsPerSubject;
+                    options.player_connection_limit_action = playerConnectionLimitAction;
+                    signallingServer.updateConfig({
+                        playerMaxConnectionsPerAddress,
+                        playerMaxConnectionsPerSubject,
+                        playerConnectionLimitAction
+                    });
+                };
+            }
+        },
+        {
+            keys: ['streamer_routing_policy'],
+            prepare: (config: IProgramOptions) => {
+                const streamerRoutingPolicy = readStreamerRoutingPolicy(config);
+                return () => {
+                    options.streamer_routing_policy = streamerRoutingPolicy;
+                    signallingServer.updateConfig({ streamerRoutingPolicy });
+                };
+            }
+        },
+        {
+            keys: ['max_players'],
+            prepare: (config: IProgramOptions) => {
+                const maxSubscribers = readIntegerValue(config, 'max_players', 0, 0);
+                return () => {
+                    options.max_players = maxSubscribers;
+                    signallingServer.updateConfig({ maxSubscribers });
+                };
+            }
+        },
+        {
+            keys: ['player_keepalive', 'player_keepalive_interval_ms', 'player_keepalive_max_missed_pongs'],
+            prepare: (config: IProgramOptions) => {
+                const keepalive = String(config.player_keepalive ?? 'true')
+                    .trim()
+                    .toLowerCase();
+                if (!['true', 'false', '1', '0', 'yes', 'no', 'on', 'off'].includes(keepalive)) {
+                    throw Error(`Invalid player_keepalive value '${keepalive}'. Expected true or false.`);
+                }
+                const playerKeepalive = ['true', '1', 'yes', 'on'].includes(keepalive);
+                const playerKeepaliveIntervalMs = readIntegerValue(
+                    config,
+                    'player_keepalive_interval_ms',
+                    30_000,
+                    1_000
+                );
+                const playerKeepaliveMaxMissedPongs = readIntegerValue(
+                    config,
+                    'player_keepalive_max_missed_pongs',
+                    2,
+                    1
+                );
+                return () => {
+                    Object.assign(options, {
+                        player_keepalive: playerKeepalive,
+                        player_keepalive_interval_ms: playerKeepaliveIntervalMs,
+                        player_keepalive_max_missed_pongs: playerKeepaliveMaxMissedPongs
+                    });
+                    signallingServer.updateConfig({
+                        playerKeepalive,
+                        playerKeepaliveIntervalMs,
+                        playerKeepaliveMaxMissedPongs
+                    });
+                };
+            }
+        },
+        {
+            keys: [
+                'auth_mode',
+                'auth_issuer',
+                'auth_audience',
+                'auth_signing_key',
+                'auth_jwks_file',
+                'auth_jwks_url',
+                'auth_jwks_cache_seconds',
+                'auth_instance_id',
+                'auth_route_host_suffix',
+                'auth_clock_skew_seconds',
+                'auth_ticket_max_uses'
+            ],
+            prepare: (config: IProgramOptions) => {
+                const missing = new Set<string>();
+                const resolved = resolveEnvPlaceholders(config, missing) as IProgramOptions;
+                if (missing.size > 0) {
+                    const missingList = Array.from(missing).sort().join(', ');
+                    throw Error(`Missing environment variables referenced in auth settings: ${missingList}.`);
+                }
+                const settings: ConnectTicketAuthSettings = {
+                    ...readAuthSettings(resolved),
+                    runtimeGate: connectTicketRuntimeGate,
+                    replayStore: connectTicketReplayStore,
+                    metrics: signallingMetrics
+                };
+                normalizeAuthSettings(settings);
+                return () => {
+                    playerVerifyClient.update(settings);
+                    options.auth_mode = settings.mode;
+                    signallingServer.updateConfig({
+                        playerTicketExpiryDisconnect: settings.mode === 'enforce',
+                        playerTicketClockSkewMs: settings.clockSkewSeconds * 1000
+                    });
+                };
+            }
+        }
+    ];
+
+    if (adminSecurity) {
+        const reloadableAdminSecurity = adminSecurity;
+        handlers.push({
+            // admin JWTs are checked against the connect ticket issuer, audience and signing
+            // key, so changes to those are applied to admin auth as well.
+            keys: [
+                'admin_token',
+                'admin_jwt_scope',
+                'admin_jwt_audience',
+                'auth_issuer',
+                'auth_audience',
+                'auth_signing_key',
+                'auth_clock_skew_seconds'
+            ],
+            prepare: (config: IProgramOptions) => {
+                const missing = new Set<string>();
+                const resolved = resolveEnvPlaceholders(config, missing) as IProgramOptions;
+                if (missing.size > 0) {
+                    const missingList = Array.from(missing).sort().join(', ');
+                    throw Error(
+                        `Missing environment variables referenced in admin settings: ${missingList}.`
+                    );
+                }
+                const settings = readAdminAuthSettings(resolved);
+                normalizeAdminAuthSettings(settings);
+                return () => {
+                    reloadableAdminSecurity.update(settings);
+                };
+            }
+        });
+    }
+    return handlers;
+}
+
+// options given on the command line win over the config file, also when it is reloaded.
+const commandLineValues: IProgramOptions = {};
+for (const key of Object.keys(cli_options)) {
+    if (program.getOptionValueSource(key) === 'cli') {
+        commandLineValues[key] = cli_options[key];
+    }
+}
+
+if (options.config_reload && configArgsParser.no_config) {
+    Logger.warn('config_reload has no effect with --no_config.');
+}
+wireConfigReload({
+    enabled: configArgsParser.no_config ? false : options.config_reload,
+    configFilePath: configArgsParser.config_file,
+    initialConfig: config_file,
+    commandLineValues,
+    handlers: createConfigReloadHandlers(),
+    logger: (message: string) => Logger.info(message)
+});
@@ -0,0 +1,429 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import {
+    ILogContext,
+    LogWithContext,
+    SignallingServer
+} from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import type { InstanceAgentClient, InstanceAgentCommand } from './instance-agent';
+
+export const RECYCLE_TO_WARM_COMMAND_TYPE = 'recycleToWarm';
+export const SHUTDOWN_COMMAND_TYPE = 'shutdown';
+
+const DEFAULT_HANDLER_TIMEOUT_MS = 60_000;
+
+export type InstanceAgentCommandResultFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface InstanceAgentCommandResultField {
+    type: InstanceAgentCommandResultFieldType;
+    required?: boolean;
+}
+
+/**
+ * The fields a handler result must have. Fields not listed are allowed.
+ */
+export type InstanceAgentCommandResultSchema = Record<string, InstanceAgentCommandResultField>;
+
+/**
+ * Checks whether a command may run now.
+ * @returns Why the command may not run, or null if it may.
+ */
+export type InstanceAgentCommandPreconditionCheck = (command: InstanceAgentCommand) => string | null;
+
+/**
+ * Decides whether a received command is dispatched at all. Filters that drop a command
+ * report it to the API themselves.
+ * @returns False to drop the command.
+ */
+export type InstanceAgentCommandDispatchFilter = (
+    command: InstanceAgentCommand,
+    source: string
+) => Promise<boolean> | boolean;
+
+export interface InstanceAgentCommandContext {
+    // The parsed payloadJson of the command, or an empty object without one.
+    payload: Record<string, unknown>;
+    // Where the command came from, such as 'heartbeat'.
+    source: string;
+    // Aborted when the handler runs out of time.
+    signal: AbortSignal;
+    client: InstanceAgentClient;
+}
+
+export interface InstanceAgentCommandHandler {
+    // Matched case-insensitively against the commandType of received commands.
+    commandType: string;
+    // Names of preconditions checked before the command is acknowledged. Built in are
+    // 'no_viewers' and 'not_draining'; modules add others with definePrecondition.
+    preconditions?: string[];
+    // How long run may take. The command's own timeoutAtUtc wins when it is sooner.
+    timeoutMs?: number;
+    resultSchema?: InstanceAgentCommandResultSchema;
+    // Set for commands that acknowledge, start and finish themselves, such as recycleToWarm
+    // and shutdown which outlive the process. The registry then only checks preconditions
+    // and conflicts and calls run; timeoutMs and resultSchema are not used.
+    selfManaged?: boolean;
+    // Runs the command after it was acknowledged and started. The returned object completes
+    // the command as its result; a throw fails it.
+    run: (command: InstanceAgentCommand, context: InstanceAgentCommandContext) => Promise<unknown>;
+}
+
+/**
+ * Dispatches instance agent commands to the handler registered for their type and reports
+ * the outcome through the acknowledge, start, complete and fail transitions of the client.
+ */
+export interface InstanceAgentCommandRegistry {
+    // Returns a function that removes the handler again.
+    register: (handler: InstanceAgentCommandHandler) => () => void;
+    definePrecondition: (name: string, check: InstanceAgentCommandPreconditionCheck) => void;
+    addDispatchFilter: (filter: InstanceAgentCommandDispatchFilter) => void;
+    getHandler: (commandType: string | null | undefined) => InstanceAgentCommandHandler | null;
+    listCommandTypes: () => string[];
+}
+
+export interface InstanceAgentCommandRegistryOptions {
+    logger?: (message: string, context?: ILogContext) => void;
+}
+
+function normalizeOptionalText(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+function normalizeCommandType(value: string | null | undefined): string {
+    return normalizeOptionalText(value)?.toLowerCase() ?? '';
+}
+
+/**
+ * True when the command is of the given type, ignoring case and surrounding spaces.
+ */
+export function isInstanceAgentCommandType(
+    command: { commandType?: string | null } | null | undefined,
+    commandType: string
+): boolean {
+    return normalizeCommandType(command?.commandType) === normalizeCommandType(commandType);
+}
+
+function describeFieldType(value: unknown): InstanceAgentCommandResultFieldType | 'null' | 'undefined' {
+    if (value === undefined) return 'undefined';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    const type = typeof value;
+    return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+/**
+ * Checks a handler result against its schema.
+ * @returns Why the result does not match, or null if it does.
+ */
+export function validateInstanceAgentCommandResult(
+    result: unknown,
+    schema: InstanceAgentCommandResultSchema | undefined
+): string | null {
+    if (!schema) return null;
+    if (describeFieldType(result) !== 'object') {
+        return `Expected an object result but got ${describeFieldType(result)}.`;
+    }
+
+    const fields = result as Record<string, unknown>;
+    for (const [name, field] of Object.entries(schema)) {
+        const actualType = describeFieldType(fields[name]);
+        if (actualType === 'undefined' || actualType === 'null') {
+            if (field.required) return `Result field '${name}' is required.`;
+            continue;
+        }
+        if (actualType !== field.type) {
+            return `Result field '${name}' should be ${field.type} but is ${actualType}.`;
+        }
+    }
+    return null;
+}
+
+function parsePayload(command: InstanceAgentCommand): Record<string, unknown> {
+    const payloadJson = normalizeOptionalText(command.payloadJson);
+    if (!payloadJson) return {};
+    const payload = JSON.parse(payloadJson) as unknown;
+    if (describeFieldType(payload) !== 'object') {
+        throw new Error('payloadJson must be a JSON object.');
+    }
+    return payload as Record<string, unknown>;
+}
+
+function parsePayloadOrEmpty(command: InstanceAgentCommand): Record<string, unknown> {
+    try {
+        return parsePayload(command);
+    } catch {
+        return {};
+    }
+}
+
+function resolveTimeoutMs(handler: InstanceAgentCommandHandler, command: InstanceAgentCommand): number {
+    const handlerTimeoutMs =
+        handler.timeoutMs && handler.timeoutMs > 0 ? handler.timeoutMs : DEFAULT_HANDLER_TIMEOUT_MS;
+    const timeoutAtMs = Date.parse(command.timeoutAtUtc ?? '');
+    if (Number.isNaN(timeoutAtMs)) return handlerTimeoutMs;
+    return Math.max(0, Math.min(handlerTimeoutMs, timeoutAtMs - Date.now()));
+}
+
+/**
+ * Creates the registry and makes it the listener for commands received by the client.
+ * @returns The registry, or null without an instance agent client.
+ */
+export function createInstanceAgentCommandRegistry(
+    server: SignallingServer,
+    client: InstanceAgentClient | null,
+    options: InstanceAgentCommandRegistryOptions = {}
+): InstanceAgentCommandRegistry | null {
+    if (!client) {
+        return null;
+    }
+
+    const log = options.logger ?? LogWithContext;
+    const handlers = new Map<string, InstanceAgentCommandHandler>();
+    const preconditions = new Map<string, InstanceAgentCommandPreconditionCheck>([
+        ['no_viewers', () => (server.playerRegistry.count() > 0 ? 'Viewers are connected.' : null)],
+        ['not_draining', () => (server.drain.draining ? 'The server is draining.' : null)]
+    ]);
+    const dispatchFilters: InstanceAgentCommandDispatchFilter[] = [];
+    // The command being dispatched or run by this process. A command that timed out stays in
+    // flight until its handler returns so the next command cannot run alongside it.
+    let inFlightCommand: InstanceAgentCommand | null = null;
+    let dispatchQueue: Promise<void> = Promise.resolve();
+
+    const failCommand = async (
+        command: InstanceAgentCommand,
+        failureCode: string,
+        failureMessage: string,
+        terminalStatus: string
+    ): Promise<void> => {
+        log(
+            `[instance-agent-commands] Failing command ${command.instanceCommandId} (${command.commandType}): ${failureCode}: ${failureMessage}`,
+            { instanceCommandId: command.instanceCommandId }
+        );
+        try {
+            await client.failCommand(command, {
+                failureCode,
+                failureMessage,
+                terminalStatus,
+                occurredAtUtc: new Date().toISOString()
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            log(
+                `[instance-agent-commands] Failed to report failure of command ${command.instanceCommandId}: ${message}`
+            );
+        }
+    };
+
+    const checkPreconditions = (
+        handler: InstanceAgentCommandHandler,
+        command: InstanceAgentCommand
+    ): string | null => {
+        for (const name of handler.preconditions ?? []) {
+            const check = preconditions.get(name);
+            if (!check) {
+                return `Precondition '${name}' is not available on this host.`;
+            }
+            const failure = check(command);
+            if (failure) {
+                return `Precondition '${name}' failed: ${failure}`;
+            }
+        }
+        return null;
+    };
+
+    // Decides whether the command runs now. Runs one command at a time so two commands
+    // received together cannot both pass the conflict check.
+    const admit = async (
+        command: InstanceAgentCommand,
+        source: string
+    ): Promise<InstanceAgentCommandHandler | null> => {
+        for (const filter of dispatchFilters) {
+            if (!(await filter(command, source))) {
+                return null;
+            }
+        }
+
+        const activeCommand = client.getActiveCommand() ?? inFlightCommand;
+        const handler = handlers.get(normalizeCommandType(command.commandType)) ?? null;
+        if (activeCommand?.instanceCommandId === command.instanceCommandId) {
+            // Still listed as open because it is being handled. A managed command that is
+            // active but not running here was cut short by a restart.
+            if (
+                handler &&
+                !handler.selfManaged &&
+                inFlightCommand?.instanceCommandId !== command.instanceCommandId
+            ) {
+                await failCommand(
+                    command,
+                    'interrupted',
+                    'The signalling server restarted while the command was running.',
+                    'Failed'
+                );
+            }
+            return null;
+        }
+
+        if (!handler) {
+            await failCommand(
+                command,
+                'unsupported_command',
+                `Unsupported command type '${command.commandType}'.`,
+                'Failed'
+            );
+            return null;
+        }
+
+        if (activeCommand) {
+            await failCommand(
+                command,
+                'command_conflict',
+                `Instance command '${activeCommand.instanceCommandId}' is already active on this host.`,
+                'Cancelled'
+            );
+            return null;
+        }
+
+        const preconditionFailure = checkPreconditions(handler, command);
+        if (preconditionFailure) {
+            await failCommand(command, 'precondition_failed', preconditionFailure, 'Cancelled');
+            return null;
+        }
+
+        inFlightCommand = command;
+        return handler;
+    };
+
+    const runManaged = async (
+        handler: InstanceAgentCommandHandler,
+        command: InstanceAgentCommand,
+        source: string
+    ): Promise<void> => {
+        let payload: Record<string, unknown>;
+        try {
+            payload = parsePayload(command);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await failCommand(command, 'invalid_payload', message, 'Failed');
+            return;
+        }
+
+        const acknowledged = await client.acknowledgeCommand(command, {
+            occurredAtUtc: new Date().toISOString()
+        });
+        if (!acknowledged.accepted) {
+            log(
+                `[instance-agent-commands] Command ${command.instanceCommandId} was not acknowledged (status=${acknowledged.commandStatus}).`
+            );
+            return;
+        }
+        await client.startCommand(command, { occurredAtUtc: new Date().toISOString() });
+
+        const timeoutMs = resolveTimeoutMs(handler, command);
+        const abortController = new AbortController();
+        let timeoutTimer: NodeJS.Timeout | null = null;
+        const timedOut = new Promise<never>((_resolve, reject) => {
+            timeoutTimer = setTimeout(() => {
+                abortController.abort();
+                reject(new Error(`timed out after ${timeoutMs} ms`));
+            }, timeoutMs);
+        });
+
+        const running = Promise.resolve().then(() =>
+            handler.run(command, { payload, source, signal: abortController.signal, client })
+        );
+        let result: unknown;
+        try {
+            result = await Promise.race([running, timedOut]);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (abortController.signal.aborted) {
+                await failCommand(command, 'timeout', `Command ${message}.`, 'TimedOut');
+                log(
+                    `[instance-agent-commands] Waiting for the handler of timed out command ${command.instanceCommandId} to return.`
+                );
+                await running.catch(() => undefined);
+            } else {
+                await failCommand(command, 'handler_failed', message, 'Failed');
+            }
+            return;
+        } finally {
+            if (timeoutTimer) clearTimeout(timeoutTimer);
+        }
+
+        const resultFailure = validateInstanceAgentCommandResult(result ?? {}, handler.resultSchema);
+        if (resultFailure) {
+            await failCommand(command, 'invalid_result', resultFailure, 'Failed');
+            return;
+        }
+
+        await client.completeCommand(command, {
+            occurredAtUtc: new Date().toISOString(),
+            resultJson: JSON.stringify(result ?? {})
+        });
+    };
+
+    const dispatch = (command: InstanceAgentCommand, source: string): void => {
+        const admission = dispatchQueue.then(() => admit(command, source));
+        dispatchQueue = admission.then(
+            () => undefined,
+            () => undefined
+        );
+
+        void admission
+            .then(async (handler) => {
+                if (!handler) return;
+                try {
+                    if (handler.selfManaged) {
+                        await handler.run(command, {
+                            payload: parsePayloadOrEmpty(command),
+                            source,
+                            signal: new AbortController().signal,
+                            client
+                        });
+                    } else {
+                        await runManaged(handler, command, source);
+                    }
+                } finally {
+                    if (inFlightCommand?.instanceCommandId === command.instanceCommandId) {
+                        inFlightCommand = null;
+                    }
+                }
+            })
+            .catch((error) => {
+                const message = error instanceof Error ? error.message : String(error);
+                log(
+                    `[instance-agent-commands] Failed to dispatch command ${command.instanceCommandId} (${command.commandType}): ${message}`
+                );
+            });
+    };
+
+    client.addCommandListener((command, context) => dispatch(command, context.source));
+
+    return {
+        register(handler) {
+            const key = normalizeCommandType(handler.commandType);
+            if (!key) {
+                throw new Error('An instance command handler needs a command type.');
+            }
+            if (handlers.has(key)) {
+                throw new Error(
+                    `A handler for instance command '${handler.commandType}' is already registered.`
+                );
+            }
+            handlers.set(key, handler);
+            log(`[instance-agent-commands] Registered handler for '${handler.commandType}'.`);
+            return () => {
+                if (handlers.get(key) === handler) handlers.delete(key);
+            };
+        },
+        definePrecondition(name, check) {
+            preconditions.set(name, check);
+        },
+        addDispatchFilter(filter) {
+            dispatchFilters.push(filter);
+        },
+        getHandler: (commandType) => handlers.get(normalizeCommandType(commandType)) ?? null,
+        listCommandTypes: () => Array.from(handlers.values()).map((handler) => handler.commandType)
+    };
+}
@@ -1,7 +1,13 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
 import fs from 'fs';
 import path from 'path';
-import { Logger, SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import {
+    IDrainStatus,
+    ILogContext,
+    LogWithContext,
+    SetLogContext,
+    SignallingServer
+} from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
 import type { RuntimeStatusUpdate, SessionNetworkPathReport } from './runtime-status';
 import {
     normalizeInstanceAgentDesiredStateSnapshot,
@@ -34,10 +40,13 @@ import {
     type SessionScreenshotArtifactManager,
     type SessionScreenshotArtifactRuntimeOptions
 } from './session-screenshot-artifacts';
+import { createAwsInstanceIdentityProvider, type InstanceIdentityProvider } from './instance-identity';
+import {
+    isInstanceAgentCommandType,
+    RECYCLE_TO_WARM_COMMAND_TYPE,
+    SHUTDOWN_COMMAND_TYPE
+} from './instance-agent-commands';
 
-const IMDS_TOKEN_URL = 'http://169.254.169.254/latest/api/token';
-const IMDS_METADATA_BASE_URL = 'http://169.254.169.254/latest/meta-data';
-const IMDS_DYNAMIC_BASE_URL = 'http://169.254.169.254/latest/dynamic/instance-identity';
 const DEFAULT_HEARTBEAT_MS = 10_000;
 const DEFAULT_FAST_POLLING_INTERVAL_MS = 2_000;
 const DEFAULT_FAST_POLLING_WINDOW_MS = 20_000;
@@ -238,6 +247,8 @@ export interface InstanceAgentClientOptions {
     instanceId?: string;
     region?: string;
     requireIdentityProof?: boolean;
+    // Where the instance id, region and identity proof come from. Defaults to EC2 instance metadata.
+    identityProvider?: InstanceIdentityProvider;
     lane?: string;
     routeKey?: string;
     scopeValue?: string;
@@ -247,7 +258,7 @@ export interface InstanceAgentClientOptions {
     desiredStatePath?: string;
     sessionLogArtifacts?: SessionLogArtifactRuntimeOptions;
     sessionScreenshotArtifacts?: SessionScreenshotArtifactRuntimeOptions;
-    logger?: (message: string) => void;
+    logger?: (message: string, context?: ILogContext) => void;
 }
 
 function parseBoolean(rawValue: unknown, fallback: boolean): boolean {
@@ -591,7 +602,7 @@ function isRecycleToWarmCommand(
         | null
         | undefined
 ): boolean {
-    return normalizeOptionalText(command?.commandType)?.toLowerCase() === 'recycletowarm';
+    return isInstanceAgentCommandType(command, RECYCLE_TO_WARM_COMMAND_TYPE);
 }
 
 function isShutdownCommand(
@@ -601,7 +612,7 @@ function isShutdownCommand(
         | null
         | undefined
 ): boolean {
-    return normalizeOptionalText(command?.commandType)?.toLowerCase() === 'shutdown';
+    return isInstanceAgentCommandType(command, SHUTDOWN_COMMAND_TYPE);
 }
 
 async function describeErrorResponse(response: Response, action: string): Promise<string> {
@@ -637,39 +648,11 @@ async function describeErrorResponse(response: Response, action: string): Promis
     return `${action} failed with status ${response.status} at ${responseUrl}.${detail ? ` ${truncateDiagnosticText(detail)}` : ''}${hint}`;
 }
 
-async function readImdsToken(): Promise<string> {
-    const response = await fetch(IMDS_TOKEN_URL, {
-        method: 'PUT',
-        headers: { 'X-aws-ec2-metadata-token-ttl-seconds': '21600' }
-    });
-    if (!response.ok) throw new Error(`IMDSv2 token request failed with status ${response.status}.`);
-    return response.text();
-}
-
-async function readImdsValue(pathSuffix: string, token: string): Promise<string> {
-    const response = await fetch(`${IMDS_METADATA_BASE_URL}/${pathSuffix}`, {
-        headers: { 'X-aws-ec2-metadata-token': token }
-    });
-    if (!response.ok) throw new Error(`IMDS read for '${pathSuffix}' failed with status ${response.status}.`);
-    return response.text();
-}
-
-async function readImdsDynamicValue(pathSuffix: string, token: string): Promise<string> {
-    const response = await fetch(`${IMDS_DYNAMIC_BASE_URL}/${pathSuffix}`, {
-        headers: { 'X-aws-ec2-metadata-token': token }
-    });
-    if (!response.ok) {
-        throw new Error(`IMDS dynamic read for '${pathSuffix}' failed with status ${response.status}.`);
-    }
-
-    return response.text();
-}
-
 export function wireInstanceAgent(
     server: SignallingServer,
     options: InstanceAgentClientOptions = {}
 ): InstanceAgentClient | null {
-    const log = options.logger ?? ((message: string) => Logger.info(message));
+    const log = options.logger ?? LogWithContext;
     const enabled = parseBoolean(options.enabled ?? process.env.INSTANCE_AGENT_ENABLED ?? false, false);
     const apiBaseUrl = normalizeOptionalText(options.apiBaseUrl ?? process.env.INSTANCE_AGENT_API_BASE_URL);
     if (!enabled || !apiBaseUrl) {
@@ -692,6 +675,7 @@ export function wireInstanceAgent(
         options.requireIdentityProof ?? process.env.INSTANCE_AGENT_REQUIRE_IDENTITY_PROOF ?? false,
         false
     );
+    const identityProvider = options.identityProvider ?? createAwsInstanceIdentityProvider();
     const configuredLane = normalizeOptionalText(options.lane ?? process.env.INSTANCE_AGENT_LANE);
     const configuredRouteKey = normalizeOptionalText(
         options.routeKey ?? process.env.INSTANCE_AGENT_ROUTE_KEY
@@ -748,6 +732,7 @@ export function wireInstanceAgent(
     }
 
     if (activeCommand) {
+        SetLogContext({ instanceCommandId: activeCommand.instanceCommandId });
         log(
             `[instance-agent] Recovered active command ${activeCommand.instanceCommandId} (${activeCommand.commandType}, status=${activeCommand.status}, attempt=${activeCommand.attemptNumber}).`
         );
@@ -793,6 +778,7 @@ export function wireInstanceAgent(
             sessionId: sessionId ?? lastPlayerSessionContext.sessionId,
             sessionRequestId: sessionRequestId ?? lastPlayerSessionContext.sessionRequestId
         };
+        SetLogContext({ sessionRequestId: lastPlayerSessionContext.sessionRequestId });
     };
 
     const rememberShutdownCommandSessionContext = (command: InstanceAgentCommand): void => {
@@ -854,6 +840,8 @@ export function wireInstanceAgent(
             },
             log
         );
+        // log lines are tied to the command until it is cleared.
+        SetLogContext({ instanceCommandId: command.instanceCommandId });
 
         return activeCommand;
     };
@@ -862,6 +850,7 @@ export function wireInstanceAgent(
         activeCommand = null;
         recoveredActiveCommandId = null;
         clearInstanceAgentCommandJournalSnapshot(commandJournalPath, log);
+        SetLogContext({ instanceCommandId: undefined });
     };
 
     const applyDesiredState = (
@@ -1059,44 +1048,40 @@ export function wireInstanceAgent(
     const resolveBootstrapIdentity = async (): Promise<BootstrapIdentity> => {
         if (!bootstrapIdentityPromise) {
             bootstrapIdentityPromise = (async () => {
-                const tokenValue = await readImdsToken();
-                const [resolvedInstanceId, resolvedRegion, identityDocumentJson, identitySignature] =
-                    await Promise.all([
-                        configuredInstanceId
-                            ? Promise.resolve(configuredInstanceId)
-                            : readImdsValue('instance-id', tokenValue),
-                        configuredRegion
-                            ? Promise.resolve(configuredRegion)
-                            : readImdsValue('placement/region', tokenValue),
-                        readImdsDynamicValue('document', tokenValue),
-                        readImdsDynamicValue('signature', tokenValue)
-                    ]);
-
-                return {
-                    instanceId: resolvedInstanceId.trim(),
-                    region: resolvedRegion.trim(),
-                    identityDocumentJson: identityDocumentJson.trim(),
-                    identitySignature: identitySignature.trim()
-                };
-            })().catch((error) => {
-                bootstrapIdentityPromise = null;
-                const message = error instanceof Error ? error.message : String(error);
-                if (requireIdentityProof) {
-                    throw new Error(
-                        `EC2 identity proof is required for instance-agent bootstrap: ${message}`
-                    );
-                }
+                const { instanceId: resolvedInstanceId, region: resolvedRegion } =
+                    configuredInstanceId && configuredRegion
+                        ? { instanceId: configuredInstanceId, region: configuredRegion }
+                        : await identityProvider.getIdentity().then((identity) => ({
+                              instanceId: configuredInstanceId ?? identity.instanceId,
+                              region: configuredRegion ?? identity.region
+                          }));
+
+                try {
+                    const proof = await identityProvider.getIdentityProof();
+                    return {
+                        instanceId: resolvedInstanceId.trim(),
+                        region: resolvedRegion.trim(),
+                        identityDocumentJson: proof.identityDocumentJson.trim(),
+                        identitySignature: proof.identitySignature.trim()
+                    };
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    if (requireIdentityProof) {
+                        throw new Error(
+                            `Instance identity proof is required for instance-agent bootstrap: ${message}`
+                        );
+                    }
 
-                if (configuredInstanceId && configuredRegion) {
                     log(
-                        `[instance-agent] Could not attach EC2 identity proof during bootstrap; continuing with configured instance identity: ${message}`
+                        `[instance-agent] Could not attach ${identityProvider.kind} identity proof during bootstrap; continuing without it: ${message}`
                     );
                     return {
-                        instanceId: configuredInstanceId,
-                        region: configuredRegion
+                        instanceId: resolvedInstanceId.trim(),
+                        region: resolvedRegion.trim()
                     };
                 }
-
+            })().catch((error) => {
+                bootstrapIdentityPromise = null;
                 throw error;
             });
         }
@@ -1788,6 +1773,36 @@ export function wireInstanceAgent(
         requestFastPolling('viewer_disconnected');
     });
 
+    // draining follows drainEnabled in the desired state. only changes to it are acted on so a
+    // drain started from the REST API or the console is not undone by unrelated updates.
+    let appliedDrainEnabled = false;
+    const applyDrainEnabled = (desiredState: InstanceAgentDesiredStateSnapshot): void => {
+        if (desiredState.drainEnabled === appliedDrainEnabled) {
+            return;
+        }
+        appliedDrainEnabled = desiredState.drainEnabled;
+        if (desiredState.drainEnabled) {
+            server.drain.start(
+                desiredState.message || 'Drain requested by the desired state',
+                'instance-agent'
+            );
+        } else {
+            server.drain.stop('instance-agent');
+        }
+    };
+    applyDrainEnabled(currentDesiredState);
+    desiredStateListeners.add(applyDrainEnabled);
+    server.drain.on('started', (status: IDrainStatus) => {
+        queueEvent('drain_started', { ...status });
+    });
+    server.drain.on('stopped', (status: IDrainStatus) => {
+        queueEvent('drain_stopped', { ...status });
+    });
+    server.drain.on('drained', (status: IDrainStatus) => {
+        queueEvent('drain_completed', { ...status });
+        requestFastPolling('drain_completed');
+    });
+
     scheduleHeartbeat(heartbeatMs);
     void runTick();
 
@@ -0,0 +1,481 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { execFile } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_IMDS_BASE_URL = 'http://169.254.169.254/latest';
+const IMDS_TOKEN_TTL_SECONDS = '21600';
+const HTTP_TIMEOUT_MS = 10_000;
+
+export interface InstanceIdentity {
+    instanceId: string;
+    region: string;
+}
+
+/**
+ * A signed document proving which instance this is. On AWS these are the instance identity
+ * document and its signature.
+ */
+export interface InstanceIdentityProof {
+    identityDocumentJson: string;
+    identitySignature: string;
+}
+
+export interface InstanceTag {
+    Key: string;
+    Value: string;
+}
+
+/**
+ * Finds out which instance the server runs on and manages it: its tags and stopping it.
+ * Lets the instance agent, runtime status and idle stop run on hosts other than EC2.
+ */
+export interface InstanceIdentityProvider {
+    // 'aws', 'static' or 'http'. Shown in log lines.
+    kind: string;
+    getIdentity: () => Promise<InstanceIdentity>;
+    // Throws if the provider cannot prove the identity.
+    getIdentityProof: () => Promise<InstanceIdentityProof>;
+    // Returns null if the instance does not have the tag.
+    readTag: (key: string) => Promise<string | null>;
+    writeTags: (tags: InstanceTag[]) => Promise<void>;
+    // Asks for this instance to be stopped. Returns any output worth logging.
+    stopInstance: () => Promise<string | undefined>;
+}
+
+export interface InstanceIdentityProviderOptions {
+    // 'aws' (default), 'static' or 'http'.
+    type?: string;
+    // The AWS CLI executable used by 'aws' for tags and stopping.
+    awsCliPath?: string;
+    // The base of the metadata service used by 'aws'. Defaults to the IMDS address.
+    imdsBaseUrl?: string;
+    // The JSON file read by 'static'.
+    filePath?: string;
+    // The base URL of the identity server used by 'http'.
+    url?: string;
+}
+
+/**
+ * The contents of the file read by the static provider.
+ */
+export interface StaticInstanceIdentityFile {
+    instanceId: string;
+    region: string;
+    // The identity proof. Without it the provider cannot prove the identity.
+    identityDocument?: string | Record<string, unknown>;
+    identitySignature?: string;
+    // Tags of the instance. Tags written through the provider are saved here.
+    tags?: Record<string, string>;
+    // The command and arguments run to stop the instance. Stopping fails without it.
+    stopCommand?: string[];
+}
+
+function normalizeOptionalText(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+function writeJsonAtomic(filePath: string, value: unknown): void {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(value, null, 2), 'utf8');
+    fs.renameSync(tempPath, filePath);
+}
+
+function describeOutput(stdout: string, stderr: string): string | undefined {
+    const parts = [
+        stdout.trim() ? `output: ${stdout.trim()}` : '',
+        stderr.trim() ? `stderr: ${stderr.trim()}` : ''
+    ].filter((part) => part.length > 0);
+    return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+/**
+ * Reads the identity from the EC2 instance metadata service (IMDSv2) and manages tags
+ * and stopping through the AWS CLI.
+ */
+export function createAwsInstanceIdentityProvider(
+    options: Pick<InstanceIdentityProviderOptions, 'awsCliPath' | 'imdsBaseUrl'> = {}
+): InstanceIdentityProvider {
+    const awsCliPath = normalizeOptionalText(options.awsCliPath) ?? 'aws';
+    const imdsBaseUrl = (normalizeOptionalText(options.imdsBaseUrl) ?? DEFAULT_IMDS_BASE_URL).replace(
+        /\/+$/,
+        ''
+    );
+    let identityPromise: Promise<InstanceIdentity> | null = null;
+
+    const readToken = async (): Promise<string> => {
+        const response = await fetch(`${imdsBaseUrl}/api/token`, {
+            method: 'PUT',
+            headers: { 'X-aws-ec2-metadata-token-ttl-seconds': IMDS_TOKEN_TTL_SECONDS },
+            signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+        });
+        if (!response.ok) throw new Error(`IMDSv2 token request failed with status ${response.status}.`);
+        return response.text();
+    };
+
+    const readValue = async (pathSuffix: string, token: string): Promise<string> => {
+        const response = await fetch(`${imdsBaseUrl}/${pathSuffix}`, {
+            headers: { 'X-aws-ec2-metadata-token': token },
+            signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+        });
+        if (!response.ok)
+            throw new Error(`IMDS read for '${pathSuffix}' failed with status ${response.status}.`);
+        return (await response.text()).trim();
+    };
+
+    const getIdentity = (): Promise<InstanceIdentity> => {
+        if (!identityPromise) {
+            identityPromise = (async () => {
+                const token = await readToken();
+                const [instanceId, region] = await Promise.all([
+                    readValue('meta-data/instance-id', token),
+                    readValue('meta-data/placement/region', token)
+                ]);
+                return { instanceId, region };
+            })().catch((error) => {
+                identityPromise = null;
+                throw error;
+            });
+        }
+
+        return identityPromise;
+    };
+
+    return {
+        kind: 'aws',
+        getIdentity,
+        async getIdentityProof() {
+            const token = await readToken();
+            const [identityDocumentJson, identitySignature] = await Promise.all([
+                readValue('dynamic/instance-identity/document', token),
+                readValue('dynamic/instance-identity/signature', token)
+            ]);
+            return { identityDocumentJson, identitySignature };
+        },
+        async readTag(key) {
+            const { instanceId, region } = await getIdentity();
+            const args = [
+                'ec2',
+                'describe-tags',
+                '--region',
+                region,
+                '--filters',
+                `Name=resource-id,Values=${instanceId}`,
+                `Name=key,Values=${key}`,
+                '--query',
+                'Tags[0].Value',
+                '--output',
+                'text'
+            ];
+            const { stdout } = await execFileAsync(awsCliPath, args, { windowsHide: true });
+            const normalized = stdout.trim();
+            if (
+                normalized.length === 0 ||
+                normalized.toLowerCase() === 'none' ||
+                normalized.toLowerCase() === 'null'
+            ) {
+                return null;
+            }
+
+            return normalized;
+        },
+        async writeTags(tags) {
+            const { instanceId, region } = await getIdentity();
+            // the tags are passed in a file so values do not need escaping for the shell.
+            const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sw-instance-tags-'));
+            const tagPayloadPath = path.join(tempDir, 'tags.json');
+            const args = [
+                'ec2',
+                'create-tags',
+                '--region',
+                region,
+                '--resources',
+                instanceId,
+                '--tags',
+                `file://${tagPayloadPath}`
+            ];
+
+            try {
+                await fs.promises.writeFile(tagPayloadPath, JSON.stringify(tags), 'utf8');
+                await execFileAsync(awsCliPath, args, { windowsHide: true });
+            } finally {
+                await fs.promises.rm(tempDir, { recursive: true, force: true });
+            }
+        },
+        async stopInstance() {
+            const { instanceId, region } = await getIdentity();
+            const args = ['ec2', 'stop-instances', '--region', region, '--instance-ids', instanceId];
+            const { stdout, stderr } = await execFileAsync(awsCliPath, args, { windowsHide: true });
+            return describeOutput(stdout, stderr);
+        }
+    };
+}
+
+/**
+ * Reads the identity from a JSON file, for hosts without a metadata service such as
+ * on-prem machines. Tags are kept in the same file. See StaticInstanceIdentityFile.
+ * @param filePath - The file to read. It is read on every call so it can be edited while running.
+ */
+export function createStaticInstanceIdentityProvider(filePath: string): InstanceIdentityProvider {
+    const readFile = (): StaticInstanceIdentityFile => {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<StaticInstanceIdentityFile>;
+        const instanceId = normalizeOptionalText(parsed.instanceId);
+        const region = normalizeOptionalText(parsed.region);
+        if (!instanceId || !region) {
+            throw new Error(`Instance identity file ${filePath} needs an instanceId and a region.`);
+        }
+        return { ...parsed, instanceId, region };
+    };
+
+    return {
+        kind: 'static',
+        getIdentity() {
+            return Promise.resolve().then(() => {
+                const { instanceId, region } = readFile();
+                return { instanceId, region };
+            });
+        },
+        getIdentityProof() {
+            return Promise.resolve().then(() => {
+                const contents = readFile();
+                let identityDocumentJson = contents.identityDocument;
+                if (identityDocumentJson && typeof identityDocumentJson !== 'string') {
+                    identityDocumentJson = JSON.stringify(identityDocumentJson);
+                }
+                if (!identityDocumentJson || !contents.identitySignature) {
+                    throw new Error(`Instance identity file ${filePath} has no identity proof.`);
+                }
+                return { identityDocumentJson, identitySignature: contents.identitySignature };
+            });
+        },
+        readTag(key) {
+            return Promise.resolve().then(() => readFile().tags?.[key] ?? null);
+        },
+        writeTags(tags) {
+            return Promise.resolve().then(() => {
+                const contents = readFile();
+                contents.tags = { ...(contents.tags ?? {}) };
+                for (const tag of tags) {
+                    contents.tags[tag.Key] = tag.Value;
+                }
+                writeJsonAtomic(filePath, contents);
+            });
+        },
+        async stopInstance() {
+            const [command, ...args] = readFile().stopCommand ?? [];
+            if (!command) {
+                throw new Error(`Instance identity file ${filePath} has no stopCommand.`);
+            }
+            const { stdout, stderr } = await execFileAsync(command, args, { windowsHide: true });
+            return describeOutput(stdout, stderr);
+        }
+    };
+}
+
+/**
+ * Talks to an identity server over HTTP. The server answers:
+ *   GET  /identity       with instanceId and region
+ *   GET  /identity/proof with identityDocumentJson and identitySignature, 404 without a proof
+ *   GET  /tags/<key>     with value, 404 when the tag is not set
+ *   PUT  /tags           taking a JSON array of Key and Value pairs
+ *   POST /stop
+ * createFakeInstanceIdentityServer hosts such a server for tests and CI.
+ * @param url - The base URL of the server.
+ */
+export function createHttpInstanceIdentityProvider(url: string): InstanceIdentityProvider {
+    const baseUrl = url.replace(/\/+$/, '');
+
+    const request = async (method: string, pathSuffix: string, body?: unknown): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${pathSuffix}`, {
+            method,
+            headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+        });
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`Identity server ${method} ${pathSuffix} failed with status ${response.status}.`);
+        }
+        return response;
+    };
+
+    const readJson = async <T>(pathSuffix: string): Promise<T | null> => {
+        const response = await request('GET', pathSuffix);
+        return response.status === 404 ? null : ((await response.json()) as T);
+    };
+
+    return {
+        kind: 'http',
+        async getIdentity() {
+            const identity = await readJson<Partial<InstanceIdentity>>('/identity');
+            const instanceId = normalizeOptionalText(identity?.instanceId);
+            const region = normalizeOptionalText(identity?.region);
+            if (!instanceId || !region) {
+                throw new Error(`Identity server ${baseUrl} did not return an instanceId and a region.`);
+            }
+            return { instanceId, region };
+        },
+        async getIdentityProof() {
+            const proof = await readJson<Partial<InstanceIdentityProof>>('/identity/proof');
+            if (!proof?.identityDocumentJson || !proof.identitySignature) {
+                throw new Error(`Identity server ${baseUrl} has no identity proof.`);
+            }
+            return {
+                identityDocumentJson: proof.identityDocumentJson,
+                identitySignature: proof.identitySignature
+            };
+        },
+        async readTag(key) {
+            const tag = await readJson<{ value?: unknown }>(`/tags/${encodeURIComponent(key)}`);
+            return typeof tag?.value === 'string' ? tag.value : null;
+        },
+        async writeTags(tags) {
+            await request('PUT', '/tags', tags);
+        },
+        async stopInstance() {
+            await request('POST', '/stop');
+            return undefined;
+        }
+    };
+}
+
+/**
+ * The state of a fake identity server. Tests can change it directly.
+ */
+export interface FakeInstanceIdentityState {
+    identity: InstanceIdentity;
+    proof?: InstanceIdentityProof;
+    tags: Record<string, string>;
+    // How many times stopping was requested and when it last was.
+    stopCount: number;
+    lastStopRequestedAtUtc?: string;
+}
+
+export interface FakeInstanceIdentityServer {
+    url: string;
+    state: FakeInstanceIdentityState;
+    // Resolves once the server is listening.
+    ready: Promise<void>;
+    close: () => Promise<void>;
+}
+
+/**
+ * Hosts the identity server protocol expected by createHttpInstanceIdentityProvider with
+ * state kept in memory. Stopping is only recorded. Also answers GET /state with the whole
+ * state so tests can check what was written.
+ * @param port - The port to listen on. 0 picks a free port, which url reflects once ready.
+ */
+export function createFakeInstanceIdentityServer(
+    port: number,
+    initialState: Partial<FakeInstanceIdentityState> = {}
+): FakeInstanceIdentityServer {
+    const state: FakeInstanceIdentityState = {
+        identity: { instanceId: 'i-local', region: 'local' },
+        tags: {},
+        stopCount: 0,
+        ...initialState
+    };
+
+    const send = (response: http.ServerResponse, status: number, body?: unknown): void => {
+        if (body === undefined) {
+            response.writeHead(status);
+            response.end();
+            return;
+        }
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    };
+
+    const server = http.createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+        request.on('end', () => {
+            const pathname = new URL(request.url ?? '/', 'http://localhost').pathname;
+            try {
+                if (request.method === 'GET' && pathname === '/identity') {
+                    return send(response, 200, state.identity);
+                }
+                if (request.method === 'GET' && pathname === '/identity/proof') {
+                    return state.proof ? send(response, 200, state.proof) : send(response, 404);
+                }
+                if (request.method === 'GET' && pathname.startsWith('/tags/')) {
+                    const key = decodeURIComponent(pathname.slice('/tags/'.length));
+                    return key in state.tags
+                        ? send(response, 200, { value: state.tags[key] })
+                        : send(response, 404);
+                }
+                if (request.method === 'PUT' && pathname === '/tags') {
+                    const tags = JSON.parse(Buffer.concat(chunks).toString('utf8')) as InstanceTag[];
+                    for (const tag of tags) {
+                        state.tags[String(tag.Key)] = String(tag.Value);
+                    }
+                    return send(response, 204);
+                }
+                if (request.method === 'POST' && pathname === '/stop') {
+                    state.stopCount += 1;
+                    state.lastStopRequestedAtUtc = new Date().toISOString();
+                    return send(response, 204);
+                }
+                if (request.method === 'GET' && pathname === '/state') {
+                    return send(response, 200, state);
+                }
+                send(response, 404);
+            } catch (error) {
+                send(response, 400, { error: error instanceof Error ? error.message : String(error) });
+            }
+        });
+    });
+
+    const fake: FakeInstanceIdentityServer = {
+        url: `http://127.0.0.1:${port}`,
+        state,
+        ready: new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                const address = server.address();
+                if (address && typeof address === 'object') {
+                    fake.url = `http://127.0.0.1:${address.port}`;
+                }
+                resolve();
+            });
+        }),
+        close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+    };
+    return fake;
+}
+
+/**
+ * Creates the provider described by the options.
+ * @returns The provider. Throws if the options do not describe a usable provider.
+ */
+export function createInstanceIdentityProvider(
+    options: InstanceIdentityProviderOptions = {}
+): InstanceIdentityProvider {
+    const type = (normalizeOptionalText(options.type) ?? 'aws').toLowerCase();
+    switch (type) {
+        case 'aws':
+            return createAwsInstanceIdentityProvider(options);
+        case 'static': {
+            const filePath = normalizeOptionalText(options.filePath);
+            if (!filePath) {
+                throw new Error("Instance identity provider 'static' needs an identity file.");
+            }
+            return createStaticInstanceIdentityProvider(path.resolve(filePath));
+        }
+        case 'http': {
+            const url = normalizeOptionalText(options.url);
+            if (!url) {
+                throw new Error("Instance identity provider 'http' needs an identity server URL.");
+            }
+            return createHttpInstanceIdentityProvider(url);
+        }
+        default:
+            throw new Error(`Unknown instance identity provider '${type}'.`);
+    }
+}
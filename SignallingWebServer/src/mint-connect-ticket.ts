@@ -0,0 +1,226 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Command, Option } from 'commander';
+
+// Mints connect tickets for testing, like mint-prod-dark-connect-ticket.ps1 but without the
+// AWS lookups, and for RS256 and ES256 as well as HS256. It can also create test key pairs
+// and the JWKS file the signalling server reads them from.
+//
+// usage:
+//   node dist/mint-connect-ticket.js --generate_keys <dir> [--alg ES256] [--kid key-2]
+//   node dist/mint-connect-ticket.js --instance_id i-123 --user_email a@b.c --private_key <dir>/key-2.pem --kid key-2
+
+type TicketAlg = 'HS256' | 'RS256' | 'ES256';
+
+interface MintOptions {
+    instance_id?: string;
+    user_email?: string;
+    route_key: string;
+    group_id: string;
+    region: string;
+    issuer: string;
+    audience: string;
+    route_host_suffix: string;
+    ttl_seconds: string;
+    alg: TicketAlg;
+    kid: string;
+    private_key: string;
+    signing_key: string;
+    generate_keys: string;
+    show_raw_token: boolean;
+}
+
+function toBase64Url(data: Buffer | string): string {
+    return Buffer.from(data).toString('base64url');
+}
+
+function normalizeRouteKey(value: string): string {
+    const input = value.trim().toLowerCase();
+    if (!input) {
+        throw new Error('Route key must not be empty.');
+    }
+
+    let normalized = '';
+    let previousWasDash = false;
+    for (const c of input) {
+        if ((c >= 'a' && c <= 'z') || (c >= '0' && c <= '9')) {
+            normalized += c;
+            previousWasDash = false;
+            continue;
+        }
+
+        if (!previousWasDash) {
+            normalized += '-';
+            previousWasDash = true;
+        }
+    }
+
+    normalized = normalized.replace(/^-+/, '').replace(/-+$/, '');
+    if (!normalized) {
+        throw new Error(`Route key '${value}' is invalid after normalization.`);
+    }
+    if (normalized.length > 63) {
+        throw new Error(`Route key '${normalized}' exceeds the DNS label length limit (63).`);
+    }
+    return normalized;
+}
+
+function sign(alg: TicketAlg, signingInput: string, options: MintOptions): Buffer {
+    if (alg === 'HS256') {
+        const signingKey = options.signing_key || process.env.CONNECT_TICKET_SIGNING_KEY || '';
+        if (!signingKey.trim()) {
+            throw new Error('HS256 tickets need --signing_key or CONNECT_TICKET_SIGNING_KEY.');
+        }
+        return crypto.createHmac('sha256', signingKey.trim()).update(signingInput).digest();
+    }
+
+    if (!options.private_key) {
+        throw new Error(`${alg} tickets need --private_key.`);
+    }
+    const key = crypto.createPrivateKey(fs.readFileSync(options.private_key, 'utf8'));
+    return crypto.sign(
+        'sha256',
+        Buffer.from(signingInput),
+        alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key
+    );
+}
+
+// writes a new key pair and adds its public key to jwks.json in the directory. keys already
+// in jwks.json are kept so tickets signed with them stay valid while keys are rotated.
+function generateKeys(directory: string, alg: TicketAlg, kid: string): void {
+    if (alg === 'HS256') {
+        throw new Error('--generate_keys creates RS256 or ES256 keys.');
+    }
+
+    const keyId = kid || `${alg.toLowerCase()}-${Date.now()}`;
+    const { privateKey, publicKey } =
+        alg === 'RS256'
+            ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+            : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    fs.mkdirSync(directory, { recursive: true });
+    const privateKeyPath = path.join(directory, `${keyId}.pem`);
+    fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+    const jwksPath = path.join(directory, 'jwks.json');
+    const jwks = fs.existsSync(jwksPath)
+        ? (JSON.parse(fs.readFileSync(jwksPath, 'utf8')) as { keys: object[] })
+        : { keys: [] };
+    jwks.keys.push({ ...publicKey.export({ format: 'jwk' }), kid: keyId, alg, use: 'sig' });
+    fs.writeFileSync(jwksPath, JSON.stringify(jwks, null, 2));
+
+    console.log(`Private key: ${privateKeyPath}`);
+    console.log(`JWKS: ${jwksPath} (${jwks.keys.length} key(s))`);
+    console.log(`Key id: ${keyId}`);
+}
+
+function mint(options: MintOptions): void {
+    const ttlSeconds = Number.parseInt(options.ttl_seconds, 10);
+    if (Number.isNaN(ttlSeconds) || ttlSeconds < 30 || ttlSeconds > 600) {
+        throw new Error('ttl_seconds must be between 30 and 600.');
+    }
+    if (!options.instance_id?.trim() || !options.user_email?.trim()) {
+        throw new Error('--instance_id and --user_email are required.');
+    }
+
+    const instanceId = options.instance_id.trim();
+    const routeKeySource = options.route_key.trim() ? 'explicit parameter' : 'instance-id fallback';
+    const routeKey = normalizeRouteKey(options.route_key.trim() || instanceId);
+    const now = Math.floor(Date.now() / 1000);
+    const expires = now + ttlSeconds;
+
+    const header: Record<string, string> = { alg: options.alg, typ: 'JWT' };
+    if (options.kid.trim()) {
+        header.kid = options.kid.trim();
+    }
+    const payload = {
+        sub: options.user_email.trim(),
+        instanceId,
+        routeKey,
+        region: options.region.trim(),
+        groupId: options.group_id.trim(),
+        jti: crypto.randomUUID().replace(/-/g, ''),
+        iss: options.issuer.trim(),
+        aud: options.audience.trim(),
+        nbf: now - 5,
+        exp: expires
+    };
+
+    const signingInput = `${toBase64Url(JSON.stringify(header))}.${toBase64Url(JSON.stringify(payload))}`;
+    const token = `${signingInput}.${toBase64Url(sign(options.alg, signingInput, options))}`;
+    const host = `${routeKey}.${options.route_host_suffix.trim().replace(/^\.+|\.+$/g, '')}`;
+
+    console.log('');
+    console.log(`InstanceId: ${instanceId}`);
+    console.log(`Region: ${payload.region}`);
+    console.log(`RouteKey: ${routeKey} (${routeKeySource})`);
+    console.log(`Issuer: ${payload.iss}`);
+    console.log(`Audience: ${payload.aud}`);
+    console.log(`Alg: ${options.alg}${header.kid ? ` (kid ${header.kid})` : ''}`);
+    console.log(`ExpiresAtUtc: ${new Date(expires * 1000).toISOString()}`);
+    console.log('');
+    console.log('Open this URL:');
+    console.log(`https://${host}/player.html?ct=${encodeURIComponent(token)}`);
+    console.log('');
+    if (options.show_raw_token) {
+        console.log('Raw token:');
+        console.log(token);
+    } else {
+        console.log(
+            'Raw token output suppressed. Pass --show_raw_token only when token inspection is required.'
+        );
+    }
+}
+
+const program = new Command()
+    .name('node dist/mint-connect-ticket.js')
+    .description('Mints connect tickets for testing.')
+    .option('--instance_id <value>', 'The instanceId claim.')
+    .option('--user_email <value>', 'The sub claim.')
+    .option('--route_key <value>', 'The routeKey claim. Defaults to the instance id.', '')
+    .option('--group_id <value>', 'The groupId claim.', 'admin')
+    .option(
+        '--region <value>',
+        'The region claim.',
+        process.env.SCALEWORLD_AWS_REGION ||
+            process.env.AWS_REGION ||
+            process.env.AWS_DEFAULT_REGION ||
+            'eu-north-1'
+    )
+    .option('--issuer <value>', 'The iss claim.', 'scaleworld-prod-connect-ticket')
+    .option('--audience <value>', 'The aud claim.', 'scaleworld-pixelstreaming')
+    .option('--route_host_suffix <value>', 'Host suffix of the player URL.', 'stream.scaleworld.net')
+    .option('--ttl_seconds <number>', 'Seconds until the ticket expires. 30 to 600.', '90')
+    .addOption(
+        new Option('--alg <alg>', 'The signing algorithm.')
+            .choices(['HS256', 'RS256', 'ES256'])
+            .default('ES256')
+    )
+    .option('--kid <value>', 'The key id put in the ticket header, or given to generated keys.', '')
+    .option('--private_key <path>', 'PEM private key for RS256 and ES256 tickets.', '')
+    .option(
+        '--signing_key <value>',
+        'HMAC key for HS256 tickets. Defaults to CONNECT_TICKET_SIGNING_KEY.',
+        ''
+    )
+    .option(
+        '--generate_keys <dir>',
+        'Creates a key pair and adds its public key to <dir>/jwks.json instead of minting.',
+        ''
+    )
+    .option('--show_raw_token', 'Prints the raw token as well as the URL.', false)
+    .parse();
+
+const options = program.opts<MintOptions>();
+try {
+    if (options.generate_keys) {
+        generateKeys(options.generate_keys, options.alg, options.kid.trim());
+    } else {
+        mint(options);
+    }
+} catch (error: unknown) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+}
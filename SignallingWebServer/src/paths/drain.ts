@@ -0,0 +1,121 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { sendAdminResult } from '../AdminAuth';
+
+/* eslint-disable @typescript-eslint/no-unsafe-argument,
+                  @typescript-eslint/no-unsafe-call,
+                  @typescript-eslint/no-unsafe-member-access */
+
+export default function (signallingServer: SignallingServer) {
+    const operations = {
+        GET,
+        POST,
+        DELETE
+    };
+
+    function GET(req: any, res: any, _next: any) {
+        res.status(200).json(signallingServer.drain.describe());
+    }
+
+    function POST(req: any, res: any, _next: any) {
+        const reason =
+            typeof req.body?.reason === 'string' && req.body.reason.trim()
+                ? String(req.body.reason).trim()
+                : 'Drain requested through the REST API';
+        const started = signallingServer.drain.start(reason, 'rest');
+        sendAdminResult(
+            res,
+            'ok',
+            started ? 'The server is now draining.' : 'The server was already draining.',
+            { drain: signallingServer.drain.describe() }
+        );
+    }
+
+    function DELETE(req: any, res: any, _next: any) {
+        const stopped = signallingServer.drain.stop('rest');
+        sendAdminResult(
+            res,
+            'ok',
+            stopped ? 'The server is accepting new players again.' : 'The server was not draining.',
+            { drain: signallingServer.drain.describe() }
+        );
+    }
+
+    GET.apiDoc = {
+        summary: 'Returns the drain state of the server and how many players remain',
+        operationId: 'getDrain',
+        responses: {
+            200: {
+                description: 'The drain state',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/Drain'
+                        }
+                    }
+                }
+            }
+        }
+    };
+
+    POST.apiDoc = {
+        summary: 'Starts draining the server. New players and subscriptions are refused',
+        operationId: 'startDrain',
+        security: [{ adminBearer: [] }],
+        requestBody: {
+            required: false,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            reason: {
+                                type: 'string',
+                                description:
+                                    'Why the server is being drained. Logged and reported in the drain state'
+                            }
+                        }
+                    }
+                }
+            }
+        },
+        responses: {
+            200: {
+                description: 'The server is draining. The result carries the drain state',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            }
+        }
+    };
+
+    DELETE.apiDoc = {
+        summary: 'Stops draining the server',
+        operationId: 'stopDrain',
+        security: [{ adminBearer: [] }],
+        responses: {
+            200: {
+                description: 'The server is accepting new players. The result carries the drain state',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            }
+        }
+    };
+
+    return operations;
+}
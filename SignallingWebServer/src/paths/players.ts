@@ -20,13 +20,13 @@ export default function (signallingServer: SignallingServer) {
         operationId: 'getPlayers',
         responses: {
             200: {
-                description: 'List of player IDs',
+                description: 'List of players',
                 content: {
                     'application/json': {
                         schema: {
                             type: 'array',
                             items: {
-                                type: 'string'
+                                $ref: '#/components/schemas/Player'
                             }
                         }
                     }
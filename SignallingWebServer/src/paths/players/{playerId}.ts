@@ -1,13 +1,16 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
-import { SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { SignallingServer, kickPlayer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { sendAdminResult } from '../../AdminAuth';
 
 /* eslint-disable @typescript-eslint/no-unsafe-argument,
+                  @typescript-eslint/no-unsafe-assignment,
                   @typescript-eslint/no-unsafe-call,
                   @typescript-eslint/no-unsafe-member-access */
 
 export default function (signallingServer: SignallingServer) {
     const operations = {
-        GET
+        GET,
+        DELETE
     };
 
     function GET(req: any, res: any, _next: any) {
@@ -18,6 +21,16 @@ export default function (signallingServer: SignallingServer) {
         res.status(200).json(player.getPlayerInfo());
     }
 
+    function DELETE(req: any, res: any, _next: any) {
+        const reason = req.query.reason || 'Disconnected by an operator.';
+        const status = kickPlayer(signallingServer, req.params.playerId, reason);
+        if (status != 'ok') {
+            sendAdminResult(res, status, `No player ID matches ${req.params.playerId}.`);
+            return;
+        }
+        sendAdminResult(res, status, `Player ${req.params.playerId} was disconnected.`);
+    }
+
     GET.apiDoc = {
         summary: 'Returns a single player',
         operationId: 'getOnePlayer',
@@ -45,5 +58,48 @@ export default function (signallingServer: SignallingServer) {
         }
     };
 
+    DELETE.apiDoc = {
+        summary: 'Disconnects a player',
+        operationId: 'kickPlayer',
+        security: [{ adminBearer: [] }],
+        parameters: [
+            {
+                name: 'playerId',
+                in: 'path',
+                required: true,
+                schema: {
+                    type: 'string'
+                }
+            },
+            {
+                name: 'reason',
+                in: 'query',
+                required: false,
+                description: 'The close reason sent to the player',
+                schema: {
+                    type: 'string'
+                }
+            }
+        ],
+        responses: {
+            200: {
+                description: 'Player was disconnected',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            },
+            404: {
+                $ref: '#/components/responses/AdminNotFound'
+            }
+        }
+    };
+
     return operations;
 }
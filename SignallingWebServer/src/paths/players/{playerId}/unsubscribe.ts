@@ -0,0 +1,87 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { SignallingServer, unsubscribePlayer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { sendAdminResult } from '../../../AdminAuth';
+
+/* eslint-disable @typescript-eslint/no-unsafe-argument,
+                  @typescript-eslint/no-unsafe-assignment,
+                  @typescript-eslint/no-unsafe-member-access */
+
+export default function (signallingServer: SignallingServer) {
+    const operations = {
+        POST
+    };
+
+    function POST(req: any, res: any, _next: any) {
+        const playerId = req.params.playerId;
+        const status = unsubscribePlayer(signallingServer, playerId, req.body?.message);
+        switch (status) {
+            case 'ok':
+                sendAdminResult(res, status, `Player ${playerId} was unsubscribed.`);
+                break;
+            case 'not_found':
+                sendAdminResult(res, status, `No player ID matches ${playerId}.`);
+                break;
+            case 'not_local':
+                sendAdminResult(res, status, `Player ${playerId} is connected to another signalling node.`);
+                break;
+            case 'not_subscribed':
+                sendAdminResult(res, status, `Player ${playerId} is not subscribed to a streamer.`);
+                break;
+        }
+    }
+
+    POST.apiDoc = {
+        summary: 'Unsubscribes a player from its streamer',
+        operationId: 'unsubscribePlayer',
+        security: [{ adminBearer: [] }],
+        parameters: [
+            {
+                name: 'playerId',
+                in: 'path',
+                required: true,
+                schema: {
+                    type: 'string'
+                }
+            }
+        ],
+        requestBody: {
+            required: false,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            message: {
+                                type: 'string',
+                                description: 'An operator notice sent to the player after it is unsubscribed'
+                            }
+                        }
+                    }
+                }
+            }
+        },
+        responses: {
+            200: {
+                description: 'Player was unsubscribed',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            },
+            404: {
+                $ref: '#/components/responses/AdminNotFound'
+            },
+            409: {
+                $ref: '#/components/responses/AdminConflict'
+            }
+        }
+    };
+
+    return operations;
+}
@@ -19,6 +19,7 @@ export default function (signallingServer: SignallingServer) {
             uptime: uptime,
             streamer_count: signallingServer.streamerRegistry.count(),
             player_count: signallingServer.playerRegistry.count(),
+            draining: signallingServer.drain.draining,
             // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
             version: pjson.version
         });
@@ -44,6 +45,9 @@ export default function (signallingServer: SignallingServer) {
                                 player_count: {
                                     type: 'number'
                                 },
+                                draining: {
+                                    type: 'boolean'
+                                },
                                 version: {
                                     type: 'string'
                                 }
@@ -10,14 +10,38 @@ export default function (signallingServer: SignallingServer) {
     };
 
     function GET(req: any, res: any, _next: any) {
+        // every entry carries the routing policy so clients can see how players are placed.
+        const routingPolicy = signallingServer.streamerHealth.policy;
+        const tags = ([] as string[]).concat((req.query.tag as string | string[] | undefined) ?? []);
         res.status(200).json(
-            signallingServer.streamerRegistry.streamers.map((streamer) => streamer.getStreamerInfo())
+            signallingServer.streamerRegistry.streamers
+                .filter((streamer) => tags.every((tag) => streamer.tags.includes(tag)))
+                .map((streamer) => ({
+                    ...streamer.getStreamerInfo(),
+                    routingPolicy
+                }))
         );
     }
 
     GET.apiDoc = {
         summary: 'Returns list of streamers',
         operationId: 'getStreamers',
+        parameters: [
+            {
+                name: 'tag',
+                in: 'query',
+                required: false,
+                description: 'Only list streamers with this tag. May be repeated to require several tags',
+                schema: {
+                    type: 'array',
+                    items: {
+                        type: 'string'
+                    }
+                },
+                style: 'form',
+                explode: true
+            }
+        ],
         responses: {
             200: {
                 description: 'List of streamers',
@@ -26,7 +50,7 @@ export default function (signallingServer: SignallingServer) {
                         schema: {
                             type: 'array',
                             items: {
-                                type: 'string'
+                                $ref: '#/components/schemas/Streamer'
                             }
                         }
                     }
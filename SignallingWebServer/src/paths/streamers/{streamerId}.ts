@@ -1,13 +1,16 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
-import { SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { SignallingServer, disconnectStreamer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { sendAdminResult } from '../../AdminAuth';
 
 /* eslint-disable @typescript-eslint/no-unsafe-argument,
+                  @typescript-eslint/no-unsafe-assignment,
                   @typescript-eslint/no-unsafe-call,
                   @typescript-eslint/no-unsafe-member-access */
 
 export default function (signallingServer: SignallingServer) {
     const operations = {
-        GET
+        GET,
+        DELETE
     };
 
     function GET(req: any, res: any, _next: any) {
@@ -18,6 +21,16 @@ export default function (signallingServer: SignallingServer) {
         res.status(200).json(streamer.getStreamerInfo());
     }
 
+    function DELETE(req: any, res: any, _next: any) {
+        const reason = req.query.reason || 'Disconnected by an operator.';
+        const status = disconnectStreamer(signallingServer, req.params.streamerId, reason);
+        if (status != 'ok') {
+            sendAdminResult(res, status, `No streamer id matches ${req.params.streamerId}.`);
+            return;
+        }
+        sendAdminResult(res, status, `Streamer ${req.params.streamerId} was disconnected.`);
+    }
+
     GET.apiDoc = {
         summary: 'Returns a single streamer',
         operationId: 'getOneStreamer',
@@ -45,5 +58,48 @@ export default function (signallingServer: SignallingServer) {
         }
     };
 
+    DELETE.apiDoc = {
+        summary: 'Disconnects a streamer and its subscribers',
+        operationId: 'disconnectStreamer',
+        security: [{ adminBearer: [] }],
+        parameters: [
+            {
+                name: 'streamerId',
+                in: 'path',
+                required: true,
+                schema: {
+                    type: 'string'
+                }
+            },
+            {
+                name: 'reason',
+                in: 'query',
+                required: false,
+                description: 'The close reason sent to the streamer',
+                schema: {
+                    type: 'string'
+                }
+            }
+        ],
+        responses: {
+            200: {
+                description: 'Streamer was disconnected',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            },
+            404: {
+                $ref: '#/components/responses/AdminNotFound'
+            }
+        }
+    };
+
     return operations;
 }
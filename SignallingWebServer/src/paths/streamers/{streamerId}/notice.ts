@@ -0,0 +1,79 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { SignallingServer, broadcastOperatorNotice } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { sendAdminResult } from '../../../AdminAuth';
+
+/* eslint-disable @typescript-eslint/no-unsafe-argument,
+                  @typescript-eslint/no-unsafe-assignment,
+                  @typescript-eslint/no-unsafe-member-access */
+
+export default function (signallingServer: SignallingServer) {
+    const operations = {
+        POST
+    };
+
+    function POST(req: any, res: any, _next: any) {
+        const streamerId = req.params.streamerId;
+        const result = broadcastOperatorNotice(signallingServer, streamerId, req.body.message);
+        if (result.status != 'ok') {
+            sendAdminResult(res, result.status, `No streamer id matches ${streamerId}.`);
+            return;
+        }
+        sendAdminResult(res, result.status, `Notice sent to ${result.recipients} player(s).`, {
+            recipients: result.recipients
+        });
+    }
+
+    POST.apiDoc = {
+        summary: 'Sends an operator notice to every player subscribed to a streamer',
+        operationId: 'broadcastOperatorNotice',
+        security: [{ adminBearer: [] }],
+        parameters: [
+            {
+                name: 'streamerId',
+                in: 'path',
+                required: true,
+                schema: {
+                    type: 'string'
+                }
+            }
+        ],
+        requestBody: {
+            required: true,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            message: {
+                                type: 'string',
+                                minLength: 1,
+                                description: 'The text of the notice'
+                            }
+                        },
+                        required: ['message']
+                    }
+                }
+            }
+        },
+        responses: {
+            200: {
+                description: 'Notice was sent',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            },
+            404: {
+                $ref: '#/components/responses/AdminNotFound'
+            }
+        }
+    };
+
+    return operations;
+}
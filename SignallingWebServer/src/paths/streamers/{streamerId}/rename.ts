@@ -0,0 +1,92 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { SignallingServer, renameStreamer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { sendAdminResult } from '../../../AdminAuth';
+
+/* eslint-disable @typescript-eslint/no-unsafe-argument,
+                  @typescript-eslint/no-unsafe-assignment,
+                  @typescript-eslint/no-unsafe-member-access */
+
+export default function (signallingServer: SignallingServer) {
+    const operations = {
+        POST
+    };
+
+    function POST(req: any, res: any, _next: any) {
+        const streamerId = req.params.streamerId;
+        const result = renameStreamer(signallingServer, streamerId, req.body.streamerId);
+        switch (result.status) {
+            case 'ok':
+                sendAdminResult(res, result.status, `Streamer ${streamerId} is now ${result.streamerId}.`, {
+                    streamerId: result.streamerId
+                });
+                break;
+            case 'not_local':
+                sendAdminResult(
+                    res,
+                    result.status,
+                    `Streamer ${streamerId} is connected to another signalling node.`
+                );
+                break;
+            default:
+                sendAdminResult(res, result.status, `No streamer id matches ${streamerId}.`);
+                break;
+        }
+    }
+
+    POST.apiDoc = {
+        summary: 'Changes the id of a streamer',
+        operationId: 'renameStreamer',
+        security: [{ adminBearer: [] }],
+        parameters: [
+            {
+                name: 'streamerId',
+                in: 'path',
+                required: true,
+                schema: {
+                    type: 'string'
+                }
+            }
+        ],
+        requestBody: {
+            required: true,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            streamerId: {
+                                type: 'string',
+                                minLength: 1,
+                                description: 'The new id for the streamer'
+                            }
+                        },
+                        required: ['streamerId']
+                    }
+                }
+            }
+        },
+        responses: {
+            200: {
+                description: 'Streamer was renamed. The committed id may differ from the one requested',
+                content: {
+                    'application/json': {
+                        schema: {
+                            $ref: '#/components/schemas/AdminResult'
+                        }
+                    }
+                }
+            },
+            401: {
+                $ref: '#/components/responses/AdminUnauthorized'
+            },
+            404: {
+                $ref: '#/components/responses/AdminNotFound'
+            },
+            409: {
+                $ref: '#/components/responses/AdminConflict'
+            }
+        }
+    };
+
+    return operations;
+}
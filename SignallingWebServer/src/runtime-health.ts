@@ -0,0 +1,136 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import { SignallingRuntimeStatusController, StreamerHealthSnapshot } from './runtime-status';
+import { ViewerIdleStopController } from './viewer-idle-stop';
+
+const RUNTIME_STATUS_READY = 'ready';
+const RUNTIME_STATUS_STABILIZING_STREAM = 'stabilizing_stream';
+
+export interface RuntimeHealthOptions {
+    enabled?: boolean;
+    runtimeStatusController: SignallingRuntimeStatusController;
+    viewerIdleStopController?: ViewerIdleStopController | null;
+}
+
+export interface RuntimeHealthCheck {
+    ok: boolean;
+    detail: string;
+}
+
+/**
+ * The body of the /healthz and /readyz responses.
+ */
+export interface RuntimeHealthReport {
+    status: 'ok' | 'fail';
+    checks: Record<string, RuntimeHealthCheck>;
+    runtime: StreamerHealthSnapshot;
+    draining: boolean;
+    maintenanceMode: string | null;
+    // The status idle stop published over the derived one, such as 'reconnect_grace'.
+    lifecycleStatus: string | null;
+    checkedAtUtc: string;
+}
+
+export interface RuntimeHealthProbe {
+    // 200 with the report when the report passes, 503 otherwise.
+    liveness: () => { statusCode: number; report: RuntimeHealthReport };
+    readiness: () => { statusCode: number; report: RuntimeHealthReport };
+}
+
+function parseBoolean(rawValue: unknown, fallback: boolean): boolean {
+    if (typeof rawValue === 'boolean') return rawValue;
+    if (typeof rawValue !== 'string') return fallback;
+    switch (rawValue.trim().toLowerCase()) {
+        case '1':
+        case 'true':
+        case 'yes':
+        case 'on':
+            return true;
+        case '0':
+        case 'false':
+        case 'no':
+        case 'off':
+            return false;
+        default:
+            return fallback;
+    }
+}
+
+/**
+ * Answers liveness and readiness probes from the derived runtime status.
+ * Liveness only fails when a streamer that was streaming stopped answering pings, which a
+ * restart may fix. Readiness also fails until the stream is ready, while draining, during
+ * maintenance and while idle stop is resetting, stopping or holding the instance for a
+ * reconnecting viewer.
+ * @returns The probe, or null if the health endpoints are disabled.
+ */
+export function createRuntimeHealthProbe(
+    server: SignallingServer,
+    options: RuntimeHealthOptions
+): RuntimeHealthProbe | null {
+    if (!parseBoolean(options.enabled ?? process.env.HEALTH_ENDPOINTS ?? true, true)) {
+        return null;
+    }
+
+    const describeStreamerPing = (runtime: StreamerHealthSnapshot): RuntimeHealthCheck => {
+        if (!runtime.lastStreamerPingAtUtc) {
+            return { ok: true, detail: 'no_ping_seen' };
+        }
+        const ageMs = Date.now() - Date.parse(runtime.lastStreamerPingAtUtc);
+        const streaming =
+            runtime.status === RUNTIME_STATUS_READY || runtime.status === RUNTIME_STATUS_STABILIZING_STREAM;
+        if (streaming && ageMs > runtime.pingFreshMs) {
+            return { ok: false, detail: `last_ping_${ageMs}ms_ago` };
+        }
+        return { ok: true, detail: `last_ping_${ageMs}ms_ago` };
+    };
+
+    const buildReport = (checks: Record<string, RuntimeHealthCheck>, runtime: StreamerHealthSnapshot) => {
+        const report: RuntimeHealthReport = {
+            status: Object.values(checks).every((check) => check.ok) ? 'ok' : 'fail',
+            checks,
+            runtime,
+            draining: server.drain.draining,
+            maintenanceMode: options.viewerIdleStopController?.getMaintenanceMode() ?? null,
+            lifecycleStatus: options.viewerIdleStopController?.getLifecycleStatus()?.status ?? null,
+            checkedAtUtc: new Date().toISOString()
+        };
+        return { statusCode: report.status === 'ok' ? 200 : 503, report };
+    };
+
+    return {
+        liveness() {
+            const runtime = options.runtimeStatusController.describeHealth();
+            return buildReport({ streamerPing: describeStreamerPing(runtime) }, runtime);
+        },
+        readiness() {
+            const runtime = options.runtimeStatusController.describeHealth();
+            const maintenanceMode = options.viewerIdleStopController?.getMaintenanceMode() ?? null;
+            const lifecycleStatus = options.viewerIdleStopController?.getLifecycleStatus() ?? null;
+            return buildReport(
+                {
+                    runtimeStatus: {
+                        ok: runtime.status === RUNTIME_STATUS_READY && runtime.healthy,
+                        detail: `${runtime.status}:${runtime.reason}`
+                    },
+                    streamerPing: describeStreamerPing(runtime),
+                    drain: {
+                        ok: !server.drain.draining,
+                        detail: server.drain.draining ? 'draining' : 'accepting_players'
+                    },
+                    maintenance: {
+                        ok: maintenanceMode === null,
+                        detail: maintenanceMode ?? 'none'
+                    },
+                    lifecycle: {
+                        ok: lifecycleStatus === null,
+                        detail: lifecycleStatus
+                            ? `${lifecycleStatus.status}:${lifecycleStatus.reason}`
+                            : 'none'
+                    }
+                },
+                runtime
+            );
+        }
+    };
+}
@@ -0,0 +1,359 @@
+// Copyright Epic Games, Inc. All Rights Reserved.
+import { createHmac, randomUUID } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { ILogContext, LogWithContext } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+
+const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 5;
+const DEFAULT_WEBHOOK_BACKOFF_MS = 1_000;
+const MAX_WEBHOOK_BACKOFF_MS = 60_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const MAX_WEBHOOK_QUEUE_LENGTH = 100;
+const EVENT_STREAM_KEEPALIVE_MS = 15_000;
+const DEFAULT_EVENT_STREAM_MAX_CLIENTS = 50;
+
+/**
+ * A runtime status update as handed to the sinks.
+ */
+export interface RuntimeStatusEvent {
+    status: string;
+    reason: string;
+    source: string;
+    version: string;
+    // True when the status did not change and this only refreshes it.
+    heartbeat: boolean;
+    // When the status was entered. Missing for heartbeats and for updates that keep the previous time.
+    statusAtUtc?: string;
+    publishedAtUtc: string;
+    // Missing when the instance identity could not be read.
+    instanceId?: string;
+    region?: string;
+}
+
+/**
+ * Somewhere runtime status updates are sent besides the instance tags.
+ */
+export interface RuntimeStatusSink {
+    // Shown in log lines.
+    name: string;
+    // Called for every published update, in order. Must not block; failures are handled by the sink.
+    deliver: (event: RuntimeStatusEvent) => void;
+}
+
+export interface RuntimeStatusWebhookSinkOptions {
+    url?: string;
+    // Signs each body with HMAC-SHA256. The sink is disabled without it.
+    secret?: string;
+    // How many times a delivery is tried before it is dropped.
+    maxAttempts?: number;
+    // The delay before the first retry. Doubles on each further retry.
+    backoffMs?: number;
+    includeHeartbeats?: boolean;
+    logger?: (message: string, context?: ILogContext) => void;
+}
+
+export interface RuntimeStatusHistorySinkOptions {
+    filePath?: string;
+    includeHeartbeats?: boolean;
+    logger?: (message: string, context?: ILogContext) => void;
+}
+
+export interface RuntimeStatusEventStreamOptions {
+    enabled?: boolean;
+    maxClients?: number;
+    logger?: (message: string, context?: ILogContext) => void;
+}
+
+/**
+ * Serves runtime status updates to browsers as server-sent events.
+ */
+export interface RuntimeStatusEventStream {
+    sink: RuntimeStatusSink;
+    // Handles a request for the event stream. Works as an express route handler.
+    handleRequest: (request: http.IncomingMessage, response: http.ServerResponse) => void;
+    clientCount: () => number;
+}
+
+interface PendingWebhookDelivery {
+    deliveryId: string;
+    body: string;
+    status: string;
+}
+
+function parseBoolean(rawValue: unknown, fallback: boolean): boolean {
+    if (typeof rawValue === 'boolean') return rawValue;
+    if (typeof rawValue !== 'string') return fallback;
+    switch (rawValue.trim().toLowerCase()) {
+        case '1':
+        case 'true':
+        case 'yes':
+        case 'on':
+            return true;
+        case '0':
+        case 'false':
+        case 'no':
+        case 'off':
+            return false;
+        default:
+            return fallback;
+    }
+}
+
+function parsePositiveInteger(rawValue: unknown, fallback: number): number {
+    if (typeof rawValue !== 'string' && typeof rawValue !== 'number') return fallback;
+    const parsed = Number.parseInt(String(rawValue), 10);
+    return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+function normalizeOptionalText(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms).unref());
+}
+
+/**
+ * Computes the signature sent in the X-Runtime-Status-Signature header. Receivers should
+ * recompute it over the timestamp header and the raw body and compare.
+ */
+export function signRuntimeStatusWebhook(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex')}`;
+}
+
+/**
+ * POSTs each update as JSON to a webhook. Deliveries are sent one at a time in order and
+ * retried with exponential backoff on network errors, timeouts, 408, 429 and 5xx responses.
+ * @returns The sink, or null if no URL or secret is configured.
+ */
+export function createRuntimeStatusWebhookSink(
+    options: RuntimeStatusWebhookSinkOptions = {}
+): RuntimeStatusSink | null {
+    const log = options.logger ?? LogWithContext;
+    const url = normalizeOptionalText(options.url ?? process.env.RUNTIME_STATUS_WEBHOOK_URL);
+    if (!url) {
+        return null;
+    }
+
+    const secret = normalizeOptionalText(options.secret ?? process.env.RUNTIME_STATUS_WEBHOOK_SECRET);
+    if (!secret) {
+        log('[runtime-status] Webhook disabled because no webhook secret was configured.');
+        return null;
+    }
+
+    const maxAttempts = parsePositiveInteger(
+        options.maxAttempts ?? process.env.RUNTIME_STATUS_WEBHOOK_MAX_ATTEMPTS,
+        DEFAULT_WEBHOOK_MAX_ATTEMPTS
+    );
+    const backoffMs = parsePositiveInteger(
+        options.backoffMs ?? process.env.RUNTIME_STATUS_WEBHOOK_BACKOFF_MS,
+        DEFAULT_WEBHOOK_BACKOFF_MS
+    );
+    const includeHeartbeats = parseBoolean(
+        options.includeHeartbeats ?? process.env.RUNTIME_STATUS_SINK_HEARTBEATS ?? false,
+        false
+    );
+    const queue: PendingWebhookDelivery[] = [];
+    let draining = false;
+
+    // Returns null once delivered, or why the attempt failed and whether it is worth retrying.
+    const attemptDelivery = async (
+        delivery: PendingWebhookDelivery
+    ): Promise<{ failure: string; retryable: boolean } | null> => {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Runtime-Status-Delivery': delivery.deliveryId,
+                    'X-Runtime-Status-Timestamp': timestamp,
+                    'X-Runtime-Status-Signature': signRuntimeStatusWebhook(secret, timestamp, delivery.body)
+                },
+                body: delivery.body,
+                signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+            });
+            if (response.ok) return null;
+            return {
+                failure: `status ${response.status}`,
+                retryable: response.status === 408 || response.status === 429 || response.status >= 500
+            };
+        } catch (error) {
+            return { failure: error instanceof Error ? error.message : String(error), retryable: true };
+        }
+    };
+
+    const drain = async (): Promise<void> => {
+        draining = true;
+        while (queue.length > 0) {
+            const delivery = queue[0];
+            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                const result = await attemptDelivery(delivery);
+                if (!result) break;
+                if (!result.retryable) {
+                    log(
+                        `[runtime-status] Webhook rejected status '${delivery.status}' with ${result.failure}; not retrying.`
+                    );
+                    break;
+                }
+                if (attempt === maxAttempts) {
+                    log(
+                        `[runtime-status] Dropping webhook delivery of status '${delivery.status}' after ${attempt} attempts: ${result.failure}`
+                    );
+                    break;
+                }
+                const delayMs = Math.min(MAX_WEBHOOK_BACKOFF_MS, backoffMs * 2 ** (attempt - 1));
+                log(
+                    `[runtime-status] Webhook delivery of status '${delivery.status}' failed (attempt ${attempt}/${maxAttempts}): ${result.failure}. Retrying in ${delayMs}ms.`
+                );
+                await sleep(delayMs);
+            }
+            queue.shift();
+        }
+        draining = false;
+    };
+
+    log(`[runtime-status] Sending status updates to webhook ${new URL(url).origin}.`);
+    return {
+        name: 'webhook',
+        deliver(event) {
+            if (event.heartbeat && !includeHeartbeats) return;
+            if (queue.length >= MAX_WEBHOOK_QUEUE_LENGTH) {
+                const dropped = queue.splice(1, 1)[0];
+                log(
+                    `[runtime-status] Webhook queue is full; dropping the pending delivery of status '${dropped.status}'.`
+                );
+            }
+            queue.push({ deliveryId: randomUUID(), body: JSON.stringify(event), status: event.status });
+            if (!draining) void drain();
+        }
+    };
+}
+
+/**
+ * Appends each update as one JSON line to a history file.
+ * @returns The sink, or null if no file is configured.
+ */
+export function createRuntimeStatusHistorySink(
+    options: RuntimeStatusHistorySinkOptions = {}
+): RuntimeStatusSink | null {
+    const log = options.logger ?? LogWithContext;
+    const configuredPath = normalizeOptionalText(options.filePath ?? process.env.RUNTIME_STATUS_HISTORY_PATH);
+    if (!configuredPath) {
+        return null;
+    }
+
+    const filePath = path.resolve(configuredPath);
+    const includeHeartbeats = parseBoolean(
+        options.includeHeartbeats ?? process.env.RUNTIME_STATUS_SINK_HEARTBEATS ?? false,
+        false
+    );
+    let lastWriteFailure: string | null = null;
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    log(`[runtime-status] Appending status history to ${filePath}.`);
+    return {
+        name: 'history',
+        deliver(event) {
+            if (event.heartbeat && !includeHeartbeats) return;
+            const line = `${JSON.stringify(event)}\n`;
+            writeQueue = writeQueue.then(async () => {
+                try {
+                    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+                    await fs.promises.appendFile(filePath, line, 'utf8');
+                    lastWriteFailure = null;
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    if (message !== lastWriteFailure) {
+                        log(`[runtime-status] Failed to append status history to '${filePath}': ${message}`);
+                        lastWriteFailure = message;
+                    }
+                }
+            });
+        }
+    };
+}
+
+/**
+ * Keeps the connected event stream clients and sends them each update. A new client first
+ * receives the latest update. Transitions are sent as 'status' events and heartbeats as
+ * 'heartbeat' events.
+ * @returns The event stream, or null if it is disabled.
+ */
+export function createRuntimeStatusEventStream(
+    options: RuntimeStatusEventStreamOptions = {}
+): RuntimeStatusEventStream | null {
+    const log = options.logger ?? LogWithContext;
+    const enabled = parseBoolean(options.enabled ?? process.env.RUNTIME_STATUS_EVENTS ?? false, false);
+    if (!enabled) {
+        return null;
+    }
+
+    const maxClients = parsePositiveInteger(
+        options.maxClients ?? process.env.RUNTIME_STATUS_EVENTS_MAX_CLIENTS,
+        DEFAULT_EVENT_STREAM_MAX_CLIENTS
+    );
+    const clients = new Set<http.ServerResponse>();
+    let lastEvent: RuntimeStatusEvent | null = null;
+    let eventId = 0;
+    let keepaliveTimer: NodeJS.Timeout | null = null;
+
+    const formatEvent = (event: RuntimeStatusEvent, id: number): string =>
+        `id: ${id}\nevent: ${event.heartbeat ? 'heartbeat' : 'status'}\ndata: ${JSON.stringify(event)}\n\n`;
+
+    const removeClient = (response: http.ServerResponse): void => {
+        clients.delete(response);
+        if (clients.size === 0 && keepaliveTimer) {
+            clearInterval(keepaliveTimer);
+            keepaliveTimer = null;
+        }
+    };
+
+    return {
+        sink: {
+            name: 'events',
+            deliver(event) {
+                lastEvent = event;
+                eventId++;
+                const frame = formatEvent(event, eventId);
+                for (const client of clients) {
+                    client.write(frame);
+                }
+            }
+        },
+        handleRequest(request, response) {
+            if (clients.size >= maxClients) {
+                response.writeHead(503, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify({ error: 'Too many runtime status event clients.' }));
+                return;
+            }
+
+            response.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+                'X-Accel-Buffering': 'no'
+            });
+            response.write('retry: 5000\n\n');
+            if (lastEvent) {
+                response.write(formatEvent({ ...lastEvent, heartbeat: false }, eventId));
+            }
+
+            clients.add(response);
+            if (!keepaliveTimer) {
+                keepaliveTimer = setInterval(() => {
+                    for (const client of clients) {
+                        client.write(': keepalive\n\n');
+                    }
+                }, EVENT_STREAM_KEEPALIVE_MS);
+                keepaliveTimer.unref();
+            }
+            request.on('close', () => removeClient(response));
+            log(`[runtime-status] Event stream client connected. clients=${clients.size}.`);
+        },
+        clientCount: () => clients.size
+    };
+}
@@ -1,15 +1,18 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
 import fs from 'fs';
-import os from 'os';
 import path from 'path';
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-import { Logger, SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import {
+    ILogContext,
+    LogWithContext,
+    SignallingServer
+} from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
 import { Messages } from '@epicgames-ps/lib-pixelstreamingcommon-ue5.7';
-
-const execFileAsync = promisify(execFile);
-const IMDS_TOKEN_URL = 'http://169.254.169.254/latest/api/token';
-const IMDS_METADATA_BASE_URL = 'http://169.254.169.254/latest/meta-data';
+import {
+    createAwsInstanceIdentityProvider,
+    InstanceIdentity,
+    InstanceIdentityProvider
+} from './instance-identity';
+import { RuntimeStatusEvent, RuntimeStatusSink } from './runtime-status-sinks';
 
 export interface RuntimeStatusUpdate {
     status: string;
@@ -24,14 +27,20 @@ export interface RuntimeStatusPublisher {
 }
 export interface SignallingRuntimeStatusController {
     restoreDerivedStatus(options?: { preserveStatusAtUtc?: boolean }): void;
+    // The derived status as written to the streamer health file.
+    describeHealth(): StreamerHealthSnapshot;
 }
 export interface RuntimeStatusPublisherOptions {
     enabled?: boolean;
     awsCliPath?: string;
     source?: string;
     version?: string;
-    logger?: (message: string) => void;
+    // Where the status tags are written. Defaults to the EC2 instance, tagged with the AWS CLI.
+    identityProvider?: InstanceIdentityProvider;
+    logger?: (message: string, context?: ILogContext) => void;
     observer?: (update: RuntimeStatusUpdate) => void;
+    // Also receive every published update, whether or not the tags could be written.
+    sinks?: RuntimeStatusSink[];
 }
 export interface SessionNetworkPathReport {
     sessionId: string;
@@ -45,10 +54,12 @@ export interface SessionNetworkPathReporter {
 export interface SessionNetworkPathReporterOptions {
     enabled?: boolean;
     awsCliPath?: string;
-    logger?: (message: string) => void;
+    // Where the session network path tags are written. Defaults to the EC2 instance.
+    identityProvider?: InstanceIdentityProvider;
+    logger?: (message: string, context?: ILogContext) => void;
 }
 export interface SignallingRuntimeStatusOptions {
-    logger?: (message: string) => void;
+    logger?: (message: string, context?: ILogContext) => void;
     source?: string;
     heartbeatMs?: number;
     readySoakMs?: number;
@@ -58,7 +69,7 @@ export interface SignallingRuntimeStatusOptions {
     streamerHealthWriteMs?: number;
 }
 
-interface LocalStreamerHealthSnapshot {
+export interface StreamerHealthSnapshot {
     status: string;
     reason: string;
     healthy: boolean;
@@ -134,98 +145,27 @@ function normalizeTagValue(value: unknown): string {
     return normalized.length <= 256 ? normalized : normalized.slice(0, 256);
 }
 
-function toAwsCliParamFileUri(filePath: string): string {
-    if (process.platform === 'win32') {
-        return `file://${filePath}`;
-    }
-
-    return `file://${filePath}`;
-}
-
-async function readImdsToken(): Promise<string> {
-    const response = await fetch(IMDS_TOKEN_URL, {
-        method: 'PUT',
-        headers: { 'X-aws-ec2-metadata-token-ttl-seconds': '21600' }
-    });
-    if (!response.ok) throw new Error(`IMDSv2 token request failed with status ${response.status}.`);
-    return response.text();
-}
-
-async function readImdsValue(pathSuffix: string, token: string): Promise<string> {
-    const response = await fetch(`${IMDS_METADATA_BASE_URL}/${pathSuffix}`, {
-        headers: { 'X-aws-ec2-metadata-token': token }
-    });
-    if (!response.ok) throw new Error(`IMDS read for '${pathSuffix}' failed with status ${response.status}.`);
-    return response.text();
-}
-
-function createInstanceIdentityResolver(): () => Promise<{ instanceId: string; region: string }> {
-    let identityPromise: Promise<{ instanceId: string; region: string }> | null = null;
-
-    return async () => {
-        if (!identityPromise) {
-            identityPromise = (async () => {
-                const token = await readImdsToken();
-                const [instanceId, region] = await Promise.all([
-                    readImdsValue('instance-id', token),
-                    readImdsValue('placement/region', token)
-                ]);
-                return { instanceId: instanceId.trim(), region: region.trim() };
-            })().catch((error) => {
-                identityPromise = null;
-                throw error;
-            });
-        }
-
-        return identityPromise;
-    };
-}
-
-async function writeInstanceTags(
-    awsCliPath: string,
-    instanceId: string,
-    region: string,
-    tags: Array<{ Key: string; Value: string }>
-): Promise<void> {
-    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sw-runtime-status-'));
-    const tagPayloadPath = path.join(tempDir, 'tags.json');
-    const tagPayloadUri = toAwsCliParamFileUri(tagPayloadPath);
-    const args = [
-        'ec2',
-        'create-tags',
-        '--region',
-        region,
-        '--resources',
-        instanceId,
-        '--tags',
-        tagPayloadUri
-    ];
-
-    try {
-        await fs.promises.writeFile(tagPayloadPath, JSON.stringify(tags), 'utf8');
-        await execFileAsync(awsCliPath, args, { windowsHide: true });
-    } finally {
-        await fs.promises.rm(tempDir, { recursive: true, force: true });
-    }
-}
-
 export function createRuntimeStatusPublisher(
     options: RuntimeStatusPublisherOptions = {}
 ): RuntimeStatusPublisher | null {
-    const log = options.logger ?? ((message: string) => Logger.info(message));
+    const log = options.logger ?? LogWithContext;
     const enabled = parseBoolean(options.enabled ?? process.env.RUNTIME_STATUS_ENABLED ?? true, true);
     if (!enabled) {
         log('[runtime-status] Disabled.');
         return null;
     }
 
-    const awsCliPath = String(options.awsCliPath ?? process.env.RUNTIME_STATUS_AWS_CLI_PATH ?? 'aws');
+    const identityProvider =
+        options.identityProvider ??
+        createAwsInstanceIdentityProvider({
+            awsCliPath: String(options.awsCliPath ?? process.env.RUNTIME_STATUS_AWS_CLI_PATH ?? 'aws')
+        });
     const defaultSource = normalizeTagValue(
         options.source ?? process.env.RUNTIME_STATUS_SOURCE ?? 'signalling-server'
     );
     const defaultVersion = normalizeTagValue(options.version ?? process.env.RUNTIME_STATUS_VERSION ?? '');
     const observer = options.observer;
-    const resolveIdentity = createInstanceIdentityResolver();
+    const sinks = options.sinks ?? [];
     let desiredStatus: string | null = null;
     let desiredSequence = 0;
     let publishQueue: Promise<void> = Promise.resolve();
@@ -272,6 +212,9 @@ export function createRuntimeStatusPublisher(
                     return false;
                 }
 
+                const nowIso = new Date().toISOString();
+                const statusAtUtcChanged = !heartbeatOnly && !preservesCurrentStatusTimestamp;
+                let identity: InstanceIdentity | undefined;
                 try {
                     if (observer) {
                         try {
@@ -292,8 +235,8 @@ export function createRuntimeStatusPublisher(
                         }
                     }
 
-                    const { instanceId, region } = await resolveIdentity();
-                    const nowIso = new Date().toISOString();
+                    identity = await identityProvider.getIdentity();
+                    const { instanceId, region } = identity;
                     const tags: Array<{ Key: string; Value: string }> = [
                         { Key: 'ScaleWorldRuntimeStatus', Value: normalizedStatus },
                         { Key: 'ScaleWorldRuntimeStatusHeartbeatAtUtc', Value: nowIso },
@@ -307,10 +250,10 @@ export function createRuntimeStatusPublisher(
                             Value: normalizeTagValue(update.version ?? defaultVersion)
                         }
                     ];
-                    if (!heartbeatOnly && !preservesCurrentStatusTimestamp) {
+                    if (statusAtUtcChanged) {
                         tags.splice(1, 0, { Key: 'ScaleWorldRuntimeStatusAtUtc', Value: nowIso });
                     }
-                    await writeInstanceTags(awsCliPath, instanceId, region, tags);
+                    await identityProvider.writeTags(tags);
                     log(
                         `[runtime-status] Published status='${normalizedStatus}'${
                             heartbeatOnly
@@ -325,6 +268,29 @@ export function createRuntimeStatusPublisher(
                     const message = error instanceof Error ? error.message : String(error);
                     log(`[runtime-status] Failed to publish status '${update.status}': ${message}`);
                     return false;
+                } finally {
+                    const event: RuntimeStatusEvent = {
+                        status: normalizedStatus,
+                        reason: normalizeTagValue(update.reason),
+                        source: normalizeTagValue(update.source ?? defaultSource),
+                        version: normalizeTagValue(update.version ?? defaultVersion),
+                        heartbeat: heartbeatOnly,
+                        statusAtUtc: statusAtUtcChanged ? nowIso : undefined,
+                        publishedAtUtc: nowIso,
+                        instanceId: identity?.instanceId,
+                        region: identity?.region
+                    };
+                    for (const sink of sinks) {
+                        try {
+                            sink.deliver(event);
+                        } catch (sinkError) {
+                            const sinkMessage =
+                                sinkError instanceof Error ? sinkError.message : String(sinkError);
+                            log(
+                                `[runtime-status] Sink '${sink.name}' failed for status '${normalizedStatus}': ${sinkMessage}`
+                            );
+                        }
+                    }
                 }
             });
 
@@ -341,15 +307,18 @@ export function createRuntimeStatusPublisher(
 export function createSessionNetworkPathReporter(
     options: SessionNetworkPathReporterOptions = {}
 ): SessionNetworkPathReporter | null {
-    const log = options.logger ?? ((message: string) => Logger.info(message));
+    const log = options.logger ?? LogWithContext;
     const enabled = parseBoolean(options.enabled ?? process.env.RUNTIME_STATUS_ENABLED ?? true, true);
     if (!enabled) {
         log('[session-network] Disabled.');
         return null;
     }
 
-    const awsCliPath = String(options.awsCliPath ?? process.env.RUNTIME_STATUS_AWS_CLI_PATH ?? 'aws');
-    const resolveIdentity = createInstanceIdentityResolver();
+    const identityProvider =
+        options.identityProvider ??
+        createAwsInstanceIdentityProvider({
+            awsCliPath: String(options.awsCliPath ?? process.env.RUNTIME_STATUS_AWS_CLI_PATH ?? 'aws')
+        });
 
     return {
         async report(update: SessionNetworkPathReport): Promise<boolean> {
@@ -359,7 +328,6 @@ export function createSessionNetworkPathReporter(
             }
 
             try {
-                const { instanceId, region } = await resolveIdentity();
                 const tags: Array<{ Key: string; Value: string }> = [
                     { Key: TAG_SESSION_NETWORK_PATH_SESSION_ID, Value: sessionId },
                     { Key: TAG_SESSION_TURN_USED, Value: update.usesTurn ? 'true' : 'false' },
@@ -372,7 +340,7 @@ export function createSessionNetworkPathReporter(
                         Value: normalizeTagValue(update.candidateType)
                     }
                 ];
-                await writeInstanceTags(awsCliPath, instanceId, region, tags);
+                await identityProvider.writeTags(tags);
                 return true;
             } catch (error) {
                 const message = error instanceof Error ? error.message : String(error);
@@ -388,7 +356,7 @@ export function wireSignallingRuntimeStatus(
     publisher: RuntimeStatusPublisher | null,
     options: SignallingRuntimeStatusOptions = {}
 ): SignallingRuntimeStatusController {
-    const log = options.logger ?? ((message: string) => Logger.info(message));
+    const log = options.logger ?? LogWithContext;
     const heartbeatMs = parseNonNegativeInteger(
         options.heartbeatMs ?? process.env.RUNTIME_STATUS_HEARTBEAT_MS,
         60_000
@@ -453,9 +421,7 @@ export function wireSignallingRuntimeStatus(
     const getPlayerVisibleStreamers = () =>
         server.streamerRegistry.streamers.filter((streamer) => streamer.streaming);
 
-    const writeStreamerHealthSnapshot = (): void => {
-        if (!streamerHealthEnabled) return;
-
+    const buildStreamerHealthSnapshot = (): StreamerHealthSnapshot => {
         const nowMs = Date.now();
         const streamerCount = server.streamerRegistry.count();
         const playerVisibleStreamerCount = getPlayerVisibleStreamers().length;
@@ -486,7 +452,7 @@ export function wireSignallingRuntimeStatus(
             reason = 'waiting_for_streamer';
         }
 
-        const snapshot: LocalStreamerHealthSnapshot = {
+        const snapshot: StreamerHealthSnapshot = {
             status: currentStatus ?? 'unknown',
             reason,
             healthy,
@@ -503,7 +469,13 @@ export function wireSignallingRuntimeStatus(
         if (lastHealthyAtMs !== null) {
             snapshot.lastHealthyAtUtc = new Date(lastHealthyAtMs).toISOString();
         }
+        return snapshot;
+    };
 
+    const writeStreamerHealthSnapshot = (): void => {
+        if (!streamerHealthEnabled) return;
+
+        const snapshot = buildStreamerHealthSnapshot();
         try {
             fs.mkdirSync(path.dirname(streamerHealthPath), { recursive: true });
             fs.writeFileSync(streamerHealthPath, JSON.stringify(snapshot, null, 2), 'utf8');
@@ -707,14 +679,15 @@ export function wireSignallingRuntimeStatus(
     });
 
     server.streamerRegistry.on('added', (streamerId: string) => {
-        log(`[runtime-status] Streamer connected (${streamerId}).`);
+        log(`[runtime-status] Streamer connected (${streamerId}).`, { streamerId });
         attachStreamerHealthListeners(streamerId);
         evaluateDerivedStatus({ force: true });
     });
 
     server.streamerRegistry.on('removed', (streamerId: string) => {
         log(
-            `[runtime-status] Streamer disconnected (${streamerId}). remaining=${server.streamerRegistry.count()}.`
+            `[runtime-status] Streamer disconnected (${streamerId}). remaining=${server.streamerRegistry.count()}.`,
+            { streamerId }
         );
         evaluateDerivedStatus({ force: true });
     });
@@ -725,6 +698,7 @@ export function wireSignallingRuntimeStatus(
                 force: true,
                 preserveStatusAtUtc: restoreOptions.preserveStatusAtUtc === true
             });
-        }
+        },
+        describeHealth: buildStreamerHealthSnapshot
     };
 }
@@ -1,12 +1,16 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
-import { execFile } from 'child_process';
 import { createHash, randomUUID } from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import { gzip } from 'zlib';
+import {
+    ArtifactStore,
+    ArtifactStoreRuntimeOptions,
+    AWS_CLI_ARTIFACT_STORE_ID,
+    createArtifactStore
+} from './artifact-store';
 
-const execFileAsync = promisify(execFile);
 const gzipAsync = promisify(gzip);
 
 const DEFAULT_OBJECT_PREFIX = 'PixelStreamingLogs';
@@ -54,17 +58,18 @@ interface ArtifactQueueRecord {
     attempts: number;
     lastError?: string;
     localPath: string;
+    // The store the bundle is uploaded to. Missing on records queued before stores could be
+    // chosen, which always targeted the AWS CLI.
+    storeId?: string;
     bucketName: string;
     objectKey: string;
     request: SessionLogArtifactRegistrationRequest;
 }
 
-export interface SessionLogArtifactRuntimeOptions {
+export interface SessionLogArtifactRuntimeOptions extends ArtifactStoreRuntimeOptions {
     enabled?: unknown;
     bucketName?: string;
     objectPrefix?: string;
-    awsCliPath?: string;
-    awsRegion?: string;
     queuePath?: string;
     maxBytes?: unknown;
     logFolder?: string;
@@ -813,36 +818,6 @@ function buildRegisterMetadata(
     });
 }
 
-function appendRegion(args: string[], region: string | undefined): string[] {
-    const normalizedRegion = normalizeOptionalText(region);
-    return normalizedRegion ? [...args, '--region', normalizedRegion] : args;
-}
-
-async function headObject(
-    awsCliPath: string,
-    region: string | undefined,
-    bucketName: string,
-    objectKey: string
-): Promise<{ eTag?: string; objectVersionId?: string; sizeBytes?: number }> {
-    const args = appendRegion(
-        ['s3api', 'head-object', '--bucket', bucketName, '--key', objectKey, '--output', 'json'],
-        region
-    );
-    const { stdout } = await execFileAsync(awsCliPath, args, { windowsHide: true });
-    const parsed = JSON.parse(stdout || '{}') as {
-        ETag?: unknown;
-        VersionId?: unknown;
-        ContentLength?: unknown;
-    };
-
-    const sizeBytes = typeof parsed.ContentLength === 'number' ? parsed.ContentLength : undefined;
-    return {
-        eTag: normalizeOptionalText(parsed.ETag)?.replace(/^"|"$/g, ''),
-        objectVersionId: normalizeOptionalText(parsed.VersionId),
-        sizeBytes
-    };
-}
-
 export function createSessionLogArtifactManager(
     options: SessionLogArtifactManagerOptions
 ): SessionLogArtifactManager | null {
@@ -868,13 +843,18 @@ export function createSessionLogArtifactManager(
     const objectPrefix = normalizeObjectPrefix(
         options.objectPrefix ?? process.env.INSTANCE_AGENT_ARTIFACT_PREFIX
     );
-    const awsCliPath =
-        normalizeOptionalText(options.awsCliPath) ??
-        normalizeOptionalText(process.env.INSTANCE_AGENT_ARTIFACT_AWS_CLI_PATH) ??
-        'aws';
-    const awsRegion =
-        normalizeOptionalText(options.awsRegion) ??
-        normalizeOptionalText(process.env.INSTANCE_AGENT_ARTIFACT_AWS_REGION);
+    let store: ArtifactStore;
+    try {
+        store = createArtifactStore(options, {
+            envPrefixes: ['INSTANCE_AGENT_ARTIFACT'],
+            baseDirectory: repoRoot,
+            logger: log
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`[session-artifacts] Disabled because the artifact store is misconfigured: ${message}.`);
+        return null;
+    }
     const queuePath =
         resolvePathMaybeRelative(options.queuePath, repoRoot) ??
         resolvePathMaybeRelative(process.env.INSTANCE_AGENT_ARTIFACT_QUEUE_PATH, repoRoot) ??
@@ -904,7 +884,7 @@ export function createSessionLogArtifactManager(
     fs.mkdirSync(queuePath, { recursive: true });
     fs.mkdirSync(bundlePath, { recursive: true });
     log(
-        `[session-artifacts] Enabled. bucket=${bucketName}, prefix=${objectPrefix}, queue=${queuePath}, maxBundleBytes=${maxBundleBytes}.`
+        `[session-artifacts] Enabled. store=${store.id}, bucket=${bucketName}, prefix=${objectPrefix}, queue=${queuePath}, maxBundleBytes=${maxBundleBytes}.`
     );
 
     const updateRecord = (record: ArtifactQueueRecord): void => {
@@ -996,33 +976,30 @@ export function createSessionLogArtifactManager(
     };
 
     const uploadRecord = async (record: ArtifactQueueRecord): Promise<void> => {
-        const destination = `s3://${record.bucketName}/${record.objectKey}`;
-        const args = appendRegion(
-            [
-                's3',
-                'cp',
-                record.localPath,
-                destination,
-                '--only-show-errors',
-                '--content-type',
-                'application/gzip'
-            ],
-            awsRegion ?? record.request.region
-        );
-        const { stderr } = await execFileAsync(awsCliPath, args, { windowsHide: true });
-        if (stderr && stderr.trim().length > 0) {
-            log(`[session-artifacts] AWS CLI upload stderr: ${truncateText(stderr.trim(), 500)}`);
+        const recordStoreId = record.storeId ?? AWS_CLI_ARTIFACT_STORE_ID;
+        if (recordStoreId !== store.id) {
+            // the bundle never left this host so it goes wherever uploads go now.
+            log(
+                `[session-artifacts] Queue record ${record.id} was queued for store ${recordStoreId}. Uploading it to ${store.id} instead.`
+            );
+            record.storeId = store.id;
+            record.bucketName = bucketName;
+            record.request.bucketName = bucketName;
         }
 
+        const destination = store.describeLocation(record.bucketName, record.objectKey);
+        await store.putObject(
+            record.localPath,
+            record.bucketName,
+            record.objectKey,
+            'application/gzip',
+            record.request.region
+        );
+
         record.status = 'pending_registration';
         record.request.uploadedAtUtc = new Date().toISOString();
         try {
-            const head = await headObject(
-                awsCliPath,
-                awsRegion ?? record.request.region,
-                record.bucketName,
-                record.objectKey
-            );
+            const head = await store.headObject(record.bucketName, record.objectKey, record.request.region);
             record.request.eTag = head.eTag ?? record.request.eTag;
             record.request.objectVersionId = head.objectVersionId ?? record.request.objectVersionId;
             record.request.sizeBytes = head.sizeBytes ?? record.request.sizeBytes;
@@ -1125,8 +1102,9 @@ export function createSessionLogArtifactManager(
                 record.attempts += 1;
                 record.lastError = truncateText(message, 1000);
                 updateRecord(record);
+                const reason = truncateText(message, 500);
                 log(
-                    `[session-artifacts] Queue record ${record.id} failed (attempt=${record.attempts}): ${truncateText(message, 500)}`
+                    `[session-artifacts] Queue record ${record.id} failed (attempt=${record.attempts}): ${reason}`
                 );
             }
         }
@@ -1227,6 +1205,7 @@ export function createSessionLogArtifactManager(
             updatedAtUtc: createdAtUtc,
             attempts: 0,
             localPath,
+            storeId: store.id,
             bucketName,
             objectKey,
             request
@@ -4,6 +4,12 @@ import { createHash, randomUUID } from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import {
+    ArtifactStore,
+    ArtifactStoreRuntimeOptions,
+    AWS_CLI_ARTIFACT_STORE_ID,
+    createArtifactStore
+} from './artifact-store';
 
 const execFileAsync = promisify(execFile);
 
@@ -61,19 +67,20 @@ interface ArtifactQueueRecord {
     attempts: number;
     lastError?: string;
     localPath: string;
+    // The store the bundle is uploaded to. Missing on records queued before stores could be
+    // chosen, which always targeted the AWS CLI.
+    storeId?: string;
     bucketName: string;
     objectKey: string;
     sourceFiles?: SourceFileCleanupEntry[];
     request: SessionScreenshotArtifactRegistrationRequest;
 }
 
-export interface SessionScreenshotArtifactRuntimeOptions {
+export interface SessionScreenshotArtifactRuntimeOptions extends ArtifactStoreRuntimeOptions {
     enabled?: unknown;
     bucketName?: string;
     objectPrefix?: string;
     sourceFolder?: string;
-    awsCliPath?: string;
-    awsRegion?: string;
     queuePath?: string;
     maxFiles?: unknown;
     maxBytes?: unknown;
@@ -474,34 +481,6 @@ function buildObjectKey(
     return `${(appendLane ? [...prefixSegments, laneSegment] : prefixSegments).join('/')}/${year}/${month}/${day}/${sessionSegment}/${artifactId}/screenshots.zip`;
 }
 
-function appendRegion(args: string[], region: string | undefined): string[] {
-    const normalizedRegion = normalizeOptionalText(region);
-    return normalizedRegion ? [...args, '--region', normalizedRegion] : args;
-}
-
-async function headObject(
-    awsCliPath: string,
-    region: string | undefined,
-    bucketName: string,
-    objectKey: string
-): Promise<{ eTag?: string; objectVersionId?: string; sizeBytes?: number }> {
-    const args = appendRegion(
-        ['s3api', 'head-object', '--bucket', bucketName, '--key', objectKey, '--output', 'json'],
-        region
-    );
-    const { stdout } = await execFileAsync(awsCliPath, args, { windowsHide: true });
-    const parsed = JSON.parse(stdout || '{}') as {
-        ETag?: unknown;
-        VersionId?: unknown;
-        ContentLength?: unknown;
-    };
-    return {
-        eTag: normalizeOptionalText(parsed.ETag)?.replace(/^"|"$/g, ''),
-        objectVersionId: normalizeOptionalText(parsed.VersionId),
-        sizeBytes: typeof parsed.ContentLength === 'number' ? parsed.ContentLength : undefined
-    };
-}
-
 async function createZipFromStaging(
     powershellPath: string,
     stagingPath: string,
@@ -554,15 +533,18 @@ export function createSessionScreenshotArtifactManager(
                 process.env.SCALEWORLD_SCREENSHOT_DIR,
             repoRoot
         ) ?? resolveDefaultScreenshotSourceFolder(repoRoot);
-    const awsCliPath =
-        normalizeOptionalText(options.awsCliPath) ??
-        normalizeOptionalText(process.env.INSTANCE_AGENT_SCREENSHOT_ARTIFACT_AWS_CLI_PATH) ??
-        normalizeOptionalText(process.env.INSTANCE_AGENT_ARTIFACT_AWS_CLI_PATH) ??
-        'aws';
-    const awsRegion =
-        normalizeOptionalText(options.awsRegion) ??
-        normalizeOptionalText(process.env.INSTANCE_AGENT_SCREENSHOT_ARTIFACT_AWS_REGION) ??
-        normalizeOptionalText(process.env.INSTANCE_AGENT_ARTIFACT_AWS_REGION);
+    let store: ArtifactStore;
+    try {
+        store = createArtifactStore(options, {
+            envPrefixes: ['INSTANCE_AGENT_SCREENSHOT_ARTIFACT', 'INSTANCE_AGENT_ARTIFACT'],
+            baseDirectory: repoRoot,
+            logger: log
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`[screenshot-artifacts] Disabled because the artifact store is misconfigured: ${message}.`);
+        return null;
+    }
     const powershellPath =
         normalizeOptionalText(
             options.powershellPath ?? process.env.INSTANCE_AGENT_SCREENSHOT_ARTIFACT_POWERSHELL_PATH
@@ -604,7 +586,7 @@ export function createSessionScreenshotArtifactManager(
     fs.mkdirSync(path.dirname(activeSessionStatePath), { recursive: true });
     activeSession = readActiveSessionSnapshot(activeSessionStatePath);
     log(
-        `[screenshot-artifacts] Enabled. bucket=${bucketName}, prefix=${objectPrefix}, source=${sourceFolder}, queue=${queuePath}, maxFiles=${maxFiles}, maxBundleBytes=${maxBundleBytes}.`
+        `[screenshot-artifacts] Enabled. store=${store.id}, bucket=${bucketName}, prefix=${objectPrefix}, source=${sourceFolder}, queue=${queuePath}, maxFiles=${maxFiles}, maxBundleBytes=${maxBundleBytes}.`
     );
     if (activeSession) {
         log(
@@ -732,31 +714,29 @@ export function createSessionScreenshotArtifactManager(
     };
 
     const uploadRecord = async (record: ArtifactQueueRecord): Promise<void> => {
-        const destination = `s3://${record.bucketName}/${record.objectKey}`;
-        const args = appendRegion(
-            [
-                's3',
-                'cp',
-                record.localPath,
-                destination,
-                '--only-show-errors',
-                '--content-type',
-                'application/zip'
-            ],
-            awsRegion ?? record.request.region
+        const recordStoreId = record.storeId ?? AWS_CLI_ARTIFACT_STORE_ID;
+        if (recordStoreId !== store.id) {
+            // the bundle never left this host so it goes wherever uploads go now.
+            log(
+                `[screenshot-artifacts] Queue record ${record.id} was queued for store ${recordStoreId}. Uploading it to ${store.id} instead.`
+            );
+            record.storeId = store.id;
+            record.bucketName = bucketName;
+            record.request.bucketName = bucketName;
+        }
+
+        const destination = store.describeLocation(record.bucketName, record.objectKey);
+        await store.putObject(
+            record.localPath,
+            record.bucketName,
+            record.objectKey,
+            'application/zip',
+            record.request.region
         );
-        const { stderr } = await execFileAsync(awsCliPath, args, { windowsHide: true });
-        if (stderr && stderr.trim().length > 0)
-            log(`[screenshot-artifacts] AWS CLI upload stderr: ${truncateText(stderr.trim(), 500)}`);
         record.status = 'pending_registration';
         record.request.uploadedAtUtc = new Date().toISOString();
         try {
-            const head = await headObject(
-                awsCliPath,
-                awsRegion ?? record.request.region,
-                record.bucketName,
-                record.objectKey
-            );
+            const head = await store.headObject(record.bucketName, record.objectKey, record.request.region);
             record.request.eTag = head.eTag ?? record.request.eTag;
             record.request.objectVersionId = head.objectVersionId ?? record.request.objectVersionId;
             record.request.sizeBytes = head.sizeBytes ?? record.request.sizeBytes;
@@ -1123,6 +1103,7 @@ export function createSessionScreenshotArtifactManager(
                 updatedAtUtc: createdAtUtc,
                 attempts: 0,
                 localPath,
+                storeId: store.id,
                 bucketName,
                 objectKey,
                 sourceFiles: selectedScreenshots.map((file) => ({
@@ -1,14 +1,25 @@
 // Copyright Epic Games, Inc. All Rights Reserved.
-import { execFile, spawn } from 'child_process';
+import { spawn } from 'child_process';
 import { randomUUID } from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { promisify } from 'util';
-import { Logger, SignallingServer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
+import {
+    ILogContext,
+    LogWithContext,
+    SetLogContext,
+    SignallingServer
+} from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
 import type { IPlayer } from '@epicgames-ps/lib-pixelstreamingsignalling-ue5.7';
 import type { InstanceAgentClient, InstanceAgentCommand } from './instance-agent';
 import type { ConnectTicketRuntimeGate } from './connect-ticket-runtime-state';
+import {
+    isInstanceAgentCommandType,
+    RECYCLE_TO_WARM_COMMAND_TYPE,
+    SHUTDOWN_COMMAND_TYPE,
+    type InstanceAgentCommandRegistry
+} from './instance-agent-commands';
 import { RuntimeStatusPublisher, SignallingRuntimeStatusController } from './runtime-status';
+import { createAwsInstanceIdentityProvider, InstanceIdentityProvider } from './instance-identity';
 import {
     normalizeInstanceAgentDesiredStateSnapshot,
     readInstanceAgentDesiredStateSnapshot,
@@ -20,8 +31,6 @@ import {
     writeInstanceAgentRecycleMarkerSnapshot
 } from './instance-agent-recycle-state';
 
-const execFileAsync = promisify(execFile);
-
 const DEFAULT_IDLE_GRACE_MS = 5 * 60_000;
 const DEFAULT_FIRST_VIEWER_GRACE_MS = 5 * 60_000;
 const DEFAULT_FIRST_VIEWER_DELAY_MS = 0;
@@ -37,8 +46,6 @@ const DEFAULT_DISCONNECT_FAST_POLLING_WINDOW_MS = 120_000;
 const DEFAULT_SHUTDOWN_LOG_ARTIFACT_CAPTURE_TIMEOUT_MS = 30_000;
 const DEFAULT_SHUTDOWN_SCREENSHOT_ARTIFACT_CAPTURE_TIMEOUT_MS = 120_000;
 const COMMAND_SUPERSESSION_CLOCK_SKEW_MS = 5_000;
-const IMDS_TOKEN_URL = 'http://169.254.169.254/latest/api/token';
-const IMDS_METADATA_BASE_URL = 'http://169.254.169.254/latest/meta-data';
 const DEFAULT_MAINTENANCE_TAG_KEY = 'ScaleWorldMaintenanceMode';
 
 export interface ViewerIdleOptions {
@@ -56,8 +63,11 @@ export interface ViewerIdleOptions {
     shutdownLogArtifactCaptureTimeoutMs?: number;
     shutdownScreenshotArtifactCaptureTimeoutMs?: number;
     awsCliPath?: string;
+    // The instance that is stopped and whose maintenance tag is read. Defaults to the EC2
+    // instance, managed with the AWS CLI.
+    identityProvider?: InstanceIdentityProvider;
     dryRun?: boolean;
-    logger?: (message: string) => void;
+    logger?: (message: string, context?: ILogContext) => void;
     runtimeStatusPublisher?: RuntimeStatusPublisher | null;
     runtimeStatusController?: SignallingRuntimeStatusController | null;
     instanceAgentClient?: Pick<
@@ -65,7 +75,6 @@ export interface ViewerIdleOptions {
         | 'getDesiredState'
         | 'getActiveCommand'
         | 'addDesiredStateListener'
-        | 'addCommandListener'
         | 'acknowledgeCommand'
         | 'startCommand'
         | 'completeCommand'
@@ -75,6 +84,16 @@ export interface ViewerIdleOptions {
         | 'requestFastPolling'
     > | null;
     connectTicketRuntimeGate?: Pick<ConnectTicketRuntimeGate, 'markTeardownStarted'> | null;
+    // Receives the recycleToWarm and shutdown handlers and the not_in_maintenance precondition.
+    commandRegistry?: InstanceAgentCommandRegistry | null;
+}
+
+export interface ViewerIdleStopController {
+    // The value of the maintenance tag, or null when the instance is not in maintenance.
+    getMaintenanceMode(): string | null;
+    // The status published by idle stop, such as 'reconnect_grace' or 'stopping', while it
+    // overrides the derived runtime status. Null otherwise.
+    getLifecycleStatus(): { status: string; reason: string } | null;
 }
 
 type RuntimeInstanceCommand = InstanceAgentCommand & { status?: string; attemptNumber?: number };
@@ -83,18 +102,6 @@ type ScaleWorldSessionPlayer = {
     scaleWorldSessionRequestId?: string | null;
 };
 
-async function readCurrentInstanceIdentity(): Promise<{ instanceId: string; region: string }> {
-    const token = await readImdsToken();
-    const [instanceId, region] = await Promise.all([
-        readImdsValue('instance-id', token),
-        readImdsValue('placement/region', token)
-    ]);
-    return {
-        instanceId: instanceId.trim(),
-        region: region.trim()
-    };
-}
-
 function parseBoolean(rawValue: unknown, fallback: boolean): boolean {
     if (typeof rawValue === 'boolean') return rawValue;
     if (typeof rawValue !== 'string') return fallback;
@@ -136,40 +143,21 @@ function parseNonNegativeInteger(
     return parsed;
 }
 
-async function readImdsToken(): Promise<string> {
-    const response = await fetch(IMDS_TOKEN_URL, {
-        method: 'PUT',
-        headers: { 'X-aws-ec2-metadata-token-ttl-seconds': '21600' }
-    });
-    if (!response.ok) throw new Error(`IMDSv2 token request failed with status ${response.status}.`);
-    return response.text();
-}
-
-async function readImdsValue(pathSuffix: string, token: string): Promise<string> {
-    const response = await fetch(`${IMDS_METADATA_BASE_URL}/${pathSuffix}`, {
-        headers: { 'X-aws-ec2-metadata-token': token }
-    });
-    if (!response.ok) throw new Error(`IMDS read for '${pathSuffix}' failed with status ${response.status}.`);
-    return response.text();
-}
-
 async function stopCurrentInstance(
-    awsCliPath: string,
+    identityProvider: InstanceIdentityProvider,
     dryRun: boolean,
     log: (message: string) => void
 ): Promise<void> {
-    const { instanceId, region } = await readCurrentInstanceIdentity();
+    const { instanceId, region } = await identityProvider.getIdentity();
 
     if (dryRun) {
         log(`[idle-stop] DRY RUN: would stop instance ${instanceId} in region ${region}.`);
         return;
     }
 
-    const args = ['ec2', 'stop-instances', '--region', region, '--instance-ids', instanceId];
-    const { stdout, stderr } = await execFileAsync(awsCliPath, args, { windowsHide: true });
-    if (stdout && stdout.trim().length > 0) log(`[idle-stop] StopInstances output: ${stdout.trim()}`);
-    if (stderr && stderr.trim().length > 0) log(`[idle-stop] StopInstances stderr: ${stderr.trim()}`);
-    log(`[idle-stop] StopInstances requested for ${instanceId} (${region}).`);
+    const output = await identityProvider.stopInstance();
+    if (output) log(`[idle-stop] Stop request ${output}`);
+    log(`[idle-stop] Stop requested for ${instanceId} (${region}) through ${identityProvider.kind}.`);
 }
 
 async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string): Promise<T> {
@@ -308,37 +296,6 @@ async function captureShutdownSessionArtifacts(
     }
 }
 
-async function readCurrentMaintenanceMode(
-    awsCliPath: string,
-    maintenanceTagKey: string
-): Promise<string | null> {
-    const { instanceId, region } = await readCurrentInstanceIdentity();
-    const args = [
-        'ec2',
-        'describe-tags',
-        '--region',
-        region,
-        '--filters',
-        `Name=resource-id,Values=${instanceId}`,
-        `Name=key,Values=${maintenanceTagKey}`,
-        '--query',
-        'Tags[0].Value',
-        '--output',
-        'text'
-    ];
-    const { stdout } = await execFileAsync(awsCliPath, args, { windowsHide: true });
-    const normalized = stdout.trim();
-    if (
-        normalized.length === 0 ||
-        normalized.toLowerCase() === 'none' ||
-        normalized.toLowerCase() === 'null'
-    ) {
-        return null;
-    }
-
-    return normalized;
-}
-
 function mapPendingReason(reason: string): string {
     switch (reason) {
         case 'grace-after-last-viewer':
@@ -365,12 +322,15 @@ function mapStopReason(reason: string): string {
     }
 }
 
-export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdleOptions = {}): void {
-    const log = options.logger ?? ((message: string) => Logger.info(message));
+export function wireViewerIdleStop(
+    server: SignallingServer,
+    options: ViewerIdleOptions = {}
+): ViewerIdleStopController | null {
+    const log = options.logger ?? LogWithContext;
     const enabled = parseBoolean(options.enabled ?? process.env.VIEWER_IDLE_STOP_ENABLED ?? true, true);
     if (!enabled) {
         log('[idle-stop] Disabled.');
-        return;
+        return null;
     }
 
     const graceMs = parseNonNegativeInteger(
@@ -438,7 +398,11 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         log
     );
     const dryRun = parseBoolean(options.dryRun ?? process.env.VIEWER_IDLE_STOP_DRY_RUN ?? false, false);
-    const awsCliPath = String(options.awsCliPath ?? process.env.VIEWER_IDLE_AWS_CLI_PATH ?? 'aws');
+    const identityProvider =
+        options.identityProvider ??
+        createAwsInstanceIdentityProvider({
+            awsCliPath: String(options.awsCliPath ?? process.env.VIEWER_IDLE_AWS_CLI_PATH ?? 'aws')
+        });
     const maintenanceTagKey = String(
         options.maintenanceTagKey ??
             process.env.VIEWER_IDLE_MAINTENANCE_TAG_KEY ??
@@ -480,6 +444,8 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
     let lastManagedSessionRequestId: string | null = null;
     let lastManagedSessionObservedAtMs: number | null = null;
     let currentMaintenanceMode: string | null = null;
+    // The status last published here, until the derived status is restored.
+    let lifecycleStatus: { status: string; reason: string } | null = null;
     let maintenanceStateInitialized = false;
     let maintenanceRefreshInFlight = false;
     let lastMaintenanceReadFailure: string | null = null;
@@ -525,6 +491,9 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         reason: string,
         options: { heartbeatOnly?: boolean; preserveStatusAtUtc?: boolean } = {}
     ): void => {
+        if (!options.heartbeatOnly) {
+            lifecycleStatus = { status, reason };
+        }
         if (!runtimeStatusPublisher) return;
         void runtimeStatusPublisher.publish({
             status,
@@ -534,6 +503,10 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             preserveStatusAtUtc: options.preserveStatusAtUtc
         });
     };
+    const restoreDerivedStatus = (restoreOptions?: { preserveStatusAtUtc?: boolean }): void => {
+        lifecycleStatus = null;
+        runtimeStatusController?.restoreDerivedStatus(restoreOptions);
+    };
 
     const clearZeroTimer = (): void => {
         if (zeroViewersTimer) {
@@ -584,10 +557,10 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
     const isMaintenanceActive = (): boolean => (currentMaintenanceMode?.trim().length ?? 0) > 0;
     const isRecycleToWarmCommand = (
         command: { commandType?: string | null; instanceCommandId?: string | null } | null | undefined
-    ): boolean => (command?.commandType?.trim().toLowerCase() ?? '') === 'recycletowarm';
+    ): boolean => isInstanceAgentCommandType(command, RECYCLE_TO_WARM_COMMAND_TYPE);
     const isShutdownCommand = (
         command: { commandType?: string | null; instanceCommandId?: string | null } | null | undefined
-    ): boolean => (command?.commandType?.trim().toLowerCase() ?? '') === 'shutdown';
+    ): boolean => isInstanceAgentCommandType(command, SHUTDOWN_COMMAND_TYPE);
     const markConnectTicketTeardownStarted = (
         reason: string,
         command?: RuntimeInstanceCommand | null,
@@ -695,6 +668,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         if (sessionRequestId) {
             lastManagedSessionRequestId = sessionRequestId;
             lastManagedSessionObservedAtMs = Date.now();
+            SetLogContext({ sessionRequestId });
         }
         return true;
     };
@@ -746,7 +720,8 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         }
 
         log(
-            `[idle-stop] Cancelling stale ${command.commandType} command ${command.instanceCommandId} from ${source} because it targets session request ${command.sessionRequestId ?? '(none)'} while the current managed session request is ${lastManagedSessionRequestId}.`
+            `[idle-stop] Cancelling stale ${command.commandType} command ${command.instanceCommandId} from ${source} because it targets session request ${command.sessionRequestId ?? '(none)'} while the current managed session request is ${lastManagedSessionRequestId}.`,
+            { instanceCommandId: command.instanceCommandId }
         );
 
         if (!options.instanceAgentClient) {
@@ -764,7 +739,8 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             log(
-                `[idle-stop] Failed to cancel stale command ${command.instanceCommandId} from ${source}: ${message}`
+                `[idle-stop] Failed to cancel stale command ${command.instanceCommandId} from ${source}: ${message}`,
+                { instanceCommandId: command.instanceCommandId }
             );
         } finally {
             refreshActiveCommand();
@@ -925,7 +901,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
         maintenanceRefreshInFlight = true;
         try {
-            const nextMaintenanceMode = await readCurrentMaintenanceMode(awsCliPath, maintenanceTagKey);
+            const nextMaintenanceMode = await identityProvider.readTag(maintenanceTagKey);
             maintenanceStateInitialized = true;
             if (nextMaintenanceMode !== currentMaintenanceMode) {
                 currentMaintenanceMode = nextMaintenanceMode;
@@ -1053,7 +1029,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
         if (isWarmHoldActive()) {
             clearAllIdleStopTimers();
-            runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+            restoreDerivedStatus({ preserveStatusAtUtc: true });
             return;
         }
 
@@ -1073,7 +1049,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             }
 
             if (canHoldWarmReadyWithoutShutdown()) {
-                runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                restoreDerivedStatus({ preserveStatusAtUtc: true });
                 return;
             }
 
@@ -1083,7 +1059,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
         if (resetTimer && shouldSuppressNoViewerIdleAutomation()) {
             clearResetTimer();
-            runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+            restoreDerivedStatus({ preserveStatusAtUtc: true });
             return;
         }
 
@@ -1099,7 +1075,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             }
 
             if (canHoldWarmReadyWithoutShutdown()) {
-                runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                restoreDerivedStatus({ preserveStatusAtUtc: true });
                 return;
             }
 
@@ -1173,7 +1149,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         clearReconnectGraceTimer();
         if (shouldSuppressNoViewerIdleAutomation()) {
             clearAllIdleStopTimers();
-            runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+            restoreDerivedStatus({ preserveStatusAtUtc: true });
             return;
         }
 
@@ -1239,7 +1215,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             }
 
             if (server.playerRegistry.count() > 0) {
-                runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                restoreDerivedStatus({ preserveStatusAtUtc: true });
                 return;
             }
 
@@ -1250,7 +1226,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
             if (!shouldResetIntoWarmReady()) {
                 if (canHoldWarmReadyWithoutShutdown()) {
-                    runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                    restoreDerivedStatus({ preserveStatusAtUtc: true });
                     return;
                 }
 
@@ -1286,7 +1262,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             }
 
             if (server.playerRegistry.count() > 0) {
-                runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                restoreDerivedStatus({ preserveStatusAtUtc: true });
                 return;
             }
 
@@ -1302,7 +1278,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
             if (shouldSuppressNoViewerIdleAutomation()) {
                 if (!hasSeenManagedSessionViewer) {
-                    runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                    restoreDerivedStatus({ preserveStatusAtUtc: true });
                     log(
                         '[idle-stop] Warm-held reconnect grace expired without managed session evidence. Restoring derived status without passive recycle.'
                     );
@@ -1365,7 +1341,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         clearReconnectGraceTimer();
         clearResetTimer();
         if (server.playerRegistry.count() > 0 || !maintenanceStateInitialized || isMaintenanceActive()) {
-            runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+            restoreDerivedStatus({ preserveStatusAtUtc: true });
             return;
         }
 
@@ -1380,7 +1356,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             return;
         }
 
-        runtimeStatusController?.restoreDerivedStatus();
+        restoreDerivedStatus();
     };
 
     const requestStackRecycle = async (): Promise<void> => {
@@ -1389,13 +1365,13 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         }
 
         if (!maintenanceStateInitialized || isMaintenanceActive() || server.playerRegistry.count() > 0) {
-            runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+            restoreDerivedStatus({ preserveStatusAtUtc: true });
             return;
         }
 
         if (!shouldResetIntoWarmReady()) {
             if (canHoldWarmReadyWithoutShutdown()) {
-                runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                restoreDerivedStatus({ preserveStatusAtUtc: true });
                 return;
             }
 
@@ -1577,7 +1553,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
         if (server.playerRegistry.count() > 0) {
             log('[idle-stop] Stop request aborted because viewers are connected.');
-            runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+            restoreDerivedStatus({ preserveStatusAtUtc: true });
             return false;
         }
 
@@ -1588,7 +1564,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
             if (hasSeenViewer) {
                 scheduleWarmHoldReconnectGrace(graceMs);
             } else {
-                runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
+                restoreDerivedStatus({ preserveStatusAtUtc: true });
             }
             return false;
         }
@@ -1640,7 +1616,7 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
 
             publishStatus('stopping', mapStopReason(reason));
             log(`[idle-stop] Triggering stop (reason=${reason}).`);
-            await stopCurrentInstance(awsCliPath, dryRun, log);
+            await stopCurrentInstance(identityProvider, dryRun, log);
             const commandToComplete = getActiveShutdownCommand();
             if (commandToComplete && options.instanceAgentClient) {
                 try {
@@ -1712,8 +1688,8 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         clearTransientStatusHeartbeat();
         clearReconnectGraceTimer();
         clearResetTimer();
-        runtimeStatusController?.restoreDerivedStatus({ preserveStatusAtUtc: true });
-        log(`[idle-stop] Viewer connected (count=${server.playerRegistry.count()}).`);
+        restoreDerivedStatus({ preserveStatusAtUtc: true });
+        log(`[idle-stop] Viewer connected (count=${server.playerRegistry.count()}).`, { playerId });
     };
 
     const onViewerRemoved = (removedPlayerId?: string): void => {
@@ -1725,7 +1701,8 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
                 : false;
         const effectiveCount = Math.max(0, rawCount - (removedEntryStillPresent ? 1 : 0));
         log(
-            `[idle-stop] Viewer disconnected (count=${effectiveCount}, rawCount=${rawCount}, removedEntryStillPresent=${removedEntryStillPresent}).`
+            `[idle-stop] Viewer disconnected (count=${effectiveCount}, rawCount=${rawCount}, removedEntryStillPresent=${removedEntryStillPresent}).`,
+            { playerId: removedPlayerId }
         );
         if (effectiveCount !== 0) {
             return;
@@ -1794,100 +1771,65 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
         options.instanceAgentClient.addDesiredStateListener((nextDesiredState, context) => {
             applyDesiredStateSnapshot(nextDesiredState, `agent:${context.source}`);
         });
-        options.instanceAgentClient.addCommandListener((command: InstanceAgentCommand) => {
-            void (async () => {
-                let trackedCommand = readActiveCommand();
-                if (trackedCommand && (await failSupersededCommand(trackedCommand, 'active-command'))) {
-                    trackedCommand = null;
-                }
-
-                if (await failSupersededCommand(command, 'command-listener')) {
-                    return;
-                }
+    }
 
-                if (trackedCommand && trackedCommand.instanceCommandId === command.instanceCommandId) {
-                    return;
-                }
+    const commandRegistry = options.commandRegistry;
+    if (commandRegistry) {
+        commandRegistry.definePrecondition('not_in_maintenance', () =>
+            !maintenanceStateInitialized
+                ? 'The maintenance mode has not been read yet.'
+                : isMaintenanceActive()
+                  ? `The instance is in maintenance mode '${currentMaintenanceMode}'.`
+                  : null
+        );
+        commandRegistry.addDispatchFilter(async (command) => {
+            const trackedCommand = readActiveCommand();
+            if (trackedCommand) {
+                await failSupersededCommand(trackedCommand, 'active-command');
+            }
+            return !(await failSupersededCommand(command, 'command-listener'));
+        });
 
-                if (!isRecycleToWarmCommand(command) && !isShutdownCommand(command)) {
-                    log(
-                        `[idle-stop] Unsupported instance command ${command.instanceCommandId} (${command.commandType}). Reporting failure.`
-                    );
-                    try {
-                        await options.instanceAgentClient?.failCommand(command, {
-                            failureCode: 'unsupported_command',
-                            failureMessage: `Unsupported command type '${command.commandType}'.`,
-                            terminalStatus: 'Failed',
-                            occurredAtUtc: new Date().toISOString()
-                        });
-                    } catch (error) {
-                        const message = error instanceof Error ? error.message : String(error);
-                        log(
-                            `[idle-stop] Failed to report unsupported command ${command.instanceCommandId}: ${message}`
-                        );
-                    } finally {
-                        refreshActiveCommand();
+        const runTeardownCommand = async (command: InstanceAgentCommand): Promise<void> => {
+            markConnectTicketTeardownStarted(
+                isShutdownCommand(command) ? 'explicit_shutdown_command' : 'explicit_recycle_command',
+                command
+            );
+            observedCommand = command;
+            try {
+                await options.instanceAgentClient?.acknowledgeCommand(command, {
+                    occurredAtUtc: new Date().toISOString()
+                });
+                observedCommand = null;
+                refreshActiveCommand();
+                if (server.playerRegistry.count() === 0) {
+                    if (isShutdownCommand(command)) {
+                        void requestStop('command_shutdown_requested');
+                        return;
                     }
-                    return;
-                }
 
-                if (trackedCommand && trackedCommand.instanceCommandId !== command.instanceCommandId) {
-                    log(
-                        `[idle-stop] Rejecting recycle command ${command.instanceCommandId} because command ${trackedCommand.instanceCommandId} is already active.`
-                    );
-                    try {
-                        await options.instanceAgentClient?.failCommand(command, {
-                            failureCode: 'command_conflict',
-                            failureMessage: `Instance command '${trackedCommand.instanceCommandId}' is already active on this host.`,
-                            terminalStatus: 'Cancelled',
-                            occurredAtUtc: new Date().toISOString()
-                        });
-                    } catch (error) {
-                        const message = error instanceof Error ? error.message : String(error);
-                        log(
-                            `[idle-stop] Failed to report conflicting command ${command.instanceCommandId}: ${message}`
-                        );
+                    if (hasRecycleLaunchInProgress()) {
+                        await tryStartLaunchedRecycleCommand('command_ack_after_recycle_launch');
+                        return;
                     }
-                    return;
-                }
 
-                markConnectTicketTeardownStarted(
-                    isShutdownCommand(command) ? 'explicit_shutdown_command' : 'explicit_recycle_command',
-                    command
-                );
-                observedCommand = command;
-                try {
-                    await options.instanceAgentClient?.acknowledgeCommand(command, {
-                        occurredAtUtc: new Date().toISOString()
-                    });
+                    tryResumeActiveRecycleCommand();
+                } else {
+                    disconnectPlayersForExplicitTeardown(command);
+                }
+            } catch (error) {
+                if (observedCommand?.instanceCommandId === command.instanceCommandId) {
                     observedCommand = null;
-                    refreshActiveCommand();
-                    if (server.playerRegistry.count() === 0) {
-                        if (isShutdownCommand(command)) {
-                            void requestStop('command_shutdown_requested');
-                            return;
-                        }
-
-                        if (hasRecycleLaunchInProgress()) {
-                            await tryStartLaunchedRecycleCommand('command_ack_after_recycle_launch');
-                            return;
-                        }
-
-                        tryResumeActiveRecycleCommand();
-                    } else {
-                        disconnectPlayersForExplicitTeardown(command);
-                    }
-                } catch (error) {
-                    if (observedCommand?.instanceCommandId === command.instanceCommandId) {
-                        observedCommand = null;
-                    }
-                    const message = error instanceof Error ? error.message : String(error);
-                    log(
-                        `${isShutdownCommand(command) ? '[idle-stop] Failed to acknowledge shutdown command' : '[idle-stop] Failed to acknowledge recycle command'} ${command.instanceCommandId}: ${message}`
-                    );
                 }
-            })();
-        });
+                const message = error instanceof Error ? error.message : String(error);
+                log(
+                    `${isShutdownCommand(command) ? '[idle-stop] Failed to acknowledge shutdown command' : '[idle-stop] Failed to acknowledge recycle command'} ${command.instanceCommandId}: ${message}`
+                );
+            }
+        };
+        for (const commandType of [RECYCLE_TO_WARM_COMMAND_TYPE, SHUTDOWN_COMMAND_TYPE]) {
+            commandRegistry.register({ commandType, selfManaged: true, run: runTeardownCommand });
+        }
     }
 
     if (maintenanceRefreshMs > 0 && maintenanceTagKey.length > 0) {
@@ -1914,4 +1856,9 @@ export function wireViewerIdleStop(server: SignallingServer, options: ViewerIdle
     tryResumeActiveRecycleCommand();
     tryResumeActiveShutdownCommand();
     tryResumeDesiredStateShutdown();
+
+    return {
+        getMaintenanceMode: () => (isMaintenanceActive() ? currentMaintenanceMode : null),
+        getLifecycleStatus: () => lifecycleStatus
+    };
 }